@@ -1,10 +1,32 @@
-import { createTRPCClient, httpBatchLink, loggerLink } from '@trpc/client';
+import { createTRPCClient, httpBatchLink, httpLink, isNonJsonSerializable, loggerLink, splitLink } from '@trpc/client';
 import type { AppRouter } from '../../../server/src';
 import superjson from 'superjson';
 
+// Session token returned by the login procedure
+function authHeaders() {
+  const token = localStorage.getItem('session_token');
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
 export const trpc = createTRPCClient<AppRouter>({
   links: [
-    httpBatchLink({ url: '/api', transformer: superjson }),
+    // File uploads (FormData) cannot be batched and skip the JSON transformer
+    splitLink({
+      condition: (op) => isNonJsonSerializable(op.input),
+      true: httpLink({
+        url: '/api',
+        transformer: {
+          serialize: (data) => data,
+          deserialize: superjson.deserialize,
+        },
+        headers: authHeaders,
+      }),
+      false: httpBatchLink({
+        url: '/api',
+        transformer: superjson,
+        headers: authHeaders,
+      }),
+    }),
     loggerLink({
           enabled: (opts) =>
             (typeof window !== 'undefined') ||
@@ -9,3 +9,6 @@ const pool = new Pool({
 
 // Pass schema to drizzle for relation queries
 export const db = drizzle(pool, { schema });
+
+// Handle passed to the callback of db.transaction
+export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
@@ -1,6 +1,13 @@
-import { serial, text, pgTable, timestamp, integer, boolean, pgEnum } from 'drizzle-orm/pg-core';
+import { serial, text, pgTable, timestamp, integer, boolean, pgEnum, customType, unique, type AnyPgColumn } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 
+// Raw binary column, returned by node-postgres as a Buffer
+const bytea = customType<{ data: Buffer; driverData: Buffer }>({
+  dataType() {
+    return 'bytea';
+  }
+});
+
 // Enums
 export const userRoleEnum = pgEnum('user_role', [
   'STUDENT',
@@ -29,6 +36,7 @@ export const requestStatusEnum = pgEnum('request_status', [
   'DISPOSISI_TO_KAUR_AKADEMIK',
   'DISPOSISI_TO_KAUR_KEMAHASISWAAN',
   'DISPOSISI_TO_KAUR_KEUANGAN',
+  'DISPOSISI_PARALLEL',
   'PROCESSED_BY_WD1',
   'PROCESSED_BY_WD2',
   'PROCESSED_BY_WD3',
@@ -37,6 +45,7 @@ export const requestStatusEnum = pgEnum('request_status', [
   'PROCESSED_BY_KAUR_KEMAHASISWAAN',
   'PROCESSED_BY_KAUR_KEUANGAN',
   'TTD_READY',
+  'REVISION_REQUESTED',
   'TTD_DONE',
   'RETURNED_TO_PRODI',
   'PRINTED',
@@ -48,6 +57,32 @@ export const requestStatusEnum = pgEnum('request_status', [
 
 export const priorityEnum = pgEnum('priority', ['NORMAL', 'URGENT']);
 
+export const numberResetPeriodEnum = pgEnum('number_reset_period', ['YEARLY', 'MONTHLY']);
+
+export const documentStatusEnum = pgEnum('document_status', ['ACCEPTED', 'QUARANTINED']);
+
+export const letterVersionSourceEnum = pgEnum('letter_version_source', ['UPLOADED', 'GENERATED']);
+
+export const deliveryMethodEnum = pgEnum('delivery_method', ['PICKUP', 'EMAIL', 'COURIER']);
+
+// Academic status as reported by SIAKAD
+export const studentStatusEnum = pgEnum('student_status', ['ACTIVE', 'LEAVE', 'GRADUATED', 'DROPPED_OUT']);
+
+export const escalationCategoryEnum = pgEnum('escalation_category', [
+  'MISSING_INFORMATION',
+  'POLICY_QUESTION',
+  'OUT_OF_SCOPE',
+  'WORKLOAD',
+  'OTHER'
+]);
+
+export const escalationResolutionEnum = pgEnum('escalation_resolution', [
+  'RETURNED_TO_OFFICER',
+  'REROUTED',
+  'SENT_TO_DEKAN',
+  'REJECTED'
+]);
+
 export const actionTypeEnum = pgEnum('action_type', [
   'CREATED',
   'APPROVED',
@@ -62,41 +97,169 @@ export const actionTypeEnum = pgEnum('action_type', [
   'DELIVERED',
   'ARCHIVED',
   'NOTE_ADDED',
-  'DOCUMENT_UPLOADED'
+  'DOCUMENT_UPLOADED',
+  'VERSION_RESTORED',
+  'REVISION_REQUESTED',
+  'RESUBMITTED',
+  'DISPOSISI_AMENDED',
+  'DISPOSISI_WITHDRAWN',
+  'ESCALATION_RESOLVED'
 ]);
 
 // Users table
+// Organizational master: faculties and the study programs (prodi) they run
+export const facultiesTable = pgTable('faculties', {
+  id: serial('id').primaryKey(),
+  code: text('code').unique().notNull(), // Stored upper case
+  name: text('name').unique().notNull(),
+  is_active: boolean('is_active').notNull().default(true),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+export const studyProgramsTable = pgTable('study_programs', {
+  id: serial('id').primaryKey(),
+  code: text('code').unique().notNull(), // Stored upper case
+  name: text('name').unique().notNull(),
+  faculty_id: integer('faculty_id').notNull().references(() => facultiesTable.id),
+  is_active: boolean('is_active').notNull().default(true),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
 export const usersTable = pgTable('users', {
   id: serial('id').primaryKey(),
   email: text('email').unique().notNull(),
   name: text('name').notNull(),
   role: userRoleEnum('role').notNull(),
-  prodi: text('prodi'), // Nullable for roles that don't need prodi
+  prodi: text('prodi'), // Nullable for roles that don't need prodi; the study program's name once linked
+  study_program_id: integer('study_program_id').references(() => studyProgramsTable.id),
+  password_hash: text('password_hash'), // Nullable for accounts that cannot log in yet
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
 
+// Sessions table - stores only a hash of the bearer token handed to the client
+export const sessionsTable = pgTable('sessions', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').references(() => usersTable.id).notNull(),
+  token_hash: text('token_hash').unique().notNull(),
+  expires_at: timestamp('expires_at').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
 // Students table
 export const studentsTable = pgTable('students', {
   id: serial('id').primaryKey(),
   nim: text('nim').unique().notNull(),
   name: text('name').notNull(),
-  prodi: text('prodi').notNull(),
+  prodi: text('prodi').notNull(), // The study program's name once linked
+  study_program_id: integer('study_program_id').references(() => studyProgramsTable.id),
+  status: studentStatusEnum('status').notNull().default('ACTIVE'),
+  angkatan: integer('angkatan'), // Cohort: the year the student enrolled
+  semester: integer('semester'), // Current semester, as of the last import
+  faculty_id: integer('faculty_id').references(() => facultiesTable.id), // The study program's faculty; null while unmapped
+  // The STUDENT account registered for this record; null until the student registers
+  user_id: integer('user_id').references(() => usersTable.id).unique(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// One-time code staff hand to a student for registerStudent; only its hash is stored, and issuing a new
+// code replaces the previous one
+export const studentRegistrationCodesTable = pgTable('student_registration_codes', {
+  id: serial('id').primaryKey(),
+  student_id: integer('student_id').references(() => studentsTable.id).unique().notNull(),
+  code_hash: text('code_hash').notNull(),
+  issued_by_user_id: integer('issued_by_user_id').references(() => usersTable.id).notNull(),
+  expires_at: timestamp('expires_at').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// One run of importStudents; dry runs are not recorded
+export const studentImportBatchesTable = pgTable('student_import_batches', {
+  id: serial('id').primaryKey(),
+  file_name: text('file_name').notNull(),
+  size_bytes: integer('size_bytes').notNull(),
+  sha256: text('sha256').notNull(),
+  imported_by_user_id: integer('imported_by_user_id').references(() => usersTable.id).notNull(),
+  total_rows: integer('total_rows').notNull(),
+  created_count: integer('created_count').notNull(),
+  updated_count: integer('updated_count').notNull(),
+  unchanged_count: integer('unchanged_count').notNull(),
+  error_count: integer('error_count').notNull(),
   created_at: timestamp('created_at').defaultNow().notNull()
 });
 
+// Rows of an import batch that were skipped, with the reason
+export const studentImportErrorsTable = pgTable('student_import_errors', {
+  id: serial('id').primaryKey(),
+  batch_id: integer('batch_id').references(() => studentImportBatchesTable.id).notNull(),
+  row_number: integer('row_number').notNull(), // Spreadsheet row, the header being row 1
+  nim: text('nim'),
+  message: text('message').notNull()
+});
+
+// Letter types - the managed catalog requests pick their letter_type code from
+export const letterTypesTable = pgTable('letter_types', {
+  id: serial('id').primaryKey(),
+  code: text('code').unique().notNull(), // e.g. SKAK
+  name: text('name').notNull(),
+  description: text('description'),
+  // Document types a request must bring, matched against supporting_documents.document_type
+  required_documents: text('required_documents').array().notNull().default([]),
+  default_priority: priorityEnum('default_priority').notNull().default('NORMAL'),
+  default_disposition_chain: userRoleEnum('default_disposition_chain').array().notNull().default([]),
+  sla_days: integer('sla_days'),
+  // Issued by the prodi on the Kaprodi's approval, without going to the Dean
+  prodi_level_only: boolean('prodi_level_only').notNull().default(false),
+  // Upload rules for supporting documents; a null size falls back to the server-wide UPLOAD_MAX_BYTES
+  allowed_mime_types: text('allowed_mime_types').array().notNull().default(['application/pdf', 'image/jpeg', 'image/png']),
+  max_upload_bytes: integer('max_upload_bytes'),
+  // Who may request the letter: student statuses (empty allows any) and the earliest semester
+  eligible_statuses: studentStatusEnum('eligible_statuses').array().notNull().default([]),
+  min_semester: integer('min_semester'),
+  is_active: boolean('is_active').notNull().default(true),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Rejection reasons - the managed list a rejection must pick its reason code from
+export const rejectionReasonsTable = pgTable('rejection_reasons', {
+  id: serial('id').primaryKey(),
+  code: text('code').unique().notNull(), // e.g. INCOMPLETE_DOCUMENTS
+  label: text('label').notNull(),
+  description: text('description'),
+  is_active: boolean('is_active').notNull().default(true),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
 // Letter requests table
 export const letterRequestsTable = pgTable('letter_requests', {
   id: serial('id').primaryKey(),
   student_id: integer('student_id').references(() => studentsTable.id).notNull(),
   created_by_user_id: integer('created_by_user_id').references(() => usersTable.id).notNull(),
-  letter_type: text('letter_type').notNull(),
+  letter_type: text('letter_type').notNull(), // Code from letter_types
   purpose: text('purpose').notNull(),
   priority: priorityEnum('priority').notNull(),
   status: requestStatusEnum('status').notNull(),
   current_handler_user_id: integer('current_handler_user_id').references(() => usersTable.id),
+  // Officers of a parallel disposition step still working on it; empty outside DISPOSISI_PARALLEL
+  parallel_handler_user_ids: integer('parallel_handler_user_ids').array().notNull().default([]),
   dekan_instructions: text('dekan_instructions'),
   final_letter_url: text('final_letter_url'),
+  // The letter version final_letter_url belongs to
+  current_letter_version_id: integer('current_letter_version_id').references((): AnyPgColumn => letterVersionsTable.id),
+  letter_number: text('letter_number').unique(), // Official number, allocated when the Dean signs
+  verification_token: text('verification_token').unique(), // Public token behind the QR code on the letter
+  revision_count: integer('revision_count').notNull().default(0), // Times the Dean sent the letter back before signing
+  // Why the request was last rejected; cleared when the creator resubmits it
+  rejection_reason_code: text('rejection_reason_code'), // Code from rejection_reasons
+  rejection_notes: text('rejection_notes'),
+  // When the letter should be delivered: the letter type's SLA in working days from submission, if it has one
+  due_at: timestamp('due_at'),
+  // Bumped on every change to the row; mutations must name the version they expect
+  version: integer('version').notNull().default(1),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
@@ -107,10 +270,34 @@ export const supportingDocumentsTable = pgTable('supporting_documents', {
   letter_request_id: integer('letter_request_id').references(() => letterRequestsTable.id).notNull(),
   file_name: text('file_name').notNull(),
   file_url: text('file_url').notNull(),
+  document_type: text('document_type'), // e.g. KTM; what required_documents of the letter type refer to
+  // Set for files held by the storage backend; null for documents recorded by URL before uploads existed
+  storage_key: text('storage_key').unique(),
+  mime_type: text('mime_type'),
+  size_bytes: integer('size_bytes'),
+  sha256: text('sha256'),
+  page_count: integer('page_count'), // PDFs only
+  // Uploads failing the content checks are kept for review but not served
+  status: documentStatusEnum('status').notNull().default('ACCEPTED'),
+  quarantine_reason: text('quarantine_reason'),
   uploaded_by_user_id: integer('uploaded_by_user_id').references(() => usersTable.id).notNull(),
   created_at: timestamp('created_at').defaultNow().notNull()
 });
 
+// Letter deliveries table - how a printed letter reached the student, one row per request
+export const letterDeliveriesTable = pgTable('letter_deliveries', {
+  id: serial('id').primaryKey(),
+  letter_request_id: integer('letter_request_id').references(() => letterRequestsTable.id).notNull().unique(),
+  recipient_name: text('recipient_name').notNull(),
+  delivery_method: deliveryMethodEnum('delivery_method').notNull(),
+  // Optional photo of the hand-over, held by the storage backend
+  proof_storage_key: text('proof_storage_key').unique(),
+  proof_file_name: text('proof_file_name'),
+  proof_mime_type: text('proof_mime_type'),
+  delivered_by_user_id: integer('delivered_by_user_id').references(() => usersTable.id).notNull(),
+  delivered_at: timestamp('delivered_at').defaultNow().notNull()
+});
+
 // Tracking logs table
 export const trackingLogsTable = pgTable('tracking_logs', {
   id: serial('id').primaryKey(),
@@ -134,24 +321,200 @@ export const dispositionAssignmentsTable = pgTable('disposition_assignments', {
   order_sequence: integer('order_sequence').notNull(),
   is_completed: boolean('is_completed').default(false).notNull(),
   completed_at: timestamp('completed_at'),
+  // Set instead of completing when the officer escalates; resolveEscalation restarts the step with a new assignment
+  escalated_at: timestamp('escalated_at'),
   notes: text('notes'),
   created_at: timestamp('created_at').defaultNow().notNull()
 });
 
+// Escalations table - raised by an officer from processDisposition, resolved by an admin
+export const escalationsTable = pgTable('escalations', {
+  id: serial('id').primaryKey(),
+  letter_request_id: integer('letter_request_id').references(() => letterRequestsTable.id).notNull(),
+  // The assignment the officer could not complete
+  assignment_id: integer('assignment_id').references(() => dispositionAssignmentsTable.id).notNull(),
+  raised_by_user_id: integer('raised_by_user_id').references(() => usersTable.id).notNull(),
+  category: escalationCategoryEnum('category').notNull(),
+  reason: text('reason').notNull(),
+  raised_at: timestamp('raised_at').defaultNow().notNull(),
+  // Open while resolved_at is null
+  resolution: escalationResolutionEnum('resolution'),
+  resolution_notes: text('resolution_notes'),
+  resolved_by_user_id: integer('resolved_by_user_id').references(() => usersTable.id),
+  resolved_at: timestamp('resolved_at'),
+  time_to_resolve_seconds: integer('time_to_resolve_seconds')
+});
+
+// Letter templates table - rows are never edited, a change creates the next version for the letter type
+export const letterTemplatesTable = pgTable('letter_templates', {
+  id: serial('id').primaryKey(),
+  letter_type: text('letter_type').notNull(),
+  version: integer('version').notNull(),
+  title: text('title').notNull(),
+  body: text('body').notNull(),
+  created_by_user_id: integer('created_by_user_id').references(() => usersTable.id).notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  unique('letter_templates_letter_type_version_unique').on(table.letter_type, table.version)
+]);
+
+// Generated letters table - the rendered PDF and the exact template version it came from
+export const generatedLettersTable = pgTable('generated_letters', {
+  id: serial('id').primaryKey(),
+  letter_request_id: integer('letter_request_id').references(() => letterRequestsTable.id).notNull(),
+  template_id: integer('template_id').references(() => letterTemplatesTable.id).notNull(),
+  file_name: text('file_name').notNull(),
+  content: bytea('content').notNull(),
+  generated_by_user_id: integer('generated_by_user_id').references(() => usersTable.id).notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Letter versions - every final letter handed to the Dean, uploaded or generated, numbered per request
+export const letterVersionsTable = pgTable('letter_versions', {
+  id: serial('id').primaryKey(),
+  letter_request_id: integer('letter_request_id').references(() => letterRequestsTable.id).notNull(),
+  version_number: integer('version_number').notNull(),
+  source: letterVersionSourceEnum('source').notNull(),
+  file_url: text('file_url').notNull(), // files/<key> or generated-letters/<id>
+  file_name: text('file_name').notNull(),
+  size_bytes: integer('size_bytes').notNull(),
+  sha256: text('sha256').notNull(),
+  change_note: text('change_note'),
+  created_by_user_id: integer('created_by_user_id').references(() => usersTable.id).notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  unique('letter_versions_request_version_unique').on(table.letter_request_id, table.version_number)
+]);
+
+// Signer keys - one Ed25519 key pair per signer, the private key encrypted with SIGNING_KEY_SECRET
+export const signerKeysTable = pgTable('signer_keys', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').references(() => usersTable.id).notNull(),
+  algorithm: text('algorithm').notNull(),
+  public_key: text('public_key').notNull(), // SPKI PEM
+  encrypted_private_key: text('encrypted_private_key').notNull(), // Encrypted PKCS#8 PEM
+  fingerprint: text('fingerprint').unique().notNull(), // SHA-256 of the public key
+  certificate: text('certificate').notNull(), // Binds the public key to the signer's identity
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  revoked_at: timestamp('revoked_at')
+});
+
+// Letter signatures - what exactly was signed, by whom and with which key
+export const letterSignaturesTable = pgTable('letter_signatures', {
+  id: serial('id').primaryKey(),
+  letter_request_id: integer('letter_request_id').references(() => letterRequestsTable.id).notNull(),
+  signer_user_id: integer('signer_user_id').references(() => usersTable.id).notNull(),
+  signer_key_id: integer('signer_key_id').references(() => signerKeysTable.id).notNull(),
+  letter_number: text('letter_number').notNull(),
+  final_letter_url: text('final_letter_url').notNull(),
+  document_hash: text('document_hash').notNull(), // SHA-256 hex of the final letter at signing time
+  algorithm: text('algorithm').notNull(),
+  signature: text('signature').notNull(), // Base64
+  certificate: text('certificate').notNull(), // Copy of the signer certificate used
+  signed_at: timestamp('signed_at').notNull()
+});
+
+// Letter number formats - one per letter type, the row without a letter type is the faculty default
+export const letterNumberFormatsTable = pgTable('letter_number_formats', {
+  id: serial('id').primaryKey(),
+  letter_type: text('letter_type').unique('letter_number_formats_letter_type_unique', { nulls: 'not distinct' }),
+  unit_code: text('unit_code').notNull(),
+  classification_code: text('classification_code').notNull(),
+  pattern: text('pattern').notNull(),
+  reset_period: numberResetPeriodEnum('reset_period').default('YEARLY').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Letter number counters - last sequence handed out per format and reset period (e.g. '2026' or '2026-03')
+export const letterNumberCountersTable = pgTable('letter_number_counters', {
+  id: serial('id').primaryKey(),
+  format_id: integer('format_id').references(() => letterNumberFormatsTable.id).notNull(),
+  period: text('period').notNull(),
+  last_sequence: integer('last_sequence').notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+}, (table) => [
+  unique('letter_number_counters_format_period_unique').on(table.format_id, table.period)
+]);
+
 // Relations
-export const usersRelations = relations(usersTable, ({ many }) => ({
+export const facultiesRelations = relations(facultiesTable, ({ many }) => ({
+  studyPrograms: many(studyProgramsTable)
+}));
+
+export const studyProgramsRelations = relations(studyProgramsTable, ({ one, many }) => ({
+  faculty: one(facultiesTable, {
+    fields: [studyProgramsTable.faculty_id],
+    references: [facultiesTable.id]
+  }),
+  users: many(usersTable),
+  students: many(studentsTable)
+}));
+
+export const usersRelations = relations(usersTable, ({ one, many }) => ({
+  studyProgram: one(studyProgramsTable, {
+    fields: [usersTable.study_program_id],
+    references: [studyProgramsTable.id]
+  }),
   createdRequests: many(letterRequestsTable, { relationName: 'createdBy' }),
   currentlyHandling: many(letterRequestsTable, { relationName: 'currentHandler' }),
   trackingLogs: many(trackingLogsTable),
+  sessions: many(sessionsTable),
   uploadedDocuments: many(supportingDocumentsTable),
   assignedDispositions: many(dispositionAssignmentsTable, { relationName: 'assignedTo' }),
-  createdDispositions: many(dispositionAssignmentsTable, { relationName: 'assignedBy' })
+  createdDispositions: many(dispositionAssignmentsTable, { relationName: 'assignedBy' }),
+  raisedEscalations: many(escalationsTable, { relationName: 'raisedBy' }),
+  resolvedEscalations: many(escalationsTable, { relationName: 'resolvedBy' }),
+  signerKeys: many(signerKeysTable),
+  studentRecord: one(studentsTable),
+  studentImports: many(studentImportBatchesTable)
+}));
+
+export const sessionsRelations = relations(sessionsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [sessionsTable.user_id],
+    references: [usersTable.id]
+  })
 }));
 
-export const studentsRelations = relations(studentsTable, ({ many }) => ({
+export const studentsRelations = relations(studentsTable, ({ one, many }) => ({
+  studyProgram: one(studyProgramsTable, {
+    fields: [studentsTable.study_program_id],
+    references: [studyProgramsTable.id]
+  }),
+  user: one(usersTable, {
+    fields: [studentsTable.user_id],
+    references: [usersTable.id]
+  }),
   letterRequests: many(letterRequestsTable)
 }));
 
+export const studentRegistrationCodesRelations = relations(studentRegistrationCodesTable, ({ one }) => ({
+  student: one(studentsTable, {
+    fields: [studentRegistrationCodesTable.student_id],
+    references: [studentsTable.id]
+  }),
+  issuedBy: one(usersTable, {
+    fields: [studentRegistrationCodesTable.issued_by_user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const studentImportBatchesRelations = relations(studentImportBatchesTable, ({ one, many }) => ({
+  importedBy: one(usersTable, {
+    fields: [studentImportBatchesTable.imported_by_user_id],
+    references: [usersTable.id]
+  }),
+  errors: many(studentImportErrorsTable)
+}));
+
+export const studentImportErrorsRelations = relations(studentImportErrorsTable, ({ one }) => ({
+  batch: one(studentImportBatchesTable, {
+    fields: [studentImportErrorsTable.batch_id],
+    references: [studentImportBatchesTable.id]
+  })
+}));
+
 export const letterRequestsRelations = relations(letterRequestsTable, ({ one, many }) => ({
   student: one(studentsTable, {
     fields: [letterRequestsTable.student_id],
@@ -169,7 +532,17 @@ export const letterRequestsRelations = relations(letterRequestsTable, ({ one, ma
   }),
   supportingDocuments: many(supportingDocumentsTable),
   trackingLogs: many(trackingLogsTable),
-  dispositionAssignments: many(dispositionAssignmentsTable)
+  dispositionAssignments: many(dispositionAssignmentsTable),
+  escalations: many(escalationsTable),
+  delivery: one(letterDeliveriesTable),
+  generatedLetters: many(generatedLettersTable),
+  letterVersions: many(letterVersionsTable, { relationName: 'letterVersions' }),
+  currentLetterVersion: one(letterVersionsTable, {
+    fields: [letterRequestsTable.current_letter_version_id],
+    references: [letterVersionsTable.id],
+    relationName: 'currentLetterVersion'
+  }),
+  signatures: many(letterSignaturesTable)
 }));
 
 export const supportingDocumentsRelations = relations(supportingDocumentsTable, ({ one }) => ({
@@ -183,6 +556,17 @@ export const supportingDocumentsRelations = relations(supportingDocumentsTable,
   })
 }));
 
+export const letterDeliveriesRelations = relations(letterDeliveriesTable, ({ one }) => ({
+  letterRequest: one(letterRequestsTable, {
+    fields: [letterDeliveriesTable.letter_request_id],
+    references: [letterRequestsTable.id]
+  }),
+  deliveredBy: one(usersTable, {
+    fields: [letterDeliveriesTable.delivered_by_user_id],
+    references: [usersTable.id]
+  })
+}));
+
 export const trackingLogsRelations = relations(trackingLogsTable, ({ one }) => ({
   letterRequest: one(letterRequestsTable, {
     fields: [trackingLogsTable.letter_request_id],
@@ -211,31 +595,189 @@ export const dispositionAssignmentsRelations = relations(dispositionAssignmentsT
   })
 }));
 
+export const escalationsRelations = relations(escalationsTable, ({ one }) => ({
+  letterRequest: one(letterRequestsTable, {
+    fields: [escalationsTable.letter_request_id],
+    references: [letterRequestsTable.id]
+  }),
+  assignment: one(dispositionAssignmentsTable, {
+    fields: [escalationsTable.assignment_id],
+    references: [dispositionAssignmentsTable.id]
+  }),
+  raisedBy: one(usersTable, {
+    fields: [escalationsTable.raised_by_user_id],
+    references: [usersTable.id],
+    relationName: 'raisedBy'
+  }),
+  resolvedBy: one(usersTable, {
+    fields: [escalationsTable.resolved_by_user_id],
+    references: [usersTable.id],
+    relationName: 'resolvedBy'
+  })
+}));
+
+export const letterTemplatesRelations = relations(letterTemplatesTable, ({ one, many }) => ({
+  createdBy: one(usersTable, {
+    fields: [letterTemplatesTable.created_by_user_id],
+    references: [usersTable.id]
+  }),
+  generatedLetters: many(generatedLettersTable)
+}));
+
+export const signerKeysRelations = relations(signerKeysTable, ({ one, many }) => ({
+  user: one(usersTable, {
+    fields: [signerKeysTable.user_id],
+    references: [usersTable.id]
+  }),
+  signatures: many(letterSignaturesTable)
+}));
+
+export const letterVersionsRelations = relations(letterVersionsTable, ({ one }) => ({
+  letterRequest: one(letterRequestsTable, {
+    fields: [letterVersionsTable.letter_request_id],
+    references: [letterRequestsTable.id],
+    relationName: 'letterVersions'
+  }),
+  createdBy: one(usersTable, {
+    fields: [letterVersionsTable.created_by_user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const letterSignaturesRelations = relations(letterSignaturesTable, ({ one }) => ({
+  letterRequest: one(letterRequestsTable, {
+    fields: [letterSignaturesTable.letter_request_id],
+    references: [letterRequestsTable.id]
+  }),
+  signer: one(usersTable, {
+    fields: [letterSignaturesTable.signer_user_id],
+    references: [usersTable.id]
+  }),
+  signerKey: one(signerKeysTable, {
+    fields: [letterSignaturesTable.signer_key_id],
+    references: [signerKeysTable.id]
+  })
+}));
+
+export const letterNumberFormatsRelations = relations(letterNumberFormatsTable, ({ many }) => ({
+  counters: many(letterNumberCountersTable)
+}));
+
+export const letterNumberCountersRelations = relations(letterNumberCountersTable, ({ one }) => ({
+  format: one(letterNumberFormatsTable, {
+    fields: [letterNumberCountersTable.format_id],
+    references: [letterNumberFormatsTable.id]
+  })
+}));
+
+export const generatedLettersRelations = relations(generatedLettersTable, ({ one }) => ({
+  letterRequest: one(letterRequestsTable, {
+    fields: [generatedLettersTable.letter_request_id],
+    references: [letterRequestsTable.id]
+  }),
+  template: one(letterTemplatesTable, {
+    fields: [generatedLettersTable.template_id],
+    references: [letterTemplatesTable.id]
+  }),
+  generatedBy: one(usersTable, {
+    fields: [generatedLettersTable.generated_by_user_id],
+    references: [usersTable.id]
+  })
+}));
+
 // TypeScript types for the table schemas
+export type Faculty = typeof facultiesTable.$inferSelect;
+export type NewFaculty = typeof facultiesTable.$inferInsert;
+
+export type StudyProgram = typeof studyProgramsTable.$inferSelect;
+export type NewStudyProgram = typeof studyProgramsTable.$inferInsert;
+
 export type User = typeof usersTable.$inferSelect;
 export type NewUser = typeof usersTable.$inferInsert;
 
+export type Session = typeof sessionsTable.$inferSelect;
+export type NewSession = typeof sessionsTable.$inferInsert;
+
 export type Student = typeof studentsTable.$inferSelect;
 export type NewStudent = typeof studentsTable.$inferInsert;
 
+export type StudentRegistrationCode = typeof studentRegistrationCodesTable.$inferSelect;
+export type NewStudentRegistrationCode = typeof studentRegistrationCodesTable.$inferInsert;
+
+export type StudentImportBatch = typeof studentImportBatchesTable.$inferSelect;
+export type NewStudentImportBatch = typeof studentImportBatchesTable.$inferInsert;
+
+export type StudentImportError = typeof studentImportErrorsTable.$inferSelect;
+export type NewStudentImportError = typeof studentImportErrorsTable.$inferInsert;
+
+export type LetterType = typeof letterTypesTable.$inferSelect;
+export type NewLetterType = typeof letterTypesTable.$inferInsert;
+
+export type RejectionReason = typeof rejectionReasonsTable.$inferSelect;
+export type NewRejectionReason = typeof rejectionReasonsTable.$inferInsert;
+
 export type LetterRequest = typeof letterRequestsTable.$inferSelect;
 export type NewLetterRequest = typeof letterRequestsTable.$inferInsert;
 
 export type SupportingDocument = typeof supportingDocumentsTable.$inferSelect;
 export type NewSupportingDocument = typeof supportingDocumentsTable.$inferInsert;
 
+export type LetterDelivery = typeof letterDeliveriesTable.$inferSelect;
+export type NewLetterDelivery = typeof letterDeliveriesTable.$inferInsert;
+
 export type TrackingLog = typeof trackingLogsTable.$inferSelect;
 export type NewTrackingLog = typeof trackingLogsTable.$inferInsert;
 
 export type DispositionAssignment = typeof dispositionAssignmentsTable.$inferSelect;
 export type NewDispositionAssignment = typeof dispositionAssignmentsTable.$inferInsert;
 
+export type Escalation = typeof escalationsTable.$inferSelect;
+export type NewEscalation = typeof escalationsTable.$inferInsert;
+
+export type LetterTemplate = typeof letterTemplatesTable.$inferSelect;
+export type NewLetterTemplate = typeof letterTemplatesTable.$inferInsert;
+
+export type GeneratedLetter = typeof generatedLettersTable.$inferSelect;
+export type NewGeneratedLetter = typeof generatedLettersTable.$inferInsert;
+
+export type LetterVersion = typeof letterVersionsTable.$inferSelect;
+export type NewLetterVersion = typeof letterVersionsTable.$inferInsert;
+
+export type SignerKey = typeof signerKeysTable.$inferSelect;
+export type NewSignerKey = typeof signerKeysTable.$inferInsert;
+
+export type LetterSignature = typeof letterSignaturesTable.$inferSelect;
+export type NewLetterSignature = typeof letterSignaturesTable.$inferInsert;
+
+export type LetterNumberFormat = typeof letterNumberFormatsTable.$inferSelect;
+export type NewLetterNumberFormat = typeof letterNumberFormatsTable.$inferInsert;
+
+export type LetterNumberCounter = typeof letterNumberCountersTable.$inferSelect;
+export type NewLetterNumberCounter = typeof letterNumberCountersTable.$inferInsert;
+
 // Export all tables and relations for proper query building
 export const tables = {
+  faculties: facultiesTable,
+  studyPrograms: studyProgramsTable,
   users: usersTable,
+  sessions: sessionsTable,
   students: studentsTable,
+  studentRegistrationCodes: studentRegistrationCodesTable,
+  studentImportBatches: studentImportBatchesTable,
+  studentImportErrors: studentImportErrorsTable,
+  letterTypes: letterTypesTable,
+  rejectionReasons: rejectionReasonsTable,
   letterRequests: letterRequestsTable,
   supportingDocuments: supportingDocumentsTable,
+  letterDeliveries: letterDeliveriesTable,
   trackingLogs: trackingLogsTable,
-  dispositionAssignments: dispositionAssignmentsTable
+  dispositionAssignments: dispositionAssignmentsTable,
+  escalations: escalationsTable,
+  letterTemplates: letterTemplatesTable,
+  generatedLetters: generatedLettersTable,
+  letterVersions: letterVersionsTable,
+  signerKeys: signerKeysTable,
+  letterSignatures: letterSignaturesTable,
+  letterNumberFormats: letterNumberFormatsTable,
+  letterNumberCounters: letterNumberCountersTable
 };
\ No newline at end of file
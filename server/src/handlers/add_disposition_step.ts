@@ -0,0 +1,60 @@
+import { db } from '../db';
+import { dispositionAssignmentsTable } from '../db/schema';
+import { type AddDispositionStepInput, type DispositionAssignment } from '../schema';
+import { applyDispositionAmendment, prepareDispositionAmendment, validateAssignee } from '../lib/disposition_amendments';
+import { findActiveGroup } from '../lib/disposition_groups';
+import { and, eq, max } from 'drizzle-orm';
+
+export async function addDispositionStep(input: AddDispositionStepInput, userId: number): Promise<DispositionAssignment> {
+  try {
+    return await db.transaction(async (tx) => {
+      // 1. Lock the request and check the Dean may change its disposition
+      const amendment = await prepareDispositionAmendment(tx, input.request_id, input.expected_version, userId);
+
+      // 2. Steps already under way or done stay where they are; a new step may join the one in progress
+      const activeGroup = await findActiveGroup(tx, input.request_id);
+      let earliestSequence: number;
+      if (activeGroup.length > 0) {
+        earliestSequence = activeGroup[0].order_sequence;
+      } else {
+        const lastCompleted = await tx.select({ order_sequence: max(dispositionAssignmentsTable.order_sequence) })
+          .from(dispositionAssignmentsTable)
+          .where(and(
+            eq(dispositionAssignmentsTable.letter_request_id, input.request_id),
+            eq(dispositionAssignmentsTable.is_completed, true)
+          ))
+          .execute();
+        earliestSequence = (lastCompleted[0]?.order_sequence ?? 0) + 1;
+      }
+
+      if (input.order_sequence < earliestSequence) {
+        throw new Error(`Disposition step ${input.order_sequence} cannot be added before step ${earliestSequence}`);
+      }
+
+      const assignee = await validateAssignee(tx, input.request_id, input.user_id, input.order_sequence);
+
+      // 3. Create the assignment with the disposition's instructions unless new ones are given
+      const created = await tx.insert(dispositionAssignmentsTable)
+        .values({
+          letter_request_id: input.request_id,
+          assigned_to_user_id: assignee.id,
+          assigned_by_user_id: amendment.dekan.id,
+          instructions: input.instructions ?? amendment.request.dekan_instructions ?? '',
+          order_sequence: input.order_sequence
+        })
+        .returning()
+        .execute();
+
+      // 4. A step added to the one in progress, or after a finished disposition, starts right away
+      await applyDispositionAmendment(tx, amendment, {
+        description: `Disposition step ${input.order_sequence} added for ${assignee.name}`,
+        notes: input.notes
+      });
+
+      return created[0];
+    });
+  } catch (error) {
+    console.error('Adding disposition step failed:', error);
+    throw error;
+  }
+}
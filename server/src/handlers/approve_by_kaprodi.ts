@@ -0,0 +1,95 @@
+import { db } from '../db';
+import { letterRequestsTable, trackingLogsTable } from '../db/schema';
+import { type ApproveByKaprodiInput, type LetterRequest, type RequestStatus } from '../schema';
+import { assertTransition } from '../lib/request_transitions';
+import { findProdiStaff } from '../lib/fulfilment';
+import { prepareKaprodiReview } from '../lib/kaprodi_review';
+import { addLetterVersion, renderFinalLetter, type RenderedLetter } from '../lib/final_letter';
+import { signatureAlgorithm, signFinalLetter, type FinalLetterSignature } from '../lib/letter_signing';
+import { eq } from 'drizzle-orm';
+
+// The Kaprodi approves a draft. Most requests stay with the Kaprodi to be forwarded to the Dean; letter
+// types issued at prodi level get their final letter, numbered and signed by the Kaprodi, and go straight
+// back to the prodi staff for printing and delivery.
+export async function approveByKaprodi(input: ApproveByKaprodiInput, userId: number): Promise<LetterRequest> {
+  try {
+    return await db.transaction(async (tx) => {
+      // 1. Lock the request and check the user is the Kaprodi of the student's prodi
+      const review = await prepareKaprodiReview(tx, input.request_id, input.expected_version, userId);
+      const { request } = review;
+
+      const newStatus: RequestStatus = review.prodiLevelOnly ? 'RETURNED_TO_PRODI' : 'APPROVED_KAPRODI';
+      assertTransition(
+        request.status,
+        newStatus,
+        review.kaprodi.role,
+        `Cannot approve request in status: ${request.status} (attempted ${newStatus})`
+      );
+
+      // 2. Prodi-level letters are handled by the prodi staff, preferably whoever created the request
+      let nextHandlerId = review.kaprodi.id;
+      if (review.prodiLevelOnly) {
+        nextHandlerId = (await findProdiStaff(tx, review.studentProdi, request.created_by_user_id)).id;
+      }
+
+      // 3. Prodi-level letters are issued now: rendered from the template, numbered and signed by the Kaprodi
+      let issued: { letter: RenderedLetter; versionId: number; signature: FinalLetterSignature } | null = null;
+      if (review.prodiLevelOnly) {
+        const letter = await renderFinalLetter(tx, request, userId);
+        const letterVersion = await addLetterVersion(tx, request.id, userId, letter.file);
+        const signature = await signFinalLetter(tx, request, letter.file.file_url, review.kaprodi);
+        issued = { letter, versionId: letterVersion.id, signature };
+      }
+
+      // 4. Update the request and log the approval
+      const updatedRequest = await tx.update(letterRequestsTable)
+        .set({
+          status: newStatus,
+          current_handler_user_id: nextHandlerId,
+          ...(issued ? {
+            final_letter_url: issued.letter.file.file_url,
+            current_letter_version_id: issued.versionId,
+            letter_number: issued.signature.letterNumber
+          } : {}),
+          version: review.version,
+          updated_at: new Date()
+        })
+        .where(eq(letterRequestsTable.id, request.id))
+        .returning()
+        .execute();
+
+      await tx.insert(trackingLogsTable)
+        .values({
+          letter_request_id: request.id,
+          user_id: userId,
+          action_type: 'APPROVED',
+          description: review.prodiLevelOnly
+            ? 'Letter request approved by Kaprodi and returned to prodi staff for issuing'
+            : 'Letter request approved by Kaprodi',
+          notes: input.notes ?? null,
+          previous_status: request.status,
+          new_status: newStatus
+        })
+        .execute();
+
+      if (issued) {
+        await tx.insert(trackingLogsTable)
+          .values({
+            letter_request_id: request.id,
+            user_id: userId,
+            action_type: 'SIGNED',
+            description: 'Letter issued at prodi level and digitally signed by Kaprodi',
+            notes: `Letter number ${issued.signature.letterNumber}. ${issued.letter.notes}. Signed with ${signatureAlgorithm} key ${issued.signature.signerKey.fingerprint.substring(0, 16)} over SHA-256 ${issued.signature.documentHash}`,
+            previous_status: newStatus,
+            new_status: newStatus
+          })
+          .execute();
+      }
+
+      return updatedRequest[0];
+    });
+  } catch (error) {
+    console.error('Kaprodi approval failed:', error);
+    throw error;
+  }
+}
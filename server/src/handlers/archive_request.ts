@@ -0,0 +1,24 @@
+import { db } from '../db';
+import { type ArchiveRequestInput, type LetterRequest } from '../schema';
+import { completeFulfilment, prepareFulfilment } from '../lib/fulfilment';
+
+// Delivered and rejected requests are closed for good; nobody handles an archived request
+export async function archiveRequest(input: ArchiveRequestInput, userId: number): Promise<LetterRequest> {
+  try {
+    return await db.transaction(async (tx) => {
+      const step = await prepareFulfilment(
+        tx, input.request_id, input.expected_version, userId, 'ARCHIVED', 'archive'
+      );
+
+      return completeFulfilment(tx, step, userId, {
+        description: step.request.status === 'REJECTED'
+          ? 'Rejected letter request archived'
+          : 'Delivered letter request archived',
+        notes: input.notes
+      });
+    });
+  } catch (error) {
+    console.error('Archive request failed:', error);
+    throw error;
+  }
+}
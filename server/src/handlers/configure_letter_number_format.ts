@@ -0,0 +1,56 @@
+import { db } from '../db';
+import { letterNumberFormatsTable } from '../db/schema';
+import { type ConfigureLetterNumberFormatInput, type LetterNumberFormat } from '../schema';
+import { defaultLetterNumberPattern, validateLetterNumberPattern } from '../lib/letter_numbering';
+import { findActiveLetterType } from '../lib/letter_types';
+import { eq, isNull } from 'drizzle-orm';
+
+// Creates or replaces the number format of a letter type (or the faculty default when letter_type is null).
+// Counters are kept per format, so changing codes or pattern does not restart the sequence.
+export async function configureLetterNumberFormat(input: ConfigureLetterNumberFormatInput): Promise<LetterNumberFormat> {
+  try {
+    const pattern = input.pattern ?? defaultLetterNumberPattern;
+    const problems = validateLetterNumberPattern(pattern);
+    if (problems.length > 0) {
+      throw new Error(`Invalid letter number pattern "${pattern}": ${problems.join('; ')}`);
+    }
+
+    const values = {
+      unit_code: input.unit_code,
+      classification_code: input.classification_code,
+      pattern,
+      reset_period: input.reset_period ?? 'YEARLY' as const
+    };
+
+    return await db.transaction(async (tx) => {
+      // Formats are looked up by the catalog code requests store
+      const letterType = input.letter_type === null ? null : (await findActiveLetterType(tx, input.letter_type)).code;
+
+      const existing = await tx.select()
+        .from(letterNumberFormatsTable)
+        .where(letterType === null
+          ? isNull(letterNumberFormatsTable.letter_type)
+          : eq(letterNumberFormatsTable.letter_type, letterType))
+        .for('update')
+        .execute();
+
+      if (existing.length > 0) {
+        const updated = await tx.update(letterNumberFormatsTable)
+          .set({ ...values, updated_at: new Date() })
+          .where(eq(letterNumberFormatsTable.id, existing[0].id))
+          .returning()
+          .execute();
+        return updated[0];
+      }
+
+      const created = await tx.insert(letterNumberFormatsTable)
+        .values({ letter_type: letterType, ...values })
+        .returning()
+        .execute();
+      return created[0];
+    });
+  } catch (error) {
+    console.error('Letter number format configuration failed:', error);
+    throw error;
+  }
+}
@@ -1,136 +1,154 @@
-import { db } from '../db';
+import { db, type Transaction } from '../db';
 import { 
   usersTable, 
   letterRequestsTable, 
   dispositionAssignmentsTable,
+  letterTypesTable,
   trackingLogsTable 
 } from '../db/schema';
 import { type CreateDispositionInput, type DispositionAssignment } from '../schema';
-import { eq, and } from 'drizzle-orm';
+import { assertTransition, isDispositionRole } from '../lib/request_transitions';
+import { findActiveGroup, stageForGroup } from '../lib/disposition_groups';
+import { lockLetterRequest, nextRequestVersion } from '../lib/request_lock';
+import { normalizeCatalogCode } from '../lib/letter_types';
+import { asc, eq } from 'drizzle-orm';
 
-export async function createDisposition(input: CreateDispositionInput, dekanUserId: number): Promise<DispositionAssignment[]> {
-  try {
-    // 1. Validate that the user is a Dekan
-    const dekanUser = await db.select()
-      .from(usersTable)
-      .where(eq(usersTable.id, dekanUserId))
-      .execute();
+// One step per role of the letter type's default chain, each taken by the first officer with that role
+async function defaultChainAssignments(tx: Transaction, letterTypeCode: string): Promise<NonNullable<CreateDispositionInput['assignments']>> {
+  const code = normalizeCatalogCode(letterTypeCode);
+  const letterType = await tx.select()
+    .from(letterTypesTable)
+    .where(eq(letterTypesTable.code, code))
+    .execute();
 
-    if (dekanUser.length === 0 || dekanUser[0].role !== 'DEKAN') {
-      throw new Error('Only Dekan can create disposition assignments');
-    }
+  if (letterType.length === 0 || letterType[0].default_disposition_chain.length === 0) {
+    throw new Error(`Letter type ${code} has no default disposition chain; list the assignments`);
+  }
 
-    // 2. Validate that the letter request exists and is in correct status
-    const letterRequest = await db.select()
-      .from(letterRequestsTable)
-      .where(eq(letterRequestsTable.id, input.request_id))
+  const assignments = [];
+  for (const [index, role] of letterType[0].default_disposition_chain.entries()) {
+    const officer = await tx.select()
+      .from(usersTable)
+      .where(eq(usersTable.role, role))
+      .orderBy(asc(usersTable.id))
+      .limit(1)
       .execute();
 
-    if (letterRequest.length === 0) {
-      throw new Error('Letter request not found');
-    }
-
-    if (letterRequest[0].status !== 'FORWARDED_TO_DEKAN') {
-      throw new Error('Letter request must be in FORWARDED_TO_DEKAN status to create disposition');
+    if (officer.length === 0) {
+      throw new Error(`No ${role} user found for the default disposition chain of ${code}`);
     }
 
-    // 3. Validate that all assigned users exist and get their roles
-    const assignedUserIds = input.assignments.map(a => a.user_id);
-    const assignedUsers = await db.select()
-      .from(usersTable)
-      .where(eq(usersTable.id, assignedUserIds[0]))  // We'll validate each separately
-      .execute();
+    assignments.push({ user_id: officer[0].id, order_sequence: index + 1 });
+  }
+  return assignments;
+}
 
-    // Validate each user exists
-    for (const assignment of input.assignments) {
-      const user = await db.select()
+export async function createDisposition(input: CreateDispositionInput, dekanUserId: number): Promise<DispositionAssignment[]> {
+  try {
+    return await db.transaction(async (tx) => {
+      // 1. Validate that the user is a Dekan
+      const dekanUser = await tx.select()
         .from(usersTable)
-        .where(eq(usersTable.id, assignment.user_id))
+        .where(eq(usersTable.id, dekanUserId))
         .execute();
+
+      if (dekanUser.length === 0 || dekanUser[0].role !== 'DEKAN') {
+        throw new Error('Only Dekan can create disposition assignments');
+      }
+
+      // 2. Lock the letter request; its status is validated against the transition table below
+      const letterRequest = await lockLetterRequest(tx, input.request_id);
+
+      if (letterRequest.length === 0) {
+        throw new Error('Letter request not found');
+      }
+
+      const version = nextRequestVersion(letterRequest[0], input.expected_version);
+
+      // 3. Validate that all assigned users exist and are officers, each at most once per step
+      const assignments = input.assignments ?? await defaultChainAssignments(tx, letterRequest[0].letter_type);
+      const seen = new Set<string>();
+      for (const assignment of assignments) {
+        const user = await tx.select()
+          .from(usersTable)
+          .where(eq(usersTable.id, assignment.user_id))
+          .execute();
       
-      if (user.length === 0) {
-        throw new Error(`Assigned user with ID ${assignment.user_id} not found`);
+        if (user.length === 0) {
+          throw new Error(`Assigned user with ID ${assignment.user_id} not found`);
+        }
+
+        if (!isDispositionRole(user[0].role)) {
+          throw new Error(`Invalid role for disposition assignment: ${user[0].role}`);
+        }
+
+        const key = `${assignment.order_sequence}:${assignment.user_id}`;
+        if (seen.has(key)) {
+          throw new Error(`User ${user[0].name} is assigned twice in disposition step ${assignment.order_sequence}`);
+        }
+        seen.add(key);
       }
-    }
 
-    // 4. Create disposition assignments
-    const dispositionAssignments = await db.insert(dispositionAssignmentsTable)
-      .values(
-        input.assignments.map(assignment => ({
-          letter_request_id: input.request_id,
-          assigned_to_user_id: assignment.user_id,
-          assigned_by_user_id: dekanUserId,
-          instructions: input.instructions,
-          order_sequence: assignment.order_sequence,
-          is_completed: false,
-          completed_at: null,
-          notes: null
-        }))
-      )
-      .returning()
-      .execute();
+      // 4. Create disposition assignments
+      const dispositionAssignments = await tx.insert(dispositionAssignmentsTable)
+        .values(
+          assignments.map(assignment => ({
+            letter_request_id: input.request_id,
+            assigned_to_user_id: assignment.user_id,
+            assigned_by_user_id: dekanUserId,
+            instructions: input.instructions,
+            order_sequence: assignment.order_sequence,
+            is_completed: false,
+            completed_at: null,
+            notes: null
+          }))
+        )
+        .returning()
+        .execute();
 
-    // 5. Get the first assigned user to determine new status and handler
-    const firstAssignedUser = await db.select()
-      .from(usersTable)
-      .where(eq(usersTable.id, input.assignments[0].user_id))
-      .execute();
+      // 5. The first step decides the new status: one officer holds the request, or a parallel group
+      // shares it and every member can start at once
+      const firstGroup = await findActiveGroup(tx, input.request_id);
+      const stage = stageForGroup(firstGroup);
+      const previousStatus = letterRequest[0].status;
 
-    // Determine the new status based on first assigned user's role
-    let newStatus: string;
-    const firstUserRole = firstAssignedUser[0].role;
-    
-    switch (firstUserRole) {
-      case 'WD1':
-        newStatus = 'DISPOSISI_TO_WD1';
-        break;
-      case 'WD2':
-        newStatus = 'DISPOSISI_TO_WD2';
-        break;
-      case 'WD3':
-        newStatus = 'DISPOSISI_TO_WD3';
-        break;
-      case 'KABAG_TU':
-        newStatus = 'DISPOSISI_TO_KABAG_TU';
-        break;
-      case 'KAUR_AKADEMIK':
-        newStatus = 'DISPOSISI_TO_KAUR_AKADEMIK';
-        break;
-      case 'KAUR_KEMAHASISWAAN':
-        newStatus = 'DISPOSISI_TO_KAUR_KEMAHASISWAAN';
-        break;
-      case 'KAUR_KEUANGAN':
-        newStatus = 'DISPOSISI_TO_KAUR_KEUANGAN';
-        break;
-      default:
-        throw new Error(`Invalid role for disposition assignment: ${firstUserRole}`);
-    }
+      assertTransition(
+        previousStatus,
+        stage.status,
+        dekanUser[0].role,
+        `Letter request must be in FORWARDED_TO_DEKAN status to create disposition (current status: ${previousStatus})`
+      );
 
-    // 6. Update the letter request with instructions, new status and handler
-    await db.update(letterRequestsTable)
-      .set({
-        dekan_instructions: input.instructions,
-        status: newStatus as any,
-        current_handler_user_id: input.assignments[0].user_id,
-        updated_at: new Date()
-      })
-      .where(eq(letterRequestsTable.id, input.request_id))
-      .execute();
+      // 6. Update the letter request with instructions, new status and handlers
+      await tx.update(letterRequestsTable)
+        .set({
+          dekan_instructions: input.instructions,
+          status: stage.status,
+          current_handler_user_id: stage.handlerId,
+          parallel_handler_user_ids: stage.parallelHandlerIds,
+          version,
+          updated_at: new Date()
+        })
+        .where(eq(letterRequestsTable.id, input.request_id))
+        .execute();
 
-    // 7. Create tracking log entry
-    await db.insert(trackingLogsTable)
-      .values({
-        letter_request_id: input.request_id,
-        user_id: dekanUserId,
-        action_type: 'DISPOSISI_ASSIGNED',
-        description: `Disposition assignments created by Dekan for ${input.assignments.length} officers`,
-        notes: input.instructions,
-        previous_status: 'FORWARDED_TO_DEKAN',
-        new_status: newStatus as any
-      })
-      .execute();
+      // 7. Create tracking log entry
+      await tx.insert(trackingLogsTable)
+        .values({
+          letter_request_id: input.request_id,
+          user_id: dekanUserId,
+          action_type: 'DISPOSISI_ASSIGNED',
+          description: firstGroup.length > 1
+            ? `Disposition assignments created by Dekan for ${assignments.length} officers; ${firstGroup.map(member => member.user_name).join(', ')} work in parallel first`
+            : `Disposition assignments created by Dekan for ${assignments.length} officers`,
+          notes: input.instructions,
+          previous_status: previousStatus,
+          new_status: stage.status
+        })
+        .execute();
 
-    return dispositionAssignments;
+      return dispositionAssignments;
+    });
   } catch (error) {
     console.error('Disposition creation failed:', error);
     throw error;
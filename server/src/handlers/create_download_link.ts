@@ -0,0 +1,20 @@
+import { type CreateDownloadLinkInput, type DownloadLink } from '../schema';
+import { findDownloadableFile } from './download_file';
+import { getDownloadLinkExpiry, signedDownloadUrl, storageKeyFromUrl } from '../lib/storage';
+
+// For links a browser opens on its own, such as <a href> or a new tab. The user's access is checked now and
+// again when the link is opened.
+export async function createDownloadLink(input: CreateDownloadLinkInput, userId: number): Promise<DownloadLink> {
+  try {
+    const storageKey = storageKeyFromUrl(input.file_url);
+    if (!storageKey || !(await findDownloadableFile(storageKey, userId))) {
+      throw new Error(`File not found: ${input.file_url}`);
+    }
+
+    const expiresAt = getDownloadLinkExpiry();
+    return { url: signedDownloadUrl(storageKey, userId, expiresAt), expires_at: expiresAt };
+  } catch (error) {
+    console.error('Create download link failed:', error);
+    throw error;
+  }
+}
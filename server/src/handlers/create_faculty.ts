@@ -0,0 +1,30 @@
+import { db } from '../db';
+import { facultiesTable } from '../db/schema';
+import { type CreateFacultyInput, type Faculty } from '../schema';
+import { normalizeCatalogCode } from '../lib/letter_types';
+import { eq, or } from 'drizzle-orm';
+
+export async function createFaculty(input: CreateFacultyInput): Promise<Faculty> {
+  try {
+    const code = normalizeCatalogCode(input.code);
+
+    const existing = await db.select({ id: facultiesTable.id })
+      .from(facultiesTable)
+      .where(or(eq(facultiesTable.code, code), eq(facultiesTable.name, input.name)))
+      .execute();
+
+    if (existing.length > 0) {
+      throw new Error(`Faculty code or name already exists: ${code}`);
+    }
+
+    const result = await db.insert(facultiesTable)
+      .values({ code, name: input.name })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Faculty creation failed:', error);
+    throw error;
+  }
+}
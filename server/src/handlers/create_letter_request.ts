@@ -1,79 +1,110 @@
 import { db } from '../db';
-import { letterRequestsTable, supportingDocumentsTable, trackingLogsTable, usersTable, studentsTable } from '../db/schema';
+import { letterRequestsTable, trackingLogsTable, usersTable, studentsTable } from '../db/schema';
 import { type CreateLetterRequestInput, type LetterRequest } from '../schema';
+import { MissingDocumentsError } from '../lib/errors';
+import { assertStudentEligible, findActiveLetterType, missingRequiredDocuments, slaDueDate } from '../lib/letter_types';
+import { can } from '../lib/policy';
+import { sameProdi } from '../lib/study_programs';
 import { eq } from 'drizzle-orm';
 
 export async function createLetterRequest(input: CreateLetterRequestInput, userId: number): Promise<LetterRequest> {
   try {
-    // First, verify the student exists and get their prodi
-    const studentResult = await db.select()
-      .from(studentsTable)
-      .where(eq(studentsTable.id, input.student_id))
-      .execute();
+    return await db.transaction(async (tx) => {
+      // First, verify the student exists and get their prodi
+      const studentResult = await tx.select()
+        .from(studentsTable)
+        .where(eq(studentsTable.id, input.student_id))
+        .execute();
     
-    if (studentResult.length === 0) {
-      throw new Error('Student not found');
-    }
+      if (studentResult.length === 0) {
+        throw new Error('Student not found');
+      }
 
-    const student = studentResult[0];
+      const student = studentResult[0];
 
-    // Find the Kaprodi for this student's prodi to set as current handler
-    const kaprodiResult = await db.select()
-      .from(usersTable)
-      .where(eq(usersTable.role, 'KAPRODI'))
-      .execute();
-    
-    // Filter for matching prodi (since we can't use AND with role and prodi in single query)
-    const kaprodi = kaprodiResult.find(user => user.prodi === student.prodi);
-    
-    if (!kaprodi) {
-      throw new Error(`No Kaprodi found for prodi: ${student.prodi}`);
-    }
+      // A student account files requests only for the student record linked to it
+      const creator = await tx.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, userId))
+        .execute();
+
+      if (creator.length === 0) {
+        throw new Error(`User with ID ${userId} not found`);
+      }
+
+      if (creator[0].role === 'STUDENT' && student.user_id !== userId) {
+        throw new Error('Students can only request letters for their own student record');
+      }
 
-    // Create the letter request
-    const letterRequestResult = await db.insert(letterRequestsTable)
-      .values({
-        student_id: input.student_id,
-        created_by_user_id: userId,
-        letter_type: input.letter_type,
-        purpose: input.purpose,
-        priority: input.priority,
-        status: 'DRAFT',
-        current_handler_user_id: kaprodi.id
-      })
-      .returning()
-      .execute();
+      // Prodi staff only file requests for students of their own study program
+      const resource = {
+        student_prodi: student.prodi,
+        student_study_program_id: student.study_program_id,
+        student_user_id: student.user_id
+      };
+      if (!can(creator[0], 'request:create', resource)) {
+        throw new Error('User does not have permission to create requests for this student');
+      }
 
-    const letterRequest = letterRequestResult[0];
+      // The letter type must come from the catalog and the student must meet its eligibility rules
+      const letterType = await findActiveLetterType(tx, input.letter_type);
+      assertStudentEligible(letterType, student);
 
-    // Upload supporting documents if provided
-    if (input.supporting_documents && input.supporting_documents.length > 0) {
-      for (const doc of input.supporting_documents) {
-        await db.insert(supportingDocumentsTable)
-          .values({
-            letter_request_id: letterRequest.id,
-            file_name: doc.file_name,
-            file_url: doc.file_url,
-            uploaded_by_user_id: userId
-          })
-          .execute();
+      // The declared document types must cover the required ones. The files are uploaded to the draft
+      // afterwards and checked again when the Kaprodi reviews it.
+      const missingDocuments = missingRequiredDocuments(
+        letterType,
+        (input.document_types ?? []).map(documentType => ({ document_type: documentType }))
+      );
+      if (missingDocuments.length > 0) {
+        throw new MissingDocumentsError(letterType.code, missingDocuments);
       }
-    }
 
-    // Create initial tracking log entry
-    await db.insert(trackingLogsTable)
-      .values({
-        letter_request_id: letterRequest.id,
-        user_id: userId,
-        action_type: 'CREATED',
-        description: `Letter request created: ${input.letter_type}`,
-        notes: `Purpose: ${input.purpose}`,
-        previous_status: null,
-        new_status: 'DRAFT'
-      })
-      .execute();
+      // Find the Kaprodi for this student's prodi to set as current handler
+      const kaprodiResult = await tx.select()
+        .from(usersTable)
+        .where(eq(usersTable.role, 'KAPRODI'))
+        .execute();
+    
+      // Filter for matching prodi; linked records match by study program rather than spelling
+      const kaprodi = kaprodiResult.find(user => sameProdi(user, student));
+    
+      if (!kaprodi) {
+        throw new Error(`No Kaprodi found for prodi: ${student.prodi}`);
+      }
+
+      // Create the letter request
+      const letterRequestResult = await tx.insert(letterRequestsTable)
+        .values({
+          student_id: input.student_id,
+          created_by_user_id: userId,
+          letter_type: letterType.code,
+          purpose: input.purpose,
+          priority: input.priority ?? letterType.default_priority,
+          status: 'DRAFT',
+          current_handler_user_id: kaprodi.id,
+          due_at: slaDueDate(letterType.sla_days, new Date())
+        })
+        .returning()
+        .execute();
+
+      const letterRequest = letterRequestResult[0];
+
+      // Create initial tracking log entry
+      await tx.insert(trackingLogsTable)
+        .values({
+          letter_request_id: letterRequest.id,
+          user_id: userId,
+          action_type: 'CREATED',
+          description: `Letter request created: ${letterType.name}`,
+          notes: `Purpose: ${input.purpose}`,
+          previous_status: null,
+          new_status: 'DRAFT'
+        })
+        .execute();
 
-    return letterRequest;
+      return letterRequest;
+    });
   } catch (error) {
     console.error('Letter request creation failed:', error);
     throw error;
@@ -0,0 +1,43 @@
+import { db } from '../db';
+import { letterTemplatesTable } from '../db/schema';
+import { type CreateLetterTemplateInput, type LetterTemplate } from '../schema';
+import { findUnknownPlaceholders, templatePlaceholders } from '../lib/letter_template';
+import { findActiveLetterType } from '../lib/letter_types';
+import { eq, max } from 'drizzle-orm';
+
+export async function createLetterTemplate(input: CreateLetterTemplateInput, userId: number): Promise<LetterTemplate> {
+  try {
+    // Reject placeholders the renderer cannot fill so mistakes surface now rather than in an issued letter
+    const unknown = findUnknownPlaceholders(`${input.title}\n${input.body}`);
+    if (unknown.length > 0) {
+      throw new Error(`Unknown template placeholders: ${unknown.join(', ')} (available: ${templatePlaceholders.join(', ')})`);
+    }
+
+    return await db.transaction(async (tx) => {
+      // Templates are looked up by the catalog code requests store
+      const letterType = await findActiveLetterType(tx, input.letter_type);
+
+      // Templates are immutable; every change is stored as the next version for the letter type
+      const latest = await tx.select({ version: max(letterTemplatesTable.version) })
+        .from(letterTemplatesTable)
+        .where(eq(letterTemplatesTable.letter_type, letterType.code))
+        .execute();
+
+      const result = await tx.insert(letterTemplatesTable)
+        .values({
+          letter_type: letterType.code,
+          version: (latest[0]?.version ?? 0) + 1,
+          title: input.title,
+          body: input.body,
+          created_by_user_id: userId
+        })
+        .returning()
+        .execute();
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Letter template creation failed:', error);
+    throw error;
+  }
+}
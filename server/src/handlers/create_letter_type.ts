@@ -0,0 +1,45 @@
+import { db } from '../db';
+import { letterTypesTable } from '../db/schema';
+import { type CreateLetterTypeInput, type LetterType } from '../schema';
+import { assertDispositionChain, normalizeCatalogCode, normalizeDocumentTypes } from '../lib/letter_types';
+import { eq } from 'drizzle-orm';
+
+export async function createLetterType(input: CreateLetterTypeInput): Promise<LetterType> {
+  try {
+    const code = normalizeCatalogCode(input.code);
+    const chain = input.default_disposition_chain ?? [];
+    assertDispositionChain(chain);
+
+    const existing = await db.select({ id: letterTypesTable.id })
+      .from(letterTypesTable)
+      .where(eq(letterTypesTable.code, code))
+      .execute();
+
+    if (existing.length > 0) {
+      throw new Error(`Letter type code already exists: ${code}`);
+    }
+
+    const result = await db.insert(letterTypesTable)
+      .values({
+        code,
+        name: input.name,
+        description: input.description ?? null,
+        required_documents: normalizeDocumentTypes(input.required_documents ?? []),
+        default_priority: input.default_priority ?? 'NORMAL',
+        default_disposition_chain: chain,
+        sla_days: input.sla_days ?? null,
+        prodi_level_only: input.prodi_level_only ?? false,
+        allowed_mime_types: input.allowed_mime_types, // Undefined keeps the column default
+        max_upload_bytes: input.max_upload_bytes ?? null,
+        eligible_statuses: input.eligible_statuses ? [...new Set(input.eligible_statuses)] : [],
+        min_semester: input.min_semester ?? null
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Letter type creation failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,34 @@
+import { db } from '../db';
+import { rejectionReasonsTable } from '../db/schema';
+import { type CreateRejectionReasonInput, type RejectionReason } from '../schema';
+import { normalizeCatalogCode } from '../lib/letter_types';
+import { eq } from 'drizzle-orm';
+
+export async function createRejectionReason(input: CreateRejectionReasonInput): Promise<RejectionReason> {
+  try {
+    const code = normalizeCatalogCode(input.code);
+
+    const existing = await db.select({ id: rejectionReasonsTable.id })
+      .from(rejectionReasonsTable)
+      .where(eq(rejectionReasonsTable.code, code))
+      .execute();
+
+    if (existing.length > 0) {
+      throw new Error(`Rejection reason code already exists: ${code}`);
+    }
+
+    const result = await db.insert(rejectionReasonsTable)
+      .values({
+        code,
+        label: input.label,
+        description: input.description ?? null
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Rejection reason creation failed:', error);
+    throw error;
+  }
+}
@@ -1,24 +1,53 @@
 import { db } from '../db';
-import { studentsTable } from '../db/schema';
+import { studentsTable, usersTable } from '../db/schema';
 import { type CreateStudentInput, type Student } from '../schema';
+import { can } from '../lib/policy';
+import { findActiveStudyProgram } from '../lib/study_programs';
+import { eq } from 'drizzle-orm';
 
-export const createStudent = async (input: CreateStudentInput): Promise<Student> => {
+export const createStudent = async (input: CreateStudentInput, userId: number): Promise<Student> => {
   try {
-    // Insert student record
-    const result = await db.insert(studentsTable)
-      .values({
-        nim: input.nim,
-        name: input.name,
-        prodi: input.prodi
-      })
-      .returning()
-      .execute();
+    return await db.transaction(async (tx) => {
+      // The prodi is the study program's name, so Kaprodi routing never depends on how it was typed
+      const program = await findActiveStudyProgram(tx, input.study_program_id);
 
-    // Return the created student
-    const student = result[0];
-    return student;
+      // The faculty always follows the study program; a caller naming one must name the program's
+      if (input.faculty_id !== undefined && input.faculty_id !== program.faculty_id) {
+        throw new Error(`Study program ${program.name} does not belong to faculty ${input.faculty_id}`);
+      }
+
+      // Prodi staff only add students to their own study program
+      const user = await tx.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, userId))
+        .execute();
+
+      if (user.length === 0) {
+        throw new Error(`User with ID ${userId} not found`);
+      }
+
+      if (!can(user[0], 'student:manage', { student_prodi: program.name, student_study_program_id: program.id })) {
+        throw new Error(`User does not have permission to add students to ${program.name}`);
+      }
+
+      const result = await tx.insert(studentsTable)
+        .values({
+          nim: input.nim,
+          name: input.name,
+          prodi: program.name,
+          study_program_id: program.id,
+          status: input.status ?? 'ACTIVE',
+          angkatan: input.angkatan ?? null,
+          semester: input.semester ?? null,
+          faculty_id: program.faculty_id
+        })
+        .returning()
+        .execute();
+
+      return result[0];
+    });
   } catch (error) {
     console.error('Student creation failed:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
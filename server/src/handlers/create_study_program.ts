@@ -0,0 +1,39 @@
+import { db } from '../db';
+import { facultiesTable, studyProgramsTable } from '../db/schema';
+import { type CreateStudyProgramInput, type StudyProgram } from '../schema';
+import { normalizeCatalogCode } from '../lib/letter_types';
+import { eq, or } from 'drizzle-orm';
+
+export async function createStudyProgram(input: CreateStudyProgramInput): Promise<StudyProgram> {
+  try {
+    const code = normalizeCatalogCode(input.code);
+
+    const faculties = await db.select({ is_active: facultiesTable.is_active })
+      .from(facultiesTable)
+      .where(eq(facultiesTable.id, input.faculty_id))
+      .execute();
+
+    if (faculties.length === 0 || !faculties[0].is_active) {
+      throw new Error(`Unknown faculty: ${input.faculty_id}`);
+    }
+
+    const existing = await db.select({ id: studyProgramsTable.id })
+      .from(studyProgramsTable)
+      .where(or(eq(studyProgramsTable.code, code), eq(studyProgramsTable.name, input.name)))
+      .execute();
+
+    if (existing.length > 0) {
+      throw new Error(`Study program code or name already exists: ${code}`);
+    }
+
+    const result = await db.insert(studyProgramsTable)
+      .values({ code, name: input.name, faculty_id: input.faculty_id })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Study program creation failed:', error);
+    throw error;
+  }
+}
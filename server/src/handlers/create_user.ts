@@ -1,25 +1,41 @@
 import { db } from '../db';
 import { usersTable } from '../db/schema';
 import { type CreateUserInput, type User } from '../schema';
+import { hashPassword } from '../lib/password';
+import { prodiScopedRoles } from '../lib/policy';
+import { findActiveStudyProgram } from '../lib/study_programs';
 
 export const createUser = async (input: CreateUserInput): Promise<User> => {
   try {
-    // Insert user record
-    const result = await db.insert(usersTable)
-      .values({
-        email: input.email,
-        name: input.name,
-        role: input.role,
-        prodi: input.prodi || null
-      })
-      .returning()
-      .execute();
+    return await db.transaction(async (tx) => {
+      // Prodi-level roles only see their own prodi, so they cannot do without one
+      if (prodiScopedRoles.includes(input.role) && input.study_program_id == null) {
+        throw new Error(`A study program is required for role ${input.role}`);
+      }
 
-    // Return the created user
-    const user = result[0];
-    return user;
+      const program = input.study_program_id != null
+        ? await findActiveStudyProgram(tx, input.study_program_id)
+        : null;
+
+      // Insert user record
+      const result = await tx.insert(usersTable)
+        .values({
+          email: input.email,
+          name: input.name,
+          role: input.role,
+          prodi: program?.name ?? null,
+          study_program_id: program?.id ?? null,
+          password_hash: input.password ? await hashPassword(input.password) : null
+        })
+        .returning()
+        .execute();
+
+      // Return the created user without its credentials
+      const { password_hash, ...user } = result[0];
+      return user;
+    });
   } catch (error) {
     console.error('User creation failed:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
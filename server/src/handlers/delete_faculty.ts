@@ -0,0 +1,39 @@
+import { db } from '../db';
+import { facultiesTable, studyProgramsTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+
+// Only faculties without study programs can be removed; others are deactivated through updateFaculty
+export async function deleteFaculty(id: number): Promise<{ success: boolean }> {
+  try {
+    return await db.transaction(async (tx) => {
+      const faculties = await tx.select()
+        .from(facultiesTable)
+        .where(eq(facultiesTable.id, id))
+        .for('update')
+        .execute();
+
+      if (faculties.length === 0) {
+        throw new Error('Faculty not found');
+      }
+
+      const programs = await tx.select({ id: studyProgramsTable.id })
+        .from(studyProgramsTable)
+        .where(eq(studyProgramsTable.faculty_id, id))
+        .limit(1)
+        .execute();
+
+      if (programs.length > 0) {
+        throw new Error(`Faculty ${faculties[0].code} still has study programs; deactivate it instead`);
+      }
+
+      await tx.delete(facultiesTable)
+        .where(eq(facultiesTable.id, id))
+        .execute();
+
+      return { success: true };
+    });
+  } catch (error) {
+    console.error('Faculty deletion failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,40 @@
+import { db } from '../db';
+import { letterRequestsTable, letterTypesTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+
+// Only types no request uses can be removed; used ones are deactivated through updateLetterType
+export async function deleteLetterType(id: number): Promise<{ success: boolean }> {
+  try {
+    return await db.transaction(async (tx) => {
+      const letterTypes = await tx.select()
+        .from(letterTypesTable)
+        .where(eq(letterTypesTable.id, id))
+        .for('update')
+        .execute();
+
+      if (letterTypes.length === 0) {
+        throw new Error('Letter type not found');
+      }
+
+      const code = letterTypes[0].code;
+      const used = await tx.select({ id: letterRequestsTable.id })
+        .from(letterRequestsTable)
+        .where(eq(letterRequestsTable.letter_type, code))
+        .limit(1)
+        .execute();
+
+      if (used.length > 0) {
+        throw new Error(`Letter type ${code} is used by existing requests; deactivate it instead`);
+      }
+
+      await tx.delete(letterTypesTable)
+        .where(eq(letterTypesTable.id, id))
+        .execute();
+
+      return { success: true };
+    });
+  } catch (error) {
+    console.error('Letter type deletion failed:', error);
+    throw error;
+  }
+}
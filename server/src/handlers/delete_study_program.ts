@@ -0,0 +1,45 @@
+import { db } from '../db';
+import { studentsTable, studyProgramsTable, usersTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+
+// Only programs no user or student is linked to can be removed; others are deactivated through updateStudyProgram
+export async function deleteStudyProgram(id: number): Promise<{ success: boolean }> {
+  try {
+    return await db.transaction(async (tx) => {
+      const programs = await tx.select()
+        .from(studyProgramsTable)
+        .where(eq(studyProgramsTable.id, id))
+        .for('update')
+        .execute();
+
+      if (programs.length === 0) {
+        throw new Error('Study program not found');
+      }
+
+      const users = await tx.select({ id: usersTable.id })
+        .from(usersTable)
+        .where(eq(usersTable.study_program_id, id))
+        .limit(1)
+        .execute();
+
+      const students = await tx.select({ id: studentsTable.id })
+        .from(studentsTable)
+        .where(eq(studentsTable.study_program_id, id))
+        .limit(1)
+        .execute();
+
+      if (users.length > 0 || students.length > 0) {
+        throw new Error(`Study program ${programs[0].code} has linked users or students; deactivate it instead`);
+      }
+
+      await tx.delete(studyProgramsTable)
+        .where(eq(studyProgramsTable.id, id))
+        .execute();
+
+      return { success: true };
+    });
+  } catch (error) {
+    console.error('Study program deletion failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,96 @@
+import { db } from '../db';
+import { letterDeliveriesTable, letterVersionsTable, supportingDocumentsTable } from '../db/schema';
+import { userCan } from '../lib/policy';
+import { getStorage, storedFileUrl } from '../lib/storage';
+import { eq } from 'drizzle-orm';
+
+export interface StoredFileDownload {
+  file_name: string;
+  mime_type: string;
+  content: Buffer;
+}
+
+// Name and type of a stored supporting document, final letter version or delivery proof photo, or null when no
+// record points at the key, the document is quarantined or the user may not read the request it belongs to
+export async function findDownloadableFile(storageKey: string, userId: number): Promise<Omit<StoredFileDownload, 'content'> | null> {
+  const documents = await db.select({
+    letter_request_id: supportingDocumentsTable.letter_request_id,
+    file_name: supportingDocumentsTable.file_name,
+    mime_type: supportingDocumentsTable.mime_type,
+    status: supportingDocumentsTable.status
+  })
+    .from(supportingDocumentsTable)
+    .where(eq(supportingDocumentsTable.storage_key, storageKey))
+    .execute();
+
+  let file: { requestId: number; fileName: string; mimeType: string } | null = null;
+  if (documents.length > 0) {
+    // Quarantined uploads failed the content checks and are never handed out
+    if (documents[0].status === 'QUARANTINED') {
+      return null;
+    }
+
+    file = {
+      requestId: documents[0].letter_request_id,
+      fileName: documents[0].file_name,
+      mimeType: documents[0].mime_type ?? 'application/octet-stream'
+    };
+  } else {
+    // Final letters are served in every version, so earlier drafts can be compared
+    const versions = await db.select({
+      letter_request_id: letterVersionsTable.letter_request_id,
+      file_name: letterVersionsTable.file_name
+    })
+      .from(letterVersionsTable)
+      .where(eq(letterVersionsTable.file_url, storedFileUrl(storageKey)))
+      .execute();
+
+    if (versions.length > 0) {
+      file = {
+        requestId: versions[0].letter_request_id,
+        fileName: versions[0].file_name,
+        mimeType: 'application/pdf'
+      };
+    }
+  }
+
+  if (!file) {
+    const deliveries = await db.select({
+      letter_request_id: letterDeliveriesTable.letter_request_id,
+      file_name: letterDeliveriesTable.proof_file_name,
+      mime_type: letterDeliveriesTable.proof_mime_type
+    })
+      .from(letterDeliveriesTable)
+      .where(eq(letterDeliveriesTable.proof_storage_key, storageKey))
+      .execute();
+
+    if (deliveries.length > 0) {
+      file = {
+        requestId: deliveries[0].letter_request_id,
+        fileName: deliveries[0].file_name ?? 'delivery-proof',
+        mimeType: deliveries[0].mime_type ?? 'application/octet-stream'
+      };
+    }
+  }
+
+  if (!file || !(await userCan(userId, 'request:read', file.requestId))) {
+    return null;
+  }
+
+  return { file_name: file.fileName, mime_type: file.mimeType };
+}
+
+// The stored file itself, under the same rules as findDownloadableFile
+export async function downloadFile(storageKey: string, userId: number): Promise<StoredFileDownload | null> {
+  try {
+    const file = await findDownloadableFile(storageKey, userId);
+    if (!file) {
+      return null;
+    }
+
+    return { ...file, content: await getStorage().get(storageKey) };
+  } catch (error) {
+    console.error('Download file failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,86 @@
+import { db } from '../db';
+import { letterRequestsTable, trackingLogsTable, usersTable } from '../db/schema';
+import { type ForwardToDekanInput, type LetterRequest } from '../schema';
+import { assertTransition } from '../lib/request_transitions';
+import { prepareKaprodiReview } from '../lib/kaprodi_review';
+import { eq } from 'drizzle-orm';
+
+// The Kaprodi sends an approved request, or a draft in one step, to the Dean for disposition
+export async function forwardToDekan(input: ForwardToDekanInput, userId: number): Promise<LetterRequest> {
+  try {
+    return await db.transaction(async (tx) => {
+      // 1. Lock the request and check the user is the Kaprodi of the student's prodi
+      const review = await prepareKaprodiReview(tx, input.request_id, input.expected_version, userId);
+      const { request } = review;
+
+      if (review.prodiLevelOnly) {
+        throw new Error(`Letter type ${request.letter_type} is issued by the prodi and does not go to the Dean`);
+      }
+
+      assertTransition(
+        request.status,
+        'FORWARDED_TO_DEKAN',
+        review.kaprodi.role,
+        `Cannot forward request in status: ${request.status} (attempted FORWARDED_TO_DEKAN)`
+      );
+
+      // 2. Find a DEKAN user to set as next handler
+      const dekanUsers = await tx.select()
+        .from(usersTable)
+        .where(eq(usersTable.role, 'DEKAN'))
+        .execute();
+
+      if (dekanUsers.length === 0) {
+        throw new Error('No DEKAN user found to assign as next handler');
+      }
+
+      const dekan = dekanUsers[0];
+
+      // 3. Update the request
+      const updatedRequest = await tx.update(letterRequestsTable)
+        .set({
+          status: 'FORWARDED_TO_DEKAN',
+          current_handler_user_id: dekan.id,
+          version: review.version,
+          updated_at: new Date()
+        })
+        .where(eq(letterRequestsTable.id, request.id))
+        .returning()
+        .execute();
+
+      // 4. Forwarding a draft approves it as well, so the log shows both steps
+      let previousStatus = request.status;
+      if (previousStatus === 'DRAFT') {
+        await tx.insert(trackingLogsTable)
+          .values({
+            letter_request_id: request.id,
+            user_id: userId,
+            action_type: 'APPROVED',
+            description: 'Letter request approved by Kaprodi',
+            notes: null,
+            previous_status: 'DRAFT',
+            new_status: 'APPROVED_KAPRODI'
+          })
+          .execute();
+        previousStatus = 'APPROVED_KAPRODI';
+      }
+
+      await tx.insert(trackingLogsTable)
+        .values({
+          letter_request_id: request.id,
+          user_id: userId,
+          action_type: 'FORWARDED',
+          description: `Letter request forwarded to Dekan (${dekan.name}) for disposition`,
+          notes: input.notes ?? null,
+          previous_status: previousStatus,
+          new_status: 'FORWARDED_TO_DEKAN'
+        })
+        .execute();
+
+      return updatedRequest[0];
+    });
+  } catch (error) {
+    console.error('Forward to Dekan failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,24 @@
+import { db } from '../db';
+import { type GenerateFinalLetterInput, type LetterRequest } from '../schema';
+import { markFinalLetterReady, prepareFinalLetter, renderFinalLetter } from '../lib/final_letter';
+
+export async function generateFinalLetter(input: GenerateFinalLetterInput, userId: number): Promise<LetterRequest> {
+  try {
+    return await db.transaction(async (tx) => {
+      // 1. Lock and validate the request exactly like a manual upload
+      const handover = await prepareFinalLetter(tx, input.request_id, input.expected_version, userId, 'generate');
+
+      // 2. Render the latest template for the letter type and store the PDF
+      const rendered = await renderFinalLetter(tx, handover.request, userId, input.change_note);
+
+      // 3. Record it as the new letter version and hand it to the Dean for signing
+      return markFinalLetterReady(tx, handover, userId, rendered.file, {
+        description: 'Final letter generated and ready for signature',
+        notes: rendered.notes
+      });
+    });
+  } catch (error) {
+    console.error('Generate final letter failed:', error);
+    throw error;
+  }
+}
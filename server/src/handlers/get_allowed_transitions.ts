@@ -0,0 +1,45 @@
+import { db } from '../db';
+import { letterRequestsTable, usersTable } from '../db/schema';
+import { type AllowedTransition } from '../schema';
+import { getGenericTransitionsFrom } from '../lib/request_transitions';
+import { can, loadRequestResource } from '../lib/policy';
+import { eq } from 'drizzle-orm';
+
+export async function getAllowedTransitions(requestId: number, userId: number): Promise<AllowedTransition[]> {
+  try {
+    const letterRequest = await db.select()
+      .from(letterRequestsTable)
+      .where(eq(letterRequestsTable.id, requestId))
+      .execute();
+
+    if (letterRequest.length === 0) {
+      throw new Error(`Letter request with ID ${requestId} not found`);
+    }
+
+    const user = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (user.length === 0) {
+      throw new Error(`User with ID ${userId} not found`);
+    }
+
+    const request = letterRequest[0];
+
+    // Same precondition as updateRequestStatus
+    const resource = await loadRequestResource(requestId);
+    if (!resource || !can(user[0], 'request:update_status', resource)) {
+      return [];
+    }
+
+    return getGenericTransitionsFrom(request.status, user[0].role).map(transition => ({
+      from: transition.from,
+      to: transition.to,
+      action_type: transition.actionType
+    }));
+  } catch (error) {
+    console.error('Failed to get allowed transitions:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,24 @@
+import { db } from '../db';
+import { letterDeliveriesTable } from '../db/schema';
+import { type LetterDelivery } from '../schema';
+import { userCan } from '../lib/policy';
+import { eq } from 'drizzle-orm';
+
+// How the letter of a request was delivered, or null before delivery or when the user may not read the request
+export async function getDelivery(requestId: number, userId?: number): Promise<LetterDelivery | null> {
+  try {
+    if (userId && !(await userCan(userId, 'request:read', requestId))) {
+      return null;
+    }
+
+    const deliveries = await db.select()
+      .from(letterDeliveriesTable)
+      .where(eq(letterDeliveriesTable.letter_request_id, requestId))
+      .execute();
+
+    return deliveries[0] ?? null;
+  } catch (error) {
+    console.error('Failed to get delivery:', error);
+    throw error;
+  }
+}
@@ -1,47 +1,14 @@
 import { db } from '../db';
-import { dispositionAssignmentsTable, letterRequestsTable, usersTable } from '../db/schema';
+import { dispositionAssignmentsTable } from '../db/schema';
 import { type DispositionAssignment } from '../schema';
-import { eq, and, asc } from 'drizzle-orm';
+import { userCan } from '../lib/policy';
+import { eq, asc } from 'drizzle-orm';
 
 export async function getDispositionAssignments(requestId: number, userId?: number): Promise<DispositionAssignment[]> {
   try {
-    // If userId is provided, validate that the user has permission to view dispositions for this request
-    if (userId) {
-      // Check if the request exists and if the user has permission to view it
-      const requestCheck = await db.select()
-        .from(letterRequestsTable)
-        .where(eq(letterRequestsTable.id, requestId))
-        .execute();
-
-      if (requestCheck.length === 0) {
-        return []; // Request not found
-      }
-
-      const request = requestCheck[0];
-      
-      // Check if user has permission:
-      // 1. User created the request
-      // 2. User is the current handler
-      // 3. User has been assigned to any disposition for this request
-      const hasDirectPermission = request.created_by_user_id === userId || 
-                                 request.current_handler_user_id === userId;
-
-      if (!hasDirectPermission) {
-        // Check if user has any disposition assignment for this request
-        const userAssignments = await db.select()
-          .from(dispositionAssignmentsTable)
-          .where(
-            and(
-              eq(dispositionAssignmentsTable.letter_request_id, requestId),
-              eq(dispositionAssignmentsTable.assigned_to_user_id, userId)
-            )
-          )
-          .execute();
-
-        if (userAssignments.length === 0) {
-          return []; // No permission to view dispositions
-        }
-      }
+    // If userId is provided, check it through the shared request:read policy
+    if (userId && !(await userCan(userId, 'request:read', requestId))) {
+      return [];
     }
 
     // Query disposition assignments with user information, sorted by order_sequence
@@ -54,6 +21,7 @@ export async function getDispositionAssignments(requestId: number, userId?: numb
       order_sequence: dispositionAssignmentsTable.order_sequence,
       is_completed: dispositionAssignmentsTable.is_completed,
       completed_at: dispositionAssignmentsTable.completed_at,
+      escalated_at: dispositionAssignmentsTable.escalated_at,
       notes: dispositionAssignmentsTable.notes,
       created_at: dispositionAssignmentsTable.created_at
     })
@@ -0,0 +1,22 @@
+import { db } from '../db';
+import { facultiesTable } from '../db/schema';
+import { type Faculty } from '../schema';
+import { asc, eq } from 'drizzle-orm';
+
+// Faculties ordered by name; deactivated ones are left out unless asked for
+export async function getFaculties(includeInactive = false): Promise<Faculty[]> {
+  try {
+    const baseQuery = db.select().from(facultiesTable);
+
+    const queryWithFilter = includeInactive
+      ? baseQuery
+      : baseQuery.where(eq(facultiesTable.is_active, true));
+
+    return await queryWithFilter
+      .orderBy(asc(facultiesTable.name))
+      .execute();
+  } catch (error) {
+    console.error('Get faculties failed:', error);
+    throw error;
+  }
+}
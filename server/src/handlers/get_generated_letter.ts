@@ -0,0 +1,42 @@
+import { db } from '../db';
+import { generatedLettersTable, letterTemplatesTable } from '../db/schema';
+import { type GeneratedLetter } from '../schema';
+import { userCan } from '../lib/policy';
+import { desc, eq } from 'drizzle-orm';
+
+// Latest generated letter of a request, or null when none exists or the user may not read the request
+export async function getGeneratedLetter(requestId: number, userId?: number): Promise<GeneratedLetter | null> {
+  try {
+    if (userId && !(await userCan(userId, 'request:read', requestId))) {
+      return null;
+    }
+
+    const results = await db.select()
+      .from(generatedLettersTable)
+      .innerJoin(letterTemplatesTable, eq(generatedLettersTable.template_id, letterTemplatesTable.id))
+      .where(eq(generatedLettersTable.letter_request_id, requestId))
+      .orderBy(desc(generatedLettersTable.created_at), desc(generatedLettersTable.id))
+      .limit(1)
+      .execute();
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    const { generated_letters: letter, letter_templates: template } = results[0];
+
+    return {
+      id: letter.id,
+      letter_request_id: letter.letter_request_id,
+      template_id: letter.template_id,
+      template_version: template.version,
+      file_name: letter.file_name,
+      content_base64: letter.content.toString('base64'),
+      generated_by_user_id: letter.generated_by_user_id,
+      created_at: letter.created_at
+    };
+  } catch (error) {
+    console.error('Get generated letter failed:', error);
+    throw error;
+  }
+}
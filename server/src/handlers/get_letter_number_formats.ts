@@ -0,0 +1,17 @@
+import { db } from '../db';
+import { letterNumberFormatsTable } from '../db/schema';
+import { type LetterNumberFormat } from '../schema';
+import { asc, sql } from 'drizzle-orm';
+
+// All configured formats, the faculty default first
+export async function getLetterNumberFormats(): Promise<LetterNumberFormat[]> {
+  try {
+    return await db.select()
+      .from(letterNumberFormatsTable)
+      .orderBy(sql`${letterNumberFormatsTable.letter_type} asc nulls first`, asc(letterNumberFormatsTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Get letter number formats failed:', error);
+    throw error;
+  }
+}
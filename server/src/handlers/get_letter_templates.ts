@@ -0,0 +1,22 @@
+import { db } from '../db';
+import { letterTemplatesTable } from '../db/schema';
+import { type LetterTemplate } from '../schema';
+import { asc, desc, eq } from 'drizzle-orm';
+
+// Every template version, newest first within each letter type
+export async function getLetterTemplates(letterType?: string): Promise<LetterTemplate[]> {
+  try {
+    const baseQuery = db.select().from(letterTemplatesTable);
+
+    const queryWithFilter = letterType
+      ? baseQuery.where(eq(letterTemplatesTable.letter_type, letterType))
+      : baseQuery;
+
+    return await queryWithFilter
+      .orderBy(asc(letterTemplatesTable.letter_type), desc(letterTemplatesTable.version))
+      .execute();
+  } catch (error) {
+    console.error('Get letter templates failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,22 @@
+import { db } from '../db';
+import { letterTypesTable } from '../db/schema';
+import { type LetterType } from '../schema';
+import { asc, eq } from 'drizzle-orm';
+
+// The catalog ordered by name; deactivated types are left out unless asked for
+export async function getLetterTypes(includeInactive = false): Promise<LetterType[]> {
+  try {
+    const baseQuery = db.select().from(letterTypesTable);
+
+    const queryWithFilter = includeInactive
+      ? baseQuery
+      : baseQuery.where(eq(letterTypesTable.is_active, true));
+
+    return await queryWithFilter
+      .orderBy(asc(letterTypesTable.name))
+      .execute();
+  } catch (error) {
+    console.error('Get letter types failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,52 @@
+import { db } from '../db';
+import { letterRequestsTable, letterTypesTable, studentsTable } from '../db/schema';
+import { type PublicLetterVerification } from '../schema';
+import { verifyRequestSignature } from '../lib/letter_signing';
+import { isWellFormedVerificationToken, verifiableStatuses } from '../lib/letter_verification';
+import { eq } from 'drizzle-orm';
+
+// Public lookup behind the QR code on a letter. No session is involved, so it returns only the fields
+// a recipient needs to confirm the letter, and null for unknown tokens and letters that are not signed.
+export async function getLetterVerification(token: string): Promise<PublicLetterVerification | null> {
+  try {
+    if (!isWellFormedVerificationToken(token)) {
+      return null;
+    }
+
+    return await db.transaction(async (tx) => {
+      const results = await tx.select()
+        .from(letterRequestsTable)
+        .innerJoin(studentsTable, eq(letterRequestsTable.student_id, studentsTable.id))
+        .leftJoin(letterTypesTable, eq(letterRequestsTable.letter_type, letterTypesTable.code))
+        .where(eq(letterRequestsTable.verification_token, token))
+        .execute();
+
+      if (results.length === 0) {
+        return null;
+      }
+
+      const { letter_requests: request, students: student, letter_types: letterType } = results[0];
+      if (!verifiableStatuses.includes(request.status)) {
+        return null;
+      }
+
+      const verification = await verifyRequestSignature(tx, request);
+      if (!verification.signed || !verification.signer || !verification.signed_at || !verification.letter_number) {
+        return null;
+      }
+
+      return {
+        letter_number: verification.letter_number,
+        student_name: student.name,
+        letter_type: letterType?.name ?? request.letter_type,
+        signed_at: verification.signed_at,
+        signer_name: verification.signer.name,
+        signer_role: verification.signer.role,
+        valid: verification.valid
+      };
+    });
+  } catch (error) {
+    console.error('Letter verification lookup failed:', error);
+    throw error;
+  }
+}
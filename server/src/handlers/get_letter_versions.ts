@@ -0,0 +1,49 @@
+import { db } from '../db';
+import { letterRequestsTable, letterVersionsTable, usersTable } from '../db/schema';
+import { type LetterVersion } from '../schema';
+import { userCan } from '../lib/policy';
+import { desc, eq } from 'drizzle-orm';
+
+// Every final letter version of a request, newest first, with the one in use marked as current
+export async function getLetterVersions(requestId: number, userId?: number): Promise<LetterVersion[]> {
+  try {
+    if (userId && !(await userCan(userId, 'request:read', requestId))) {
+      return [];
+    }
+
+    const requests = await db.select({ current_letter_version_id: letterRequestsTable.current_letter_version_id })
+      .from(letterRequestsTable)
+      .where(eq(letterRequestsTable.id, requestId))
+      .execute();
+
+    if (requests.length === 0) {
+      return [];
+    }
+
+    const results = await db.select()
+      .from(letterVersionsTable)
+      .innerJoin(usersTable, eq(letterVersionsTable.created_by_user_id, usersTable.id))
+      .where(eq(letterVersionsTable.letter_request_id, requestId))
+      .orderBy(desc(letterVersionsTable.version_number))
+      .execute();
+
+    return results.map(({ letter_versions: version, users: creator }) => ({
+      id: version.id,
+      letter_request_id: version.letter_request_id,
+      version_number: version.version_number,
+      source: version.source,
+      file_url: version.file_url,
+      file_name: version.file_name,
+      size_bytes: version.size_bytes,
+      sha256: version.sha256,
+      change_note: version.change_note,
+      created_by_user_id: version.created_by_user_id,
+      created_by_name: creator.name,
+      is_current: version.id === requests[0].current_letter_version_id,
+      created_at: version.created_at
+    }));
+  } catch (error) {
+    console.error('Get letter versions failed:', error);
+    throw error;
+  }
+}
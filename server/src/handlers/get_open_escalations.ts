@@ -0,0 +1,41 @@
+import { db } from '../db';
+import { escalationsTable, letterRequestsTable, studentsTable, usersTable } from '../db/schema';
+import { type OpenEscalation } from '../schema';
+import { asc, eq, isNull } from 'drizzle-orm';
+
+// The admin queue: unresolved escalations, longest waiting first
+export async function getOpenEscalations(): Promise<OpenEscalation[]> {
+  try {
+    const results = await db.select({
+      id: escalationsTable.id,
+      letter_request_id: escalationsTable.letter_request_id,
+      assignment_id: escalationsTable.assignment_id,
+      raised_by_user_id: escalationsTable.raised_by_user_id,
+      category: escalationsTable.category,
+      reason: escalationsTable.reason,
+      raised_at: escalationsTable.raised_at,
+      resolution: escalationsTable.resolution,
+      resolution_notes: escalationsTable.resolution_notes,
+      resolved_by_user_id: escalationsTable.resolved_by_user_id,
+      resolved_at: escalationsTable.resolved_at,
+      time_to_resolve_seconds: escalationsTable.time_to_resolve_seconds,
+      raised_by_name: usersTable.name,
+      student_nim: studentsTable.nim,
+      student_name: studentsTable.name,
+      letter_type: letterRequestsTable.letter_type,
+      priority: letterRequestsTable.priority
+    })
+      .from(escalationsTable)
+      .innerJoin(usersTable, eq(escalationsTable.raised_by_user_id, usersTable.id))
+      .innerJoin(letterRequestsTable, eq(escalationsTable.letter_request_id, letterRequestsTable.id))
+      .innerJoin(studentsTable, eq(letterRequestsTable.student_id, studentsTable.id))
+      .where(isNull(escalationsTable.resolved_at))
+      .orderBy(asc(escalationsTable.raised_at), asc(escalationsTable.id))
+      .execute();
+
+    return results;
+  } catch (error) {
+    console.error('Failed to get open escalations:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,22 @@
+import { db } from '../db';
+import { rejectionReasonsTable } from '../db/schema';
+import { type RejectionReason } from '../schema';
+import { asc, eq } from 'drizzle-orm';
+
+// The managed list ordered by label; deactivated reasons are left out unless asked for
+export async function getRejectionReasons(includeInactive = false): Promise<RejectionReason[]> {
+  try {
+    const baseQuery = db.select().from(rejectionReasonsTable);
+
+    const queryWithFilter = includeInactive
+      ? baseQuery
+      : baseQuery.where(eq(rejectionReasonsTable.is_active, true));
+
+    return await queryWithFilter
+      .orderBy(asc(rejectionReasonsTable.label))
+      .execute();
+  } catch (error) {
+    console.error('Get rejection reasons failed:', error);
+    throw error;
+  }
+}
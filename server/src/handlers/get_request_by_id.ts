@@ -8,6 +8,7 @@ import {
   dispositionAssignmentsTable 
 } from '../db/schema';
 import { type LetterRequest } from '../schema';
+import { userCan } from '../lib/policy';
 import { eq } from 'drizzle-orm';
 
 export const getRequestById = async (requestId: number, userId?: number): Promise<LetterRequest | null> => {
@@ -29,34 +30,9 @@ export const getRequestById = async (requestId: number, userId?: number): Promis
     const student = result.students;
     const creator = result.users;
 
-    // Basic permission check: users can view requests they created,
-    // or requests where they are the current handler, or admin users can view all
-    if (userId) {
-      // Get the requesting user's role
-      const requestingUser = await db.select()
-        .from(usersTable)
-        .where(eq(usersTable.id, userId))
-        .execute();
-
-      if (requestingUser.length === 0) {
-        return null; // Invalid user ID
-      }
-
-      const userRole = requestingUser[0].role;
-
-      // Check permissions:
-      // 1. Admin can view all requests
-      // 2. User created this request
-      // 3. User is current handler
-      // 4. User has a role that can generally access requests (DEKAN, WD1, WD2, WD3, etc.)
-      const canViewRequest = userRole === 'ADMIN' ||
-        letterRequest.created_by_user_id === userId ||
-        letterRequest.current_handler_user_id === userId ||
-        ['DEKAN', 'WD1', 'WD2', 'WD3', 'KABAG_TU', 'KAUR_AKADEMIK', 'KAUR_KEMAHASISWAAN', 'KAUR_KEUANGAN', 'STAFF_FAKULTAS'].includes(userRole);
-
-      if (!canViewRequest) {
-        return null;
-      }
+    // Permission check through the shared request:read policy
+    if (userId && !(await userCan(userId, 'request:read', requestId))) {
+      return null;
     }
 
     // Get supporting documents
@@ -103,8 +79,17 @@ export const getRequestById = async (requestId: number, userId?: number): Promis
       priority: letterRequest.priority,
       status: letterRequest.status,
       current_handler_user_id: letterRequest.current_handler_user_id,
+      parallel_handler_user_ids: letterRequest.parallel_handler_user_ids,
       dekan_instructions: letterRequest.dekan_instructions,
       final_letter_url: letterRequest.final_letter_url,
+      current_letter_version_id: letterRequest.current_letter_version_id,
+      letter_number: letterRequest.letter_number,
+      verification_token: letterRequest.verification_token,
+      revision_count: letterRequest.revision_count,
+      rejection_reason_code: letterRequest.rejection_reason_code,
+      rejection_notes: letterRequest.rejection_notes,
+      due_at: letterRequest.due_at,
+      version: letterRequest.version,
       created_at: letterRequest.created_at,
       updated_at: letterRequest.updated_at,
       // Additional related data (not part of LetterRequest type but useful)
@@ -138,6 +123,14 @@ export const getRequestById = async (requestId: number, userId?: number): Promis
         letter_request_id: doc.supporting_documents.letter_request_id,
         file_name: doc.supporting_documents.file_name,
         file_url: doc.supporting_documents.file_url,
+        document_type: doc.supporting_documents.document_type,
+        storage_key: doc.supporting_documents.storage_key,
+        mime_type: doc.supporting_documents.mime_type,
+        size_bytes: doc.supporting_documents.size_bytes,
+        sha256: doc.supporting_documents.sha256,
+        page_count: doc.supporting_documents.page_count,
+        status: doc.supporting_documents.status,
+        quarantine_reason: doc.supporting_documents.quarantine_reason,
         uploaded_by_user_id: doc.supporting_documents.uploaded_by_user_id,
         created_at: doc.supporting_documents.created_at,
         uploaded_by: doc.users ? {
@@ -173,6 +166,7 @@ export const getRequestById = async (requestId: number, userId?: number): Promis
         order_sequence: disp.disposition_assignments.order_sequence,
         is_completed: disp.disposition_assignments.is_completed,
         completed_at: disp.disposition_assignments.completed_at,
+        escalated_at: disp.disposition_assignments.escalated_at,
         notes: disp.disposition_assignments.notes,
         created_at: disp.disposition_assignments.created_at,
         assigned_to: disp.users ? {
@@ -0,0 +1,24 @@
+import { db } from '../db';
+import { letterRequestsTable } from '../db/schema';
+import { type LetterRequest } from '../schema';
+import { getRequestById } from './get_request_by_id';
+import { eq } from 'drizzle-orm';
+
+// Looks a request up by its official letter number; same result and permission rules as getRequestById
+export async function getRequestByLetterNumber(letterNumber: string, userId?: number): Promise<LetterRequest | null> {
+  try {
+    const results = await db.select({ id: letterRequestsTable.id })
+      .from(letterRequestsTable)
+      .where(eq(letterRequestsTable.letter_number, letterNumber.trim()))
+      .execute();
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    return await getRequestById(results[0].id, userId);
+  } catch (error) {
+    console.error('Get request by letter number failed:', error);
+    throw error;
+  }
+}
@@ -1,7 +1,8 @@
 import { db } from '../db';
 import { letterRequestsTable, usersTable, studentsTable } from '../db/schema';
 import { type GetRequestsFilter, type LetterRequest } from '../schema';
-import { eq, and, gte, lte, desc, or } from 'drizzle-orm';
+import { requestListCondition } from '../lib/policy';
+import { eq, and, or, gte, lte, desc, arrayContains } from 'drizzle-orm';
 import type { SQL } from 'drizzle-orm';
 
 export async function getRequests(filter?: GetRequestsFilter, userId?: number): Promise<LetterRequest[]> {
@@ -16,8 +17,17 @@ export async function getRequests(filter?: GetRequestsFilter, userId?: number):
       priority: letterRequestsTable.priority,
       status: letterRequestsTable.status,
       current_handler_user_id: letterRequestsTable.current_handler_user_id,
+      parallel_handler_user_ids: letterRequestsTable.parallel_handler_user_ids,
       dekan_instructions: letterRequestsTable.dekan_instructions,
       final_letter_url: letterRequestsTable.final_letter_url,
+      current_letter_version_id: letterRequestsTable.current_letter_version_id,
+      letter_number: letterRequestsTable.letter_number,
+      verification_token: letterRequestsTable.verification_token,
+      revision_count: letterRequestsTable.revision_count,
+      rejection_reason_code: letterRequestsTable.rejection_reason_code,
+      rejection_notes: letterRequestsTable.rejection_notes,
+      due_at: letterRequestsTable.due_at,
+      version: letterRequestsTable.version,
       created_at: letterRequestsTable.created_at,
       updated_at: letterRequestsTable.updated_at
     })
@@ -37,48 +47,10 @@ export async function getRequests(filter?: GetRequestsFilter, userId?: number):
         .execute();
 
       if (userResult.length > 0) {
-        const user = userResult[0];
-        
-        // Role-based access control
-        switch (user.role) {
-          case 'STUDENT':
-            // Students can only see requests they created (via their user account)
-            conditions.push(eq(letterRequestsTable.created_by_user_id, userId));
-            break;
-            
-          case 'STAFF_PRODI':
-          case 'KAPRODI':
-            // Prodi staff can see requests from their prodi
-            if (user.prodi) {
-              conditions.push(eq(studentsTable.prodi, user.prodi));
-            }
-            break;
-            
-          case 'DEKAN':
-          case 'STAFF_FAKULTAS':
-          case 'WD1':
-          case 'WD2':
-          case 'WD3':
-          case 'KABAG_TU':
-          case 'KAUR_AKADEMIK':
-          case 'KAUR_KEMAHASISWAAN':
-          case 'KAUR_KEUANGAN':
-            // Faculty level roles can see requests assigned to them or all requests
-            conditions.push(
-              or(
-                eq(letterRequestsTable.current_handler_user_id, userId),
-                eq(letterRequestsTable.created_by_user_id, userId)
-              )!
-            );
-            break;
-            
-          case 'ADMIN':
-            // Admin can see all requests - no additional filtering
-            break;
-            
-          default:
-            // Unknown role - restrict access
-            conditions.push(eq(letterRequestsTable.created_by_user_id, userId));
+        // Same visibility rule as request:read in the shared policy
+        const visibility = requestListCondition(userResult[0]);
+        if (visibility) {
+          conditions.push(visibility);
         }
       } else {
         // User not found - restrict to impossible condition
@@ -105,7 +77,11 @@ export async function getRequests(filter?: GetRequestsFilter, userId?: number):
       }
 
       if (filter.current_handler_user_id) {
-        conditions.push(eq(letterRequestsTable.current_handler_user_id, filter.current_handler_user_id));
+        // Officers of a parallel disposition step each see the request in their queue
+        conditions.push(or(
+          eq(letterRequestsTable.current_handler_user_id, filter.current_handler_user_id),
+          arrayContains(letterRequestsTable.parallel_handler_user_ids, [filter.current_handler_user_id])
+        )!);
       }
 
       if (filter.from_date) {
@@ -0,0 +1,31 @@
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { type User } from '../schema';
+import { hashSessionToken } from '../lib/session';
+import { and, eq, gt } from 'drizzle-orm';
+
+export async function getSessionUser(token: string): Promise<User | null> {
+  try {
+    const results = await db.select()
+      .from(sessionsTable)
+      .innerJoin(usersTable, eq(sessionsTable.user_id, usersTable.id))
+      .where(
+        and(
+          eq(sessionsTable.token_hash, hashSessionToken(token)),
+          gt(sessionsTable.expires_at, new Date())
+        )
+      )
+      .limit(1)
+      .execute();
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    const { password_hash, ...user } = results[0].users;
+    return user;
+  } catch (error) {
+    console.error('Failed to resolve session user:', error);
+    throw error;
+  }
+}
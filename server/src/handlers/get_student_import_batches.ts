@@ -0,0 +1,48 @@
+import { db } from '../db';
+import { studentImportBatchesTable, studentImportErrorsTable, usersTable } from '../db/schema';
+import { type StudentImportBatch } from '../schema';
+import { asc, desc, eq, inArray } from 'drizzle-orm';
+
+// Recorded student imports, newest first, each with the rows it skipped
+export async function getStudentImportBatches(): Promise<StudentImportBatch[]> {
+  try {
+    const batches = await db.select({
+      id: studentImportBatchesTable.id,
+      file_name: studentImportBatchesTable.file_name,
+      size_bytes: studentImportBatchesTable.size_bytes,
+      sha256: studentImportBatchesTable.sha256,
+      imported_by_user_id: studentImportBatchesTable.imported_by_user_id,
+      imported_by_name: usersTable.name,
+      total_rows: studentImportBatchesTable.total_rows,
+      created_count: studentImportBatchesTable.created_count,
+      updated_count: studentImportBatchesTable.updated_count,
+      unchanged_count: studentImportBatchesTable.unchanged_count,
+      error_count: studentImportBatchesTable.error_count,
+      created_at: studentImportBatchesTable.created_at
+    })
+      .from(studentImportBatchesTable)
+      .innerJoin(usersTable, eq(studentImportBatchesTable.imported_by_user_id, usersTable.id))
+      .orderBy(desc(studentImportBatchesTable.created_at), desc(studentImportBatchesTable.id))
+      .execute();
+
+    if (batches.length === 0) {
+      return [];
+    }
+
+    const errors = await db.select()
+      .from(studentImportErrorsTable)
+      .where(inArray(studentImportErrorsTable.batch_id, batches.map(batch => batch.id)))
+      .orderBy(asc(studentImportErrorsTable.row_number))
+      .execute();
+
+    return batches.map(batch => ({
+      ...batch,
+      errors: errors
+        .filter(error => error.batch_id === batch.id)
+        .map(error => ({ row_number: error.row_number, nim: error.nim, message: error.message }))
+    }));
+  } catch (error) {
+    console.error('Failed to get student import batches:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,28 @@
+import { db } from '../db';
+import { studyProgramsTable } from '../db/schema';
+import { type GetStudyProgramsInput, type StudyProgram } from '../schema';
+import { and, asc, eq, type SQL } from 'drizzle-orm';
+
+// Study programs ordered by name, optionally of one faculty; deactivated ones are left out unless asked for
+export async function getStudyPrograms(input: GetStudyProgramsInput = {}): Promise<StudyProgram[]> {
+  try {
+    const conditions: SQL[] = [];
+
+    if (input.faculty_id !== undefined) {
+      conditions.push(eq(studyProgramsTable.faculty_id, input.faculty_id));
+    }
+
+    if (!input.includeInactive) {
+      conditions.push(eq(studyProgramsTable.is_active, true));
+    }
+
+    return await db.select()
+      .from(studyProgramsTable)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(studyProgramsTable.name))
+      .execute();
+  } catch (error) {
+    console.error('Get study programs failed:', error);
+    throw error;
+  }
+}
@@ -1,45 +1,14 @@
 import { db } from '../db';
-import { supportingDocumentsTable, letterRequestsTable, usersTable } from '../db/schema';
+import { supportingDocumentsTable, usersTable } from '../db/schema';
 import { type SupportingDocument } from '../schema';
-import { eq, and, asc } from 'drizzle-orm';
+import { userCan } from '../lib/policy';
+import { eq, asc } from 'drizzle-orm';
 
 export async function getSupportingDocuments(requestId: number, userId?: number): Promise<SupportingDocument[]> {
   try {
-    // If userId is provided, check if user has permission to view this request
-    if (userId) {
-      const letterRequest = await db.select()
-        .from(letterRequestsTable)
-        .where(eq(letterRequestsTable.id, requestId))
-        .execute();
-
-      if (letterRequest.length === 0) {
-        return []; // Request not found
-      }
-
-      const request = letterRequest[0];
-
-      // Check if user has permission to view this request
-      // User can view if they are:
-      // 1. The creator of the request
-      // 2. The current handler
-      // 3. The student who requested it (would need student_id check)
-      const userInfo = await db.select()
-        .from(usersTable)
-        .where(eq(usersTable.id, userId))
-        .execute();
-
-      if (userInfo.length === 0) {
-        return []; // User not found
-      }
-
-      const user = userInfo[0];
-      const hasPermission = request.created_by_user_id === userId ||
-                           request.current_handler_user_id === userId ||
-                           user.role === 'ADMIN'; // Admin can view all
-
-      if (!hasPermission) {
-        return []; // No permission to view documents
-      }
+    // If userId is provided, check it through the shared request:read policy
+    if (userId && !(await userCan(userId, 'request:read', requestId))) {
+      return [];
     }
 
     // Retrieve supporting documents with uploader information
@@ -48,6 +17,14 @@ export async function getSupportingDocuments(requestId: number, userId?: number)
       letter_request_id: supportingDocumentsTable.letter_request_id,
       file_name: supportingDocumentsTable.file_name,
       file_url: supportingDocumentsTable.file_url,
+      document_type: supportingDocumentsTable.document_type,
+      storage_key: supportingDocumentsTable.storage_key,
+      mime_type: supportingDocumentsTable.mime_type,
+      size_bytes: supportingDocumentsTable.size_bytes,
+      sha256: supportingDocumentsTable.sha256,
+      page_count: supportingDocumentsTable.page_count,
+      status: supportingDocumentsTable.status,
+      quarantine_reason: supportingDocumentsTable.quarantine_reason,
       uploaded_by_user_id: supportingDocumentsTable.uploaded_by_user_id,
       created_at: supportingDocumentsTable.created_at,
       uploader_name: usersTable.name,
@@ -65,6 +42,14 @@ export async function getSupportingDocuments(requestId: number, userId?: number)
       letter_request_id: result.letter_request_id,
       file_name: result.file_name,
       file_url: result.file_url,
+      document_type: result.document_type,
+      storage_key: result.storage_key,
+      mime_type: result.mime_type,
+      size_bytes: result.size_bytes,
+      sha256: result.sha256,
+      page_count: result.page_count,
+      status: result.status,
+      quarantine_reason: result.quarantine_reason,
       uploaded_by_user_id: result.uploaded_by_user_id,
       created_at: result.created_at
     }));
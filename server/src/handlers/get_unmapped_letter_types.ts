@@ -0,0 +1,33 @@
+import { db } from '../db';
+import { letterRequestsTable, letterTypesTable } from '../db/schema';
+import { type UnmappedLetterType } from '../schema';
+import { count, notInArray } from 'drizzle-orm';
+
+// Free-text letter types still used by requests, by value, that are not a catalog code. Each comes with the
+// catalog entry it most likely means, for the ADMIN to confirm with mapLetterType.
+export async function getUnmappedLetterTypes(): Promise<UnmappedLetterType[]> {
+  try {
+    return await db.transaction(async (tx) => {
+      const letterTypes = await tx.select().from(letterTypesTable).execute();
+      const codes = letterTypes.map(letterType => letterType.code);
+
+      const baseQuery = tx.select({ letter_type: letterRequestsTable.letter_type, count: count() })
+        .from(letterRequestsTable);
+      const rows = await (codes.length > 0 ? baseQuery.where(notInArray(letterRequestsTable.letter_type, codes)) : baseQuery)
+        .groupBy(letterRequestsTable.letter_type)
+        .execute();
+
+      const byName = new Map(letterTypes.map(letterType => [letterType.name.trim().toLowerCase(), letterType.code]));
+      return rows
+        .map(row => ({
+          letter_type: row.letter_type,
+          request_count: row.count,
+          suggested_code: byName.get(row.letter_type.trim().toLowerCase()) ?? null
+        }))
+        .sort((a, b) => a.letter_type.localeCompare(b.letter_type));
+    });
+  } catch (error) {
+    console.error('Get unmapped letter types failed:', error);
+    throw error;
+  }
+}
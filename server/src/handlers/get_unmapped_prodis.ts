@@ -0,0 +1,49 @@
+import { db } from '../db';
+import { studentsTable, usersTable } from '../db/schema';
+import { type UnmappedProdi } from '../schema';
+import { loadStudyProgramLookup } from '../lib/study_programs';
+import { and, count, isNotNull, isNull } from 'drizzle-orm';
+
+// Free-text prodi values still used by users or students not linked to a study program, by name. Each comes
+// with the program it most likely means, for the ADMIN to confirm with mapProdi.
+export async function getUnmappedProdis(): Promise<UnmappedProdi[]> {
+  try {
+    return await db.transaction(async (tx) => {
+      const users = await tx.select({ prodi: usersTable.prodi, count: count() })
+        .from(usersTable)
+        .where(and(isNull(usersTable.study_program_id), isNotNull(usersTable.prodi)))
+        .groupBy(usersTable.prodi)
+        .execute();
+
+      const students = await tx.select({ prodi: studentsTable.prodi, count: count() })
+        .from(studentsTable)
+        .where(isNull(studentsTable.study_program_id))
+        .groupBy(studentsTable.prodi)
+        .execute();
+
+      const studyPrograms = await loadStudyProgramLookup(tx);
+      const unmapped = new Map<string, UnmappedProdi>();
+      const entry = (prodi: string) => {
+        let existing = unmapped.get(prodi);
+        if (!existing) {
+          existing = {
+            prodi,
+            user_count: 0,
+            student_count: 0,
+            suggested_study_program_id: studyPrograms.get(prodi.trim().toLowerCase())?.id ?? null
+          };
+          unmapped.set(prodi, existing);
+        }
+        return existing;
+      };
+
+      users.forEach(row => { entry(row.prodi!).user_count = row.count; });
+      students.forEach(row => { entry(row.prodi).student_count = row.count; });
+
+      return [...unmapped.values()].sort((a, b) => a.prodi.localeCompare(b.prodi));
+    });
+  } catch (error) {
+    console.error('Get unmapped prodis failed:', error);
+    throw error;
+  }
+}
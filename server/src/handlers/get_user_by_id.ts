@@ -15,7 +15,8 @@ export const getUserById = async (userId: number): Promise<User | null> => {
       return null;
     }
 
-    return result[0];
+    const { password_hash, ...user } = result[0];
+    return user;
   } catch (error) {
     console.error('Failed to get user by ID:', error);
     throw error;
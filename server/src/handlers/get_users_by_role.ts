@@ -11,7 +11,7 @@ export async function getUsersByRole(role: UserRole): Promise<User[]> {
       .where(eq(usersTable.role, role))
       .execute();
 
-    return results;
+    return results.map(({ password_hash, ...user }) => user);
   } catch (error) {
     console.error('Get users by role failed:', error);
     throw error;
@@ -0,0 +1,154 @@
+import { db } from '../db';
+import { studentImportBatchesTable, studentImportErrorsTable, studentsTable, type Student } from '../db/schema';
+import { type ImportStudentsInput, type StudentImportResult, type StudentImportRow } from '../schema';
+import { mapImportColumns, parseImportRow, type ImportedStudent } from '../lib/student_import';
+import { readSpreadsheet } from '../lib/spreadsheet';
+import { loadFacultyLookup, loadStudyProgramLookup } from '../lib/study_programs';
+import { readUpload } from '../lib/storage';
+import { eq, inArray } from 'drizzle-orm';
+
+// Rows per statement, well below the PostgreSQL parameter limit
+const chunkSize = 500;
+
+function chunks<T>(items: T[]): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < items.length; i += chunkSize) {
+    result.push(items.slice(i, i + chunkSize));
+  }
+  return result;
+}
+
+// The attributes of an imported row that differ from the recorded student; columns missing from the file keep their value
+function changedFields(current: Student, imported: ImportedStudent): Partial<ImportedStudent> {
+  const changes: Partial<ImportedStudent> = {};
+  for (const field of ['name', 'prodi', 'study_program_id', 'faculty_id', 'status', 'angkatan', 'semester'] as const) {
+    if (imported[field] !== undefined && imported[field] !== current[field]) {
+      Object.assign(changes, { [field]: imported[field] });
+    }
+  }
+  return changes;
+}
+
+// Loads a SIAKAD export and upserts its students by NIM. Invalid rows are skipped and reported; the
+// valid ones are applied. A dry run reports the same outcome without writing or recording anything.
+export async function importStudents(input: ImportStudentsInput, userId: number): Promise<StudentImportResult> {
+  try {
+    // 1. Read the sheet; the header row decides which column holds what
+    const upload = await readUpload(input.file);
+    const [header, ...body] = readSpreadsheet(upload.content);
+    if (!header) {
+      throw new Error('Import file has no rows');
+    }
+    const columns = mapImportColumns(header);
+
+    return await db.transaction(async (tx) => {
+      // 2. Validate every row, then look up the students the file already knows
+      const studyPrograms = await loadStudyProgramLookup(tx);
+      const faculties = await loadFacultyLookup(tx);
+      const parsedRows = body.map((cells, index) => parseImportRow(cells, columns, index + 2, studyPrograms, faculties));
+
+      const nims = [...new Set(parsedRows.flatMap(parsed => parsed.student ? [parsed.student.nim] : []))];
+      const existing = new Map<string, Student>();
+      for (const chunk of chunks(nims)) {
+        const students = await tx.select()
+          .from(studentsTable)
+          .where(inArray(studentsTable.nim, chunk))
+          .for('update')
+          .execute();
+        students.forEach(student => existing.set(student.nim, student));
+      }
+
+      // 3. Decide what happens to each row; a NIM listed twice is only taken the first time
+      const firstRowByNim = new Map<string, number>();
+      const creates: typeof studentsTable.$inferInsert[] = [];
+      const updates: { id: number; changes: Partial<ImportedStudent> }[] = [];
+
+      const rows: StudentImportRow[] = parsedRows.map(parsed => {
+        const { student } = parsed;
+        if (!student) {
+          return { row: parsed.row, nim: parsed.nim, action: 'ERROR', message: parsed.errors.join('; ') };
+        }
+
+        const firstRow = firstRowByNim.get(student.nim);
+        if (firstRow !== undefined) {
+          return { row: parsed.row, nim: student.nim, action: 'ERROR', message: `Duplicate NIM ${student.nim}, first listed on row ${firstRow}` };
+        }
+        firstRowByNim.set(student.nim, parsed.row);
+
+        const current = existing.get(student.nim);
+        if (!current) {
+          creates.push(student);
+          return { row: parsed.row, nim: student.nim, action: 'CREATE', message: null };
+        }
+
+        const changes = changedFields(current, student);
+        if (Object.keys(changes).length === 0) {
+          return { row: parsed.row, nim: student.nim, action: 'UNCHANGED', message: null };
+        }
+
+        updates.push({ id: current.id, changes });
+        return { row: parsed.row, nim: student.nim, action: 'UPDATE', message: null };
+      });
+
+      const errorRows = rows.filter(row => row.action === 'ERROR');
+      const result: StudentImportResult = {
+        batch_id: null,
+        dry_run: input.dry_run,
+        file_name: upload.file_name,
+        total_rows: rows.length,
+        created_count: creates.length,
+        updated_count: updates.length,
+        unchanged_count: rows.filter(row => row.action === 'UNCHANGED').length,
+        error_count: errorRows.length,
+        rows
+      };
+
+      if (input.dry_run) {
+        return result;
+      }
+
+      // 4. Record the batch, apply the valid rows and keep the skipped ones for the audit trail
+      const batch = await tx.insert(studentImportBatchesTable)
+        .values({
+          file_name: upload.file_name,
+          size_bytes: upload.size_bytes,
+          sha256: upload.sha256,
+          imported_by_user_id: userId,
+          total_rows: result.total_rows,
+          created_count: result.created_count,
+          updated_count: result.updated_count,
+          unchanged_count: result.unchanged_count,
+          error_count: result.error_count
+        })
+        .returning()
+        .execute();
+
+      for (const chunk of chunks(creates)) {
+        await tx.insert(studentsTable).values(chunk).execute();
+      }
+
+      for (const update of updates) {
+        await tx.update(studentsTable)
+          .set(update.changes)
+          .where(eq(studentsTable.id, update.id))
+          .execute();
+      }
+
+      for (const chunk of chunks(errorRows)) {
+        await tx.insert(studentImportErrorsTable)
+          .values(chunk.map(row => ({
+            batch_id: batch[0].id,
+            row_number: row.row,
+            nim: row.nim,
+            message: row.message ?? ''
+          })))
+          .execute();
+      }
+
+      return { ...result, batch_id: batch[0].id };
+    });
+  } catch (error) {
+    console.error('Student import failed:', error);
+    throw error;
+  }
+}
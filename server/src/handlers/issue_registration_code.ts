@@ -0,0 +1,67 @@
+import { db } from '../db';
+import { studentRegistrationCodesTable, studentsTable, usersTable } from '../db/schema';
+import { type IssueRegistrationCodeInput, type RegistrationCode } from '../schema';
+import { can } from '../lib/policy';
+import { generateRegistrationCode, getRegistrationCodeExpiry, hashRegistrationCode } from '../lib/registration_codes';
+import { eq } from 'drizzle-orm';
+
+// Staff issue the code a student needs for registerStudent, typically when the student shows their KTM.
+// A new code replaces any earlier one for the record.
+export async function issueRegistrationCode(input: IssueRegistrationCodeInput, userId: number): Promise<RegistrationCode> {
+  try {
+    return await db.transaction(async (tx) => {
+      const students = await tx.select()
+        .from(studentsTable)
+        .where(eq(studentsTable.id, input.student_id))
+        .for('update')
+        .execute();
+
+      if (students.length === 0) {
+        throw new Error(`Student with ID ${input.student_id} not found`);
+      }
+
+      const student = students[0];
+
+      // Prodi staff only issue codes for students of their own study program
+      const user = await tx.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, userId))
+        .execute();
+
+      if (user.length === 0) {
+        throw new Error(`User with ID ${userId} not found`);
+      }
+
+      const resource = {
+        student_prodi: student.prodi,
+        student_study_program_id: student.study_program_id,
+        student_user_id: student.user_id
+      };
+      if (!can(user[0], 'student:manage', resource)) {
+        throw new Error(`User does not have permission to issue registration codes for NIM ${student.nim}`);
+      }
+
+      if (student.user_id !== null) {
+        throw new Error(`An account is already registered for NIM ${student.nim}`);
+      }
+
+      const code = generateRegistrationCode();
+      const values = {
+        code_hash: hashRegistrationCode(code),
+        issued_by_user_id: userId,
+        expires_at: getRegistrationCodeExpiry(),
+        created_at: new Date()
+      };
+
+      await tx.insert(studentRegistrationCodesTable)
+        .values({ student_id: student.id, ...values })
+        .onConflictDoUpdate({ target: studentRegistrationCodesTable.student_id, set: values })
+        .execute();
+
+      return { student_id: student.id, nim: student.nim, code, expires_at: values.expires_at };
+    });
+  } catch (error) {
+    console.error('Registration code issue failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,47 @@
+import { db } from '../db';
+import { usersTable, sessionsTable } from '../db/schema';
+import { type LoginInput, type LoginResult } from '../schema';
+import { verifyPassword } from '../lib/password';
+import { generateSessionToken, hashSessionToken, getSessionExpiry } from '../lib/session';
+import { eq } from 'drizzle-orm';
+
+export async function login(input: LoginInput): Promise<LoginResult> {
+  try {
+    const userResult = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.email, input.email))
+      .execute();
+
+    // Same message for unknown email and wrong password to avoid account enumeration
+    if (userResult.length === 0 || !userResult[0].password_hash) {
+      throw new Error('Invalid email or password');
+    }
+
+    const { password_hash, ...user } = userResult[0];
+
+    const passwordMatches = await verifyPassword(input.password, password_hash);
+    if (!passwordMatches) {
+      throw new Error('Invalid email or password');
+    }
+
+    const token = generateSessionToken();
+    const expiresAt = getSessionExpiry();
+
+    await db.insert(sessionsTable)
+      .values({
+        user_id: user.id,
+        token_hash: hashSessionToken(token),
+        expires_at: expiresAt
+      })
+      .execute();
+
+    return {
+      token,
+      expires_at: expiresAt,
+      user
+    };
+  } catch (error) {
+    console.error('Login failed:', error);
+    throw error;
+  }
+}
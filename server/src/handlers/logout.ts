@@ -0,0 +1,18 @@
+import { db } from '../db';
+import { sessionsTable } from '../db/schema';
+import { hashSessionToken } from '../lib/session';
+import { eq } from 'drizzle-orm';
+
+export async function logout(token: string): Promise<{ success: boolean }> {
+  try {
+    const deleted = await db.delete(sessionsTable)
+      .where(eq(sessionsTable.token_hash, hashSessionToken(token)))
+      .returning()
+      .execute();
+
+    return { success: deleted.length > 0 };
+  } catch (error) {
+    console.error('Logout failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,42 @@
+import { db } from '../db';
+import { letterRequestsTable } from '../db/schema';
+import { type MapLetterTypeInput, type MapLetterTypeResult } from '../schema';
+import { findActiveLetterType } from '../lib/letter_types';
+import { eq, sql } from 'drizzle-orm';
+
+// Migrates one free-text letter type to the catalog: every request spelling its type exactly this way takes
+// the code. Several spellings can map to the same code.
+export async function mapLetterType(input: MapLetterTypeInput): Promise<MapLetterTypeResult> {
+  try {
+    return await db.transaction(async (tx) => {
+      const letterType = await findActiveLetterType(tx, input.code);
+
+      if (input.letter_type === letterType.code) {
+        throw new Error(`${input.letter_type} is already a catalog code`);
+      }
+
+      const requests = await tx.update(letterRequestsTable)
+        .set({
+          letter_type: letterType.code,
+          version: sql`${letterRequestsTable.version} + 1`,
+          updated_at: new Date()
+        })
+        .where(eq(letterRequestsTable.letter_type, input.letter_type))
+        .returning({ id: letterRequestsTable.id })
+        .execute();
+
+      if (requests.length === 0) {
+        throw new Error(`No requests have letter type: ${input.letter_type}`);
+      }
+
+      return {
+        letter_type: input.letter_type,
+        code: letterType.code,
+        requests_mapped: requests.length
+      };
+    });
+  } catch (error) {
+    console.error('Letter type mapping failed:', error);
+    throw error;
+  }
+}
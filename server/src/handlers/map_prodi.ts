@@ -0,0 +1,42 @@
+import { db } from '../db';
+import { studentsTable, usersTable } from '../db/schema';
+import { type MapProdiInput, type MapProdiResult } from '../schema';
+import { findActiveStudyProgram } from '../lib/study_programs';
+import { and, eq, isNull } from 'drizzle-orm';
+
+// Migrates one free-text prodi to the master: every unlinked user and student spelling their prodi exactly
+// this way is linked to the study program and takes its name, students its faculty too. Several spellings
+// can map to the same program.
+export async function mapProdi(input: MapProdiInput): Promise<MapProdiResult> {
+  try {
+    return await db.transaction(async (tx) => {
+      const program = await findActiveStudyProgram(tx, input.study_program_id);
+
+      const users = await tx.update(usersTable)
+        .set({ prodi: program.name, study_program_id: program.id, updated_at: new Date() })
+        .where(and(isNull(usersTable.study_program_id), eq(usersTable.prodi, input.prodi)))
+        .returning({ id: usersTable.id })
+        .execute();
+
+      const students = await tx.update(studentsTable)
+        .set({ prodi: program.name, study_program_id: program.id, faculty_id: program.faculty_id })
+        .where(and(isNull(studentsTable.study_program_id), eq(studentsTable.prodi, input.prodi)))
+        .returning({ id: studentsTable.id })
+        .execute();
+
+      if (users.length === 0 && students.length === 0) {
+        throw new Error(`No unmapped users or students have prodi: ${input.prodi}`);
+      }
+
+      return {
+        prodi: input.prodi,
+        study_program_id: program.id,
+        users_mapped: users.length,
+        students_mapped: students.length
+      };
+    });
+  } catch (error) {
+    console.error('Prodi mapping failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,60 @@
+import { db } from '../db';
+import { letterDeliveriesTable } from '../db/schema';
+import { type MarkDeliveredInput, type LetterRequest, type UploadMimeType } from '../schema';
+import { completeFulfilment, prepareFulfilment } from '../lib/fulfilment';
+import { discardUpload, readUpload, storeUpload } from '../lib/storage';
+import { sniffMimeType } from '../lib/upload_checks';
+
+// Proof photos are pictures of the handover or of the courier receipt
+const proofMimeTypes: UploadMimeType[] = ['image/jpeg', 'image/png', 'image/webp'];
+
+export async function markDelivered(input: MarkDeliveredInput, userId: number): Promise<LetterRequest> {
+  let storedKey: string | null = null;
+  try {
+    return await db.transaction(async (tx) => {
+      // 1. Lock the request and check the step is open to the user's role
+      const step = await prepareFulfilment(
+        tx, input.request_id, input.expected_version, userId, 'DELIVERED', 'mark as delivered'
+      );
+
+      // 2. Store the optional proof photo; the content decides its type, not the declared one
+      let proof: { storageKey: string; fileName: string; mimeType: UploadMimeType } | null = null;
+      if (input.proof_photo) {
+        const upload = await readUpload(input.proof_photo);
+        const mimeType = sniffMimeType(upload.content);
+        if (!mimeType || !proofMimeTypes.includes(mimeType)) {
+          throw new Error('Proof of delivery must be a JPEG, PNG or WebP image');
+        }
+
+        const storageKey = await storeUpload(`requests/${input.request_id}/delivery-proofs`, upload, mimeType);
+        storedKey = storageKey;
+        proof = { storageKey, fileName: upload.file_name, mimeType };
+      }
+
+      // 3. Record who received the letter and how
+      await tx.insert(letterDeliveriesTable)
+        .values({
+          letter_request_id: input.request_id,
+          recipient_name: input.recipient_name,
+          delivery_method: input.delivery_method,
+          proof_storage_key: proof?.storageKey ?? null,
+          proof_file_name: proof?.fileName ?? null,
+          proof_mime_type: proof?.mimeType ?? null,
+          delivered_by_user_id: userId
+        })
+        .execute();
+
+      // 4. The staff member who delivered keeps the request until it is archived
+      return completeFulfilment(tx, step, userId, {
+        description: `Letter delivered to ${input.recipient_name} by ${input.delivery_method.toLowerCase()}`,
+        notes: input.notes
+      });
+    });
+  } catch (error) {
+    if (storedKey) {
+      await discardUpload(storedKey);
+    }
+    console.error('Mark delivered failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,22 @@
+import { db } from '../db';
+import { type MarkPrintedInput, type LetterRequest } from '../schema';
+import { completeFulfilment, prepareFulfilment } from '../lib/fulfilment';
+
+// The staff member who prints the signed letter keeps the request until it is delivered
+export async function markPrinted(input: MarkPrintedInput, userId: number): Promise<LetterRequest> {
+  try {
+    return await db.transaction(async (tx) => {
+      const step = await prepareFulfilment(
+        tx, input.request_id, input.expected_version, userId, 'PRINTED', 'mark as printed'
+      );
+
+      return completeFulfilment(tx, step, userId, {
+        description: `Signed letter printed by ${step.user.name}`,
+        notes: input.notes
+      });
+    });
+  } catch (error) {
+    console.error('Mark printed failed:', error);
+    throw error;
+  }
+}
@@ -1,156 +1,231 @@
 import { db } from '../db';
 import { 
   dispositionAssignmentsTable, 
+  escalationsTable,
   letterRequestsTable, 
   trackingLogsTable,
   usersTable 
 } from '../db/schema';
-import { type ProcessDispositionInput, type DispositionAssignment } from '../schema';
-import { eq, and, asc, gt } from 'drizzle-orm';
+import { type ProcessDispositionInput, type DispositionAssignment, type ActionType, type RequestStatus } from '../schema';
+import { assertTransition, isDispositionRole, isInDisposition, processedStatusByRole } from '../lib/request_transitions';
+import { lockLetterRequest, nextRequestVersion } from '../lib/request_lock';
+import { cancelPendingAssignments, findActiveGroup, stageForGroup } from '../lib/disposition_groups';
+import { eq, and, isNull } from 'drizzle-orm';
 
 export async function processDisposition(input: ProcessDispositionInput, userId: number): Promise<DispositionAssignment> {
   try {
-    // 1. Validate that the user is assigned to this disposition and it's not completed
-    const assignment = await db.select()
-      .from(dispositionAssignmentsTable)
-      .where(
-        and(
-          eq(dispositionAssignmentsTable.id, input.assignment_id),
-          eq(dispositionAssignmentsTable.assigned_to_user_id, userId),
-          eq(dispositionAssignmentsTable.is_completed, false)
-        )
-      )
-      .execute();
-
-    if (assignment.length === 0) {
-      throw new Error('Assignment not found or not assigned to user or already completed');
-    }
-
-    const currentAssignment = assignment[0];
-    const requestId = currentAssignment.letter_request_id;
-
-    // Get current letter request status
-    const letterRequest = await db.select()
-      .from(letterRequestsTable)
-      .where(eq(letterRequestsTable.id, requestId))
-      .execute();
-
-    if (letterRequest.length === 0) {
-      throw new Error('Letter request not found');
-    }
-
-    const currentRequest = letterRequest[0];
-    let newStatus = currentRequest.status;
-    let nextHandlerId: number | null = null;
-
-    // Handle escalation
-    if (input.escalate) {
-      // Find admin user for escalation
-      const adminUser = await db.select()
-        .from(usersTable)
-        .where(eq(usersTable.role, 'ADMIN'))
+    return await db.transaction(async (tx) => {
+      // 1. Lock the request the assignment belongs to, so concurrent processing of the same
+      // request waits here and then sees the other officer's changes
+      const assignmentRequest = await tx.select({ letter_request_id: dispositionAssignmentsTable.letter_request_id })
+        .from(dispositionAssignmentsTable)
+        .where(eq(dispositionAssignmentsTable.id, input.assignment_id))
         .execute();
 
-      if (adminUser.length > 0) {
-        newStatus = 'ESCALATED';
-        nextHandlerId = adminUser[0].id;
-      }
-    } 
-    // Handle coordination flag
-    else if (input.flag_for_coordination) {
-      // Find dean for coordination
-      const dekanUser = await db.select()
-        .from(usersTable)
-        .where(eq(usersTable.role, 'DEKAN'))
-        .execute();
+      const letterRequest = assignmentRequest.length > 0
+        ? await lockLetterRequest(tx, assignmentRequest[0].letter_request_id)
+        : [];
 
-      if (dekanUser.length > 0) {
-        newStatus = 'FORWARDED_TO_DEKAN';
-        nextHandlerId = dekanUser[0].id;
-      }
-    } 
-    // Normal processing flow
-    else {
-      // Check if there are more assignments in the sequence
-      const nextAssignment = await db.select()
+      // 2. Validate that the user is assigned to this disposition and it's not completed
+      const assignment = await tx.select()
         .from(dispositionAssignmentsTable)
         .where(
           and(
-            eq(dispositionAssignmentsTable.letter_request_id, requestId),
-            gt(dispositionAssignmentsTable.order_sequence, currentAssignment.order_sequence),
-            eq(dispositionAssignmentsTable.is_completed, false)
+            eq(dispositionAssignmentsTable.id, input.assignment_id),
+            eq(dispositionAssignmentsTable.assigned_to_user_id, userId),
+            eq(dispositionAssignmentsTable.is_completed, false),
+            isNull(dispositionAssignmentsTable.escalated_at)
           )
         )
-        .orderBy(asc(dispositionAssignmentsTable.order_sequence))
-        .limit(1)
         .execute();
 
-      if (nextAssignment.length > 0) {
-        // Move to next officer in sequence
-        nextHandlerId = nextAssignment[0].assigned_to_user_id;
-        // Status remains in disposition processing
-      } else {
-        // This is the last assignment, prepare for final letter creation
-        newStatus = 'TTD_READY';
-        // Find dean for signing
-        const dekanUser = await db.select()
+      if (assignment.length === 0) {
+        throw new Error('Assignment not found or not assigned to user or already completed');
+      }
+
+      const currentAssignment = assignment[0];
+      const requestId = currentAssignment.letter_request_id;
+
+      if (letterRequest.length === 0) {
+        throw new Error('Letter request not found');
+      }
+
+      const currentRequest = letterRequest[0];
+      const version = nextRequestVersion(currentRequest, input.expected_version);
+
+      // An escalated request, or one flagged back to the Dean, waits for them; its open assignments do too
+      if (!isInDisposition(currentRequest.status)) {
+        throw new Error(`Letter request is not in disposition. Current status: ${currentRequest.status}`);
+      }
+
+      // Only the step being worked on can be processed; later steps wait for it
+      const activeGroup = await findActiveGroup(tx, requestId);
+      if (!activeGroup.some(member => member.assignment_id === currentAssignment.id)) {
+        throw new Error('Assignment is waiting for an earlier disposition step to be completed');
+      }
+
+      // 3. Close the assignment: processing or flagging it completes it, escalating leaves it uncompleted and
+      // marked as escalated until resolveEscalation restarts the step
+      const updatedAssignment = await tx.update(dispositionAssignmentsTable)
+        .set({
+          ...(input.escalate ? { escalated_at: new Date() } : { is_completed: true, completed_at: new Date() }),
+          notes: input.notes || null
+        })
+        .where(eq(dispositionAssignmentsTable.id, input.assignment_id))
+        .returning()
+        .execute();
+
+      const actingUser = await tx.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, userId))
+        .execute();
+
+      const actingRole = actingUser[0].role;
+      if (!isDispositionRole(actingRole)) {
+        throw new Error(`Invalid role for disposition assignment: ${actingRole}`);
+      }
+
+      let newStatus = currentRequest.status;
+      let nextHandlerId: number | null = null;
+      let parallelHandlerIds: number[] = [];
+      // Status changes in the order they happen; completing a step and handing the request to the next one
+      // are logged separately
+      const steps: { actionType: ActionType; description: string; from: RequestStatus; to: RequestStatus }[] = [];
+
+      // Handle escalation
+      if (input.escalate) {
+        const reason = (input.escalation_reason ?? input.notes ?? '').trim();
+        if (!reason) {
+          throw new Error('Escalation reason is required');
+        }
+
+        // Find admin user for escalation
+        const adminUser = await tx.select()
+          .from(usersTable)
+          .where(eq(usersTable.role, 'ADMIN'))
+          .execute();
+
+        if (adminUser.length === 0) {
+          throw new Error('No ADMIN user found to handle the escalation');
+        }
+
+        // The other assignments stay open: resolveEscalation either resumes the step or cancels them
+        newStatus = 'ESCALATED';
+        nextHandlerId = adminUser[0].id;
+
+        // Admins work through open escalations from their queue
+        await tx.insert(escalationsTable)
+          .values({
+            letter_request_id: requestId,
+            assignment_id: currentAssignment.id,
+            raised_by_user_id: userId,
+            category: input.escalation_category ?? 'OTHER',
+            reason
+          })
+          .execute();
+
+        steps.push({ actionType: 'ESCALATED', description: 'Request escalated to admin', from: currentRequest.status, to: newStatus });
+      } 
+      // Handle coordination flag
+      else if (input.flag_for_coordination) {
+        // Find dean for coordination
+        const dekanUser = await tx.select()
           .from(usersTable)
           .where(eq(usersTable.role, 'DEKAN'))
           .execute();
 
-        if (dekanUser.length > 0) {
-          nextHandlerId = dekanUser[0].id;
+        if (dekanUser.length === 0) {
+          throw new Error('No DEKAN user found to handle the coordination');
+        }
+
+        // The Dean takes the request back, like a withdrawn disposition: the rest of the chain is cancelled
+        await cancelPendingAssignments(tx, requestId);
+        newStatus = 'FORWARDED_TO_DEKAN';
+        nextHandlerId = dekanUser[0].id;
+        steps.push({ actionType: 'PROCESSED', description: 'Request flagged for dean coordination', from: currentRequest.status, to: newStatus });
+      } 
+      // Normal processing flow
+      else {
+        // A parallel step only advances once every member has finished
+        const remaining = activeGroup.filter(member => member.assignment_id !== currentAssignment.id);
+
+        if (remaining.length > 0) {
+          parallelHandlerIds = remaining.map(member => member.user_id);
+          steps.push({
+            actionType: 'PROCESSED',
+            description: `Disposition assignment completed; waiting for ${remaining.map(member => member.user_name).join(', ')}`,
+            from: currentRequest.status,
+            to: newStatus
+          });
+        } else {
+          // The step is done: the request is processed by this officer's role
+          const nextGroup = await findActiveGroup(tx, requestId);
+          newStatus = processedStatusByRole[actingRole];
+          steps.push({
+            actionType: 'PROCESSED',
+            description: nextGroup.length > 0
+              ? 'Disposition assignment completed'
+              : 'All disposition assignments completed, ready for the final letter',
+            from: currentRequest.status,
+            to: newStatus
+          });
+
+          if (nextGroup.length > 0) {
+            // Hand over to the next step; every member of a parallel group starts at once
+            const stage = stageForGroup(nextGroup);
+            steps.push({
+              actionType: 'PROCESSED',
+              description: nextGroup.length > 1
+                ? `Request handed to ${nextGroup.map(member => member.user_name).join(', ')} to continue in parallel`
+                : `Request handed to ${nextGroup[0].user_name} for the next disposition step`,
+              from: newStatus,
+              to: stage.status
+            });
+            newStatus = stage.status;
+            nextHandlerId = stage.handlerId;
+            parallelHandlerIds = stage.parallelHandlerIds;
+          } else {
+            // This was the last assignment: the officer keeps the request to upload or generate the final
+            // letter, which moves it to TTD_READY for the Dean
+            nextHandlerId = userId;
+          }
         }
       }
-    }
-
-    // 2. Mark the assignment as completed
-    const updatedAssignment = await db.update(dispositionAssignmentsTable)
-      .set({
-        is_completed: true,
-        completed_at: new Date(),
-        notes: input.notes || null
-      })
-      .where(eq(dispositionAssignmentsTable.id, input.assignment_id))
-      .returning()
-      .execute();
-
-    // Update letter request status and handler
-    await db.update(letterRequestsTable)
-      .set({
-        status: newStatus,
-        current_handler_user_id: nextHandlerId,
-        updated_at: new Date()
-      })
-      .where(eq(letterRequestsTable.id, requestId))
-      .execute();
-
-    // 8. Create appropriate tracking log entries
-    let actionType: 'PROCESSED' | 'ESCALATED' = 'PROCESSED';
-    let description = 'Disposition assignment completed';
-
-    if (input.escalate) {
-      actionType = 'ESCALATED';
-      description = 'Request escalated to admin';
-    } else if (input.flag_for_coordination) {
-      description = 'Request flagged for dean coordination';
-    } else if (newStatus === 'TTD_READY') {
-      description = 'All disposition assignments completed, ready for signing';
-    }
-
-    await db.insert(trackingLogsTable)
-      .values({
-        letter_request_id: requestId,
-        user_id: userId,
-        action_type: actionType,
-        description: description,
-        notes: input.notes || null,
-        previous_status: currentRequest.status,
-        new_status: newStatus
-      })
-      .execute();
-
-    return updatedAssignment[0];
+
+      // Handoffs inside a step keep the status; any real status change must be in the transition table
+      for (const step of steps) {
+        if (step.from !== step.to) {
+          assertTransition(step.from, step.to, actingRole);
+        }
+      }
+
+      // Update letter request status and handlers
+      await tx.update(letterRequestsTable)
+        .set({
+          status: newStatus,
+          current_handler_user_id: nextHandlerId,
+          parallel_handler_user_ids: parallelHandlerIds,
+          version,
+          updated_at: new Date()
+        })
+        .where(eq(letterRequestsTable.id, requestId))
+        .execute();
+
+      // 4. Create the tracking log entries
+      await tx.insert(trackingLogsTable)
+        .values(steps.map(step => ({
+          letter_request_id: requestId,
+          user_id: userId,
+          action_type: step.actionType,
+          description: step.description,
+          notes: input.notes || null,
+          previous_status: step.from,
+          new_status: step.to
+        })))
+        .execute();
+
+      return updatedAssignment[0];
+    });
   } catch (error) {
     console.error('Process disposition failed:', error);
     throw error;
@@ -0,0 +1,52 @@
+import { db } from '../db';
+import { dispositionAssignmentsTable, usersTable } from '../db/schema';
+import { type ReassignDispositionInput, type DispositionAssignment } from '../schema';
+import {
+  applyDispositionAmendment,
+  findAssignmentRequestId,
+  loadPendingAssignment,
+  prepareDispositionAmendment,
+  validateAssignee
+} from '../lib/disposition_amendments';
+import { eq } from 'drizzle-orm';
+
+export async function reassignDisposition(input: ReassignDispositionInput, userId: number): Promise<DispositionAssignment> {
+  try {
+    return await db.transaction(async (tx) => {
+      // 1. Lock the request the assignment belongs to and check the Dean may change its disposition
+      const requestId = await findAssignmentRequestId(tx, input.assignment_id);
+      const amendment = await prepareDispositionAmendment(tx, requestId, input.expected_version, userId);
+
+      // 2. Only assignments still to be done can move to someone else
+      const assignment = await loadPendingAssignment(tx, input.assignment_id);
+
+      if (assignment.assigned_to_user_id === input.user_id) {
+        throw new Error('Disposition assignment is already assigned to this user');
+      }
+
+      const previousAssignee = await tx.select({ name: usersTable.name })
+        .from(usersTable)
+        .where(eq(usersTable.id, assignment.assigned_to_user_id))
+        .execute();
+      const newAssignee = await validateAssignee(tx, requestId, input.user_id, assignment.order_sequence);
+
+      // 3. Hand the assignment to the new officer
+      const updatedAssignment = await tx.update(dispositionAssignmentsTable)
+        .set({ assigned_to_user_id: newAssignee.id })
+        .where(eq(dispositionAssignmentsTable.id, assignment.id))
+        .returning()
+        .execute();
+
+      // 4. If the step is in progress the new officer takes over as handler right away
+      await applyDispositionAmendment(tx, amendment, {
+        description: `Disposition step ${assignment.order_sequence} reassigned from ${previousAssignee[0].name} to ${newAssignee.name}`,
+        notes: input.notes
+      });
+
+      return updatedAssignment[0];
+    });
+  } catch (error) {
+    console.error('Disposition reassignment failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,89 @@
+import { db } from '../db';
+import { studentRegistrationCodesTable, studentsTable, usersTable } from '../db/schema';
+import { type RegisterStudentInput, type User } from '../schema';
+import { hashPassword } from '../lib/password';
+import { hashRegistrationCode } from '../lib/registration_codes';
+import { timingSafeEqual } from 'node:crypto';
+import { eq } from 'drizzle-orm';
+
+// Names are compared the way people type them: case and spacing do not matter
+const normalizeName = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// A student creates their own STUDENT account. The NIM and name must match a record in the student
+// master, and the registration code staff issued for that record proves the student is who they claim.
+// The record is linked to the new account so the student sees every request about them.
+export async function registerStudent(input: RegisterStudentInput): Promise<User> {
+  try {
+    return await db.transaction(async (tx) => {
+      // 1. Lock the student record so two registrations for the same NIM are applied one after the other
+      const students = await tx.select()
+        .from(studentsTable)
+        .where(eq(studentsTable.nim, input.nim))
+        .for('update')
+        .execute();
+
+      // Same message for unknown NIM and wrong name so the student master cannot be probed
+      if (students.length === 0 || normalizeName(students[0].name) !== normalizeName(input.name)) {
+        throw new Error('No student record matches this NIM and name');
+      }
+
+      const student = students[0];
+      if (student.user_id !== null) {
+        throw new Error('An account is already registered for this NIM');
+      }
+
+      // A NIM and name are easy to find out; the code is only handed to the student. Codes are single use.
+      const codes = await tx.select()
+        .from(studentRegistrationCodesTable)
+        .where(eq(studentRegistrationCodesTable.student_id, student.id))
+        .execute();
+
+      const codeMatches = codes.length > 0 && timingSafeEqual(
+        Buffer.from(codes[0].code_hash, 'hex'),
+        Buffer.from(hashRegistrationCode(input.registration_code), 'hex')
+      );
+      if (!codeMatches || codes[0].expires_at <= new Date()) {
+        throw new Error('Registration code is invalid or has expired; ask the prodi or faculty staff for a new one');
+      }
+
+      await tx.delete(studentRegistrationCodesTable)
+        .where(eq(studentRegistrationCodesTable.id, codes[0].id))
+        .execute();
+
+      // 2. The email must not belong to another account
+      const existing = await tx.select({ id: usersTable.id })
+        .from(usersTable)
+        .where(eq(usersTable.email, input.email))
+        .execute();
+
+      if (existing.length > 0) {
+        throw new Error('Email is already registered');
+      }
+
+      // 3. Create the account in the student's prodi and link it to the record
+      const result = await tx.insert(usersTable)
+        .values({
+          email: input.email,
+          name: student.name,
+          role: 'STUDENT',
+          prodi: student.prodi,
+          study_program_id: student.study_program_id,
+          password_hash: await hashPassword(input.password)
+        })
+        .returning()
+        .execute();
+
+      await tx.update(studentsTable)
+        .set({ user_id: result[0].id })
+        .where(eq(studentsTable.id, student.id))
+        .execute();
+
+      // Return the created user without its credentials
+      const { password_hash, ...user } = result[0];
+      return user;
+    });
+  } catch (error) {
+    console.error('Student registration failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,86 @@
+import { db } from '../db';
+import { letterRequestsTable, trackingLogsTable, usersTable } from '../db/schema';
+import { type RejectRequestInput, type LetterRequest } from '../schema';
+import { cancelPendingAssignments } from '../lib/disposition_groups';
+import { assertTransition } from '../lib/request_transitions';
+import { lockLetterRequest, nextRequestVersion } from '../lib/request_lock';
+import { findActiveRejectionReason } from '../lib/rejection_reasons';
+import { eq } from 'drizzle-orm';
+
+// Rejects a request with a reason from the managed list and hands it back to its creator, who can fix
+// and resubmit it
+export async function rejectRequest(input: RejectRequestInput, userId: number): Promise<LetterRequest> {
+  try {
+    return await db.transaction(async (tx) => {
+      // 1. Lock the letter request and validate that it exists
+      const existingRequest = await lockLetterRequest(tx, input.request_id);
+
+      if (existingRequest.length === 0) {
+        throw new Error(`Letter request with ID ${input.request_id} not found`);
+      }
+
+      const request = existingRequest[0];
+      const version = nextRequestVersion(request, input.expected_version);
+
+      const user = await tx.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, userId))
+        .execute();
+
+      if (user.length === 0) {
+        throw new Error(`User with ID ${userId} not found`);
+      }
+
+      // 2. Whoever holds the request may reject it; the Dean may also reject wherever the transition table allows
+      if (user[0].role !== 'DEKAN' && request.current_handler_user_id !== userId
+        && !request.parallel_handler_user_ids.includes(userId)) {
+        throw new Error('User is not authorized to reject this request');
+      }
+
+      assertTransition(
+        request.status,
+        'REJECTED',
+        user[0].role,
+        `Cannot reject request in status: ${request.status} (attempted REJECTED)`
+      );
+
+      // 3. The reason must be an active entry of the managed list
+      const reason = await findActiveRejectionReason(tx, input.reason_code);
+
+      // 4. A rejection ends any running disposition: nobody is left working on the request
+      await cancelPendingAssignments(tx, request.id);
+
+      // 5. Record the reason and return the request to its creator
+      const updatedRequest = await tx.update(letterRequestsTable)
+        .set({
+          status: 'REJECTED',
+          rejection_reason_code: reason.code,
+          rejection_notes: input.notes,
+          current_handler_user_id: request.created_by_user_id,
+          parallel_handler_user_ids: [],
+          version,
+          updated_at: new Date()
+        })
+        .where(eq(letterRequestsTable.id, request.id))
+        .returning()
+        .execute();
+
+      await tx.insert(trackingLogsTable)
+        .values({
+          letter_request_id: request.id,
+          user_id: userId,
+          action_type: 'REJECTED',
+          description: `Request rejected: ${reason.label} (${reason.code})`,
+          notes: input.notes,
+          previous_status: request.status,
+          new_status: 'REJECTED'
+        })
+        .execute();
+
+      return updatedRequest[0];
+    });
+  } catch (error) {
+    console.error('Request rejection failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,51 @@
+import { db } from '../db';
+import { dispositionAssignmentsTable, usersTable } from '../db/schema';
+import { type RemoveDispositionStepInput, type LetterRequest } from '../schema';
+import {
+  applyDispositionAmendment,
+  findAssignmentRequestId,
+  loadPendingAssignment,
+  prepareDispositionAmendment
+} from '../lib/disposition_amendments';
+import { eq } from 'drizzle-orm';
+
+export async function removeDispositionStep(input: RemoveDispositionStepInput, userId: number): Promise<LetterRequest> {
+  try {
+    return await db.transaction(async (tx) => {
+      // 1. Lock the request the assignment belongs to and check the Dean may change its disposition
+      const requestId = await findAssignmentRequestId(tx, input.assignment_id);
+      const amendment = await prepareDispositionAmendment(tx, requestId, input.expected_version, userId);
+
+      // 2. Completed assignments are history; only pending ones can be removed
+      const assignment = await loadPendingAssignment(tx, input.assignment_id);
+
+      const assignments = await tx.select({ id: dispositionAssignmentsTable.id })
+        .from(dispositionAssignmentsTable)
+        .where(eq(dispositionAssignmentsTable.letter_request_id, requestId))
+        .execute();
+
+      if (assignments.length === 1) {
+        throw new Error('Cannot remove the only disposition assignment; withdraw the disposition instead');
+      }
+
+      const assignee = await tx.select({ name: usersTable.name })
+        .from(usersTable)
+        .where(eq(usersTable.id, assignment.assigned_to_user_id))
+        .execute();
+
+      // 3. Delete the assignment
+      await tx.delete(dispositionAssignmentsTable)
+        .where(eq(dispositionAssignmentsTable.id, assignment.id))
+        .execute();
+
+      // 4. Removing the last pending member of the step in progress moves the request on
+      return applyDispositionAmendment(tx, amendment, {
+        description: `Disposition step ${assignment.order_sequence} for ${assignee[0].name} removed`,
+        notes: input.notes
+      });
+    });
+  } catch (error) {
+    console.error('Removing disposition step failed:', error);
+    throw error;
+  }
+}
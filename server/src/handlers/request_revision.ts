@@ -0,0 +1,111 @@
+import { db } from '../db';
+import { letterRequestsTable, letterVersionsTable, usersTable, trackingLogsTable } from '../db/schema';
+import { type RequestRevisionInput, type LetterRequest } from '../schema';
+import { assertTransition } from '../lib/request_transitions';
+import { lockLetterRequest, nextRequestVersion } from '../lib/request_lock';
+import { eq, and, desc } from 'drizzle-orm';
+
+// The Dean sends a final letter awaiting signature back to the officer who prepared it. The officer
+// uploads or generates a corrected version, which returns the request to TTD_READY.
+export async function requestRevision(input: RequestRevisionInput, dekanUserId: number): Promise<LetterRequest> {
+  try {
+    return await db.transaction(async (tx) => {
+      // 1. Validate that the user is a Dean
+      const dekan = await tx.select()
+        .from(usersTable)
+        .where(
+          and(
+            eq(usersTable.id, dekanUserId),
+            eq(usersTable.role, 'DEKAN')
+          )
+        )
+        .execute();
+
+      if (dekan.length === 0) {
+        throw new Error('Only Dean (DEKAN) can request letter revisions');
+      }
+
+      // 2. Lock the letter request and validate it's waiting for signature
+      const letterRequests = await lockLetterRequest(tx, input.request_id);
+
+      if (letterRequests.length === 0) {
+        throw new Error('Letter request not found');
+      }
+
+      const letterRequest = letterRequests[0];
+      const version = nextRequestVersion(letterRequest, input.expected_version);
+
+      assertTransition(
+        letterRequest.status,
+        'REVISION_REQUESTED',
+        dekan[0].role,
+        `Letter request is not awaiting signature. Current status: ${letterRequest.status} (attempted REVISION_REQUESTED)`
+      );
+
+      // 3. The letter goes back to whoever produced its current version; letters handed over before
+      // versions were recorded fall back to the latest upload in the tracking log
+      let officerId: number | null = null;
+      if (letterRequest.current_letter_version_id !== null) {
+        const versions = await tx.select({ created_by_user_id: letterVersionsTable.created_by_user_id })
+          .from(letterVersionsTable)
+          .where(eq(letterVersionsTable.id, letterRequest.current_letter_version_id))
+          .execute();
+        officerId = versions[0]?.created_by_user_id ?? null;
+      } else {
+        const uploads = await tx.select({ user_id: trackingLogsTable.user_id })
+          .from(trackingLogsTable)
+          .where(
+            and(
+              eq(trackingLogsTable.letter_request_id, letterRequest.id),
+              eq(trackingLogsTable.action_type, 'DOCUMENT_UPLOADED'),
+              eq(trackingLogsTable.new_status, 'TTD_READY')
+            )
+          )
+          .orderBy(desc(trackingLogsTable.created_at), desc(trackingLogsTable.id))
+          .limit(1)
+          .execute();
+        officerId = uploads[0]?.user_id ?? null;
+      }
+
+      if (officerId === null) {
+        throw new Error('No officer found who prepared the final letter');
+      }
+
+      const officer = await tx.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, officerId))
+        .execute();
+
+      // 4. Hand the request back to the officer and count the revision
+      const updatedRequests = await tx.update(letterRequestsTable)
+        .set({
+          status: 'REVISION_REQUESTED',
+          current_handler_user_id: officerId,
+          revision_count: letterRequest.revision_count + 1,
+          version,
+          updated_at: new Date()
+        })
+        .where(eq(letterRequestsTable.id, input.request_id))
+        .returning()
+        .execute();
+
+      // 5. Log the Dean's comments
+      await tx.insert(trackingLogsTable)
+        .values({
+          letter_request_id: input.request_id,
+          user_id: dekanUserId,
+          action_type: 'REVISION_REQUESTED',
+          description: `Final letter returned to ${officer[0].name} for revision`,
+          notes: input.comments,
+          previous_status: letterRequest.status,
+          new_status: 'REVISION_REQUESTED'
+        })
+        .execute();
+
+      return updatedRequests[0];
+    });
+  } catch (error) {
+    console.error('Request revision failed:', error);
+    throw error;
+  }
+}
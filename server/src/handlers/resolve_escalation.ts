@@ -0,0 +1,181 @@
+import { db } from '../db';
+import {
+  dispositionAssignmentsTable,
+  escalationsTable,
+  letterRequestsTable,
+  trackingLogsTable,
+  usersTable,
+  type User
+} from '../db/schema';
+import { type ResolveEscalationInput, type Escalation } from '../schema';
+import { validateAssignee } from '../lib/disposition_amendments';
+import { cancelPendingAssignments, findActiveGroup, stageForGroup, type DispositionStage } from '../lib/disposition_groups';
+import { findActiveRejectionReason } from '../lib/rejection_reasons';
+import { assertTransition } from '../lib/request_transitions';
+import { lockLetterRequest, nextRequestVersion } from '../lib/request_lock';
+import { eq } from 'drizzle-orm';
+
+export async function resolveEscalation(input: ResolveEscalationInput, userId: number): Promise<Escalation> {
+  try {
+    return await db.transaction(async (tx) => {
+      // 1. Validate that the user is an admin
+      const admin = await tx.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, userId))
+        .execute();
+
+      if (admin.length === 0 || admin[0].role !== 'ADMIN') {
+        throw new Error('Only an admin can resolve escalations');
+      }
+
+      // 2. Lock the request the escalation belongs to, then re-read the escalation under the lock
+      const escalationRequest = await tx.select({ letter_request_id: escalationsTable.letter_request_id })
+        .from(escalationsTable)
+        .where(eq(escalationsTable.id, input.escalation_id))
+        .execute();
+
+      if (escalationRequest.length === 0) {
+        throw new Error(`Escalation with ID ${input.escalation_id} not found`);
+      }
+
+      const requestId = escalationRequest[0].letter_request_id;
+      const letterRequest = await lockLetterRequest(tx, requestId);
+      const request = letterRequest[0];
+      const version = nextRequestVersion(request, input.expected_version);
+
+      const escalations = await tx.select()
+        .from(escalationsTable)
+        .where(eq(escalationsTable.id, input.escalation_id))
+        .execute();
+      const escalation = escalations[0];
+
+      if (escalation.resolved_at !== null) {
+        throw new Error('Escalation is already resolved');
+      }
+
+      if (request.status !== 'ESCALATED') {
+        throw new Error(`Letter request is not escalated. Current status: ${request.status}`);
+      }
+
+      const escalatedAssignment = await tx.select()
+        .from(dispositionAssignmentsTable)
+        .where(eq(dispositionAssignmentsTable.id, escalation.assignment_id))
+        .execute();
+
+      // 3. Work out where the request goes next
+      const assignment = escalatedAssignment[0];
+
+      // The escalated step starts over with a fresh assignment for the officer who takes it on
+      const restartStep = async (officer: User): Promise<DispositionStage> => {
+        await tx.insert(dispositionAssignmentsTable)
+          .values({
+            letter_request_id: requestId,
+            assigned_to_user_id: officer.id,
+            assigned_by_user_id: userId,
+            instructions: assignment.instructions,
+            order_sequence: assignment.order_sequence
+          })
+          .execute();
+
+        return stageForGroup(await findActiveGroup(tx, requestId));
+      };
+
+      let stage: DispositionStage;
+      let description: string;
+      let rejectionReasonCode: string | null = null;
+
+      switch (input.resolution) {
+        case 'RETURNED_TO_OFFICER': {
+          const officer = await validateAssignee(tx, requestId, escalation.raised_by_user_id, assignment.order_sequence);
+          stage = await restartStep(officer);
+          description = `Escalation resolved: returned to ${officer.name}`;
+          break;
+        }
+        case 'REROUTED': {
+          if (input.user_id === undefined) {
+            throw new Error('Rerouting an escalation requires the officer who takes over');
+          }
+          const officer = await validateAssignee(tx, requestId, input.user_id, assignment.order_sequence);
+          stage = await restartStep(officer);
+          description = `Escalation resolved: rerouted to ${officer.name}`;
+          break;
+        }
+        case 'SENT_TO_DEKAN': {
+          const dekanUsers = await tx.select()
+            .from(usersTable)
+            .where(eq(usersTable.role, 'DEKAN'))
+            .execute();
+
+          if (dekanUsers.length === 0) {
+            throw new Error('No DEKAN user found to assign as next handler');
+          }
+
+          await cancelPendingAssignments(tx, requestId);
+          stage = { status: 'FORWARDED_TO_DEKAN', handlerId: dekanUsers[0].id, parallelHandlerIds: [] };
+          description = 'Escalation resolved: sent back to the Dean';
+          break;
+        }
+        case 'REJECTED': {
+          if (input.reason_code === undefined) {
+            throw new Error('Rejecting an escalated request requires a rejection reason');
+          }
+          const reason = await findActiveRejectionReason(tx, input.reason_code);
+
+          // Like rejectRequest, the request goes back to its creator
+          await cancelPendingAssignments(tx, requestId);
+          stage = { status: 'REJECTED', handlerId: request.created_by_user_id, parallelHandlerIds: [] };
+          rejectionReasonCode = reason.code;
+          description = `Escalation resolved: request rejected: ${reason.label} (${reason.code})`;
+          break;
+        }
+      }
+
+      assertTransition(request.status, stage.status, admin[0].role);
+
+      // 4. Move the request on
+      await tx.update(letterRequestsTable)
+        .set({
+          status: stage.status,
+          current_handler_user_id: stage.handlerId,
+          parallel_handler_user_ids: stage.parallelHandlerIds,
+          ...(rejectionReasonCode ? { rejection_reason_code: rejectionReasonCode, rejection_notes: input.notes ?? null } : {}),
+          version,
+          updated_at: new Date()
+        })
+        .where(eq(letterRequestsTable.id, requestId))
+        .execute();
+
+      // 5. Close the escalation and measure how long it stayed open
+      const resolvedAt = new Date();
+      const resolved = await tx.update(escalationsTable)
+        .set({
+          resolution: input.resolution,
+          resolution_notes: input.notes ?? null,
+          resolved_by_user_id: userId,
+          resolved_at: resolvedAt,
+          time_to_resolve_seconds: Math.round((resolvedAt.getTime() - escalation.raised_at.getTime()) / 1000)
+        })
+        .where(eq(escalationsTable.id, escalation.id))
+        .returning()
+        .execute();
+
+      // 6. Create the tracking log entry
+      await tx.insert(trackingLogsTable)
+        .values({
+          letter_request_id: requestId,
+          user_id: userId,
+          action_type: 'ESCALATION_RESOLVED',
+          description,
+          notes: input.notes || null,
+          previous_status: request.status,
+          new_status: stage.status
+        })
+        .execute();
+
+      return resolved[0];
+    });
+  } catch (error) {
+    console.error('Escalation resolution failed:', error);
+    throw error;
+  }
+}
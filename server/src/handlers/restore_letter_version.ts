@@ -0,0 +1,78 @@
+import { db } from '../db';
+import { letterRequestsTable, letterVersionsTable, trackingLogsTable } from '../db/schema';
+import { type LetterRequest, type RestoreLetterVersionInput } from '../schema';
+import { lockLetterRequest, nextRequestVersion } from '../lib/request_lock';
+import { verifiableStatuses } from '../lib/letter_verification';
+import { and, eq } from 'drizzle-orm';
+
+// Makes an earlier final letter version the current one again. The status does not change, and the
+// versions in between stay in the history.
+export async function restoreLetterVersion(input: RestoreLetterVersionInput, userId: number): Promise<LetterRequest> {
+  try {
+    return await db.transaction(async (tx) => {
+      // 1. Lock the letter request and validate that it exists
+      const existingRequest = await lockLetterRequest(tx, input.request_id);
+
+      if (existingRequest.length === 0) {
+        throw new Error(`Letter request with ID ${input.request_id} not found`);
+      }
+
+      const request = existingRequest[0];
+      const version = nextRequestVersion(request, input.expected_version);
+
+      // 2. Only whoever currently holds the request may switch its letter, and only before signing
+      if (request.current_handler_user_id !== userId) {
+        throw new Error('User is not authorized to restore letter versions for this request');
+      }
+
+      if (verifiableStatuses.includes(request.status)) {
+        throw new Error(`Cannot restore a letter version after the letter is signed (status: ${request.status})`);
+      }
+
+      // 3. The version must belong to this request and not already be in use
+      const letterVersions = await tx.select()
+        .from(letterVersionsTable)
+        .where(and(
+          eq(letterVersionsTable.id, input.letter_version_id),
+          eq(letterVersionsTable.letter_request_id, request.id)
+        ))
+        .execute();
+
+      if (letterVersions.length === 0) {
+        throw new Error(`Letter version ${input.letter_version_id} not found for this request`);
+      }
+
+      const letterVersion = letterVersions[0];
+      if (letterVersion.id === request.current_letter_version_id) {
+        throw new Error(`Letter version ${letterVersion.version_number} is already the current version`);
+      }
+
+      // 4. Point the request back at it and log the restore
+      const updatedRequest = await tx.update(letterRequestsTable)
+        .set({
+          final_letter_url: letterVersion.file_url,
+          current_letter_version_id: letterVersion.id,
+          version,
+          updated_at: new Date()
+        })
+        .where(eq(letterRequestsTable.id, request.id))
+        .returning()
+        .execute();
+
+      await tx.insert(trackingLogsTable)
+        .values({
+          letter_request_id: request.id,
+          user_id: userId,
+          action_type: 'VERSION_RESTORED',
+          description: `Final letter version ${letterVersion.version_number} restored`,
+          notes: input.change_note ?? null
+        })
+        .execute();
+
+      return updatedRequest[0];
+    });
+  } catch (error) {
+    console.error('Restore letter version failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,143 @@
+import { db } from '../db';
+import { letterRequestsTable, supportingDocumentsTable, trackingLogsTable, usersTable, studentsTable } from '../db/schema';
+import { type ResubmitRequestInput, type LetterRequest } from '../schema';
+import { assertTransition } from '../lib/request_transitions';
+import { lockLetterRequest, nextRequestVersion } from '../lib/request_lock';
+import { assertRequiredDocuments, assertStudentEligible, findActiveLetterType, slaDueDate } from '../lib/letter_types';
+import { discardUpload } from '../lib/storage';
+import { sameProdi } from '../lib/study_programs';
+import { and, eq, inArray } from 'drizzle-orm';
+
+// The creator of a rejected request fixes it and sends it back to the Kaprodi as a DRAFT. The request
+// keeps its id, so the tracking log holds the whole history including earlier rejections.
+export async function resubmitRequest(input: ResubmitRequestInput, userId: number): Promise<LetterRequest> {
+  const removedStorageKeys: string[] = [];
+  try {
+    const result = await db.transaction(async (tx) => {
+      // 1. Lock the letter request and validate that it exists
+      const existingRequest = await lockLetterRequest(tx, input.request_id);
+
+      if (existingRequest.length === 0) {
+        throw new Error(`Letter request with ID ${input.request_id} not found`);
+      }
+
+      const request = existingRequest[0];
+      const version = nextRequestVersion(request, input.expected_version);
+
+      // 2. Only the creator may resubmit, and only a rejected request
+      if (request.created_by_user_id !== userId) {
+        throw new Error('Only the creator of a request can resubmit it');
+      }
+
+      const user = await tx.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, userId))
+        .execute();
+
+      if (user.length === 0) {
+        throw new Error(`User with ID ${userId} not found`);
+      }
+
+      assertTransition(
+        request.status,
+        'DRAFT',
+        user[0].role,
+        `Only rejected requests can be resubmitted. Current status: ${request.status}`
+      );
+
+      // 3. Drop the documents the creator replaces
+      const removeIds = [...new Set(input.remove_document_ids ?? [])];
+      const removed = removeIds.length > 0
+        ? await tx.select()
+          .from(supportingDocumentsTable)
+          .where(and(
+            eq(supportingDocumentsTable.letter_request_id, request.id),
+            inArray(supportingDocumentsTable.id, removeIds)
+          ))
+          .execute()
+        : [];
+
+      const unknownIds = removeIds.filter(id => !removed.some(document => document.id === id));
+      if (unknownIds.length > 0) {
+        throw new Error(`Supporting documents not found for this request: ${unknownIds.join(', ')}`);
+      }
+
+      if (removed.length > 0) {
+        await tx.delete(supportingDocumentsTable)
+          .where(inArray(supportingDocumentsTable.id, removeIds))
+          .execute();
+      }
+
+      // 4. The request goes through the same checks as a new one: an active letter type and accepted
+      // documents covering every required type
+      const letterType = await findActiveLetterType(tx, request.letter_type);
+      await assertRequiredDocuments(tx, letterType, request.id);
+
+      // 5. The student must still be eligible; find the Kaprodi for their prodi, who reviews the request again
+      const student = await tx.select()
+        .from(studentsTable)
+        .where(eq(studentsTable.id, request.student_id))
+        .execute();
+      assertStudentEligible(letterType, student[0]);
+
+      const kaprodiResult = await tx.select()
+        .from(usersTable)
+        .where(eq(usersTable.role, 'KAPRODI'))
+        .execute();
+
+      const kaprodi = kaprodiResult.find(kaprodiUser => sameProdi(kaprodiUser, student[0]));
+
+      if (!kaprodi) {
+        throw new Error(`No Kaprodi found for prodi: ${student[0].prodi}`);
+      }
+
+      // 6. Back to DRAFT; the last rejection stays readable in the tracking log
+      const purpose = input.purpose ?? request.purpose;
+      const updatedRequest = await tx.update(letterRequestsTable)
+        .set({
+          purpose,
+          status: 'DRAFT',
+          current_handler_user_id: kaprodi.id,
+          rejection_reason_code: null,
+          rejection_notes: null,
+          due_at: slaDueDate(letterType.sla_days, new Date()),
+          version,
+          updated_at: new Date()
+        })
+        .where(eq(letterRequestsTable.id, request.id))
+        .returning()
+        .execute();
+
+      const changes = [
+        ...(input.notes ? [input.notes] : []),
+        ...(purpose !== request.purpose ? [`Purpose: ${purpose}`] : []),
+        ...(removed.length > 0 ? [`Removed documents: ${removed.map(document => document.file_name).join(', ')}`] : [])
+      ];
+
+      await tx.insert(trackingLogsTable)
+        .values({
+          letter_request_id: request.id,
+          user_id: userId,
+          action_type: 'RESUBMITTED',
+          description: 'Letter request resubmitted after rejection',
+          notes: changes.length > 0 ? changes.join('. ') : null,
+          previous_status: request.status,
+          new_status: 'DRAFT'
+        })
+        .execute();
+
+      removedStorageKeys.push(...removed.flatMap(document => document.storage_key ? [document.storage_key] : []));
+      return updatedRequest[0];
+    });
+
+    // Stored files of removed documents are deleted only once the removal is committed
+    for (const storageKey of removedStorageKeys) {
+      await discardUpload(storageKey);
+    }
+
+    return result;
+  } catch (error) {
+    console.error('Request resubmission failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,27 @@
+import { db } from '../db';
+import { type ReturnToProdiInput, type LetterRequest } from '../schema';
+import { completeFulfilment, findProdiStaff, prepareFulfilment } from '../lib/fulfilment';
+
+// Faculty staff send a signed letter back to the prodi, which prints and delivers it to the student
+export async function returnToProdi(input: ReturnToProdiInput, userId: number): Promise<LetterRequest> {
+  try {
+    return await db.transaction(async (tx) => {
+      // 1. Lock the request and check the step is open to the user's role
+      const step = await prepareFulfilment(
+        tx, input.request_id, input.expected_version, userId, 'RETURNED_TO_PRODI', 'return to prodi'
+      );
+
+      // 2. The prodi staff who created the request pick it up again when possible
+      const staffProdi = await findProdiStaff(tx, step.studentProdi, step.request.created_by_user_id);
+
+      // 3. Update the request and log the return
+      return completeFulfilment(tx, step, staffProdi.id, {
+        description: `Signed letter returned to ${staffProdi.name} at prodi ${step.studentProdi.prodi}`,
+        notes: input.notes
+      });
+    });
+  } catch (error) {
+    console.error('Return to prodi failed:', error);
+    throw error;
+  }
+}
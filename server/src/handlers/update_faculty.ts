@@ -0,0 +1,31 @@
+import { db } from '../db';
+import { facultiesTable } from '../db/schema';
+import { type Faculty, type UpdateFacultyInput } from '../schema';
+import { normalizeCatalogCode } from '../lib/letter_types';
+import { eq } from 'drizzle-orm';
+
+// Deactivated faculties keep their study programs, but no user or student can be linked to those any more
+export async function updateFaculty(input: UpdateFacultyInput): Promise<Faculty> {
+  try {
+    const { id, code, ...fields } = input;
+
+    const result = await db.update(facultiesTable)
+      .set({
+        ...fields,
+        ...(code && { code: normalizeCatalogCode(code) }),
+        updated_at: new Date()
+      })
+      .where(eq(facultiesTable.id, id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Faculty not found');
+    }
+
+    return result[0];
+  } catch (error) {
+    console.error('Faculty update failed:', error);
+    throw error;
+  }
+}
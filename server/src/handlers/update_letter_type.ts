@@ -0,0 +1,37 @@
+import { db } from '../db';
+import { letterTypesTable } from '../db/schema';
+import { type LetterType, type UpdateLetterTypeInput } from '../schema';
+import { assertDispositionChain, normalizeDocumentTypes } from '../lib/letter_types';
+import { eq } from 'drizzle-orm';
+
+// Changes apply to requests created afterwards; deactivated types can no longer be requested
+export async function updateLetterType(input: UpdateLetterTypeInput): Promise<LetterType> {
+  try {
+    const { id, required_documents, default_disposition_chain, eligible_statuses, ...fields } = input;
+
+    if (default_disposition_chain) {
+      assertDispositionChain(default_disposition_chain);
+    }
+
+    const result = await db.update(letterTypesTable)
+      .set({
+        ...fields,
+        ...(required_documents && { required_documents: normalizeDocumentTypes(required_documents) }),
+        ...(default_disposition_chain && { default_disposition_chain }),
+        ...(eligible_statuses && { eligible_statuses: [...new Set(eligible_statuses)] }),
+        updated_at: new Date()
+      })
+      .where(eq(letterTypesTable.id, id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Letter type not found');
+    }
+
+    return result[0];
+  } catch (error) {
+    console.error('Letter type update failed:', error);
+    throw error;
+  }
+}
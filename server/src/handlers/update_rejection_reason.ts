@@ -0,0 +1,29 @@
+import { db } from '../db';
+import { rejectionReasonsTable } from '../db/schema';
+import { type RejectionReason, type UpdateRejectionReasonInput } from '../schema';
+import { eq } from 'drizzle-orm';
+
+// Deactivated reasons can no longer be picked; requests already rejected with them keep the code
+export async function updateRejectionReason(input: UpdateRejectionReasonInput): Promise<RejectionReason> {
+  try {
+    const { id, ...fields } = input;
+
+    const result = await db.update(rejectionReasonsTable)
+      .set({
+        ...fields,
+        updated_at: new Date()
+      })
+      .where(eq(rejectionReasonsTable.id, id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Rejection reason not found');
+    }
+
+    return result[0];
+  } catch (error) {
+    console.error('Rejection reason update failed:', error);
+    throw error;
+  }
+}
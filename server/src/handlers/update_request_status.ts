@@ -1,67 +1,114 @@
 import { db } from '../db';
-import { letterRequestsTable, trackingLogsTable } from '../db/schema';
+import { letterRequestsTable, trackingLogsTable, usersTable } from '../db/schema';
 import { type UpdateRequestStatusInput, type LetterRequest } from '../schema';
-import { eq, and } from 'drizzle-orm';
+import { assertTransition, handlerRolesFor } from '../lib/request_transitions';
+import { InvalidStatusTransitionError } from '../lib/errors';
+import { can, isInProdiScope, loadRequestResource } from '../lib/policy';
+import { lockLetterRequest, nextRequestVersion } from '../lib/request_lock';
+import { eq } from 'drizzle-orm';
 
 export async function updateRequestStatus(input: UpdateRequestStatusInput, userId: number): Promise<LetterRequest> {
   try {
-    // First, fetch the current request to validate permissions and get current state
-    const existingRequest = await db.select()
-      .from(letterRequestsTable)
-      .where(eq(letterRequestsTable.id, input.request_id))
-      .execute();
-
-    if (!existingRequest.length) {
-      throw new Error(`Letter request with ID ${input.request_id} not found`);
-    }
-
-    const currentRequest = existingRequest[0];
-
-    // Basic permission check - user must be the current handler or creator
-    if (currentRequest.current_handler_user_id !== userId && 
-        currentRequest.created_by_user_id !== userId) {
-      throw new Error('User does not have permission to update this request');
-    }
-
-    // Update the request status and handler
-    const updateData: {
-      status: typeof input.new_status;
-      current_handler_user_id?: number | null;
-      updated_at: Date;
-    } = {
-      status: input.new_status,
-      updated_at: new Date()
-    };
-
-    // Set next handler if provided
-    if (input.next_handler_user_id !== undefined) {
-      updateData.current_handler_user_id = input.next_handler_user_id;
-    }
-
-    const updatedRequest = await db.update(letterRequestsTable)
-      .set(updateData)
-      .where(eq(letterRequestsTable.id, input.request_id))
-      .returning()
-      .execute();
-
-    if (!updatedRequest.length) {
-      throw new Error('Failed to update letter request');
-    }
-
-    // Create tracking log entry
-    await db.insert(trackingLogsTable)
-      .values({
-        letter_request_id: input.request_id,
-        user_id: userId,
-        action_type: 'APPROVED', // Generic action type - could be refined based on status
-        description: `Status updated from ${currentRequest.status} to ${input.new_status}`,
-        notes: input.notes || null,
-        previous_status: currentRequest.status,
-        new_status: input.new_status
-      })
-      .execute();
-
-    return updatedRequest[0];
+    return await db.transaction(async (tx) => {
+      // First, lock the current request to validate permissions and get current state
+      const existingRequest = await lockLetterRequest(tx, input.request_id);
+
+      if (!existingRequest.length) {
+        throw new Error(`Letter request with ID ${input.request_id} not found`);
+      }
+
+      const currentRequest = existingRequest[0];
+      const version = nextRequestVersion(currentRequest, input.expected_version);
+
+      const userResult = await tx.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, userId))
+        .execute();
+
+      if (!userResult.length) {
+        throw new Error(`User with ID ${userId} not found`);
+      }
+
+      // Permission check through the shared policy - creator or current handler, within prodi scope
+      const resource = await loadRequestResource(input.request_id);
+      if (!resource || !can(userResult[0], 'request:update_status', resource)) {
+        throw new Error('User does not have permission to update this request');
+      }
+
+      // A named next handler must be able to act on the request in its new status
+      if (input.next_handler_user_id !== undefined) {
+        const nextHandler = await tx.select()
+          .from(usersTable)
+          .where(eq(usersTable.id, input.next_handler_user_id))
+          .execute();
+
+        if (!nextHandler.length) {
+          throw new Error(`Next handler with ID ${input.next_handler_user_id} not found`);
+        }
+
+        if (!handlerRolesFor(input.new_status).includes(nextHandler[0].role)) {
+          throw new Error(`Next handler with role ${nextHandler[0].role} cannot handle a request in status ${input.new_status}`);
+        }
+
+        if (!isInProdiScope(nextHandler[0], resource)) {
+          throw new Error(`Next handler ${nextHandler[0].name} is outside the prodi of this request`);
+        }
+      }
+
+      // The status table decides whether this move is legal for the acting role
+      const transition = assertTransition(currentRequest.status, input.new_status, userResult[0].role);
+      if (transition.procedure) {
+        throw new InvalidStatusTransitionError(
+          currentRequest.status,
+          input.new_status,
+          `Moving a request from ${currentRequest.status} to ${input.new_status} goes through ${transition.procedure}`
+        );
+      }
+
+      // Update the request status and handler
+      const updateData: {
+        status: typeof input.new_status;
+        current_handler_user_id?: number | null;
+        version: number;
+        updated_at: Date;
+      } = {
+        status: input.new_status,
+        version,
+        updated_at: new Date()
+      };
+
+      // Set next handler if provided, unless the transition releases the handler
+      if (transition.clearsHandler) {
+        updateData.current_handler_user_id = null;
+      } else if (input.next_handler_user_id !== undefined) {
+        updateData.current_handler_user_id = input.next_handler_user_id;
+      }
+
+      const updatedRequest = await tx.update(letterRequestsTable)
+        .set(updateData)
+        .where(eq(letterRequestsTable.id, input.request_id))
+        .returning()
+        .execute();
+
+      if (!updatedRequest.length) {
+        throw new Error('Failed to update letter request');
+      }
+
+      // Create tracking log entry
+      await tx.insert(trackingLogsTable)
+        .values({
+          letter_request_id: input.request_id,
+          user_id: userId,
+          action_type: transition.actionType,
+          description: `Status updated from ${currentRequest.status} to ${input.new_status}`,
+          notes: input.notes || null,
+          previous_status: currentRequest.status,
+          new_status: input.new_status
+        })
+        .execute();
+
+      return updatedRequest[0];
+    });
   } catch (error) {
     console.error('Request status update failed:', error);
     throw error;
@@ -0,0 +1,65 @@
+import { db } from '../db';
+import { facultiesTable, studentsTable, studyProgramsTable, usersTable } from '../db/schema';
+import { type StudyProgram, type UpdateStudyProgramInput } from '../schema';
+import { normalizeCatalogCode } from '../lib/letter_types';
+import { eq } from 'drizzle-orm';
+
+// Linked users and students carry the program's name as their prodi, so a rename is applied to them too.
+// Deactivated programs keep their links, but nobody new can be linked to them.
+export async function updateStudyProgram(input: UpdateStudyProgramInput): Promise<StudyProgram> {
+  try {
+    return await db.transaction(async (tx) => {
+      const { id, code, ...fields } = input;
+
+      if (fields.faculty_id !== undefined) {
+        const faculties = await tx.select({ id: facultiesTable.id })
+          .from(facultiesTable)
+          .where(eq(facultiesTable.id, fields.faculty_id))
+          .execute();
+
+        if (faculties.length === 0) {
+          throw new Error(`Unknown faculty: ${fields.faculty_id}`);
+        }
+      }
+
+      const result = await tx.update(studyProgramsTable)
+        .set({
+          ...fields,
+          ...(code && { code: normalizeCatalogCode(code) }),
+          updated_at: new Date()
+        })
+        .where(eq(studyProgramsTable.id, id))
+        .returning()
+        .execute();
+
+      if (result.length === 0) {
+        throw new Error('Study program not found');
+      }
+
+      if (fields.name !== undefined) {
+        await tx.update(usersTable)
+          .set({ prodi: result[0].name, updated_at: new Date() })
+          .where(eq(usersTable.study_program_id, id))
+          .execute();
+
+        await tx.update(studentsTable)
+          .set({ prodi: result[0].name })
+          .where(eq(studentsTable.study_program_id, id))
+          .execute();
+      }
+
+      // Students carry their program's faculty, so moving the program moves them along
+      if (fields.faculty_id !== undefined) {
+        await tx.update(studentsTable)
+          .set({ faculty_id: result[0].faculty_id })
+          .where(eq(studentsTable.study_program_id, id))
+          .execute();
+      }
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Study program update failed:', error);
+    throw error;
+  }
+}
@@ -1,39 +1,30 @@
 import { db } from '../db';
 import { supportingDocumentsTable, trackingLogsTable, letterRequestsTable, usersTable } from '../db/schema';
-import { type SupportingDocument } from '../schema';
-import { eq, and } from 'drizzle-orm';
+import { type SupportingDocument, type UploadSupportingDocumentInput } from '../schema';
+import { can, loadRequestResource } from '../lib/policy';
+import { normalizeCatalogCode } from '../lib/letter_types';
+import { discardUpload, readUpload, storedFileUrl, storeUpload } from '../lib/storage';
+import { findUploadRules, inspectSupportingDocument } from '../lib/upload_checks';
+import { eq } from 'drizzle-orm';
 
 export async function uploadSupportingDocument(
-    requestId: number, 
-    fileName: string, 
-    fileUrl: string, 
+    input: UploadSupportingDocumentInput,
     userId: number
 ): Promise<SupportingDocument> {
+    let storedKey: string | null = null;
     try {
-        // Validate that the letter request exists and get its details
-        const letterRequestResult = await db.select({
-            id: letterRequestsTable.id,
-            student_id: letterRequestsTable.student_id,
-            created_by_user_id: letterRequestsTable.created_by_user_id,
-            current_handler_user_id: letterRequestsTable.current_handler_user_id,
-            status: letterRequestsTable.status
-        })
+        // Validate that the letter request exists
+        const letterRequestResult = await db.select({ id: letterRequestsTable.id, letter_type: letterRequestsTable.letter_type })
         .from(letterRequestsTable)
-        .where(eq(letterRequestsTable.id, requestId))
+        .where(eq(letterRequestsTable.id, input.request_id))
         .execute();
 
         if (letterRequestResult.length === 0) {
             throw new Error('Letter request not found');
         }
 
-        const letterRequest = letterRequestResult[0];
-
         // Validate that the user exists
-        const userResult = await db.select({
-            id: usersTable.id,
-            role: usersTable.role,
-            prodi: usersTable.prodi
-        })
+        const userResult = await db.select()
         .from(usersTable)
         .where(eq(usersTable.id, userId))
         .execute();
@@ -42,56 +33,61 @@ export async function uploadSupportingDocument(
             throw new Error('User not found');
         }
 
-        const user = userResult[0];
-
-        // Validate user permissions to upload documents for this request
-        const canUpload = (
-            // Request creator can always upload
-            letterRequest.created_by_user_id === userId ||
-            // Current handler can upload
-            letterRequest.current_handler_user_id === userId ||
-            // Admin can always upload
-            user.role === 'ADMIN' ||
-            // Staff can upload for requests in their domain
-            (user.role === 'STAFF_PRODI' || user.role === 'KAPRODI') ||
-            user.role === 'STAFF_FAKULTAS' ||
-            user.role === 'DEKAN' ||
-            user.role.startsWith('WD') ||
-            user.role.startsWith('KABAG') ||
-            user.role.startsWith('KAUR')
-        );
-
-        if (!canUpload) {
+        // Validate user permissions through the shared document:upload policy
+        const resource = await loadRequestResource(input.request_id);
+        if (!resource || !can(userResult[0], 'document:upload', resource)) {
             throw new Error('User does not have permission to upload documents for this request');
         }
 
-        // Create the supporting document record
-        const documentResult = await db.insert(supportingDocumentsTable)
-            .values({
-                letter_request_id: requestId,
-                file_name: fileName,
-                file_url: fileUrl,
-                uploaded_by_user_id: userId
-            })
-            .returning()
-            .execute();
+        // Check the content against the letter type's rules; failing files are stored but quarantined
+        const upload = await readUpload(input.file);
+        const rules = await findUploadRules(letterRequestResult[0].letter_type);
+        const inspection = await inspectSupportingDocument(upload, rules);
 
-        const document = documentResult[0];
+        const storageKey = await storeUpload(`requests/${input.request_id}/documents`, upload, inspection.mime_type);
+        storedKey = storageKey;
 
-        // Create tracking log entry for the upload
-        await db.insert(trackingLogsTable)
-            .values({
-                letter_request_id: requestId,
-                user_id: userId,
-                action_type: 'DOCUMENT_UPLOADED',
-                description: `Supporting document uploaded: ${fileName}`,
-                notes: `File URL: ${fileUrl}`
-            })
-            .execute();
+        return await db.transaction(async (tx) => {
+            // Create the supporting document record
+            const documentResult = await tx.insert(supportingDocumentsTable)
+                .values({
+                    letter_request_id: input.request_id,
+                    file_name: upload.file_name,
+                    file_url: storedFileUrl(storageKey),
+                    document_type: input.document_type ? normalizeCatalogCode(input.document_type) : null,
+                    storage_key: storageKey,
+                    mime_type: inspection.mime_type,
+                    size_bytes: upload.size_bytes,
+                    sha256: upload.sha256,
+                    page_count: inspection.page_count,
+                    status: inspection.quarantine_reason ? 'QUARANTINED' : 'ACCEPTED',
+                    quarantine_reason: inspection.quarantine_reason,
+                    uploaded_by_user_id: userId
+                })
+                .returning()
+                .execute();
 
-        return document;
+            // Create tracking log entry for the upload
+            await tx.insert(trackingLogsTable)
+                .values({
+                    letter_request_id: input.request_id,
+                    user_id: userId,
+                    action_type: 'DOCUMENT_UPLOADED',
+                    description: inspection.quarantine_reason
+                        ? `Supporting document quarantined: ${upload.file_name}`
+                        : `Supporting document uploaded: ${upload.file_name}`,
+                    notes: inspection.quarantine_reason
+                        ?? `${inspection.mime_type}, ${upload.size_bytes} bytes, SHA-256 ${upload.sha256}`
+                })
+                .execute();
+
+            return documentResult[0];
+        });
     } catch (error) {
+        if (storedKey) {
+            await discardUpload(storedKey);
+        }
         console.error('Document upload failed:', error);
         throw error;
     }
-}
\ No newline at end of file
+}
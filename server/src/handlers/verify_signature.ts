@@ -0,0 +1,32 @@
+import { db } from '../db';
+import { letterRequestsTable } from '../db/schema';
+import { type SignatureVerification } from '../schema';
+import { userCan } from '../lib/policy';
+import { verifyRequestSignature } from '../lib/letter_signing';
+import { eq } from 'drizzle-orm';
+
+// Whether the request's latest signature holds and its final letter is unchanged since signing.
+// Null when the request is missing or the user may not read it.
+export async function verifySignature(requestId: number, userId?: number): Promise<SignatureVerification | null> {
+  try {
+    if (userId && !(await userCan(userId, 'request:read', requestId))) {
+      return null;
+    }
+
+    return await db.transaction(async (tx) => {
+      const requests = await tx.select()
+        .from(letterRequestsTable)
+        .where(eq(letterRequestsTable.id, requestId))
+        .execute();
+
+      if (requests.length === 0) {
+        return null;
+      }
+
+      return verifyRequestSignature(tx, requests[0]);
+    });
+  } catch (error) {
+    console.error('Signature verification failed:', error);
+    throw error;
+  }
+}
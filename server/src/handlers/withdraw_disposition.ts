@@ -0,0 +1,52 @@
+import { db } from '../db';
+import { letterRequestsTable, trackingLogsTable } from '../db/schema';
+import { type WithdrawDispositionInput, type LetterRequest } from '../schema';
+import { prepareDispositionAmendment } from '../lib/disposition_amendments';
+import { cancelPendingAssignments } from '../lib/disposition_groups';
+import { assertTransition } from '../lib/request_transitions';
+import { eq } from 'drizzle-orm';
+
+export async function withdrawDisposition(input: WithdrawDispositionInput, userId: number): Promise<LetterRequest> {
+  try {
+    return await db.transaction(async (tx) => {
+      // 1. Lock the request and check the Dean may change its disposition
+      const { request, version, dekan } = await prepareDispositionAmendment(tx, input.request_id, input.expected_version, userId);
+
+      assertTransition(request.status, 'FORWARDED_TO_DEKAN', dekan.role);
+
+      // 2. Cancel the assignments nobody has completed; completed ones stay as history
+      const cancelled = await cancelPendingAssignments(tx, input.request_id);
+
+      // 3. The request is back with the Dean, who may dispose it again
+      const updatedRequest = await tx.update(letterRequestsTable)
+        .set({
+          status: 'FORWARDED_TO_DEKAN',
+          current_handler_user_id: dekan.id,
+          parallel_handler_user_ids: [],
+          version,
+          updated_at: new Date()
+        })
+        .where(eq(letterRequestsTable.id, input.request_id))
+        .returning()
+        .execute();
+
+      // 4. Create the tracking log entry
+      await tx.insert(trackingLogsTable)
+        .values({
+          letter_request_id: input.request_id,
+          user_id: dekan.id,
+          action_type: 'DISPOSISI_WITHDRAWN',
+          description: `Disposition withdrawn by Dekan; pending assignments cancelled: ${cancelled.length}`,
+          notes: input.notes || null,
+          previous_status: request.status,
+          new_status: 'FORWARDED_TO_DEKAN'
+        })
+        .execute();
+
+      return updatedRequest[0];
+    });
+  } catch (error) {
+    console.error('Disposition withdrawal failed:', error);
+    throw error;
+  }
+}
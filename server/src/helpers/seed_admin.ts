@@ -0,0 +1,18 @@
+import { createUser } from '../handlers/create_user';
+
+// createUser requires an ADMIN session, so the first ADMIN account is created from the shell:
+// ADMIN_EMAIL=... ADMIN_PASSWORD=... bun db:seed-admin
+const email = process.env['ADMIN_EMAIL'];
+const password = process.env['ADMIN_PASSWORD'];
+
+if (!email || !password) {
+  console.error('ADMIN_EMAIL and ADMIN_PASSWORD must be set');
+  process.exit(1);
+}
+
+createUser({ email, password, name: process.env['ADMIN_NAME'] || 'Administrator', role: 'ADMIN' })
+  .then(user => {
+    console.log(`Admin user created: ${user.email}`);
+    process.exit(0);
+  })
+  .catch(() => process.exit(1));
@@ -0,0 +1,79 @@
+import { deflateRawSync } from 'node:zlib';
+
+// Builds a minimal XLSX workbook for tests: one sheet, text cells as shared strings, digit-only cells as numbers
+export function buildXlsx(rows: string[][]): Buffer {
+  const sharedStrings: string[] = [];
+  const escape = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  const column = (index: number) => String.fromCharCode(65 + index);
+
+  const sheetRows = rows.map((cells, rowIndex) => {
+    const xmlCells = cells.map((value, columnIndex) => {
+      const reference = `${column(columnIndex)}${rowIndex + 1}`;
+      if (value === '') {
+        return '';
+      }
+      if (/^\d+$/.test(value)) {
+        return `<c r="${reference}"><v>${value}</v></c>`;
+      }
+      sharedStrings.push(value);
+      return `<c r="${reference}" t="s"><v>${sharedStrings.length - 1}</v></c>`;
+    });
+    return `<row r="${rowIndex + 1}">${xmlCells.join('')}</row>`;
+  });
+
+  return buildZip({
+    '[Content_Types].xml': '<?xml version="1.0" encoding="UTF-8"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"/>',
+    'xl/workbook.xml': '<?xml version="1.0" encoding="UTF-8"?><workbook xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="Mahasiswa" sheetId="1" r:id="rId1"/></sheets></workbook>',
+    'xl/_rels/workbook.xml.rels': '<?xml version="1.0" encoding="UTF-8"?><Relationships><Relationship Id="rId1" Type="worksheet" Target="worksheets/data.xml"/></Relationships>',
+    'xl/sharedStrings.xml': `<?xml version="1.0" encoding="UTF-8"?><sst>${sharedStrings.map(text => `<si><t>${escape(text)}</t></si>`).join('')}</sst>`,
+    'xl/worksheets/data.xml': `<?xml version="1.0" encoding="UTF-8"?><worksheet><sheetData>${sheetRows.join('')}</sheetData></worksheet>`
+  });
+}
+
+// Deflated ZIP entries with just the headers a reader needs
+function buildZip(files: Record<string, string>): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, text] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name, 'utf8');
+    const content = Buffer.from(text, 'utf8');
+    const compressed = deflateRawSync(content);
+    const crc = Bun.hash.crc32(content);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    localParts.push(local, nameBytes, compressed);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(content.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centralParts.push(central, nameBytes);
+
+    offset += local.length + nameBytes.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
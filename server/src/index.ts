@@ -1,7 +1,8 @@
-import { initTRPC } from '@trpc/server';
+import { initTRPC, TRPCError } from '@trpc/server';
 import { createHTTPServer } from '@trpc/server/adapters/standalone';
 import 'dotenv/config';
 import cors from 'cors';
+import { type IncomingMessage, type ServerResponse } from 'node:http';
 import superjson from 'superjson';
 import { z } from 'zod';
 
@@ -9,16 +10,53 @@ import { z } from 'zod';
 import {
   createUserInputSchema,
   createStudentInputSchema,
+  importStudentsInputSchema,
+  createFacultyInputSchema,
+  updateFacultyInputSchema,
+  createStudyProgramInputSchema,
+  updateStudyProgramInputSchema,
+  getStudyProgramsInputSchema,
+  mapProdiInputSchema,
   createLetterRequestInputSchema,
   updateRequestStatusInputSchema,
   createDispositionInputSchema,
   processDispositionInputSchema,
+  reassignDispositionInputSchema,
+  addDispositionStepInputSchema,
+  removeDispositionStepInputSchema,
+  withdrawDispositionInputSchema,
+  resolveEscalationInputSchema,
   uploadFinalLetterInputSchema,
+  uploadSupportingDocumentInputSchema,
+  createDownloadLinkInputSchema,
+  returnToProdiInputSchema,
+  markPrintedInputSchema,
+  markDeliveredInputSchema,
+  archiveRequestInputSchema,
   signLetterInputSchema,
+  requestRevisionInputSchema,
   addTrackingLogInputSchema,
   getRequestsFilterSchema,
+  loginInputSchema,
+  registerStudentInputSchema,
+  issueRegistrationCodeInputSchema,
+  createLetterTypeInputSchema,
+  updateLetterTypeInputSchema,
+  mapLetterTypeInputSchema,
+  createRejectionReasonInputSchema,
+  updateRejectionReasonInputSchema,
+  approveByKaprodiInputSchema,
+  forwardToDekanInputSchema,
+  rejectRequestInputSchema,
+  resubmitRequestInputSchema,
+  createLetterTemplateInputSchema,
+  generateFinalLetterInputSchema,
+  restoreLetterVersionInputSchema,
+  configureLetterNumberFormatInputSchema,
   userRoleSchema
 } from './schema';
+import { createContext, type Context } from './lib/context';
+import { can, procedurePolicies, procedureResources, requiresResource, resolvePolicyResource } from './lib/policy';
 
 // Import handlers
 import { createUser } from './handlers/create_user';
@@ -27,8 +65,26 @@ import { createLetterRequest } from './handlers/create_letter_request';
 import { updateRequestStatus } from './handlers/update_request_status';
 import { createDisposition } from './handlers/create_disposition';
 import { processDisposition } from './handlers/process_disposition';
+import { reassignDisposition } from './handlers/reassign_disposition';
+import { addDispositionStep } from './handlers/add_disposition_step';
+import { removeDispositionStep } from './handlers/remove_disposition_step';
+import { withdrawDisposition } from './handlers/withdraw_disposition';
+import { getOpenEscalations } from './handlers/get_open_escalations';
+import { resolveEscalation } from './handlers/resolve_escalation';
 import { uploadFinalLetter } from './handlers/upload_final_letter';
 import { signLetter } from './handlers/sign_letter';
+import { requestRevision } from './handlers/request_revision';
+import { verifySignature } from './handlers/verify_signature';
+import { returnToProdi } from './handlers/return_to_prodi';
+import { markPrinted } from './handlers/mark_printed';
+import { markDelivered } from './handlers/mark_delivered';
+import { archiveRequest } from './handlers/archive_request';
+import { getDelivery } from './handlers/get_delivery';
+import { getLetterVerification } from './handlers/get_letter_verification';
+import { renderVerificationPage, verificationPagePattern } from './lib/verification_page';
+import { contentDisposition, fileDownloadPattern, verifyDownloadLink } from './lib/storage';
+import { parseBearerToken } from './lib/session';
+import { getSessionUser } from './handlers/get_session_user';
 import { getRequests } from './handlers/get_requests';
 import { getRequestById } from './handlers/get_request_by_id';
 import { getTrackingLogs } from './handlers/get_tracking_logs';
@@ -36,185 +92,494 @@ import { addTrackingLog } from './handlers/add_tracking_log';
 import { getDispositionAssignments } from './handlers/get_disposition_assignments';
 import { getUsersByRole } from './handlers/get_users_by_role';
 import { getStudents } from './handlers/get_students';
+import { importStudents } from './handlers/import_students';
+import { getStudentImportBatches } from './handlers/get_student_import_batches';
+import { createFaculty } from './handlers/create_faculty';
+import { updateFaculty } from './handlers/update_faculty';
+import { deleteFaculty } from './handlers/delete_faculty';
+import { getFaculties } from './handlers/get_faculties';
+import { createStudyProgram } from './handlers/create_study_program';
+import { updateStudyProgram } from './handlers/update_study_program';
+import { deleteStudyProgram } from './handlers/delete_study_program';
+import { getStudyPrograms } from './handlers/get_study_programs';
+import { getUnmappedProdis } from './handlers/get_unmapped_prodis';
+import { mapProdi } from './handlers/map_prodi';
 import { uploadSupportingDocument } from './handlers/upload_supporting_document';
+import { downloadFile } from './handlers/download_file';
+import { createDownloadLink } from './handlers/create_download_link';
 import { getSupportingDocuments } from './handlers/get_supporting_documents';
 import { getUserById } from './handlers/get_user_by_id';
+import { login } from './handlers/login';
+import { registerStudent } from './handlers/register_student';
+import { issueRegistrationCode } from './handlers/issue_registration_code';
+import { logout } from './handlers/logout';
+import { getAllowedTransitions } from './handlers/get_allowed_transitions';
+import { createLetterType } from './handlers/create_letter_type';
+import { updateLetterType } from './handlers/update_letter_type';
+import { deleteLetterType } from './handlers/delete_letter_type';
+import { getLetterTypes } from './handlers/get_letter_types';
+import { getUnmappedLetterTypes } from './handlers/get_unmapped_letter_types';
+import { mapLetterType } from './handlers/map_letter_type';
+import { createRejectionReason } from './handlers/create_rejection_reason';
+import { updateRejectionReason } from './handlers/update_rejection_reason';
+import { getRejectionReasons } from './handlers/get_rejection_reasons';
+import { approveByKaprodi } from './handlers/approve_by_kaprodi';
+import { forwardToDekan } from './handlers/forward_to_dekan';
+import { rejectRequest } from './handlers/reject_request';
+import { resubmitRequest } from './handlers/resubmit_request';
+import { createLetterTemplate } from './handlers/create_letter_template';
+import { getLetterTemplates } from './handlers/get_letter_templates';
+import { generateFinalLetter } from './handlers/generate_final_letter';
+import { getGeneratedLetter } from './handlers/get_generated_letter';
+import { getLetterVersions } from './handlers/get_letter_versions';
+import { restoreLetterVersion } from './handlers/restore_letter_version';
+import { configureLetterNumberFormat } from './handlers/configure_letter_number_format';
+import { getLetterNumberFormats } from './handlers/get_letter_number_formats';
+import { getRequestByLetterNumber } from './handlers/get_request_by_letter_number';
 
-const t = initTRPC.create({
+const t = initTRPC.context<Context>().create({
   transformer: superjson,
 });
 
 const publicProcedure = t.procedure;
 const router = t.router;
 
+// Requires a valid session; the acting user always comes from ctx.user, never from input
+const authenticated = t.middleware(({ ctx, next }) => {
+  if (!ctx.user || !ctx.sessionToken) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Login required' });
+  }
+  return next({ ctx: { user: ctx.user, sessionToken: ctx.sessionToken } });
+});
+
+const policyAction = (path: string) => {
+  const action = procedurePolicies[path];
+  if (!action) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: `No access policy defined for ${path}` });
+  }
+  return action;
+};
+
+const denied = (role: string, action: string) =>
+  new TRPCError({ code: 'FORBIDDEN', message: `Role ${role} is not allowed to perform ${action}` });
+
+// Every protected procedure is checked against the shared policy module; unmapped procedures are denied.
+// Actions that need a resource are only reachable through resourceProcedure.
+const protectedProcedure = t.procedure.use(authenticated).use(({ ctx, path, next }) => {
+  const action = policyAction(path);
+  if (requiresResource(action)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: `${path} must check ${action} against its resource` });
+  }
+  if (!can(ctx.user, action)) {
+    throw denied(ctx.user.role, action);
+  }
+  return next();
+});
+
+// Procedures acting on a request, assignment, student or study program are checked after their input is parsed,
+// against the resource named by the field the policy module assigns to the procedure
+function resourceProcedure<TInput extends z.ZodTypeAny>(inputSchema: TInput) {
+  return t.procedure.use(authenticated).input(inputSchema).use(async ({ ctx, path, input, next }) => {
+    const action = policyAction(path);
+    if (!procedureResources[path]) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: `No policy resource defined for ${path}` });
+    }
+
+    const resource = await resolvePolicyResource(path, input);
+    if (!resource) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: `Resource for ${path} not found` });
+    }
+
+    if (!can(ctx.user, action, resource)) {
+      throw denied(ctx.user.role, action);
+    }
+
+    return next();
+  });
+}
+
 // Main application router
-const appRouter = router({
+export const appRouter = router({
   // Health check
   healthcheck: publicProcedure.query(() => {
     return { status: 'ok', timestamp: new Date().toISOString() };
   }),
 
+  // Authentication
+  login: publicProcedure
+    .input(loginInputSchema)
+    .mutation(({ input }) => login(input)),
+
+  // Students create their own account; the NIM and name must match the student master
+  registerStudent: publicProcedure
+    .input(registerStudentInputSchema)
+    .mutation(({ input }) => registerStudent(input)),
+
+  logout: protectedProcedure
+    .mutation(({ ctx }) => logout(ctx.sessionToken)),
+
+  me: protectedProcedure
+    .query(({ ctx }) => ctx.user),
+
+  // Public letter verification, reached through the QR code on a signed letter
+  getLetterVerification: publicProcedure
+    .input(z.object({ token: z.string() }))
+    .query(({ input }) => getLetterVerification(input.token)),
+
   // User management
-  createUser: publicProcedure
+  createUser: protectedProcedure
     .input(createUserInputSchema)
     .mutation(({ input }) => createUser(input)),
 
-  getUserById: publicProcedure
+  getUserById: protectedProcedure
     .input(z.object({ userId: z.number() }))
     .query(({ input }) => getUserById(input.userId)),
 
-  getUsersByRole: publicProcedure
+  getUsersByRole: protectedProcedure
     .input(z.object({ role: userRoleSchema }))
     .query(({ input }) => getUsersByRole(input.role)),
 
   // Student management
-  createStudent: publicProcedure
-    .input(createStudentInputSchema)
-    .mutation(({ input }) => createStudent(input)),
+  createStudent: resourceProcedure(createStudentInputSchema)
+    .mutation(({ input, ctx }) => createStudent(input, ctx.user.id)),
 
-  getStudents: publicProcedure
+  getStudents: protectedProcedure
     .input(z.object({ searchTerm: z.string().optional() }).optional())
     .query(({ input }) => getStudents(input?.searchTerm)),
 
+  issueRegistrationCode: resourceProcedure(issueRegistrationCodeInputSchema)
+    .mutation(({ input, ctx }) => issueRegistrationCode(input, ctx.user.id)),
+
+  // Multipart (FormData) mutation taking a CSV or XLSX export from SIAKAD
+  importStudents: protectedProcedure
+    .input(importStudentsInputSchema)
+    .mutation(({ input, ctx }) => importStudents(input, ctx.user.id)),
+
+  getStudentImportBatches: protectedProcedure
+    .query(() => getStudentImportBatches()),
+
+  // Organizational master: faculties and study programs
+  createFaculty: protectedProcedure
+    .input(createFacultyInputSchema)
+    .mutation(({ input }) => createFaculty(input)),
+
+  updateFaculty: protectedProcedure
+    .input(updateFacultyInputSchema)
+    .mutation(({ input }) => updateFaculty(input)),
+
+  deleteFaculty: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(({ input }) => deleteFaculty(input.id)),
+
+  getFaculties: protectedProcedure
+    .input(z.object({ includeInactive: z.boolean().optional() }).optional())
+    .query(({ input }) => getFaculties(input?.includeInactive)),
+
+  createStudyProgram: protectedProcedure
+    .input(createStudyProgramInputSchema)
+    .mutation(({ input }) => createStudyProgram(input)),
+
+  updateStudyProgram: protectedProcedure
+    .input(updateStudyProgramInputSchema)
+    .mutation(({ input }) => updateStudyProgram(input)),
+
+  deleteStudyProgram: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(({ input }) => deleteStudyProgram(input.id)),
+
+  getStudyPrograms: protectedProcedure
+    .input(getStudyProgramsInputSchema.optional())
+    .query(({ input }) => getStudyPrograms(input)),
+
+  // Migration of free-text prodi values to the master
+  getUnmappedProdis: protectedProcedure
+    .query(() => getUnmappedProdis()),
+
+  mapProdi: protectedProcedure
+    .input(mapProdiInputSchema)
+    .mutation(({ input }) => mapProdi(input)),
+
   // Letter request lifecycle
-  createLetterRequest: publicProcedure
-    .input(createLetterRequestInputSchema.extend({
-      userId: z.number() // Current user creating the request
-    }))
-    .mutation(({ input }) => {
-      const { userId, ...requestInput } = input;
-      return createLetterRequest(requestInput, userId);
-    }),
-
-  updateRequestStatus: publicProcedure
-    .input(updateRequestStatusInputSchema.extend({
-      userId: z.number() // Current user making the update
-    }))
-    .mutation(({ input }) => {
-      const { userId, ...statusInput } = input;
-      return updateRequestStatus(statusInput, userId);
-    }),
-
-  getRequests: publicProcedure
+  createLetterRequest: resourceProcedure(createLetterRequestInputSchema)
+    .mutation(({ input, ctx }) => createLetterRequest(input, ctx.user.id)),
+
+  updateRequestStatus: resourceProcedure(updateRequestStatusInputSchema)
+    .mutation(({ input, ctx }) => updateRequestStatus(input, ctx.user.id)),
+
+  getRequests: protectedProcedure
     .input(z.object({
-      filter: getRequestsFilterSchema.optional(),
-      userId: z.number().optional()
+      filter: getRequestsFilterSchema.optional()
     }).optional())
-    .query(({ input }) => getRequests(input?.filter, input?.userId)),
+    .query(({ input, ctx }) => getRequests(input?.filter, ctx.user.id)),
 
-  getRequestById: publicProcedure
-    .input(z.object({
-      requestId: z.number(),
-      userId: z.number().optional()
-    }))
-    .query(({ input }) => getRequestById(input.requestId, input.userId)),
+  getRequestById: resourceProcedure(z.object({ requestId: z.number() }))
+    .query(({ input, ctx }) => getRequestById(input.requestId, ctx.user.id)),
+
+  getAllowedTransitions: resourceProcedure(z.object({ requestId: z.number() }))
+    .query(({ input, ctx }) => getAllowedTransitions(input.requestId, ctx.user.id)),
+
+  // Kaprodi review
+  approveByKaprodi: resourceProcedure(approveByKaprodiInputSchema)
+    .mutation(({ input, ctx }) => approveByKaprodi(input, ctx.user.id)),
+
+  forwardToDekan: resourceProcedure(forwardToDekanInputSchema)
+    .mutation(({ input, ctx }) => forwardToDekan(input, ctx.user.id)),
+
+  rejectRequest: resourceProcedure(rejectRequestInputSchema)
+    .mutation(({ input, ctx }) => rejectRequest(input, ctx.user.id)),
+
+  resubmitRequest: resourceProcedure(resubmitRequestInputSchema)
+    .mutation(({ input, ctx }) => resubmitRequest(input, ctx.user.id)),
 
   // Disposition management (Dean workflow)
-  createDisposition: publicProcedure
-    .input(createDispositionInputSchema.extend({
-      dekanUserId: z.number() // Current Dean user
-    }))
-    .mutation(({ input }) => {
-      const { dekanUserId, ...dispositionInput } = input;
-      return createDisposition(dispositionInput, dekanUserId);
-    }),
-
-  processDisposition: publicProcedure
-    .input(processDispositionInputSchema.extend({
-      userId: z.number() // Current officer processing
-    }))
-    .mutation(({ input }) => {
-      const { userId, ...processInput } = input;
-      return processDisposition(processInput, userId);
-    }),
-
-  getDispositionAssignments: publicProcedure
-    .input(z.object({
-      requestId: z.number(),
-      userId: z.number().optional()
-    }))
-    .query(({ input }) => getDispositionAssignments(input.requestId, input.userId)),
-
-  // Final letter and signature workflow
-  uploadFinalLetter: publicProcedure
-    .input(uploadFinalLetterInputSchema.extend({
-      userId: z.number() // Current user uploading (usually KAUR)
-    }))
-    .mutation(({ input }) => {
-      const { userId, ...uploadInput } = input;
-      return uploadFinalLetter(uploadInput, userId);
-    }),
-
-  signLetter: publicProcedure
-    .input(signLetterInputSchema.extend({
-      dekanUserId: z.number() // Dean signing the letter
-    }))
-    .mutation(({ input }) => {
-      const { dekanUserId, ...signInput } = input;
-      return signLetter(signInput, dekanUserId);
-    }),
+  createDisposition: resourceProcedure(createDispositionInputSchema)
+    .mutation(({ input, ctx }) => createDisposition(input, ctx.user.id)),
+
+  processDisposition: resourceProcedure(processDispositionInputSchema)
+    .mutation(({ input, ctx }) => processDisposition(input, ctx.user.id)),
+
+  reassignDisposition: resourceProcedure(reassignDispositionInputSchema)
+    .mutation(({ input, ctx }) => reassignDisposition(input, ctx.user.id)),
+
+  addDispositionStep: resourceProcedure(addDispositionStepInputSchema)
+    .mutation(({ input, ctx }) => addDispositionStep(input, ctx.user.id)),
+
+  removeDispositionStep: resourceProcedure(removeDispositionStepInputSchema)
+    .mutation(({ input, ctx }) => removeDispositionStep(input, ctx.user.id)),
+
+  withdrawDisposition: resourceProcedure(withdrawDispositionInputSchema)
+    .mutation(({ input, ctx }) => withdrawDisposition(input, ctx.user.id)),
+
+  getDispositionAssignments: resourceProcedure(z.object({ requestId: z.number() }))
+    .query(({ input, ctx }) => getDispositionAssignments(input.requestId, ctx.user.id)),
+
+  // Escalations raised from processDisposition, resolved by an admin
+  getOpenEscalations: protectedProcedure
+    .query(() => getOpenEscalations()),
+
+  resolveEscalation: protectedProcedure
+    .input(resolveEscalationInputSchema)
+    .mutation(({ input, ctx }) => resolveEscalation(input, ctx.user.id)),
+
+  // Final letter and signature workflow; uploadFinalLetter takes a multipart (FormData) body
+  uploadFinalLetter: resourceProcedure(uploadFinalLetterInputSchema)
+    .mutation(({ input, ctx }) => uploadFinalLetter(input, ctx.user.id)),
+
+  signLetter: resourceProcedure(signLetterInputSchema)
+    .mutation(({ input, ctx }) => signLetter(input, ctx.user.id)),
+
+  requestRevision: resourceProcedure(requestRevisionInputSchema)
+    .mutation(({ input, ctx }) => requestRevision(input, ctx.user.id)),
+
+  verifySignature: resourceProcedure(z.object({ requestId: z.number() }))
+    .query(({ input, ctx }) => verifySignature(input.requestId, ctx.user.id)),
+
+  // Fulfilment after signing; markDelivered takes a multipart (FormData) body for the optional proof photo
+  returnToProdi: resourceProcedure(returnToProdiInputSchema)
+    .mutation(({ input, ctx }) => returnToProdi(input, ctx.user.id)),
+
+  markPrinted: resourceProcedure(markPrintedInputSchema)
+    .mutation(({ input, ctx }) => markPrinted(input, ctx.user.id)),
+
+  markDelivered: resourceProcedure(markDeliveredInputSchema)
+    .mutation(({ input, ctx }) => markDelivered(input, ctx.user.id)),
+
+  archiveRequest: resourceProcedure(archiveRequestInputSchema)
+    .mutation(({ input, ctx }) => archiveRequest(input, ctx.user.id)),
+
+  getDelivery: resourceProcedure(z.object({ requestId: z.number() }))
+    .query(({ input, ctx }) => getDelivery(input.requestId, ctx.user.id)),
+
+  // Letter type catalog
+  createLetterType: protectedProcedure
+    .input(createLetterTypeInputSchema)
+    .mutation(({ input }) => createLetterType(input)),
+
+  updateLetterType: protectedProcedure
+    .input(updateLetterTypeInputSchema)
+    .mutation(({ input }) => updateLetterType(input)),
+
+  deleteLetterType: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(({ input }) => deleteLetterType(input.id)),
+
+  getLetterTypes: protectedProcedure
+    .input(z.object({ includeInactive: z.boolean().optional() }).optional())
+    .query(({ input }) => getLetterTypes(input?.includeInactive)),
+
+  // Migration of free-text letter types to the catalog
+  getUnmappedLetterTypes: protectedProcedure
+    .query(() => getUnmappedLetterTypes()),
+
+  mapLetterType: protectedProcedure
+    .input(mapLetterTypeInputSchema)
+    .mutation(({ input }) => mapLetterType(input)),
+
+  // Rejection reasons
+  createRejectionReason: protectedProcedure
+    .input(createRejectionReasonInputSchema)
+    .mutation(({ input }) => createRejectionReason(input)),
+
+  updateRejectionReason: protectedProcedure
+    .input(updateRejectionReasonInputSchema)
+    .mutation(({ input }) => updateRejectionReason(input)),
+
+  getRejectionReasons: protectedProcedure
+    .input(z.object({ includeInactive: z.boolean().optional() }).optional())
+    .query(({ input }) => getRejectionReasons(input?.includeInactive)),
+
+  // Letter templates and generated letters
+  createLetterTemplate: protectedProcedure
+    .input(createLetterTemplateInputSchema)
+    .mutation(({ input, ctx }) => createLetterTemplate(input, ctx.user.id)),
+
+  getLetterTemplates: protectedProcedure
+    .input(z.object({ letterType: z.string().optional() }).optional())
+    .query(({ input }) => getLetterTemplates(input?.letterType)),
+
+  generateFinalLetter: resourceProcedure(generateFinalLetterInputSchema)
+    .mutation(({ input, ctx }) => generateFinalLetter(input, ctx.user.id)),
+
+  getGeneratedLetter: resourceProcedure(z.object({ requestId: z.number() }))
+    .query(({ input, ctx }) => getGeneratedLetter(input.requestId, ctx.user.id)),
+
+  // Final letter versions
+  getLetterVersions: resourceProcedure(z.object({ requestId: z.number() }))
+    .query(({ input, ctx }) => getLetterVersions(input.requestId, ctx.user.id)),
+
+  restoreLetterVersion: resourceProcedure(restoreLetterVersionInputSchema)
+    .mutation(({ input, ctx }) => restoreLetterVersion(input, ctx.user.id)),
+
+  // Letter numbering
+  configureLetterNumberFormat: protectedProcedure
+    .input(configureLetterNumberFormatInputSchema)
+    .mutation(({ input }) => configureLetterNumberFormat(input)),
+
+  getLetterNumberFormats: protectedProcedure
+    .query(() => getLetterNumberFormats()),
+
+  getRequestByLetterNumber: protectedProcedure
+    .input(z.object({ letterNumber: z.string().min(1) }))
+    .query(({ input, ctx }) => getRequestByLetterNumber(input.letterNumber, ctx.user.id)),
 
   // Document management
-  uploadSupportingDocument: publicProcedure
-    .input(z.object({
-      requestId: z.number(),
-      fileName: z.string(),
-      fileUrl: z.string(),
-      userId: z.number()
-    }))
-    .mutation(({ input }) => 
-      uploadSupportingDocument(input.requestId, input.fileName, input.fileUrl, input.userId)
-    ),
-
-  getSupportingDocuments: publicProcedure
-    .input(z.object({
-      requestId: z.number(),
-      userId: z.number().optional()
-    }))
-    .query(({ input }) => getSupportingDocuments(input.requestId, input.userId)),
+  // Multipart (FormData) mutation; the stored file is downloaded through GET /files/<key>
+  uploadSupportingDocument: resourceProcedure(uploadSupportingDocumentInputSchema)
+    .mutation(({ input, ctx }) => uploadSupportingDocument(input, ctx.user.id)),
+
+  getSupportingDocuments: resourceProcedure(z.object({ requestId: z.number() }))
+    .query(({ input, ctx }) => getSupportingDocuments(input.requestId, ctx.user.id)),
+
+  // GET /files/<key> needs the Authorization header; this signs a short-lived link for plain browser downloads
+  createDownloadLink: protectedProcedure
+    .input(createDownloadLinkInputSchema)
+    .mutation(({ input, ctx }) => createDownloadLink(input, ctx.user.id)),
 
   // Audit trail
-  getTrackingLogs: publicProcedure
-    .input(z.object({
-      requestId: z.number(),
-      userId: z.number().optional()
-    }))
-    .query(({ input }) => getTrackingLogs(input.requestId, input.userId)),
-
-  addTrackingLog: publicProcedure
-    .input(addTrackingLogInputSchema.extend({
-      userId: z.number() // User creating the log entry
-    }))
-    .mutation(({ input }) => {
-      const { userId, ...logInput } = input;
-      return addTrackingLog(logInput, userId);
-    }),
+  getTrackingLogs: resourceProcedure(z.object({ requestId: z.number() }))
+    .query(({ input, ctx }) => getTrackingLogs(input.requestId, ctx.user.id)),
+
+  addTrackingLog: resourceProcedure(addTrackingLogInputSchema)
+    .mutation(({ input, ctx }) => addTrackingLog(input, ctx.user.id)),
 });
 
 export type AppRouter = typeof appRouter;
 
+// Stored files are served outside of tRPC so browsers get the raw bytes; the session, or the user a
+// createDownloadLink link was signed for, and the request:read policy are checked exactly as for getRequestById
+function serveFileDownload(req: IncomingMessage, res: ServerResponse, storageKey: string) {
+  Promise.resolve(decodeURIComponent(storageKey))
+    .then(async key => {
+      const query = new URL(req.url ?? '', 'http://localhost').searchParams;
+      let userId: number | null = null;
+      if (query.has('signature')) {
+        userId = verifyDownloadLink(key, query);
+      } else {
+        const sessionToken = parseBearerToken(req.headers.authorization);
+        userId = sessionToken ? (await getSessionUser(sessionToken))?.id ?? null : null;
+      }
+      if (userId === null) {
+        res.writeHead(401, { 'Content-Type': 'text/plain; charset=utf-8' });
+        res.end('Login required');
+        return;
+      }
+
+      const file = await downloadFile(key, userId);
+      if (!file) {
+        res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+        res.end('File not found');
+        return;
+      }
+
+      res.writeHead(200, {
+        'Content-Type': file.mime_type,
+        'Content-Length': file.content.length,
+        'Content-Disposition': contentDisposition(file.file_name),
+        'X-Content-Type-Options': 'nosniff'
+      });
+      res.end(file.content);
+    })
+    .catch(() => {
+      res.writeHead(500, { 'Content-Type': 'text/plain; charset=utf-8' });
+      res.end('Download is temporarily unavailable');
+    });
+}
+
 async function start() {
   const port = process.env['SERVER_PORT'] || 2022;
   const server = createHTTPServer({
     middleware: (req, res, next) => {
+      // The verification page is plain HTML for whoever scans the QR code, outside of tRPC
+      const page = req.method === 'GET' ? verificationPagePattern.exec(req.url ?? '') : null;
+      if (page) {
+        Promise.resolve(page[1])
+          .then(token => getLetterVerification(decodeURIComponent(token)))
+          .then(verification => {
+            res.writeHead(verification ? 200 : 404, { 'Content-Type': 'text/html; charset=utf-8' });
+            res.end(renderVerificationPage(verification));
+          })
+          .catch(() => {
+            res.writeHead(500, { 'Content-Type': 'text/plain; charset=utf-8' });
+            res.end('Verification is temporarily unavailable');
+          });
+        return;
+      }
+      const download = req.method === 'GET' ? fileDownloadPattern.exec(req.url ?? '') : null;
+      if (download) {
+        serveFileDownload(req, res, download[1]);
+        return;
+      }
       cors()(req, res, next);
     },
     router: appRouter,
-    createContext() {
-      return {};
-    },
+    createContext,
   });
   server.listen(port);
   console.log(`Document Management System TRPC server listening at port: ${port}`);
   console.log(`Available endpoints:`);
   console.log(`- Health check: GET /healthcheck`);
+  console.log(`- Letter verification (public): GET /verify/<token>, getLetterVerification`);
+  console.log(`- Authentication: login, registerStudent, logout, me`);
   console.log(`- User management: createUser, getUserById, getUsersByRole`);
-  console.log(`- Student management: createStudent, getStudents`);
-  console.log(`- Letter requests: createLetterRequest, updateRequestStatus, getRequests, getRequestById`);
-  console.log(`- Disposition workflow: createDisposition, processDisposition, getDispositionAssignments`);
-  console.log(`- Document workflow: uploadFinalLetter, signLetter`);
+  console.log(`- Student management: createStudent, getStudents, issueRegistrationCode, importStudents, getStudentImportBatches`);
+  console.log(`- Organization: createFaculty, updateFaculty, deleteFaculty, getFaculties, createStudyProgram, updateStudyProgram, deleteStudyProgram, getStudyPrograms, getUnmappedProdis, mapProdi`);
+  console.log(`- Letter requests: createLetterRequest, updateRequestStatus, getRequests, getRequestById, getAllowedTransitions, rejectRequest, resubmitRequest`);
+  console.log(`- Kaprodi review: approveByKaprodi, forwardToDekan`);
+  console.log(`- Disposition workflow: createDisposition, processDisposition, reassignDisposition, addDispositionStep, removeDispositionStep, withdrawDisposition, getDispositionAssignments`);
+  console.log(`- Escalations: getOpenEscalations, resolveEscalation`);
+  console.log(`- Document workflow: uploadFinalLetter, signLetter, requestRevision, verifySignature`);
+  console.log(`- Fulfilment: returnToProdi, markPrinted, markDelivered, archiveRequest, getDelivery`);
+  console.log(`- Letter types: createLetterType, updateLetterType, deleteLetterType, getLetterTypes, getUnmappedLetterTypes, mapLetterType`);
+  console.log(`- Rejection reasons: createRejectionReason, updateRejectionReason, getRejectionReasons`);
+  console.log(`- Letter templates: createLetterTemplate, getLetterTemplates, generateFinalLetter, getGeneratedLetter`);
+  console.log(`- Letter versions: getLetterVersions, restoreLetterVersion`);
+  console.log(`- Letter numbering: configureLetterNumberFormat, getLetterNumberFormats, getRequestByLetterNumber`);
   console.log(`- Supporting documents: uploadSupportingDocument, getSupportingDocuments`);
+  console.log(`- Stored files (authorized or signed by createDownloadLink): GET /files/<key>`);
   console.log(`- Audit trail: getTrackingLogs, addTrackingLog`);
 }
 
-start();
\ No newline at end of file
+// Tests import the router without starting the server
+if (import.meta.main) {
+  start();
+}
\ No newline at end of file
@@ -0,0 +1,20 @@
+import { type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import { type User } from '../schema';
+import { getSessionUser } from '../handlers/get_session_user';
+import { parseBearerToken } from './session';
+
+export interface Context {
+  user: User | null;
+  sessionToken: string | null;
+}
+
+// Resolves the acting user from the session token instead of trusting ids sent in the input
+export async function createContext({ req }: CreateHTTPContextOptions): Promise<Context> {
+  const sessionToken = parseBearerToken(req.headers.authorization);
+  if (!sessionToken) {
+    return { user: null, sessionToken: null };
+  }
+
+  const user = await getSessionUser(sessionToken);
+  return { user, sessionToken: user ? sessionToken : null };
+}
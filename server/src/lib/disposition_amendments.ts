@@ -0,0 +1,202 @@
+import { type Transaction } from '../db';
+import {
+  dispositionAssignmentsTable,
+  letterRequestsTable,
+  trackingLogsTable,
+  usersTable,
+  type LetterRequest,
+  type User
+} from '../db/schema';
+import { findActiveGroup, stageForGroup, type DispositionStage } from './disposition_groups';
+import { assertTransition, isDispositionRole, isInDisposition, processedStatusByRole } from './request_transitions';
+import { lockLetterRequest, nextRequestVersion } from './request_lock';
+import { and, desc, eq, isNull } from 'drizzle-orm';
+
+// Request locked and validated for a change to its disposition by the Dean
+export interface DispositionAmendment {
+  request: LetterRequest;
+  version: number;
+  dekan: User;
+}
+
+// Shared by the procedures that change a disposition after createDisposition
+export async function prepareDispositionAmendment(
+  tx: Transaction,
+  requestId: number,
+  expectedVersion: number,
+  userId: number
+): Promise<DispositionAmendment> {
+  // 1. Only the Dean changes a disposition
+  const dekan = await tx.select()
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .execute();
+
+  if (dekan.length === 0 || dekan[0].role !== 'DEKAN') {
+    throw new Error('Only Dekan can change disposition assignments');
+  }
+
+  // 2. Lock the letter request and validate that it exists
+  const existingRequest = await lockLetterRequest(tx, requestId);
+
+  if (existingRequest.length === 0) {
+    throw new Error(`Letter request with ID ${requestId} not found`);
+  }
+
+  const request = existingRequest[0];
+  const version = nextRequestVersion(request, expectedVersion);
+
+  // 3. Once the final letter is handed over, the disposition is over
+  if (!isInDisposition(request.status)) {
+    throw new Error(`Letter request is not in disposition. Current status: ${request.status}`);
+  }
+
+  return { request, version, dekan: dekan[0] };
+}
+
+// The request an assignment belongs to, read before the request is locked
+export async function findAssignmentRequestId(tx: Transaction, assignmentId: number): Promise<number> {
+  const assignment = await tx.select({ letter_request_id: dispositionAssignmentsTable.letter_request_id })
+    .from(dispositionAssignmentsTable)
+    .where(eq(dispositionAssignmentsTable.id, assignmentId))
+    .execute();
+
+  if (assignment.length === 0) {
+    throw new Error(`Disposition assignment with ID ${assignmentId} not found`);
+  }
+
+  return assignment[0].letter_request_id;
+}
+
+// The assignment re-read under the request lock; completed and escalated assignments are history and cannot change
+export async function loadPendingAssignment(tx: Transaction, assignmentId: number) {
+  const assignment = await tx.select()
+    .from(dispositionAssignmentsTable)
+    .where(eq(dispositionAssignmentsTable.id, assignmentId))
+    .execute();
+
+  if (assignment.length === 0) {
+    throw new Error(`Disposition assignment with ID ${assignmentId} not found`);
+  }
+
+  if (assignment[0].is_completed) {
+    throw new Error('Disposition assignment is already completed');
+  }
+
+  if (assignment[0].escalated_at !== null) {
+    throw new Error('Disposition assignment was escalated');
+  }
+
+  return assignment[0];
+}
+
+// Same rules as createDisposition: an existing officer, at most once per step
+export async function validateAssignee(
+  tx: Transaction,
+  requestId: number,
+  userId: number,
+  orderSequence: number
+): Promise<User> {
+  const user = await tx.select()
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .execute();
+
+  if (user.length === 0) {
+    throw new Error(`Assigned user with ID ${userId} not found`);
+  }
+
+  if (!isDispositionRole(user[0].role)) {
+    throw new Error(`Invalid role for disposition assignment: ${user[0].role}`);
+  }
+
+  const sameStep = await tx.select({ id: dispositionAssignmentsTable.id })
+    .from(dispositionAssignmentsTable)
+    .where(and(
+      eq(dispositionAssignmentsTable.letter_request_id, requestId),
+      eq(dispositionAssignmentsTable.assigned_to_user_id, userId),
+      eq(dispositionAssignmentsTable.order_sequence, orderSequence),
+      eq(dispositionAssignmentsTable.is_completed, false),
+      isNull(dispositionAssignmentsTable.escalated_at)
+    ))
+    .execute();
+
+  if (sameStep.length > 0) {
+    throw new Error(`User ${user[0].name} is assigned twice in disposition step ${orderSequence}`);
+  }
+
+  return user[0];
+}
+
+// Status and handlers after the assignments changed: the step now in progress, or, when every remaining
+// assignment is completed, the officer who finished last keeps the request to prepare the final letter
+async function currentStage(tx: Transaction, requestId: number): Promise<DispositionStage> {
+  const group = await findActiveGroup(tx, requestId);
+  if (group.length > 0) {
+    return stageForGroup(group);
+  }
+
+  const lastCompleted = await tx.select({
+    user_id: dispositionAssignmentsTable.assigned_to_user_id,
+    role: usersTable.role
+  })
+    .from(dispositionAssignmentsTable)
+    .innerJoin(usersTable, eq(dispositionAssignmentsTable.assigned_to_user_id, usersTable.id))
+    .where(and(
+      eq(dispositionAssignmentsTable.letter_request_id, requestId),
+      eq(dispositionAssignmentsTable.is_completed, true)
+    ))
+    .orderBy(desc(dispositionAssignmentsTable.completed_at), desc(dispositionAssignmentsTable.id))
+    .limit(1)
+    .execute();
+
+  if (lastCompleted.length === 0 || !isDispositionRole(lastCompleted[0].role)) {
+    throw new Error('Disposition has no assignments left');
+  }
+
+  return {
+    status: processedStatusByRole[lastCompleted[0].role],
+    handlerId: lastCompleted[0].user_id,
+    parallelHandlerIds: []
+  };
+}
+
+// Recomputes status and handlers from the assignments, writes them to the request and logs the change
+export async function applyDispositionAmendment(
+  tx: Transaction,
+  amendment: DispositionAmendment,
+  log: { description: string; notes?: string }
+): Promise<LetterRequest> {
+  const { request } = amendment;
+  const stage = await currentStage(tx, request.id);
+
+  if (stage.status !== request.status) {
+    assertTransition(request.status, stage.status, amendment.dekan.role);
+  }
+
+  const updatedRequest = await tx.update(letterRequestsTable)
+    .set({
+      status: stage.status,
+      current_handler_user_id: stage.handlerId,
+      parallel_handler_user_ids: stage.parallelHandlerIds,
+      version: amendment.version,
+      updated_at: new Date()
+    })
+    .where(eq(letterRequestsTable.id, request.id))
+    .returning()
+    .execute();
+
+  await tx.insert(trackingLogsTable)
+    .values({
+      letter_request_id: request.id,
+      user_id: amendment.dekan.id,
+      action_type: 'DISPOSISI_AMENDED',
+      description: log.description,
+      notes: log.notes || null,
+      previous_status: request.status,
+      new_status: stage.status
+    })
+    .execute();
+
+  return updatedRequest[0];
+}
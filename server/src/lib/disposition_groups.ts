@@ -0,0 +1,78 @@
+import { type Transaction } from '../db';
+import { dispositionAssignmentsTable, usersTable, type DispositionAssignment } from '../db/schema';
+import { type RequestStatus, type UserRole } from '../schema';
+import { dispositionStatusByRole, isDispositionRole } from './request_transitions';
+import { and, asc, eq, isNull } from 'drizzle-orm';
+
+export interface GroupMember {
+  assignment_id: number;
+  user_id: number;
+  user_name: string;
+  role: UserRole;
+  order_sequence: number;
+}
+
+// Status and handlers of a request while a disposition step is active
+export interface DispositionStage {
+  status: RequestStatus;
+  handlerId: number | null;
+  parallelHandlerIds: number[];
+}
+
+// Open assignments with the lowest order_sequence: the step officers are working on now.
+// Empty once every assignment is completed or escalated.
+export async function findActiveGroup(tx: Transaction, requestId: number): Promise<GroupMember[]> {
+  const pending = await tx.select({
+    assignment_id: dispositionAssignmentsTable.id,
+    user_id: dispositionAssignmentsTable.assigned_to_user_id,
+    user_name: usersTable.name,
+    role: usersTable.role,
+    order_sequence: dispositionAssignmentsTable.order_sequence
+  })
+    .from(dispositionAssignmentsTable)
+    .innerJoin(usersTable, eq(dispositionAssignmentsTable.assigned_to_user_id, usersTable.id))
+    .where(and(
+      eq(dispositionAssignmentsTable.letter_request_id, requestId),
+      eq(dispositionAssignmentsTable.is_completed, false),
+      isNull(dispositionAssignmentsTable.escalated_at)
+    ))
+    .orderBy(asc(dispositionAssignmentsTable.order_sequence), asc(dispositionAssignmentsTable.id))
+    .execute();
+
+  return pending.filter(member => member.order_sequence === pending[0].order_sequence);
+}
+
+// Leaving the disposition cancels the assignments nobody has completed, so a later disposition starts clean;
+// completed and escalated ones stay as history
+export async function cancelPendingAssignments(tx: Transaction, requestId: number): Promise<DispositionAssignment[]> {
+  return await tx.delete(dispositionAssignmentsTable)
+    .where(and(
+      eq(dispositionAssignmentsTable.letter_request_id, requestId),
+      eq(dispositionAssignmentsTable.is_completed, false),
+      isNull(dispositionAssignmentsTable.escalated_at)
+    ))
+    .returning()
+    .execute();
+}
+
+// A single officer holds the request as its handler; a parallel group shares it, with no single handler
+export function stageForGroup(group: GroupMember[]): DispositionStage {
+  if (group.length > 1) {
+    return {
+      status: 'DISPOSISI_PARALLEL',
+      handlerId: null,
+      parallelHandlerIds: group.map(member => member.user_id)
+    };
+  }
+
+  const [member] = group;
+  if (!isDispositionRole(member.role)) {
+    throw new Error(`Invalid role for disposition assignment: ${member.role}`);
+  }
+
+  return {
+    status: dispositionStatusByRole[member.role],
+    handlerId: member.user_id,
+    parallelHandlerIds: []
+  };
+}
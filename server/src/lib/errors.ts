@@ -0,0 +1,72 @@
+import { TRPCError } from '@trpc/server';
+import { type RequestStatus, type UserRole } from '../schema';
+
+// Domain errors extend TRPCError so tRPC reports them with a meaningful code instead of INTERNAL_SERVER_ERROR
+
+// The status table has no edge from the current status to the attempted one
+export class InvalidStatusTransitionError extends TRPCError {
+  readonly currentStatus: RequestStatus;
+  readonly attemptedStatus: RequestStatus;
+
+  constructor(currentStatus: RequestStatus, attemptedStatus: RequestStatus, message?: string) {
+    super({
+      code: 'BAD_REQUEST',
+      message: message ?? `Invalid status transition from ${currentStatus} to ${attemptedStatus}`
+    });
+    this.name = 'InvalidStatusTransitionError';
+    this.currentStatus = currentStatus;
+    this.attemptedStatus = attemptedStatus;
+  }
+}
+
+// The edge exists but the acting role may not take it
+export class TransitionNotAllowedError extends TRPCError {
+  readonly currentStatus: RequestStatus;
+  readonly attemptedStatus: RequestStatus;
+  readonly role: UserRole;
+
+  constructor(currentStatus: RequestStatus, attemptedStatus: RequestStatus, role: UserRole) {
+    super({
+      code: 'FORBIDDEN',
+      message: `Role ${role} cannot move a request from ${currentStatus} to ${attemptedStatus}`
+    });
+    this.name = 'TransitionNotAllowedError';
+    this.currentStatus = currentStatus;
+    this.attemptedStatus = attemptedStatus;
+    this.role = role;
+  }
+}
+
+// The letter type requires supporting documents the request does not bring
+export class MissingDocumentsError extends TRPCError {
+  readonly letterType: string;
+  readonly missingDocuments: string[];
+
+  constructor(letterType: string, missingDocuments: string[]) {
+    super({
+      code: 'BAD_REQUEST',
+      message: `Missing required supporting documents for ${letterType}: ${missingDocuments.join(', ')}`
+    });
+    this.name = 'MissingDocumentsError';
+    this.letterType = letterType;
+    this.missingDocuments = missingDocuments;
+  }
+}
+
+// The request changed since the caller read it; the client should reload and retry
+export class VersionConflictError extends TRPCError {
+  readonly requestId: number;
+  readonly expectedVersion: number;
+  readonly currentVersion: number;
+
+  constructor(requestId: number, expectedVersion: number, currentVersion: number) {
+    super({
+      code: 'CONFLICT',
+      message: `Letter request ${requestId} was modified by someone else (expected version ${expectedVersion}, current version ${currentVersion})`
+    });
+    this.name = 'VersionConflictError';
+    this.requestId = requestId;
+    this.expectedVersion = expectedVersion;
+    this.currentVersion = currentVersion;
+  }
+}
@@ -0,0 +1,283 @@
+import { type Transaction } from '../db';
+import {
+  generatedLettersTable,
+  letterRequestsTable,
+  letterTemplatesTable,
+  letterTypesTable,
+  letterVersionsTable,
+  studentsTable,
+  usersTable,
+  trackingLogsTable,
+  type LetterRequest
+} from '../db/schema';
+import { type LetterVersionSource } from '../schema';
+import { getStorage, storageKeyFromUrl } from './storage';
+import { assertTransition } from './request_transitions';
+import { lockLetterRequest, nextRequestVersion } from './request_lock';
+import { formatLetterDate, renderTemplate, type TemplateValues } from './letter_template';
+import { renderLetterPdf } from './letter_pdf';
+import { generateVerificationToken, verificationUrl } from './letter_verification';
+import { createHash } from 'node:crypto';
+import { desc, eq, max } from 'drizzle-orm';
+
+// final_letter_url of a letter produced by the system; the PDF itself is served by getGeneratedLetter
+export const generatedLetterUrl = (generatedLetterId: number) => `generated-letters/${generatedLetterId}`;
+
+const generatedLetterUrlPattern = /^generated-letters\/(\d+)$/;
+
+// The bytes a signature covers: the PDF of a generated letter or the stored file of an uploaded one.
+// Letters recorded by URL before uploads existed are covered by the URL itself.
+export async function loadFinalLetterDocument(tx: Transaction, finalLetterUrl: string): Promise<Buffer> {
+  const storageKey = storageKeyFromUrl(finalLetterUrl);
+  if (storageKey) {
+    return getStorage().get(storageKey);
+  }
+
+  const match = generatedLetterUrlPattern.exec(finalLetterUrl);
+  if (!match) {
+    return Buffer.from(finalLetterUrl, 'utf8');
+  }
+
+  const letters = await tx.select({ content: generatedLettersTable.content })
+    .from(generatedLettersTable)
+    .where(eq(generatedLettersTable.id, Number(match[1])))
+    .execute();
+
+  if (letters.length === 0) {
+    throw new Error(`Generated letter not found: ${finalLetterUrl}`);
+  }
+  return letters[0].content;
+}
+
+// Request locked and validated for handing a final letter to the Dean
+export interface FinalLetterHandover {
+  request: LetterRequest;
+  version: number;
+  dekanUserId: number;
+}
+
+// Shared by uploadFinalLetter and generateFinalLetter. `verb` only shapes the error messages.
+export async function prepareFinalLetter(
+  tx: Transaction,
+  requestId: number,
+  expectedVersion: number,
+  userId: number,
+  verb: 'upload' | 'generate'
+): Promise<FinalLetterHandover> {
+  // 1. Lock the letter request and validate that it exists
+  const existingRequest = await lockLetterRequest(tx, requestId);
+
+  if (existingRequest.length === 0) {
+    throw new Error(`Letter request with ID ${requestId} not found`);
+  }
+
+  const request = existingRequest[0];
+  const version = nextRequestVersion(request, expectedVersion);
+
+  // 2. Only the officer currently handling the request may hand over the final letter
+  if (request.current_handler_user_id !== userId) {
+    throw new Error(`User is not authorized to ${verb} final letter for this request`);
+  }
+
+  const officer = await tx.select()
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .execute();
+
+  if (officer.length === 0) {
+    throw new Error(`User with ID ${userId} not found`);
+  }
+
+  // 3. Validate request status against the transition table
+  assertTransition(
+    request.status,
+    'TTD_READY',
+    officer[0].role,
+    `Cannot ${verb} final letter for request in status: ${request.status} (attempted TTD_READY)`
+  );
+
+  // 4. Find a DEKAN user to set as next handler
+  const dekanUsers = await tx.select()
+    .from(usersTable)
+    .where(eq(usersTable.role, 'DEKAN'))
+    .execute();
+
+  if (dekanUsers.length === 0) {
+    throw new Error('No DEKAN user found to assign as next handler');
+  }
+
+  return { request, version, dekanUserId: dekanUsers[0].id };
+}
+
+// The file behind a new letter version
+export interface FinalLetterFile {
+  source: LetterVersionSource;
+  file_url: string;
+  file_name: string;
+  size_bytes: number;
+  sha256: string;
+  change_note?: string;
+}
+
+// A letter rendered from a template and stored as a generated letter, ready to become a letter version
+export interface RenderedLetter {
+  file: FinalLetterFile;
+  // Which template version it came from, for the tracking log
+  notes: string;
+}
+
+// Renders the latest template of the request's letter type. Shared by generateFinalLetter and the
+// prodi-level issuing in approveByKaprodi. The request row must be locked by the caller.
+export async function renderFinalLetter(
+  tx: Transaction,
+  request: LetterRequest,
+  userId: number,
+  changeNote?: string
+): Promise<RenderedLetter> {
+  // 1. Pick the latest template version for the letter type
+  const templates = await tx.select()
+    .from(letterTemplatesTable)
+    .where(eq(letterTemplatesTable.letter_type, request.letter_type))
+    .orderBy(desc(letterTemplatesTable.version))
+    .limit(1)
+    .execute();
+
+  if (templates.length === 0) {
+    throw new Error(`No letter template found for letter type: ${request.letter_type}`);
+  }
+
+  const template = templates[0];
+
+  const students = await tx.select()
+    .from(studentsTable)
+    .where(eq(studentsTable.id, request.student_id))
+    .execute();
+
+  const student = students[0];
+
+  // Letters show the catalog name; requests from before the catalog only have their free-text type
+  const letterTypes = await tx.select({ name: letterTypesTable.name })
+    .from(letterTypesTable)
+    .where(eq(letterTypesTable.code, request.letter_type))
+    .execute();
+
+  // 2. Fill the placeholders and render the PDF
+  const values: TemplateValues = {
+    student_name: student.name,
+    student_nim: student.nim,
+    student_prodi: student.prodi,
+    letter_type: letterTypes[0]?.name ?? request.letter_type,
+    purpose: request.purpose,
+    dekan_instructions: request.dekan_instructions ?? '',
+    date: formatLetterDate(new Date())
+  };
+
+  // The QR code needs the token now; the public route only answers once the letter is signed
+  let verificationToken = request.verification_token;
+  if (!verificationToken) {
+    verificationToken = generateVerificationToken();
+    await tx.update(letterRequestsTable)
+      .set({ verification_token: verificationToken })
+      .where(eq(letterRequestsTable.id, request.id))
+      .execute();
+  }
+
+  const content = await renderLetterPdf({
+    title: renderTemplate(template.title, values),
+    body: renderTemplate(template.body, values),
+    verificationUrl: verificationUrl(verificationToken)
+  });
+
+  // 3. Store the PDF together with the template version it was rendered from
+  const fileName = `${request.letter_type.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${student.nim}.pdf`;
+
+  const generated = await tx.insert(generatedLettersTable)
+    .values({
+      letter_request_id: request.id,
+      template_id: template.id,
+      file_name: fileName,
+      content,
+      generated_by_user_id: userId
+    })
+    .returning()
+    .execute();
+
+  return {
+    file: {
+      source: 'GENERATED',
+      file_url: generatedLetterUrl(generated[0].id),
+      file_name: fileName,
+      size_bytes: content.length,
+      sha256: createHash('sha256').update(content).digest('hex'),
+      change_note: changeNote
+    },
+    notes: `Rendered from template "${template.letter_type}" version ${template.version}: ${fileName}`
+  };
+}
+
+// Records the file as the request's next letter version. The request row must be locked by the caller,
+// which keeps version numbers gap-free.
+export async function addLetterVersion(tx: Transaction, requestId: number, userId: number, file: FinalLetterFile) {
+  const latest = await tx.select({ version_number: max(letterVersionsTable.version_number) })
+    .from(letterVersionsTable)
+    .where(eq(letterVersionsTable.letter_request_id, requestId))
+    .execute();
+
+  const created = await tx.insert(letterVersionsTable)
+    .values({
+      letter_request_id: requestId,
+      version_number: (latest[0]?.version_number ?? 0) + 1,
+      source: file.source,
+      file_url: file.file_url,
+      file_name: file.file_name,
+      size_bytes: file.size_bytes,
+      sha256: file.sha256,
+      change_note: file.change_note ?? null,
+      created_by_user_id: userId
+    })
+    .returning()
+    .execute();
+
+  return created[0];
+}
+
+// Adds the file as a new letter version, makes it the current one, moves the request to TTD_READY with
+// the Dean as handler and logs it
+export async function markFinalLetterReady(
+  tx: Transaction,
+  handover: FinalLetterHandover,
+  userId: number,
+  file: FinalLetterFile,
+  log: { description: string; notes: string }
+): Promise<LetterRequest> {
+  const letterVersion = await addLetterVersion(tx, handover.request.id, userId, file);
+
+  const updatedRequest = await tx.update(letterRequestsTable)
+    .set({
+      final_letter_url: file.file_url,
+      current_letter_version_id: letterVersion.id,
+      status: 'TTD_READY',
+      current_handler_user_id: handover.dekanUserId,
+      version: handover.version,
+      updated_at: new Date()
+    })
+    .where(eq(letterRequestsTable.id, handover.request.id))
+    .returning()
+    .execute();
+
+  await tx.insert(trackingLogsTable)
+    .values({
+      letter_request_id: handover.request.id,
+      user_id: userId,
+      action_type: 'DOCUMENT_UPLOADED',
+      description: log.description,
+      notes: file.change_note
+        ? `${log.notes} (version ${letterVersion.version_number}: ${file.change_note})`
+        : `${log.notes} (version ${letterVersion.version_number})`,
+      previous_status: handover.request.status,
+      new_status: 'TTD_READY'
+    })
+    .execute();
+
+  return updatedRequest[0];
+}
@@ -0,0 +1,120 @@
+import { type Transaction } from '../db';
+import { letterRequestsTable, studentsTable, trackingLogsTable, usersTable, type LetterRequest, type Student, type User } from '../db/schema';
+import { type RequestStatus } from '../schema';
+import { assertTransition, type StatusTransition } from './request_transitions';
+import { lockLetterRequest, nextRequestVersion } from './request_lock';
+import { sameProdi, type ProdiMembership } from './study_programs';
+import { eq } from 'drizzle-orm';
+
+// Request locked and validated for a fulfilment step after signing
+export interface FulfilmentStep {
+  request: LetterRequest;
+  version: number;
+  user: User;
+  studentProdi: Pick<Student, 'prodi' | 'study_program_id'>;
+  transition: StatusTransition;
+}
+
+// Shared by returnToProdi, markPrinted, markDelivered and archiveRequest. `verb` only shapes the error messages.
+export async function prepareFulfilment(
+  tx: Transaction,
+  requestId: number,
+  expectedVersion: number,
+  userId: number,
+  to: RequestStatus,
+  verb: string
+): Promise<FulfilmentStep> {
+  // 1. Lock the letter request and validate that it exists
+  const existingRequest = await lockLetterRequest(tx, requestId);
+
+  if (existingRequest.length === 0) {
+    throw new Error(`Letter request with ID ${requestId} not found`);
+  }
+
+  const request = existingRequest[0];
+  const version = nextRequestVersion(request, expectedVersion);
+
+  const user = await tx.select()
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .execute();
+
+  if (user.length === 0) {
+    throw new Error(`User with ID ${userId} not found`);
+  }
+
+  // 2. Prodi staff only handle letters of students in their own prodi
+  const student = await tx.select({ prodi: studentsTable.prodi, study_program_id: studentsTable.study_program_id })
+    .from(studentsTable)
+    .where(eq(studentsTable.id, request.student_id))
+    .execute();
+
+  if (user[0].role === 'STAFF_PRODI' && !sameProdi(user[0], student[0])) {
+    throw new Error(`Only the Staff Prodi of ${student[0].prodi} can handle this request`);
+  }
+
+  // 3. The transition table decides which role may take the step from the current status
+  const transition = assertTransition(
+    request.status,
+    to,
+    user[0].role,
+    `Cannot ${verb} request in status: ${request.status} (attempted ${to})`
+  );
+
+  // 4. Only a numbered final letter can be printed; delivery follows printing
+  if (to === 'PRINTED' && (!request.final_letter_url || !request.letter_number)) {
+    throw new Error('No numbered final letter has been issued for this request');
+  }
+
+  return { request, version, user: user[0], studentProdi: student[0], transition };
+}
+
+// Writes the new status and handler and logs the step with the transition's action type
+export async function completeFulfilment(
+  tx: Transaction,
+  step: FulfilmentStep,
+  nextHandlerId: number,
+  log: { description: string; notes?: string }
+): Promise<LetterRequest> {
+  const { request, transition } = step;
+
+  const updatedRequest = await tx.update(letterRequestsTable)
+    .set({
+      status: transition.to,
+      current_handler_user_id: transition.clearsHandler ? null : nextHandlerId,
+      version: step.version,
+      updated_at: new Date()
+    })
+    .where(eq(letterRequestsTable.id, request.id))
+    .returning()
+    .execute();
+
+  await tx.insert(trackingLogsTable)
+    .values({
+      letter_request_id: request.id,
+      user_id: step.user.id,
+      action_type: transition.actionType,
+      description: log.description,
+      notes: log.notes || null,
+      previous_status: request.status,
+      new_status: transition.to
+    })
+    .execute();
+
+  return updatedRequest[0];
+}
+
+// The prodi staff who issue a letter at prodi level, preferably whoever created the request
+export async function findProdiStaff(tx: Transaction, studentProdi: ProdiMembership, preferredUserId: number): Promise<User> {
+  const staffUsers = await tx.select()
+    .from(usersTable)
+    .where(eq(usersTable.role, 'STAFF_PRODI'))
+    .execute();
+  const staffProdi = staffUsers.filter(staff => sameProdi(staff, studentProdi));
+
+  if (staffProdi.length === 0) {
+    throw new Error(`No Staff Prodi found for prodi: ${studentProdi.prodi}`);
+  }
+
+  return staffProdi.find(staff => staff.id === preferredUserId) ?? staffProdi[0];
+}
@@ -0,0 +1,68 @@
+import { type Transaction } from '../db';
+import { letterTypesTable, studentsTable, usersTable, type LetterRequest, type Student, type User } from '../db/schema';
+import { assertRequiredDocuments, normalizeCatalogCode } from './letter_types';
+import { lockLetterRequest, nextRequestVersion } from './request_lock';
+import { sameProdi } from './study_programs';
+import { eq } from 'drizzle-orm';
+
+// Request locked and validated for a decision by the Kaprodi
+export interface KaprodiReview {
+  request: LetterRequest;
+  version: number;
+  kaprodi: User;
+  studentProdi: Pick<Student, 'prodi' | 'study_program_id'>;
+  // Whether the letter type is issued by the prodi without going to the Dean
+  prodiLevelOnly: boolean;
+}
+
+// Shared by approveByKaprodi and forwardToDekan: only the Kaprodi of the student's prodi may decide
+export async function prepareKaprodiReview(
+  tx: Transaction,
+  requestId: number,
+  expectedVersion: number,
+  userId: number
+): Promise<KaprodiReview> {
+  // 1. Lock the letter request and validate that it exists
+  const existingRequest = await lockLetterRequest(tx, requestId);
+
+  if (existingRequest.length === 0) {
+    throw new Error(`Letter request with ID ${requestId} not found`);
+  }
+
+  const request = existingRequest[0];
+  const version = nextRequestVersion(request, expectedVersion);
+
+  // 2. The acting user must be the Kaprodi of the student's prodi
+  const student = await tx.select({ prodi: studentsTable.prodi, study_program_id: studentsTable.study_program_id })
+    .from(studentsTable)
+    .where(eq(studentsTable.id, request.student_id))
+    .execute();
+
+  const user = await tx.select()
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .execute();
+
+  if (user.length === 0 || user[0].role !== 'KAPRODI' || !sameProdi(user[0], student[0])) {
+    throw new Error(`Only the Kaprodi of ${student[0].prodi} can review this request`);
+  }
+
+  // 3. Inactive letter types keep their routing; types outside the catalog go to the Dean
+  const letterTypes = await tx.select()
+    .from(letterTypesTable)
+    .where(eq(letterTypesTable.code, normalizeCatalogCode(request.letter_type)))
+    .execute();
+
+  // 4. A draft is only approved once its uploads cover every document the letter type requires
+  if (request.status === 'DRAFT' && letterTypes.length > 0) {
+    await assertRequiredDocuments(tx, letterTypes[0], request.id);
+  }
+
+  return {
+    request,
+    version,
+    kaprodi: user[0],
+    studentProdi: student[0],
+    prodiLevelOnly: letterTypes[0]?.prodi_level_only ?? false
+  };
+}
@@ -0,0 +1,89 @@
+import { type Transaction } from '../db';
+import { letterNumberCountersTable, letterNumberFormatsTable, type LetterNumberFormat } from '../db/schema';
+import { type NumberResetPeriod } from '../schema';
+import { eq, isNull, or, sql } from 'drizzle-orm';
+
+export const defaultLetterNumberPattern = '{seq}/{unit}/{code}/{year}';
+
+// Tokens a number pattern may use, e.g. {seq}/{unit}/{code}/{month_roman}/{year} -> 123/UN1.FT/KM/III/2026
+export const letterNumberTokens = ['seq', 'unit', 'code', 'year', 'month', 'month_roman'] as const;
+
+const tokenPattern = /\{([a-z_]+)\}/g;
+const romanMonths = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII', 'VIII', 'IX', 'X', 'XI', 'XII'];
+
+// Problems with a pattern, empty when it is usable
+export function validateLetterNumberPattern(pattern: string): string[] {
+  const problems: string[] = [];
+  const used = [...pattern.matchAll(tokenPattern)].map(match => match[1]);
+
+  const unknown = used.filter(token => !(letterNumberTokens as readonly string[]).includes(token));
+  if (unknown.length > 0) {
+    problems.push(`unknown tokens: ${[...new Set(unknown)].join(', ')}`);
+  }
+  if (!used.includes('seq')) {
+    problems.push('the pattern must contain {seq}');
+  }
+  return problems;
+}
+
+export function counterPeriod(resetPeriod: NumberResetPeriod, date: Date): string {
+  const year = String(date.getFullYear());
+  return resetPeriod === 'MONTHLY'
+    ? `${year}-${String(date.getMonth() + 1).padStart(2, '0')}`
+    : year;
+}
+
+export function formatLetterNumber(
+  format: Pick<LetterNumberFormat, 'pattern' | 'unit_code' | 'classification_code'>,
+  sequence: number,
+  date: Date
+): string {
+  const values: Record<string, string> = {
+    seq: String(sequence),
+    unit: format.unit_code,
+    code: format.classification_code,
+    year: String(date.getFullYear()),
+    month: String(date.getMonth() + 1).padStart(2, '0'),
+    month_roman: romanMonths[date.getMonth()]
+  };
+  return format.pattern.replace(tokenPattern, (token, name: string) => values[name] ?? token);
+}
+
+// The format for a letter type, falling back to the faculty default
+export async function findLetterNumberFormat(tx: Transaction, letterType: string): Promise<LetterNumberFormat | null> {
+  const formats = await tx.select()
+    .from(letterNumberFormatsTable)
+    .where(or(eq(letterNumberFormatsTable.letter_type, letterType), isNull(letterNumberFormatsTable.letter_type)))
+    .execute();
+
+  return formats.find(format => format.letter_type === letterType)
+    ?? formats.find(format => format.letter_type === null)
+    ?? null;
+}
+
+// Takes the next number from the counter. Must run inside the transaction that stores the number: the
+// upsert locks the counter row until commit, and a rollback returns the number, so the sequence has no gaps.
+export async function allocateLetterNumber(tx: Transaction, letterType: string, issuedAt: Date): Promise<string> {
+  const format = await findLetterNumberFormat(tx, letterType);
+  if (!format) {
+    throw new Error(`No letter number format configured for letter type: ${letterType}`);
+  }
+
+  const counters = await tx.insert(letterNumberCountersTable)
+    .values({
+      format_id: format.id,
+      period: counterPeriod(format.reset_period, issuedAt),
+      last_sequence: 1
+    })
+    .onConflictDoUpdate({
+      target: [letterNumberCountersTable.format_id, letterNumberCountersTable.period],
+      set: {
+        last_sequence: sql`${letterNumberCountersTable.last_sequence} + 1`,
+        updated_at: new Date()
+      }
+    })
+    .returning()
+    .execute();
+
+  return formatLetterNumber(format, counters[0].last_sequence, issuedAt);
+}
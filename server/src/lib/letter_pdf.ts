@@ -0,0 +1,96 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from 'pdf-lib';
+import qrcode from 'qrcode-generator';
+
+// A4 in PDF points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 72;
+const TITLE_SIZE = 14;
+const BODY_SIZE = 11;
+const LINE_HEIGHT = 16;
+const QR_SIZE = 72;
+const QR_CAPTION_SIZE = 7;
+
+function wrapLine(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const words = text.split(/\s+/).filter(word => word.length > 0);
+  if (words.length === 0) {
+    return [''];
+  }
+
+  const lines: string[] = [];
+  let current = words[0];
+  for (const word of words.slice(1)) {
+    const candidate = `${current} ${word}`;
+    if (font.widthOfTextAtSize(candidate, size) > maxWidth) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+  lines.push(current);
+  return lines;
+}
+
+// Draws the QR code in the bottom right corner with a short caption underneath
+function drawVerificationQr(page: PDFPage, url: string, font: PDFFont) {
+  const qr = qrcode(0, 'M');
+  qr.addData(url);
+  qr.make();
+
+  const modules = qr.getModuleCount();
+  const cell = QR_SIZE / modules;
+  const left = PAGE_WIDTH - MARGIN - QR_SIZE;
+  const top = MARGIN + QR_SIZE;
+
+  for (let row = 0; row < modules; row++) {
+    for (let col = 0; col < modules; col++) {
+      if (qr.isDark(row, col)) {
+        page.drawRectangle({ x: left + col * cell, y: top - (row + 1) * cell, width: cell, height: cell, color: rgb(0, 0, 0) });
+      }
+    }
+  }
+
+  const caption = 'Scan to verify this letter';
+  const width = font.widthOfTextAtSize(caption, QR_CAPTION_SIZE);
+  page.drawText(caption, { x: PAGE_WIDTH - MARGIN - width, y: MARGIN - QR_CAPTION_SIZE - 4, size: QR_CAPTION_SIZE, font });
+}
+
+// Lays out a rendered letter as a plain A4 document: centred bold title, then the body wrapped to the margins.
+// With a verification URL the last page carries a QR code to it, and the body keeps clear of that corner.
+export async function renderLetterPdf(letter: { title: string; body: string; verificationUrl?: string }): Promise<Buffer> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(letter.title);
+
+  const regular = await pdf.embedFont(StandardFonts.TimesRoman);
+  const bold = await pdf.embedFont(StandardFonts.TimesRomanBold);
+  const maxWidth = PAGE_WIDTH - MARGIN * 2;
+
+  let page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+  const bottom = letter.verificationUrl ? MARGIN + QR_SIZE + LINE_HEIGHT : MARGIN;
+
+  for (const line of wrapLine(letter.title, bold, TITLE_SIZE, maxWidth)) {
+    const width = bold.widthOfTextAtSize(line, TITLE_SIZE);
+    page.drawText(line, { x: (PAGE_WIDTH - width) / 2, y, size: TITLE_SIZE, font: bold });
+    y -= LINE_HEIGHT + 4;
+  }
+  y -= LINE_HEIGHT;
+
+  for (const paragraph of letter.body.split(/\r?\n/)) {
+    for (const line of wrapLine(paragraph, regular, BODY_SIZE, maxWidth)) {
+      if (y < bottom) {
+        page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+        y = PAGE_HEIGHT - MARGIN;
+      }
+      page.drawText(line, { x: MARGIN, y, size: BODY_SIZE, font: regular });
+      y -= LINE_HEIGHT;
+    }
+  }
+
+  if (letter.verificationUrl) {
+    drawVerificationQr(page, letter.verificationUrl, regular);
+  }
+
+  return Buffer.from(await pdf.save());
+}
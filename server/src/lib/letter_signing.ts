@@ -0,0 +1,250 @@
+import { createHash, createPrivateKey, createPublicKey, generateKeyPairSync, sign, verify } from 'node:crypto';
+import { type Transaction } from '../db';
+import { letterSignaturesTable, signerKeysTable, usersTable, type LetterRequest, type SignerKey, type User } from '../db/schema';
+import { type SignatureVerification } from '../schema';
+import { loadFinalLetterDocument } from './final_letter';
+import { allocateLetterNumber } from './letter_numbering';
+import { and, desc, eq, isNull } from 'drizzle-orm';
+
+export const signatureAlgorithm = 'Ed25519';
+
+// Identity a signer key was issued to, stored as JSON next to the key and copied into every signature
+export interface SignerCertificate {
+  version: 1;
+  algorithm: string;
+  fingerprint: string;
+  public_key: string;
+  subject: { user_id: number; name: string; email: string; role: string };
+  issued_at: string;
+}
+
+// What a signature covers, serialized by signaturePayload
+export interface SignedLetterFields {
+  requestId: number;
+  letterNumber: string;
+  finalLetterUrl: string;
+  documentHash: string;
+  signedAt: Date;
+}
+
+function signingSecret(): string {
+  const secret = process.env['SIGNING_KEY_SECRET'];
+  if (!secret) {
+    throw new Error('SIGNING_KEY_SECRET is not configured; letters cannot be signed');
+  }
+  return secret;
+}
+
+export function hashDocument(content: Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+export function signaturePayload(fields: SignedLetterFields): Buffer {
+  return Buffer.from([
+    'letter-signature:v1',
+    String(fields.requestId),
+    fields.letterNumber,
+    fields.finalLetterUrl,
+    fields.documentHash,
+    fields.signedAt.toISOString()
+  ].join('\n'), 'utf8');
+}
+
+export function parseSignerCertificate(certificate: string): SignerCertificate {
+  return JSON.parse(certificate) as SignerCertificate;
+}
+
+// The signer's current key, issuing one on first use. The signer's row is locked so concurrent
+// signings by a new signer end up with a single key.
+export async function getSignerKey(tx: Transaction, signer: Pick<User, 'id' | 'name' | 'email' | 'role'>): Promise<SignerKey> {
+  await tx.select({ id: usersTable.id })
+    .from(usersTable)
+    .where(eq(usersTable.id, signer.id))
+    .for('update')
+    .execute();
+
+  const existing = await tx.select()
+    .from(signerKeysTable)
+    .where(and(eq(signerKeysTable.user_id, signer.id), isNull(signerKeysTable.revoked_at)))
+    .orderBy(desc(signerKeysTable.created_at), desc(signerKeysTable.id))
+    .limit(1)
+    .execute();
+
+  if (existing.length > 0) {
+    return existing[0];
+  }
+
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  const publicKeyPem = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+  const fingerprint = createHash('sha256')
+    .update(publicKey.export({ type: 'spki', format: 'der' }))
+    .digest('hex');
+
+  const certificate: SignerCertificate = {
+    version: 1,
+    algorithm: signatureAlgorithm,
+    fingerprint,
+    public_key: publicKeyPem,
+    subject: { user_id: signer.id, name: signer.name, email: signer.email, role: signer.role },
+    issued_at: new Date().toISOString()
+  };
+
+  const created = await tx.insert(signerKeysTable)
+    .values({
+      user_id: signer.id,
+      algorithm: signatureAlgorithm,
+      public_key: publicKeyPem,
+      encrypted_private_key: privateKey.export({
+        type: 'pkcs8',
+        format: 'pem',
+        cipher: 'aes-256-cbc',
+        passphrase: signingSecret()
+      }).toString(),
+      fingerprint,
+      certificate: JSON.stringify(certificate)
+    })
+    .returning()
+    .execute();
+
+  return created[0];
+}
+
+export function signLetterPayload(key: SignerKey, fields: SignedLetterFields): string {
+  const privateKey = createPrivateKey({
+    key: key.encrypted_private_key,
+    format: 'pem',
+    passphrase: signingSecret()
+  });
+  return sign(null, signaturePayload(fields), privateKey).toString('base64');
+}
+
+// A final letter numbered and signed by signFinalLetter
+export interface FinalLetterSignature {
+  letterNumber: string;
+  documentHash: string;
+  signerKey: SignerKey;
+}
+
+// Numbers the final letter and records a signature over its hash with the signer's server-managed key.
+// The number is allocated in the caller's transaction so a failed signing returns it; a letter signed again
+// after a revision keeps the number it already has. The request row must be locked by the caller.
+export async function signFinalLetter(
+  tx: Transaction,
+  request: Pick<LetterRequest, 'id' | 'letter_type' | 'letter_number'>,
+  finalLetterUrl: string,
+  signer: User
+): Promise<FinalLetterSignature> {
+  const letterNumber = request.letter_number
+    ?? await allocateLetterNumber(tx, request.letter_type, new Date());
+
+  const signed: SignedLetterFields = {
+    requestId: request.id,
+    letterNumber,
+    finalLetterUrl,
+    documentHash: hashDocument(await loadFinalLetterDocument(tx, finalLetterUrl)),
+    signedAt: new Date()
+  };
+  const signerKey = await getSignerKey(tx, signer);
+
+  await tx.insert(letterSignaturesTable)
+    .values({
+      letter_request_id: request.id,
+      signer_user_id: signer.id,
+      signer_key_id: signerKey.id,
+      letter_number: letterNumber,
+      final_letter_url: finalLetterUrl,
+      document_hash: signed.documentHash,
+      algorithm: signatureAlgorithm,
+      signature: signLetterPayload(signerKey, signed),
+      certificate: signerKey.certificate,
+      signed_at: signed.signedAt
+    })
+    .execute();
+
+  return { letterNumber, documentHash: signed.documentHash, signerKey };
+}
+
+export function verifyLetterPayload(publicKeyPem: string, fields: SignedLetterFields, signature: string): boolean {
+  try {
+    return verify(null, signaturePayload(fields), createPublicKey(publicKeyPem), Buffer.from(signature, 'base64'));
+  } catch {
+    // A malformed key or signature is simply not a valid signature
+    return false;
+  }
+}
+
+// Checks the latest signature of a request: the signature against the signer key it was made with, as that key
+// stands in signer_keys rather than the certificate copied into the signature, and the current final letter
+// against the hash that was signed
+export async function verifyRequestSignature(tx: Transaction, request: LetterRequest): Promise<SignatureVerification> {
+  const signatures = await tx.select()
+    .from(letterSignaturesTable)
+    .where(eq(letterSignaturesTable.letter_request_id, request.id))
+    .orderBy(desc(letterSignaturesTable.signed_at), desc(letterSignaturesTable.id))
+    .limit(1)
+    .execute();
+
+  const currentDocumentHash = request.final_letter_url
+    ? hashDocument(await loadFinalLetterDocument(tx, request.final_letter_url))
+    : null;
+
+  if (signatures.length === 0) {
+    return {
+      request_id: request.id,
+      signed: false,
+      valid: false,
+      signature_valid: false,
+      document_intact: false,
+      letter_number: request.letter_number,
+      algorithm: null,
+      signed_document_hash: null,
+      current_document_hash: currentDocumentHash,
+      signed_at: null,
+      signer: null
+    };
+  }
+
+  const signature = signatures[0];
+  const signerKeys = await tx.select()
+    .from(signerKeysTable)
+    .where(eq(signerKeysTable.id, signature.signer_key_id))
+    .execute();
+  const signerKey = signerKeys[0];
+  const certificate = parseSignerCertificate(signerKey?.certificate ?? signature.certificate);
+
+  // A missing or revoked key no longer vouches for anything it signed
+  const signatureValid = signerKey !== undefined
+    && signerKey.revoked_at === null
+    && signerKey.user_id === signature.signer_user_id
+    && certificate.subject.user_id === signature.signer_user_id
+    && verifyLetterPayload(signerKey.public_key, {
+      requestId: request.id,
+      letterNumber: signature.letter_number,
+      finalLetterUrl: signature.final_letter_url,
+      documentHash: signature.document_hash,
+      signedAt: signature.signed_at
+    }, signature.signature);
+
+  // Replacing the letter or editing the stored file both show up here
+  const documentIntact = request.final_letter_url === signature.final_letter_url
+    && currentDocumentHash === signature.document_hash;
+
+  return {
+    request_id: request.id,
+    signed: true,
+    valid: signatureValid && documentIntact,
+    signature_valid: signatureValid,
+    document_intact: documentIntact,
+    letter_number: signature.letter_number,
+    algorithm: signature.algorithm,
+    signed_document_hash: signature.document_hash,
+    current_document_hash: currentDocumentHash,
+    signed_at: signature.signed_at,
+    signer: {
+      user_id: certificate.subject.user_id,
+      name: certificate.subject.name,
+      role: certificate.subject.role,
+      key_fingerprint: certificate.fingerprint
+    }
+  };
+}
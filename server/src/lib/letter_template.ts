@@ -0,0 +1,41 @@
+// Values a letter template can refer to as {{name}}
+export const templatePlaceholders = [
+  'student_name',
+  'student_nim',
+  'student_prodi',
+  'letter_type',
+  'purpose',
+  'dekan_instructions',
+  'date'
+] as const;
+
+export type TemplatePlaceholder = typeof templatePlaceholders[number];
+
+export type TemplateValues = Record<TemplatePlaceholder, string>;
+
+const placeholderPattern = /\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/g;
+
+function isTemplatePlaceholder(name: string): name is TemplatePlaceholder {
+  return (templatePlaceholders as readonly string[]).includes(name);
+}
+
+// Placeholder names used in the text that the renderer cannot fill
+export function findUnknownPlaceholders(text: string): string[] {
+  const unknown = new Set<string>();
+  for (const match of text.matchAll(placeholderPattern)) {
+    if (!isTemplatePlaceholder(match[1])) {
+      unknown.add(match[1]);
+    }
+  }
+  return [...unknown];
+}
+
+export function renderTemplate(text: string, values: TemplateValues): string {
+  return text.replace(placeholderPattern, (placeholder, name: string) =>
+    isTemplatePlaceholder(name) ? values[name] : placeholder
+  );
+}
+
+export function formatLetterDate(date: Date): string {
+  return new Intl.DateTimeFormat('id-ID', { day: 'numeric', month: 'long', year: 'numeric' }).format(date);
+}
@@ -0,0 +1,107 @@
+import { type Transaction } from '../db';
+import { letterTypesTable, supportingDocumentsTable, type LetterType, type Student } from '../db/schema';
+import { type UserRole } from '../schema';
+import { MissingDocumentsError } from './errors';
+import { isDispositionRole } from './request_transitions';
+import { and, eq } from 'drizzle-orm';
+
+// Codes and document types are compared case-insensitively, so they are stored upper case
+export function normalizeCatalogCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+export function normalizeDocumentTypes(documentTypes: string[]): string[] {
+  return [...new Set(documentTypes.map(normalizeCatalogCode))];
+}
+
+export function assertDispositionChain(chain: UserRole[]): void {
+  const invalid = chain.filter(role => !isDispositionRole(role));
+  if (invalid.length > 0) {
+    throw new Error(`Default disposition chain may only contain disposition roles, got: ${invalid.join(', ')}`);
+  }
+}
+
+// Deadline of a request submitted at `from`: `slaDays` working days later, skipping weekends
+export function slaDueDate(slaDays: number | null, from: Date): Date | null {
+  if (slaDays === null) {
+    return null;
+  }
+
+  const due = new Date(from);
+  let remaining = slaDays;
+  while (remaining > 0) {
+    due.setDate(due.getDate() + 1);
+    if (due.getDay() !== 0 && due.getDay() !== 6) {
+      remaining--;
+    }
+  }
+  return due;
+}
+
+// The active catalog entry for a request's letter type code
+export async function findActiveLetterType(tx: Transaction, code: string): Promise<LetterType> {
+  const letterTypes = await tx.select()
+    .from(letterTypesTable)
+    .where(eq(letterTypesTable.code, normalizeCatalogCode(code)))
+    .execute();
+
+  if (letterTypes.length === 0 || !letterTypes[0].is_active) {
+    throw new Error(`Unknown letter type: ${code}`);
+  }
+  return letterTypes[0];
+}
+
+// Required document types of the letter type that none of the given documents covers
+export function missingRequiredDocuments(
+  letterType: Pick<LetterType, 'required_documents'>,
+  documents: { document_type?: string | null }[]
+): string[] {
+  const provided = new Set(documents.flatMap(doc => doc.document_type ? [normalizeCatalogCode(doc.document_type)] : []));
+  return letterType.required_documents.filter(documentType => !provided.has(documentType));
+}
+
+// Only stored uploads that passed the checks count towards the required documents
+export async function assertRequiredDocuments(
+  tx: Transaction,
+  letterType: Pick<LetterType, 'code' | 'required_documents'>,
+  requestId: number
+): Promise<void> {
+  const documents = await tx.select({ document_type: supportingDocumentsTable.document_type })
+    .from(supportingDocumentsTable)
+    .where(and(
+      eq(supportingDocumentsTable.letter_request_id, requestId),
+      eq(supportingDocumentsTable.status, 'ACCEPTED')
+    ))
+    .execute();
+
+  const missingDocuments = missingRequiredDocuments(letterType, documents);
+  if (missingDocuments.length > 0) {
+    throw new MissingDocumentsError(letterType.code, missingDocuments);
+  }
+}
+
+// Throws when the letter type's eligibility rules exclude the student, naming the rule that failed
+export function assertStudentEligible(
+  letterType: Pick<LetterType, 'name' | 'eligible_statuses' | 'min_semester'>,
+  student: Pick<Student, 'nim' | 'status' | 'semester'>
+): void {
+  if (letterType.eligible_statuses.length > 0 && !letterType.eligible_statuses.includes(student.status)) {
+    throw new Error(
+      `${letterType.name} is only issued to students with status ${letterType.eligible_statuses.join(' or ')}; ` +
+      `student ${student.nim} is ${student.status}`
+    );
+  }
+
+  if (letterType.min_semester !== null) {
+    if (student.semester === null) {
+      throw new Error(
+        `${letterType.name} requires semester ${letterType.min_semester} or later; the semester of student ${student.nim} is not recorded`
+      );
+    }
+    if (student.semester < letterType.min_semester) {
+      throw new Error(
+        `${letterType.name} requires semester ${letterType.min_semester} or later; student ${student.nim} is in semester ${student.semester}`
+      );
+    }
+  }
+}
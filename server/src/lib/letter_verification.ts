@@ -0,0 +1,22 @@
+import { randomBytes } from 'node:crypto';
+import { type RequestStatus } from '../schema';
+
+const DEFAULT_VERIFICATION_URL = 'http://localhost/api/verify';
+
+// Statuses in which a letter has been signed and can be confirmed publicly
+export const verifiableStatuses: readonly RequestStatus[] = ['TTD_DONE', 'RETURNED_TO_PRODI', 'PRINTED', 'DELIVERED', 'ARCHIVED'];
+
+// 256 random bits, so tokens cannot be guessed or enumerated like request ids or letter numbers
+export function generateVerificationToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+export function isWellFormedVerificationToken(token: string): boolean {
+  return /^[A-Za-z0-9_-]{43}$/.test(token);
+}
+
+// Address encoded in the QR code; PUBLIC_VERIFICATION_URL is the public base of the verification route
+export function verificationUrl(token: string): string {
+  const base = process.env['PUBLIC_VERIFICATION_URL'] || DEFAULT_VERIFICATION_URL;
+  return `${base.replace(/\/+$/, '')}/${token}`;
+}
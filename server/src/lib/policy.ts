@@ -0,0 +1,441 @@
+import { db } from '../db';
+import { dispositionAssignmentsTable, letterRequestsTable, studentsTable, studyProgramsTable, usersTable } from '../db/schema';
+import { type User, type UserRole, userRoleSchema } from '../schema';
+import { dispositionRoles } from './request_transitions';
+import { sameProdi } from './study_programs';
+import { and, eq, inArray, isNull, or, type SQL } from 'drizzle-orm';
+
+export type PolicyAction =
+  | 'session:manage'
+  | 'user:read'
+  | 'user:manage'
+  | 'student:read'
+  | 'student:manage'
+  | 'student:import'
+  | 'organization:read'
+  | 'organization:manage'
+  | 'request:list'
+  | 'request:read'
+  | 'request:create'
+  | 'request:update_status'
+  | 'request:annotate'
+  | 'request:kaprodi_review'
+  | 'request:reject'
+  | 'request:resubmit'
+  | 'document:upload'
+  | 'disposition:create'
+  | 'disposition:process'
+  | 'disposition:amend'
+  | 'escalation:manage'
+  | 'letter:upload_final'
+  | 'letter:restore_version'
+  | 'letter:sign'
+  | 'request:fulfil'
+  | 'request:archive'
+  | 'letter_type:read'
+  | 'letter_type:manage'
+  | 'rejection_reason:read'
+  | 'rejection_reason:manage'
+  | 'template:read'
+  | 'template:manage'
+  | 'numbering:read'
+  | 'numbering:manage';
+
+// What the policy needs to know about the request (or prospective request) being acted on
+export interface PolicyResource {
+  student_prodi: string;
+  // Null while the student's free-text prodi is not mapped to the study program master
+  student_study_program_id?: number | null;
+  // The STUDENT account linked to the student the request is about
+  student_user_id?: number | null;
+  created_by_user_id?: number;
+  current_handler_user_id?: number | null;
+  parallel_handler_user_ids?: number[];
+  assignee_user_ids?: number[];
+}
+
+type PolicyActor = Pick<User, 'id' | 'role' | 'prodi'> & Partial<Pick<User, 'study_program_id'>>;
+
+interface Policy {
+  roles: readonly UserRole[];
+  // Actions on a resource are denied when the resource cannot be resolved
+  resource: boolean;
+  rule?: (user: PolicyActor, resource: PolicyResource) => boolean;
+}
+
+const allRoles = userRoleSchema.options;
+const staffRoles = allRoles.filter(role => role !== 'STUDENT');
+
+// Prodi-level roles only ever see requests for students of their own prodi
+export const prodiScopedRoles: readonly UserRole[] = ['STAFF_PRODI', 'KAPRODI'];
+
+// Roles with oversight of every request in the faculty
+const facultyOversightRoles: readonly UserRole[] = ['ADMIN', 'DEKAN'];
+
+const isCreator = (user: PolicyActor, resource: PolicyResource) =>
+  resource.created_by_user_id === user.id;
+
+// Members of a parallel disposition step each count as a handler
+const isCurrentHandler = (user: PolicyActor, resource: PolicyResource) =>
+  resource.current_handler_user_id === user.id || (resource.parallel_handler_user_ids ?? []).includes(user.id);
+
+const isAssignee = (user: PolicyActor, resource: PolicyResource) =>
+  (resource.assignee_user_ids ?? []).includes(user.id);
+
+const isParticipant = (user: PolicyActor, resource: PolicyResource) =>
+  isCreator(user, resource) || isCurrentHandler(user, resource) || isAssignee(user, resource);
+
+// Students follow every request about them, whoever created it
+const isSubject = (user: PolicyActor, resource: PolicyResource) =>
+  resource.student_user_id === user.id;
+
+const canReadRequest = (user: PolicyActor, resource: PolicyResource) => {
+  if (facultyOversightRoles.includes(user.role) || prodiScopedRoles.includes(user.role)) {
+    return true;
+  }
+  return isParticipant(user, resource) || isSubject(user, resource);
+};
+
+const policies: Record<PolicyAction, Policy> = {
+  'session:manage': { roles: allRoles, resource: false },
+  'user:read': { roles: staffRoles, resource: false },
+  'user:manage': { roles: ['ADMIN'], resource: false },
+  'student:read': { roles: staffRoles, resource: false },
+  'student:manage': { roles: ['ADMIN', 'STAFF_PRODI', 'STAFF_FAKULTAS'], resource: true },
+  // Imports span every prodi, so prodi staff cannot run them
+  'student:import': { roles: ['ADMIN', 'STAFF_FAKULTAS'], resource: false },
+  // Faculty and study program names show up wherever a prodi does
+  'organization:read': { roles: allRoles, resource: false },
+  'organization:manage': { roles: ['ADMIN'], resource: false },
+  // Listing is open to everyone; requestListCondition narrows the rows
+  'request:list': { roles: allRoles, resource: false },
+  'request:read': { roles: allRoles, resource: true, rule: canReadRequest },
+  // Students file requests only for the student record linked to their account
+  'request:create': {
+    roles: ['STUDENT', 'STAFF_PRODI', 'KAPRODI', 'STAFF_FAKULTAS', 'ADMIN'],
+    resource: true,
+    rule: (user, resource) => user.role !== 'STUDENT' || isSubject(user, resource)
+  },
+  'request:update_status': {
+    roles: allRoles,
+    resource: true,
+    rule: (user, resource) => isCreator(user, resource) || isCurrentHandler(user, resource)
+  },
+  'request:annotate': {
+    roles: allRoles,
+    resource: true,
+    rule: (user, resource) => user.role === 'ADMIN' || isParticipant(user, resource)
+  },
+  // The handlers check the Kaprodi belongs to the student's prodi; the policy scope does the same
+  'request:kaprodi_review': { roles: ['KAPRODI'], resource: true },
+  // The Dean may reject at any of the stages the transition table opens to the role
+  'request:reject': {
+    roles: ['KAPRODI', 'DEKAN', ...dispositionRoles],
+    resource: true,
+    rule: (user, resource) => user.role === 'DEKAN' || isCurrentHandler(user, resource)
+  },
+  'request:resubmit': { roles: ['STUDENT', 'STAFF_PRODI', 'KAPRODI', 'STAFF_FAKULTAS', 'ADMIN'], resource: true, rule: isCreator },
+  'document:upload': {
+    roles: allRoles,
+    resource: true,
+    rule: (user, resource) =>
+      user.role === 'ADMIN' || prodiScopedRoles.includes(user.role) || isParticipant(user, resource)
+  },
+  'disposition:create': { roles: ['DEKAN'], resource: true },
+  'disposition:process': { roles: dispositionRoles, resource: true, rule: isAssignee },
+  'disposition:amend': { roles: ['DEKAN'], resource: true },
+  'escalation:manage': { roles: ['ADMIN'], resource: false },
+  'letter:upload_final': { roles: dispositionRoles, resource: true, rule: isCurrentHandler },
+  // The officer preparing the letter, or the Dean while it waits for signing
+  'letter:restore_version': { roles: [...dispositionRoles, 'DEKAN'], resource: true, rule: isCurrentHandler },
+  'letter:sign': { roles: ['DEKAN'], resource: true },
+  // Any staff member of the office holding the signed letter; the transition table decides who takes which step
+  'request:fulfil': { roles: ['STAFF_PRODI', 'STAFF_FAKULTAS'], resource: true },
+  'request:archive': { roles: ['STAFF_PRODI', 'STAFF_FAKULTAS', 'ADMIN'], resource: true },
+  // Students pick a letter type when they request a letter
+  'letter_type:read': { roles: allRoles, resource: false },
+  'letter_type:manage': { roles: ['ADMIN'], resource: false },
+  // Creators see the label of the reason their request was rejected with
+  'rejection_reason:read': { roles: allRoles, resource: false },
+  'rejection_reason:manage': { roles: ['ADMIN'], resource: false },
+  'template:read': { roles: staffRoles, resource: false },
+  'template:manage': { roles: ['ADMIN'], resource: false },
+  'numbering:read': { roles: staffRoles, resource: false },
+  'numbering:manage': { roles: ['ADMIN'], resource: false }
+};
+
+// The action guarding each protected procedure. Procedures missing here are denied.
+export const procedurePolicies: Record<string, PolicyAction> = {
+  logout: 'session:manage',
+  me: 'session:manage',
+  createUser: 'user:manage',
+  getUserById: 'user:read',
+  getUsersByRole: 'user:read',
+  createStudent: 'student:manage',
+  getStudents: 'student:read',
+  issueRegistrationCode: 'student:manage',
+  importStudents: 'student:import',
+  getStudentImportBatches: 'student:import',
+  createFaculty: 'organization:manage',
+  updateFaculty: 'organization:manage',
+  deleteFaculty: 'organization:manage',
+  getFaculties: 'organization:read',
+  createStudyProgram: 'organization:manage',
+  updateStudyProgram: 'organization:manage',
+  deleteStudyProgram: 'organization:manage',
+  getStudyPrograms: 'organization:read',
+  getUnmappedProdis: 'organization:manage',
+  mapProdi: 'organization:manage',
+  createLetterRequest: 'request:create',
+  updateRequestStatus: 'request:update_status',
+  getRequests: 'request:list',
+  getRequestById: 'request:read',
+  getAllowedTransitions: 'request:read',
+  approveByKaprodi: 'request:kaprodi_review',
+  forwardToDekan: 'request:kaprodi_review',
+  rejectRequest: 'request:reject',
+  resubmitRequest: 'request:resubmit',
+  createDisposition: 'disposition:create',
+  processDisposition: 'disposition:process',
+  reassignDisposition: 'disposition:amend',
+  addDispositionStep: 'disposition:amend',
+  removeDispositionStep: 'disposition:amend',
+  withdrawDisposition: 'disposition:amend',
+  getOpenEscalations: 'escalation:manage',
+  resolveEscalation: 'escalation:manage',
+  getDispositionAssignments: 'request:read',
+  uploadFinalLetter: 'letter:upload_final',
+  signLetter: 'letter:sign',
+  requestRevision: 'letter:sign',
+  verifySignature: 'request:read',
+  returnToProdi: 'request:fulfil',
+  markPrinted: 'request:fulfil',
+  markDelivered: 'request:fulfil',
+  archiveRequest: 'request:archive',
+  getDelivery: 'request:read',
+  createLetterType: 'letter_type:manage',
+  updateLetterType: 'letter_type:manage',
+  deleteLetterType: 'letter_type:manage',
+  getLetterTypes: 'letter_type:read',
+  getUnmappedLetterTypes: 'letter_type:manage',
+  mapLetterType: 'letter_type:manage',
+  createRejectionReason: 'rejection_reason:manage',
+  updateRejectionReason: 'rejection_reason:manage',
+  getRejectionReasons: 'rejection_reason:read',
+  createLetterTemplate: 'template:manage',
+  getLetterTemplates: 'template:read',
+  generateFinalLetter: 'letter:upload_final',
+  getGeneratedLetter: 'request:read',
+  getLetterVersions: 'request:read',
+  restoreLetterVersion: 'letter:restore_version',
+  configureLetterNumberFormat: 'numbering:manage',
+  getLetterNumberFormats: 'numbering:read',
+  // The input names no request; the handler applies request:read to the one it finds
+  getRequestByLetterNumber: 'request:list',
+  uploadSupportingDocument: 'document:upload',
+  getSupportingDocuments: 'request:read',
+  // The input names a file, not a request; the handler applies request:read to the request it belongs to
+  createDownloadLink: 'request:list',
+  getTrackingLogs: 'request:read',
+  addTrackingLog: 'request:annotate'
+};
+
+export function requiresResource(action: PolicyAction): boolean {
+  return policies[action].resource;
+}
+
+export function isInProdiScope(user: PolicyActor, resource: PolicyResource): boolean {
+  if (!prodiScopedRoles.includes(user.role)) {
+    return true;
+  }
+  return sameProdi(user, { prodi: resource.student_prodi, study_program_id: resource.student_study_program_id });
+}
+
+export function can(user: PolicyActor, action: PolicyAction, resource?: PolicyResource): boolean {
+  const policy = policies[action];
+  if (!policy.roles.includes(user.role)) {
+    return false;
+  }
+
+  if (!policy.resource) {
+    return true;
+  }
+
+  if (!resource || !isInProdiScope(user, resource)) {
+    return false;
+  }
+
+  return policy.rule ? policy.rule(user, resource) : true;
+}
+
+// Row filter for request listings matching the request:read rule; undefined means no restriction
+export function requestListCondition(user: PolicyActor): SQL | undefined {
+  if (facultyOversightRoles.includes(user.role)) {
+    return undefined;
+  }
+
+  // The same matching as sameProdi: by study program when both sides are linked, otherwise by name
+  if (prodiScopedRoles.includes(user.role)) {
+    if (user.prodi === null) {
+      return eq(letterRequestsTable.id, -1);
+    }
+    return user.study_program_id != null
+      ? or(
+        eq(studentsTable.study_program_id, user.study_program_id),
+        and(isNull(studentsTable.study_program_id), eq(studentsTable.prodi, user.prodi))
+      )
+      : eq(studentsTable.prodi, user.prodi);
+  }
+
+  // Listings join the request's student, so its linked account can be matched directly
+  return or(
+    eq(letterRequestsTable.created_by_user_id, user.id),
+    eq(letterRequestsTable.current_handler_user_id, user.id),
+    eq(studentsTable.user_id, user.id),
+    inArray(
+      letterRequestsTable.id,
+      db.select({ id: dispositionAssignmentsTable.letter_request_id })
+        .from(dispositionAssignmentsTable)
+        .where(eq(dispositionAssignmentsTable.assigned_to_user_id, user.id))
+    )
+  );
+}
+
+export async function loadRequestResource(requestId: number): Promise<PolicyResource | null> {
+  const results = await db.select({
+    created_by_user_id: letterRequestsTable.created_by_user_id,
+    current_handler_user_id: letterRequestsTable.current_handler_user_id,
+    parallel_handler_user_ids: letterRequestsTable.parallel_handler_user_ids,
+    student_prodi: studentsTable.prodi,
+    student_study_program_id: studentsTable.study_program_id,
+    student_user_id: studentsTable.user_id
+  })
+    .from(letterRequestsTable)
+    .innerJoin(studentsTable, eq(letterRequestsTable.student_id, studentsTable.id))
+    .where(eq(letterRequestsTable.id, requestId))
+    .execute();
+
+  if (results.length === 0) {
+    return null;
+  }
+
+  const assignees = await db.select({ user_id: dispositionAssignmentsTable.assigned_to_user_id })
+    .from(dispositionAssignmentsTable)
+    .where(eq(dispositionAssignmentsTable.letter_request_id, requestId))
+    .execute();
+
+  return {
+    ...results[0],
+    assignee_user_ids: assignees.map(assignee => assignee.user_id)
+  };
+}
+
+async function loadAssignmentResource(assignmentId: number): Promise<PolicyResource | null> {
+  const assignment = await db.select({ letter_request_id: dispositionAssignmentsTable.letter_request_id })
+    .from(dispositionAssignmentsTable)
+    .where(eq(dispositionAssignmentsTable.id, assignmentId))
+    .execute();
+  return assignment.length > 0 ? loadRequestResource(assignment[0].letter_request_id) : null;
+}
+
+async function loadStudentResource(studentId: number): Promise<PolicyResource | null> {
+  const student = await db.select({
+    prodi: studentsTable.prodi,
+    study_program_id: studentsTable.study_program_id,
+    user_id: studentsTable.user_id
+  })
+    .from(studentsTable)
+    .where(eq(studentsTable.id, studentId))
+    .execute();
+  return student.length > 0
+    ? {
+      student_prodi: student[0].prodi,
+      student_study_program_id: student[0].study_program_id,
+      student_user_id: student[0].user_id
+    }
+    : null;
+}
+
+// A student about to be created in a study program
+async function loadStudyProgramResource(studyProgramId: number): Promise<PolicyResource | null> {
+  const program = await db.select({ id: studyProgramsTable.id, name: studyProgramsTable.name })
+    .from(studyProgramsTable)
+    .where(eq(studyProgramsTable.id, studyProgramId))
+    .execute();
+  return program.length > 0 ? { student_prodi: program[0].name, student_study_program_id: program[0].id } : null;
+}
+
+type ResourceResolver = (input: Record<string, unknown>) => Promise<PolicyResource | null>;
+
+const resourceAt = (field: string, load: (id: number) => Promise<PolicyResource | null>): ResourceResolver =>
+  async input => {
+    const id = input[field];
+    return typeof id === 'number' ? load(id) : null;
+  };
+
+const byRequestId = resourceAt('request_id', loadRequestResource);
+const byRequestIdParam = resourceAt('requestId', loadRequestResource);
+const byAssignmentId = resourceAt('assignment_id', loadAssignmentResource);
+
+// The one input field that names the resource of each procedure whose action needs one. It is read from the
+// parsed input only, so other keys sent alongside it cannot point the check at a different record.
+export const procedureResources: Record<string, ResourceResolver> = {
+  createStudent: resourceAt('study_program_id', loadStudyProgramResource),
+  issueRegistrationCode: resourceAt('student_id', loadStudentResource),
+  createLetterRequest: resourceAt('student_id', loadStudentResource),
+  updateRequestStatus: byRequestId,
+  getRequestById: byRequestIdParam,
+  getAllowedTransitions: byRequestIdParam,
+  approveByKaprodi: byRequestId,
+  forwardToDekan: byRequestId,
+  rejectRequest: byRequestId,
+  resubmitRequest: byRequestId,
+  createDisposition: byRequestId,
+  processDisposition: byAssignmentId,
+  reassignDisposition: byAssignmentId,
+  addDispositionStep: byRequestId,
+  removeDispositionStep: byAssignmentId,
+  withdrawDisposition: byRequestId,
+  getDispositionAssignments: byRequestIdParam,
+  uploadFinalLetter: byRequestId,
+  signLetter: byRequestId,
+  requestRevision: byRequestId,
+  verifySignature: byRequestIdParam,
+  returnToProdi: byRequestId,
+  markPrinted: byRequestId,
+  markDelivered: byRequestId,
+  archiveRequest: byRequestId,
+  getDelivery: byRequestIdParam,
+  generateFinalLetter: byRequestId,
+  getGeneratedLetter: byRequestIdParam,
+  getLetterVersions: byRequestIdParam,
+  restoreLetterVersion: byRequestId,
+  uploadSupportingDocument: byRequestId,
+  getSupportingDocuments: byRequestIdParam,
+  getTrackingLogs: byRequestIdParam,
+  addTrackingLog: byRequestId
+};
+
+// Resolves the resource a procedure acts on from its parsed input (request, assignment, student or study program)
+export async function resolvePolicyResource(procedure: string, input: unknown): Promise<PolicyResource | null> {
+  const resolve = procedureResources[procedure];
+  if (!resolve || typeof input !== 'object' || input === null) {
+    return null;
+  }
+  return resolve(input as Record<string, unknown>);
+}
+
+// Handler-level check for callers that pass a user id rather than a resolved context user
+export async function userCan(userId: number, action: PolicyAction, requestId: number): Promise<boolean> {
+  const user = await db.select()
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .execute();
+
+  if (user.length === 0) {
+    return false;
+  }
+
+  const resource = await loadRequestResource(requestId);
+  return resource !== null && can(user[0], action, resource);
+}
@@ -0,0 +1,22 @@
+import { createHash, randomInt } from 'node:crypto';
+
+const DEFAULT_REGISTRATION_CODE_TTL_DAYS = 14;
+
+// No 0/O or 1/I, so a code read out or copied from paper is typed correctly
+const codeAlphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+// Ten characters shown as XXXXX-XXXXX
+export function generateRegistrationCode(): string {
+  const characters = Array.from({ length: 10 }, () => codeAlphabet[randomInt(codeAlphabet.length)]);
+  return `${characters.slice(0, 5).join('')}-${characters.slice(5).join('')}`;
+}
+
+// Only the hash is stored. Case, spaces and dashes do not matter when the student types the code.
+export function hashRegistrationCode(code: string): string {
+  return createHash('sha256').update(code.replace(/[\s-]/g, '').toUpperCase()).digest('hex');
+}
+
+export function getRegistrationCodeExpiry(from: Date = new Date()): Date {
+  const ttlDays = Number(process.env['REGISTRATION_CODE_TTL_DAYS']) || DEFAULT_REGISTRATION_CODE_TTL_DAYS;
+  return new Date(from.getTime() + ttlDays * 24 * 60 * 60 * 1000);
+}
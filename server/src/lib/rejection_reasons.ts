@@ -0,0 +1,18 @@
+import { type Transaction } from '../db';
+import { rejectionReasonsTable, type RejectionReason } from '../db/schema';
+import { normalizeCatalogCode } from './letter_types';
+import { eq } from 'drizzle-orm';
+
+// A rejection must name an active entry of the managed list
+export async function findActiveRejectionReason(tx: Transaction, code: string): Promise<RejectionReason> {
+  const reasons = await tx.select()
+    .from(rejectionReasonsTable)
+    .where(eq(rejectionReasonsTable.code, normalizeCatalogCode(code)))
+    .execute();
+
+  if (reasons.length === 0 || !reasons[0].is_active) {
+    throw new Error(`Unknown rejection reason: ${code}`);
+  }
+
+  return reasons[0];
+}
@@ -0,0 +1,23 @@
+import { type Transaction } from '../db';
+import { letterRequestsTable } from '../db/schema';
+import { VersionConflictError } from './errors';
+import { eq } from 'drizzle-orm';
+
+// Reads a letter request with SELECT ... FOR UPDATE. Workflow steps call this first inside their
+// transaction so concurrent changes to the same request are applied one after the other.
+export async function lockLetterRequest(tx: Transaction, requestId: number) {
+  return tx.select()
+    .from(letterRequestsTable)
+    .where(eq(letterRequestsTable.id, requestId))
+    .for('update')
+    .execute();
+}
+
+// Optimistic check on top of the lock: the caller must have seen the latest version of the request.
+// Returns the version the update should write.
+export function nextRequestVersion(request: { id: number; version: number }, expectedVersion: number): number {
+  if (request.version !== expectedVersion) {
+    throw new VersionConflictError(request.id, expectedVersion, request.version);
+  }
+  return request.version + 1;
+}
@@ -0,0 +1,169 @@
+import { type ActionType, type RequestStatus, type UserRole } from '../schema';
+import { InvalidStatusTransitionError, TransitionNotAllowedError } from './errors';
+
+// Officers the Dean can dispose a request to, with the statuses that represent their step
+export const dispositionRoles = [
+  'WD1',
+  'WD2',
+  'WD3',
+  'KABAG_TU',
+  'KAUR_AKADEMIK',
+  'KAUR_KEMAHASISWAAN',
+  'KAUR_KEUANGAN'
+] as const satisfies readonly UserRole[];
+
+export type DispositionRole = typeof dispositionRoles[number];
+
+export const dispositionStatusByRole: Record<DispositionRole, RequestStatus> = {
+  WD1: 'DISPOSISI_TO_WD1',
+  WD2: 'DISPOSISI_TO_WD2',
+  WD3: 'DISPOSISI_TO_WD3',
+  KABAG_TU: 'DISPOSISI_TO_KABAG_TU',
+  KAUR_AKADEMIK: 'DISPOSISI_TO_KAUR_AKADEMIK',
+  KAUR_KEMAHASISWAAN: 'DISPOSISI_TO_KAUR_KEMAHASISWAAN',
+  KAUR_KEUANGAN: 'DISPOSISI_TO_KAUR_KEUANGAN'
+};
+
+export const processedStatusByRole: Record<DispositionRole, RequestStatus> = {
+  WD1: 'PROCESSED_BY_WD1',
+  WD2: 'PROCESSED_BY_WD2',
+  WD3: 'PROCESSED_BY_WD3',
+  KABAG_TU: 'PROCESSED_BY_KABAG_TU',
+  KAUR_AKADEMIK: 'PROCESSED_BY_KAUR_AKADEMIK',
+  KAUR_KEMAHASISWAAN: 'PROCESSED_BY_KAUR_KEMAHASISWAAN',
+  KAUR_KEUANGAN: 'PROCESSED_BY_KAUR_KEUANGAN'
+};
+
+export function isDispositionRole(role: UserRole): role is DispositionRole {
+  return (dispositionRoles as readonly UserRole[]).includes(role);
+}
+
+export interface StatusTransition {
+  from: RequestStatus;
+  to: RequestStatus;
+  roles: readonly UserRole[];
+  // Tracking log action written when the transition is applied generically
+  actionType: ActionType;
+  // Whether applying the transition releases the current handler
+  clearsHandler?: boolean;
+  // The dedicated procedure that applies the transition along with its side effects (signature, number,
+  // files, ...); updateRequestStatus refuses such edges
+  procedure?: string;
+}
+
+const dispositionStatuses = Object.values(dispositionStatusByRole);
+const processedStatuses = Object.values(processedStatusByRole);
+// A disposition step is held by one officer, or shared by several working in parallel
+const assignedStatuses: RequestStatus[] = [...dispositionStatuses, 'DISPOSISI_PARALLEL'];
+const inDispositionStatuses = [...assignedStatuses, ...processedStatuses];
+
+// Whether the request is in a disposition step, or processed by its last officer but not yet handed to the Dean
+export function isInDisposition(status: RequestStatus): boolean {
+  return inDispositionStatuses.includes(status);
+}
+
+function edges(
+  from: readonly RequestStatus[],
+  to: readonly RequestStatus[],
+  roles: readonly UserRole[],
+  actionType: ActionType,
+  options: { clearsHandler?: boolean; procedure?: string } = {}
+): StatusTransition[] {
+  return from.flatMap(fromStatus => to
+    .filter(toStatus => toStatus !== fromStatus)
+    .map(toStatus => ({ from: fromStatus, to: toStatus, roles, actionType, ...options })));
+}
+
+// Every legal status change of a letter request. Handlers consult this table before writing a new status;
+// only edges without a `procedure` may be taken through the generic updateRequestStatus.
+export const statusTransitions: readonly StatusTransition[] = [
+  // Prodi stage
+  ...edges(['DRAFT'], ['APPROVED_KAPRODI'], ['KAPRODI'], 'APPROVED', { procedure: 'approveByKaprodi' }),
+  ...edges(['DRAFT'], ['FORWARDED_TO_DEKAN'], ['KAPRODI'], 'FORWARDED', { procedure: 'forwardToDekan' }),
+  ...edges(['APPROVED_KAPRODI'], ['FORWARDED_TO_DEKAN'], ['KAPRODI'], 'FORWARDED', { procedure: 'forwardToDekan' }),
+  ...edges(['DRAFT', 'APPROVED_KAPRODI'], ['REJECTED'], ['KAPRODI'], 'REJECTED', { procedure: 'rejectRequest' }),
+  // Letter types issued at prodi level skip the Dean after approval
+  ...edges(['DRAFT'], ['RETURNED_TO_PRODI'], ['KAPRODI'], 'APPROVED', { procedure: 'approveByKaprodi' }),
+
+  // Dean disposition
+  ...edges(['FORWARDED_TO_DEKAN'], assignedStatuses, ['DEKAN'], 'DISPOSISI_ASSIGNED', { procedure: 'createDisposition' }),
+  ...edges(['FORWARDED_TO_DEKAN'], ['REJECTED'], ['DEKAN'], 'REJECTED', { procedure: 'rejectRequest' }),
+
+  // Officers working through the disposition chain
+  ...edges(assignedStatuses, processedStatuses, dispositionRoles, 'PROCESSED', { procedure: 'processDisposition' }),
+  ...edges(inDispositionStatuses, assignedStatuses, dispositionRoles, 'PROCESSED', { procedure: 'processDisposition' }),
+  // The last officer hands the final letter to the Dean once their own step is processed
+  ...edges(processedStatuses, ['TTD_READY'], dispositionRoles, 'DOCUMENT_UPLOADED', { procedure: 'uploadFinalLetter or generateFinalLetter' }),
+  ...edges(inDispositionStatuses, ['FORWARDED_TO_DEKAN'], dispositionRoles, 'PROCESSED', { procedure: 'processDisposition' }),
+  ...edges(inDispositionStatuses, ['ESCALATED'], dispositionRoles, 'ESCALATED', { procedure: 'processDisposition' }),
+  ...edges(inDispositionStatuses, ['REJECTED'], dispositionRoles, 'REJECTED', { procedure: 'rejectRequest' }),
+
+  // The Dean amends a running disposition or withdraws it
+  ...edges(inDispositionStatuses, inDispositionStatuses, ['DEKAN'], 'DISPOSISI_AMENDED', {
+    procedure: 'reassignDisposition, addDispositionStep or removeDispositionStep'
+  }),
+  ...edges(inDispositionStatuses, ['FORWARDED_TO_DEKAN'], ['DEKAN'], 'DISPOSISI_WITHDRAWN', { procedure: 'withdrawDisposition' }),
+
+  // Escalations are resolved by an admin
+  ...edges(['ESCALATED'], [...assignedStatuses, 'FORWARDED_TO_DEKAN'], ['ADMIN'], 'FORWARDED', { procedure: 'resolveEscalation' }),
+  ...edges(['ESCALATED'], ['REJECTED'], ['ADMIN'], 'REJECTED', { procedure: 'resolveEscalation' }),
+
+  // Signing
+  ...edges(['TTD_READY'], ['TTD_DONE'], ['DEKAN'], 'SIGNED', { procedure: 'signLetter' }),
+  ...edges(['TTD_READY'], ['REJECTED'], ['DEKAN'], 'REJECTED', { procedure: 'rejectRequest' }),
+  ...edges(['TTD_READY'], ['REVISION_REQUESTED'], ['DEKAN'], 'REVISION_REQUESTED', { procedure: 'requestRevision' }),
+
+  // The officer sends a corrected letter back for signing
+  ...edges(['REVISION_REQUESTED'], ['TTD_READY'], dispositionRoles, 'DOCUMENT_UPLOADED', { procedure: 'uploadFinalLetter or generateFinalLetter' }),
+
+  // Fulfilment
+  ...edges(['TTD_DONE'], ['RETURNED_TO_PRODI'], ['STAFF_FAKULTAS'], 'RETURNED', { procedure: 'returnToProdi' }),
+  ...edges(['TTD_DONE'], ['PRINTED'], ['STAFF_FAKULTAS'], 'PRINTED', { procedure: 'markPrinted' }),
+  ...edges(['RETURNED_TO_PRODI'], ['PRINTED'], ['STAFF_PRODI', 'STAFF_FAKULTAS'], 'PRINTED', { procedure: 'markPrinted' }),
+  ...edges(['PRINTED'], ['DELIVERED'], ['STAFF_PRODI', 'STAFF_FAKULTAS'], 'DELIVERED', { procedure: 'markDelivered' }),
+  ...edges(['DELIVERED', 'REJECTED'], ['ARCHIVED'], ['STAFF_PRODI', 'STAFF_FAKULTAS', 'ADMIN'], 'ARCHIVED', { clearsHandler: true, procedure: 'archiveRequest' }),
+
+  // The creator fixes a rejected request and sends it back to the Kaprodi
+  ...edges(['REJECTED'], ['DRAFT'], ['STUDENT', 'STAFF_PRODI', 'KAPRODI', 'STAFF_FAKULTAS', 'ADMIN'], 'RESUBMITTED', { procedure: 'resubmitRequest' })
+];
+
+// A status pair may have several edges for different roles; the one open to `role` wins
+export function findTransition(from: RequestStatus, to: RequestStatus, role?: UserRole): StatusTransition | undefined {
+  const candidates = statusTransitions.filter(transition => transition.from === from && transition.to === to);
+  return candidates.find(transition => role === undefined || transition.roles.includes(role)) ?? candidates[0];
+}
+
+export function getTransitionsFrom(from: RequestStatus, role?: UserRole): StatusTransition[] {
+  return statusTransitions.filter(transition =>
+    transition.from === from && (role === undefined || transition.roles.includes(role))
+  );
+}
+
+// Who may hold a request in `status`: the roles that can take a step out of it
+export function handlerRolesFor(status: RequestStatus): UserRole[] {
+  return [...new Set(getTransitionsFrom(status).flatMap(transition => transition.roles))];
+}
+
+// The moves updateRequestStatus can make; the others are listed under their procedure only
+export function getGenericTransitionsFrom(from: RequestStatus, role?: UserRole): StatusTransition[] {
+  return getTransitionsFrom(from, role).filter(transition => !transition.procedure);
+}
+
+// Throws a typed error naming both statuses when the move is not in the table or not open to the role
+export function assertTransition(
+  from: RequestStatus,
+  to: RequestStatus,
+  role: UserRole,
+  message?: string
+): StatusTransition {
+  const transition = findTransition(from, to, role);
+  if (!transition) {
+    throw new InvalidStatusTransitionError(from, to, message);
+  }
+
+  if (!transition.roles.includes(role)) {
+    throw new TransitionNotAllowedError(from, to, role);
+  }
+
+  return transition;
+}
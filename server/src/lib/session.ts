@@ -0,0 +1,31 @@
+import { createHash, randomBytes } from 'node:crypto';
+
+const DEFAULT_SESSION_TTL_HOURS = 12;
+
+export function generateSessionToken(): string {
+  return randomBytes(32).toString('hex');
+}
+
+// Only the hash is persisted so a leaked sessions table cannot be replayed
+export function hashSessionToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function getSessionExpiry(from: Date = new Date()): Date {
+  const ttlHours = Number(process.env['SESSION_TTL_HOURS']) || DEFAULT_SESSION_TTL_HOURS;
+  return new Date(from.getTime() + ttlHours * 60 * 60 * 1000);
+}
+
+// Extracts the token from an "Authorization: Bearer <token>" header
+export function parseBearerToken(header: string | undefined): string | null {
+  if (!header) {
+    return null;
+  }
+
+  const [scheme, token] = header.split(' ');
+  if (scheme?.toLowerCase() !== 'bearer' || !token) {
+    return null;
+  }
+
+  return token;
+}
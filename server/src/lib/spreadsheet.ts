@@ -0,0 +1,209 @@
+import { inflateRawSync } from 'node:zlib';
+import { maxUploadBytes } from './storage';
+
+// Just enough of CSV and XLSX to read the tabular exports of SIAKAD: the first worksheet, cell values as text.
+// Formulas are read through their cached value; styles, dates and merged cells are not interpreted.
+
+const zipLocalHeader = 0x04034b50;
+const zipCentralHeader = 0x02014b50;
+const zipEndOfCentralDirectory = 0x06054b50;
+const oleSignature = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+
+// Rows of the first sheet of an XLSX workbook or of a CSV file, without fully empty rows.
+// The content decides the format, whatever the file is called. A workbook may unpack to at most
+// `maxUnpackedBytes`, the upload limit by default, so a small archive cannot inflate without bound.
+export function readSpreadsheet(content: Buffer, maxUnpackedBytes = maxUploadBytes()): string[][] {
+  if (content.subarray(0, 8).equals(oleSignature)) {
+    throw new Error('Legacy .xls workbooks are not supported; save the sheet as .xlsx or CSV');
+  }
+
+  const rows = content.length >= 4 && content.readUInt32LE(0) === zipLocalHeader
+    ? readXlsx(content, maxUnpackedBytes)
+    : readCsv(content.toString('utf8').replace(/^\uFEFF/, ''));
+
+  return rows.filter(row => row.some(cell => cell.trim() !== ''));
+}
+
+// RFC 4180 with either comma or semicolon separators; spreadsheet programs in Indonesian locales export the latter
+export function readCsv(text: string): string[][] {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = firstLine.split(';').length > firstLine.split(',').length ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error('CSV file ends inside a quoted value');
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// File name -> content of every entry of a ZIP archive (stored or deflated; no ZIP64, no encryption).
+// The declared sizes are not trusted: inflating stops once the entries together pass maxUnpackedBytes.
+function readZip(content: Buffer, maxUnpackedBytes: number): Map<string, Buffer> {
+  let end = -1;
+  for (let i = content.length - 22; i >= Math.max(0, content.length - 22 - 0xffff); i--) {
+    if (content.readUInt32LE(i) === zipEndOfCentralDirectory) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new Error('Workbook is not a valid XLSX file');
+  }
+
+  const entryCount = content.readUInt16LE(end + 10);
+  let offset = content.readUInt32LE(end + 16);
+  const entries = new Map<string, Buffer>();
+  const tooLarge = () => new Error(`Workbook unpacks to more than ${maxUnpackedBytes} bytes`);
+  let unpackedBytes = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (content.readUInt32LE(offset) !== zipCentralHeader) {
+      throw new Error('Workbook is not a valid XLSX file');
+    }
+    const method = content.readUInt16LE(offset + 10);
+    const compressedSize = content.readUInt32LE(offset + 20);
+    const nameLength = content.readUInt16LE(offset + 28);
+    const extraLength = content.readUInt16LE(offset + 30);
+    const commentLength = content.readUInt16LE(offset + 32);
+    const localOffset = content.readUInt32LE(offset + 42);
+    const name = content.subarray(offset + 46, offset + 46 + nameLength).toString('utf8');
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    const dataStart = localOffset + 30 + content.readUInt16LE(localOffset + 26) + content.readUInt16LE(localOffset + 28);
+    const data = content.subarray(dataStart, dataStart + compressedSize);
+    let entry: Buffer;
+    if (method === 0) {
+      entry = data;
+    } else if (method === 8) {
+      try {
+        entry = inflateRawSync(data, { maxOutputLength: Math.max(1, maxUnpackedBytes - unpackedBytes) });
+      } catch (error) {
+        if (error instanceof RangeError) {
+          throw tooLarge();
+        }
+        throw error;
+      }
+    } else {
+      throw new Error(`Unsupported compression in workbook entry ${name}`);
+    }
+
+    unpackedBytes += entry.length;
+    if (unpackedBytes > maxUnpackedBytes) {
+      throw tooLarge();
+    }
+    entries.set(name, entry);
+  }
+  return entries;
+}
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|lt|gt|amp|quot|apos);/g, (_, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return ({ lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" } as Record<string, string>)[entity];
+  });
+}
+
+// Concatenated <t> runs of a shared or inline string
+const textRuns = (xml: string) =>
+  [...xml.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)].map(match => decodeXml(match[1])).join('');
+
+const columnIndex = (letters: string) =>
+  [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+// The worksheet the workbook lists first, which is not always sheet1.xml
+function firstWorksheetPath(entries: Map<string, Buffer>): string {
+  const workbook = entries.get('xl/workbook.xml')?.toString('utf8') ?? '';
+  const relations = entries.get('xl/_rels/workbook.xml.rels')?.toString('utf8') ?? '';
+  const relationId = /<sheet\b[^>]*\br:id="([^"]+)"/.exec(workbook)?.[1];
+  const relation = relationId
+    ? [...relations.matchAll(/<Relationship\b[^>]*>/g)].map(match => match[0]).find(tag => tag.includes(`Id="${relationId}"`))
+    : undefined;
+  const target = relation ? /\bTarget="([^"]+)"/.exec(relation)?.[1] : undefined;
+
+  if (!target) {
+    return 'xl/worksheets/sheet1.xml';
+  }
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+}
+
+function readXlsx(content: Buffer, maxUnpackedBytes: number): string[][] {
+  const entries = readZip(content, maxUnpackedBytes);
+  const sheet = entries.get(firstWorksheetPath(entries));
+  if (!sheet) {
+    throw new Error('Workbook has no worksheet');
+  }
+
+  const sharedStringsXml = entries.get('xl/sharedStrings.xml')?.toString('utf8') ?? '';
+  const sharedStrings = [...sharedStringsXml.matchAll(/<si\b[^>]*>([\s\S]*?)<\/si>/g)].map(match => textRuns(match[1]));
+
+  const rows: string[][] = [];
+  for (const rowMatch of sheet.toString('utf8').matchAll(/<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const row: string[] = [];
+    for (const cellMatch of (rowMatch[1] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1];
+      const body = cellMatch[2] ?? '';
+      const reference = /\br="([A-Z]+)\d+"/.exec(attributes);
+      const type = /\bt="(\w+)"/.exec(attributes)?.[1];
+      const raw = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1];
+
+      let value = '';
+      if (type === 'inlineStr') {
+        value = textRuns(/<is>([\s\S]*?)<\/is>/.exec(body)?.[1] ?? '');
+      } else if (type === 's') {
+        value = raw !== undefined ? sharedStrings[Number(raw)] ?? '' : '';
+      } else if (raw !== undefined) {
+        value = decodeXml(raw);
+        // Long numbers such as NIMs may be stored in exponent notation
+        if (type === undefined && /^-?\d+(\.\d+)?E[+-]?\d+$/i.test(value) && Number.isSafeInteger(Number(value))) {
+          value = String(Number(value));
+        }
+      }
+
+      const index = reference ? columnIndex(reference[1]) : row.length;
+      while (row.length < index) {
+        row.push('');
+      }
+      row[index] = value;
+    }
+    rows.push(row);
+  }
+  return rows;
+}
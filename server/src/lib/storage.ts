@@ -0,0 +1,213 @@
+import { createHash, createHmac, randomBytes, randomUUID, timingSafeEqual } from 'node:crypto';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { dirname, resolve, sep } from 'node:path';
+import { S3Client, type S3Options } from 'bun';
+
+// Where uploaded files live. Keys are generated by storeUpload and never come from the client.
+export interface StorageBackend {
+  put(key: string, content: Buffer, mimeType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
+
+// Default backend: files under STORAGE_LOCAL_DIR, one file per key
+export class LocalFileStorage implements StorageBackend {
+  constructor(private readonly root: string) {}
+
+  private pathFor(key: string): string {
+    const root = resolve(this.root);
+    const path = resolve(root, key);
+    if (!path.startsWith(root + sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path;
+  }
+
+  async put(key: string, content: Buffer): Promise<void> {
+    const path = this.pathFor(key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, content);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return readFile(this.pathFor(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathFor(key), { force: true });
+  }
+}
+
+// Any S3-compatible object store (AWS, MinIO, R2, ...) through Bun's built-in client
+export class S3Storage implements StorageBackend {
+  private readonly client: S3Client;
+
+  constructor(options: S3Options) {
+    this.client = new S3Client(options);
+  }
+
+  async put(key: string, content: Buffer, mimeType: string): Promise<void> {
+    await this.client.write(key, content, { type: mimeType });
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return Buffer.from(await this.client.file(key).arrayBuffer());
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.unlink(key);
+  }
+}
+
+// Built from the environment on each call, so tests can point STORAGE_LOCAL_DIR at a temporary directory
+export function getStorage(): StorageBackend {
+  const backend = process.env['STORAGE_BACKEND'] ?? 'local';
+
+  if (backend === 'local') {
+    return new LocalFileStorage(process.env['STORAGE_LOCAL_DIR'] ?? './storage');
+  }
+
+  if (backend === 's3') {
+    const bucket = process.env['STORAGE_S3_BUCKET'];
+    if (!bucket) {
+      throw new Error('STORAGE_S3_BUCKET is not configured');
+    }
+    return new S3Storage({
+      bucket,
+      endpoint: process.env['STORAGE_S3_ENDPOINT'] || undefined,
+      region: process.env['STORAGE_S3_REGION'] || undefined,
+      accessKeyId: process.env['STORAGE_S3_ACCESS_KEY_ID'] || undefined,
+      secretAccessKey: process.env['STORAGE_S3_SECRET_ACCESS_KEY'] || undefined
+    });
+  }
+
+  throw new Error(`Unknown STORAGE_BACKEND: ${backend}`);
+}
+
+const defaultMaxUploadBytes = 20 * 1024 * 1024;
+
+export function maxUploadBytes(): number {
+  const configured = Number(process.env['UPLOAD_MAX_BYTES']);
+  return Number.isInteger(configured) && configured > 0 ? configured : defaultMaxUploadBytes;
+}
+
+// file_url of a stored file; the bytes are served by the authorized GET /files/<key> route
+export const storedFileUrl = (storageKey: string) => `files/${storageKey}`;
+
+const storedFileUrlPattern = /^files\/(.+)$/;
+
+export function storageKeyFromUrl(fileUrl: string): string | null {
+  return storedFileUrlPattern.exec(fileUrl)?.[1] ?? null;
+}
+
+// Route of the authorized download; everything after /files/ is the storage key
+export const fileDownloadPattern = /^\/files\/([^?#]+)(?:\?.*)?$/;
+
+const DEFAULT_DOWNLOAD_LINK_TTL_SECONDS = 300;
+
+let generatedDownloadLinkSecret: string | null = null;
+
+// Without DOWNLOAD_LINK_SECRET each process signs with its own secret, so links stop working on restart
+function downloadLinkSecret(): string {
+  const configured = process.env['DOWNLOAD_LINK_SECRET'];
+  if (configured) {
+    return configured;
+  }
+  generatedDownloadLinkSecret ??= randomBytes(32).toString('hex');
+  return generatedDownloadLinkSecret;
+}
+
+function downloadLinkSignature(storageKey: string, userId: number, expires: number): Buffer {
+  return createHmac('sha256', downloadLinkSecret())
+    .update(`${storageKey}\n${userId}\n${expires}`)
+    .digest();
+}
+
+export function getDownloadLinkExpiry(from: Date = new Date()): Date {
+  const ttlSeconds = Number(process.env['DOWNLOAD_LINK_TTL_SECONDS']) || DEFAULT_DOWNLOAD_LINK_TTL_SECONDS;
+  return new Date(from.getTime() + ttlSeconds * 1000);
+}
+
+// A GET /files/<key> link for browsers that cannot send the Authorization header, such as a plain <a href>.
+// It names the user it was made for, whose access is checked again when the link is opened.
+export function signedDownloadUrl(storageKey: string, userId: number, expiresAt: Date): string {
+  const expires = Math.floor(expiresAt.getTime() / 1000);
+  const signature = downloadLinkSignature(storageKey, userId, expires).toString('hex');
+  return `${storedFileUrl(storageKey)}?user=${userId}&expires=${expires}&signature=${signature}`;
+}
+
+// The user a signed link was made for, or null when it was altered or has expired
+export function verifyDownloadLink(storageKey: string, query: URLSearchParams, now: Date = new Date()): number | null {
+  const userId = Number(query.get('user'));
+  const expires = Number(query.get('expires'));
+  const signature = Buffer.from(query.get('signature') ?? '', 'hex');
+  if (!Number.isInteger(userId) || !Number.isInteger(expires) || expires * 1000 <= now.getTime()) {
+    return null;
+  }
+
+  const expected = downloadLinkSignature(storageKey, userId, expires);
+  return signature.length === expected.length && timingSafeEqual(signature, expected) ? userId : null;
+}
+
+export function contentDisposition(fileName: string): string {
+  return `attachment; filename="${safeFileName(fileName)}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
+
+// Keeps keys and Content-Disposition headers free of path separators and odd characters
+export function safeFileName(fileName: string): string {
+  const cleaned = fileName.replace(/[^A-Za-z0-9._-]+/g, '_').replace(/^[._]+/, '');
+  return cleaned.length > 0 ? cleaned.slice(-120) : 'file';
+}
+
+// The parts of a multipart File part that storing it needs
+export interface UploadedFile {
+  name: string;
+  type: string;
+  size: number;
+  arrayBuffer(): Promise<ArrayBuffer>;
+}
+
+// An uploaded file read into memory, before anything is stored
+export interface ReceivedUpload {
+  file_name: string;
+  declared_mime_type: string;
+  size_bytes: number;
+  sha256: string;
+  content: Buffer;
+}
+
+// Reads a multipart file part, refusing empty files and anything over the server-wide size limit
+export async function readUpload(file: UploadedFile): Promise<ReceivedUpload> {
+  if (file.size === 0) {
+    throw new Error('Uploaded file is empty');
+  }
+  if (file.size > maxUploadBytes()) {
+    throw new Error(`Uploaded file exceeds the maximum size of ${maxUploadBytes()} bytes`);
+  }
+
+  const content = Buffer.from(await file.arrayBuffer());
+  return {
+    file_name: file.name,
+    declared_mime_type: file.type ? file.type.split(';')[0].trim().toLowerCase() : 'application/octet-stream',
+    size_bytes: content.length,
+    sha256: createHash('sha256').update(content).digest('hex'),
+    content
+  };
+}
+
+// Writes an upload under `prefix` and returns its storage key.
+// The caller deletes the stored file again if its transaction fails.
+export async function storeUpload(prefix: string, upload: ReceivedUpload, mimeType: string): Promise<string> {
+  const storageKey = `${prefix}/${randomUUID()}/${safeFileName(upload.file_name)}`;
+  await getStorage().put(storageKey, upload.content, mimeType);
+  return storageKey;
+}
+
+// Best-effort cleanup of a file whose database record was never written
+export async function discardUpload(storageKey: string): Promise<void> {
+  try {
+    await getStorage().delete(storageKey);
+  } catch (error) {
+    console.error('Discarding stored upload failed:', error);
+  }
+}
@@ -0,0 +1,169 @@
+import { type Faculty, type StudyProgram } from '../db/schema';
+import { type StudentStatus } from '../schema';
+
+// SIAKAD NIMs are 8 to 15 digits
+const nimPattern = /^\d{8,15}$/;
+
+// Column headers as SIAKAD exports them, in English or Indonesian, matched ignoring case and spacing
+const columnAliases = {
+  nim: ['nim'],
+  name: ['name', 'nama', 'nama_mahasiswa'],
+  prodi: ['prodi', 'program_studi'],
+  status: ['status', 'status_mahasiswa']
+} as const;
+
+// Columns a file may leave out; the students it lists then keep what is recorded for them
+const optionalColumnAliases = {
+  angkatan: ['angkatan', 'tahun_masuk', 'cohort'],
+  semester: ['semester'],
+  faculty: ['faculty', 'fakultas']
+} as const;
+
+export type ImportColumn = keyof typeof columnAliases;
+export type OptionalImportColumn = keyof typeof optionalColumnAliases;
+export type ImportColumns = Record<ImportColumn, number> & Partial<Record<OptionalImportColumn, number>>;
+
+const statusAliases: Record<string, StudentStatus> = {
+  ACTIVE: 'ACTIVE',
+  AKTIF: 'ACTIVE',
+  LEAVE: 'LEAVE',
+  CUTI: 'LEAVE',
+  GRADUATED: 'GRADUATED',
+  LULUS: 'GRADUATED',
+  DROPPED_OUT: 'DROPPED_OUT',
+  DROPOUT: 'DROPPED_OUT',
+  DO: 'DROPPED_OUT',
+  KELUAR: 'DROPPED_OUT'
+};
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+// Position of every required column in the header row, and of the optional ones it has
+export function mapImportColumns(header: string[]): ImportColumns {
+  const normalized = header.map(normalizeHeader);
+  const columns = {} as ImportColumns;
+  const missing: string[] = [];
+
+  for (const [column, aliases] of Object.entries(columnAliases) as [ImportColumn, readonly string[]][]) {
+    const index = normalized.findIndex(name => aliases.includes(name));
+    if (index < 0) {
+      missing.push(column);
+    } else {
+      columns[column] = index;
+    }
+  }
+
+  if (missing.length > 0) {
+    throw new Error(`Missing required columns: ${missing.join(', ')}`);
+  }
+
+  for (const [column, aliases] of Object.entries(optionalColumnAliases) as [OptionalImportColumn, readonly string[]][]) {
+    const index = normalized.findIndex(name => aliases.includes(name));
+    if (index >= 0) {
+      columns[column] = index;
+    }
+  }
+  return columns;
+}
+
+// Optional attributes are only set when the file has their column; an empty cell clears the value. The
+// faculty always follows the study program.
+export interface ImportedStudent {
+  nim: string;
+  name: string;
+  prodi: string;
+  study_program_id: number;
+  faculty_id: number;
+  status: StudentStatus;
+  angkatan?: number | null;
+  semester?: number | null;
+}
+
+export interface ParsedImportRow {
+  row: number;
+  nim: string | null;
+  student: ImportedStudent | null;
+  errors: string[];
+}
+
+// Validates one data row; `row` is its spreadsheet row number. The prodi cell names an active study
+// program by code or name (see loadStudyProgramLookup); a faculty cell, when filled, must name that
+// program's faculty the same way (see loadFacultyLookup).
+export function parseImportRow(
+  cells: string[],
+  columns: ImportColumns,
+  row: number,
+  studyPrograms: Map<string, StudyProgram>,
+  faculties: Map<string, Faculty>
+): ParsedImportRow {
+  const cell = (column: ImportColumn | OptionalImportColumn) => {
+    const index = columns[column];
+    return index === undefined ? '' : (cells[index] ?? '').trim();
+  };
+  const nim = cell('nim');
+  const name = cell('name').replace(/\s+/g, ' ');
+  const prodiName = cell('prodi');
+  const statusName = cell('status');
+  const errors: string[] = [];
+
+  if (nim === '') {
+    errors.push('NIM is required');
+  } else if (!nimPattern.test(nim)) {
+    errors.push(`Invalid NIM: ${nim} (expected 8 to 15 digits)`);
+  }
+
+  if (name === '') {
+    errors.push('Name is required');
+  }
+
+  const program = studyPrograms.get(prodiName.toLowerCase());
+  if (prodiName === '') {
+    errors.push('Prodi is required');
+  } else if (!program) {
+    errors.push(`Unknown prodi: ${prodiName}`);
+  }
+
+  const status = statusAliases[statusName.toUpperCase().replace(/[\s-]+/g, '_')];
+  if (statusName === '') {
+    errors.push('Status is required');
+  } else if (!status) {
+    errors.push(`Unknown student status: ${statusName}`);
+  }
+
+  const optional: Partial<ImportedStudent> = {};
+
+  if (columns.angkatan !== undefined) {
+    const angkatan = cell('angkatan');
+    if (angkatan !== '' && !/^\d{4}$/.test(angkatan)) {
+      errors.push(`Invalid angkatan: ${angkatan} (expected a four-digit year)`);
+    }
+    optional.angkatan = angkatan === '' ? null : Number(angkatan);
+  }
+
+  if (columns.semester !== undefined) {
+    const semester = cell('semester');
+    if (semester !== '' && !/^[1-9]\d?$/.test(semester)) {
+      errors.push(`Invalid semester: ${semester} (expected a positive whole number)`);
+    }
+    optional.semester = semester === '' ? null : Number(semester);
+  }
+
+  const facultyName = cell('faculty').replace(/\s+/g, ' ');
+  if (facultyName !== '') {
+    const faculty = faculties.get(facultyName.toLowerCase());
+    if (!faculty) {
+      errors.push(`Unknown faculty: ${facultyName}`);
+    } else if (program && program.faculty_id !== faculty.id) {
+      errors.push(`Prodi ${program.name} is not part of ${faculty.name}`);
+    }
+  }
+
+  return {
+    row,
+    nim: nim || null,
+    student: errors.length === 0
+      ? { nim, name, prodi: program!.name, study_program_id: program!.id, faculty_id: program!.faculty_id, status, ...optional }
+      : null,
+    errors
+  };
+}
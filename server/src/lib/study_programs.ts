@@ -0,0 +1,63 @@
+import { type Transaction } from '../db';
+import { facultiesTable, studyProgramsTable, type Faculty, type StudyProgram } from '../db/schema';
+import { eq } from 'drizzle-orm';
+
+// The prodi a user or student belongs to. `prodi` is the study program's name once the record is linked;
+// records from before the organizational master keep their free text until an ADMIN maps it.
+export interface ProdiMembership {
+  prodi: string | null;
+  study_program_id?: number | null;
+}
+
+// Linked records are matched by study program, so spelling no longer matters; unmapped ones by their text
+export function sameProdi(a: ProdiMembership, b: ProdiMembership): boolean {
+  if (a.study_program_id != null && b.study_program_id != null) {
+    return a.study_program_id === b.study_program_id;
+  }
+  return a.prodi !== null && a.prodi === b.prodi;
+}
+
+// An active study program whose faculty is active too, for records being linked to it
+export async function findActiveStudyProgram(tx: Transaction, id: number): Promise<StudyProgram> {
+  const programs = await tx.select({ program: studyProgramsTable, faculty_active: facultiesTable.is_active })
+    .from(studyProgramsTable)
+    .innerJoin(facultiesTable, eq(studyProgramsTable.faculty_id, facultiesTable.id))
+    .where(eq(studyProgramsTable.id, id))
+    .execute();
+
+  if (programs.length === 0 || !programs[0].program.is_active || !programs[0].faculty_active) {
+    throw new Error(`Unknown study program: ${id}`);
+  }
+  return programs[0].program;
+}
+
+// Active study programs by lower-case code and name, for imports that name the prodi either way
+export async function loadStudyProgramLookup(tx: Transaction): Promise<Map<string, StudyProgram>> {
+  const programs = await tx.select({ program: studyProgramsTable })
+    .from(studyProgramsTable)
+    .innerJoin(facultiesTable, eq(studyProgramsTable.faculty_id, facultiesTable.id))
+    .where(eq(facultiesTable.is_active, true))
+    .execute();
+
+  const lookup = new Map<string, StudyProgram>();
+  for (const { program } of programs.filter(({ program }) => program.is_active)) {
+    lookup.set(program.code.toLowerCase(), program);
+    lookup.set(program.name.toLowerCase(), program);
+  }
+  return lookup;
+}
+
+// Active faculties by lower-case code and name, for imports that name the faculty either way
+export async function loadFacultyLookup(tx: Transaction): Promise<Map<string, Faculty>> {
+  const faculties = await tx.select()
+    .from(facultiesTable)
+    .where(eq(facultiesTable.is_active, true))
+    .execute();
+
+  const lookup = new Map<string, Faculty>();
+  for (const faculty of faculties) {
+    lookup.set(faculty.code.toLowerCase(), faculty);
+    lookup.set(faculty.name.toLowerCase(), faculty);
+  }
+  return lookup;
+}
@@ -0,0 +1,98 @@
+import { PDFDocument } from 'pdf-lib';
+import { db } from '../db';
+import { letterTypesTable } from '../db/schema';
+import { type LetterType, type UploadMimeType } from '../schema';
+import { normalizeCatalogCode } from './letter_types';
+import { type ReceivedUpload } from './storage';
+import { eq } from 'drizzle-orm';
+
+// Same as the letter_types.allowed_mime_types column default; used for requests whose type is not in the catalog
+export const defaultAllowedMimeTypes: UploadMimeType[] = ['application/pdf', 'image/jpeg', 'image/png'];
+
+const pngSignature = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Leading bytes of every recognised file type
+const magicBytes: { mimeType: UploadMimeType; matches: (content: Buffer) => boolean }[] = [
+  { mimeType: 'application/pdf', matches: content => content.subarray(0, 5).toString('latin1') === '%PDF-' },
+  { mimeType: 'image/jpeg', matches: content => content.length >= 3 && content[0] === 0xff && content[1] === 0xd8 && content[2] === 0xff },
+  { mimeType: 'image/png', matches: content => content.subarray(0, 8).equals(pngSignature) },
+  {
+    mimeType: 'image/webp',
+    matches: content => content.subarray(0, 4).toString('latin1') === 'RIFF' && content.subarray(8, 12).toString('latin1') === 'WEBP'
+  }
+];
+
+// The type the content actually is, whatever name or type the client sent
+export function sniffMimeType(content: Buffer): UploadMimeType | null {
+  return magicBytes.find(candidate => candidate.matches(content))?.mimeType ?? null;
+}
+
+// Null when the file is not a readable PDF
+export async function countPdfPages(content: Buffer): Promise<number | null> {
+  try {
+    const pdf = await PDFDocument.load(content, { ignoreEncryption: true, updateMetadata: false });
+    return pdf.getPageCount();
+  } catch {
+    return null;
+  }
+}
+
+export type UploadRules = Pick<LetterType, 'code' | 'allowed_mime_types' | 'max_upload_bytes'>;
+
+// Rules of a request's letter type, including inactive types so pending requests keep their rules
+export async function findUploadRules(letterTypeCode: string): Promise<UploadRules> {
+  const letterTypes = await db.select({
+    code: letterTypesTable.code,
+    allowed_mime_types: letterTypesTable.allowed_mime_types,
+    max_upload_bytes: letterTypesTable.max_upload_bytes
+  })
+    .from(letterTypesTable)
+    .where(eq(letterTypesTable.code, normalizeCatalogCode(letterTypeCode)))
+    .execute();
+
+  return letterTypes[0] ?? { code: letterTypeCode, allowed_mime_types: defaultAllowedMimeTypes, max_upload_bytes: null };
+}
+
+export interface UploadInspection {
+  mime_type: string;
+  page_count: number | null;
+  quarantine_reason: string | null;
+}
+
+// Runs the content checks on a supporting document. Failures do not reject the upload: the document is
+// quarantined with every reason found, so staff can see what was sent.
+export async function inspectSupportingDocument(upload: ReceivedUpload, rules: UploadRules): Promise<UploadInspection> {
+  const reasons: string[] = [];
+  const declared = upload.declared_mime_type;
+  const sniffed = sniffMimeType(upload.content);
+
+  if (!sniffed) {
+    reasons.push(`File content is not a recognised document type (declared as ${declared})`);
+  } else {
+    // Clients that send no type at all are judged by the content alone
+    if (declared !== 'application/octet-stream' && declared !== sniffed) {
+      reasons.push(`Declared type ${declared} does not match the file content (${sniffed})`);
+    }
+    if (!rules.allowed_mime_types.includes(sniffed)) {
+      reasons.push(`${sniffed} files are not accepted for letter type ${rules.code}`);
+    }
+  }
+
+  if (rules.max_upload_bytes !== null && upload.size_bytes > rules.max_upload_bytes) {
+    reasons.push(`File is ${upload.size_bytes} bytes; letter type ${rules.code} accepts at most ${rules.max_upload_bytes}`);
+  }
+
+  let pageCount: number | null = null;
+  if (sniffed === 'application/pdf') {
+    pageCount = await countPdfPages(upload.content);
+    if (pageCount === null) {
+      reasons.push('PDF could not be read');
+    }
+  }
+
+  return {
+    mime_type: sniffed ?? declared,
+    page_count: pageCount,
+    quarantine_reason: reasons.length > 0 ? reasons.join('; ') : null
+  };
+}
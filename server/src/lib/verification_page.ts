@@ -0,0 +1,56 @@
+import { type PublicLetterVerification } from '../schema';
+import { formatLetterDate } from './letter_template';
+
+// Route of the public verification page; the token is the only input
+export const verificationPagePattern = /^\/verify\/([^/?#]+)\/?(?:\?.*)?$/;
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+// Standalone HTML for recipients who scan the QR code; shows only the public verification fields
+export function renderVerificationPage(verification: PublicLetterVerification | null): string {
+  let body: string;
+  if (!verification) {
+    body = `<h1>Letter not found</h1>
+<p>This verification link does not belong to a signed letter. Please contact the faculty office.</p>`;
+  } else {
+    const rows: [string, string][] = [
+      ['Letter number', verification.letter_number],
+      ['Student', verification.student_name],
+      ['Letter type', verification.letter_type],
+      ['Signed on', formatLetterDate(verification.signed_at)],
+      ['Signed by', `${verification.signer_name} (${verification.signer_role})`]
+    ];
+    const heading = verification.valid
+      ? '<h1 class="valid">Genuine letter</h1>'
+      : '<h1 class="invalid">Letter could not be verified</h1>\n<p>The letter was changed after signing. Please contact the faculty office.</p>';
+
+    body = `${heading}
+<table>
+${rows.map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`).join('\n')}
+</table>`;
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>Letter verification</title>
+<style>
+body { font-family: sans-serif; max-width: 40rem; margin: 2rem auto; padding: 0 1rem; color: #222; }
+.valid { color: #1a7f37; }
+.invalid { color: #cf222e; }
+th { text-align: left; padding: 0.25rem 1rem 0.25rem 0; color: #555; }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
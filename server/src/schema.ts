@@ -31,6 +31,7 @@ export const requestStatusSchema = z.enum([
   'DISPOSISI_TO_KAUR_AKADEMIK',
   'DISPOSISI_TO_KAUR_KEMAHASISWAAN',
   'DISPOSISI_TO_KAUR_KEUANGAN',
+  'DISPOSISI_PARALLEL',
   'PROCESSED_BY_WD1',
   'PROCESSED_BY_WD2',
   'PROCESSED_BY_WD3',
@@ -39,6 +40,7 @@ export const requestStatusSchema = z.enum([
   'PROCESSED_BY_KAUR_KEMAHASISWAAN',
   'PROCESSED_BY_KAUR_KEUANGAN',
   'TTD_READY',
+  'REVISION_REQUESTED',
   'TTD_DONE',
   'RETURNED_TO_PRODI',
   'PRINTED',
@@ -54,6 +56,18 @@ export type RequestStatus = z.infer<typeof requestStatusSchema>;
 export const prioritySchema = z.enum(['NORMAL', 'URGENT']);
 export type Priority = z.infer<typeof prioritySchema>;
 
+// How often letter number sequences start again at 1
+export const numberResetPeriodSchema = z.enum(['YEARLY', 'MONTHLY']);
+export type NumberResetPeriod = z.infer<typeof numberResetPeriodSchema>;
+
+// Supporting documents that fail the upload checks are quarantined
+export const documentStatusSchema = z.enum(['ACCEPTED', 'QUARANTINED']);
+export type DocumentStatus = z.infer<typeof documentStatusSchema>;
+
+// File types whose content the server can recognise, and so the only ones a letter type may allow
+export const uploadMimeTypeSchema = z.enum(['application/pdf', 'image/jpeg', 'image/png', 'image/webp']);
+export type UploadMimeType = z.infer<typeof uploadMimeTypeSchema>;
+
 // Action type enum for tracking logs
 export const actionTypeSchema = z.enum([
   'CREATED',
@@ -69,65 +83,283 @@ export const actionTypeSchema = z.enum([
   'DELIVERED',
   'ARCHIVED',
   'NOTE_ADDED',
-  'DOCUMENT_UPLOADED'
+  'DOCUMENT_UPLOADED',
+  'VERSION_RESTORED',
+  'REVISION_REQUESTED',
+  'RESUBMITTED',
+  'DISPOSISI_AMENDED',
+  'DISPOSISI_WITHDRAWN',
+  'ESCALATION_RESOLVED'
 ]);
 
 export type ActionType = z.infer<typeof actionTypeSchema>;
 
+// Organizational master: faculties and the study programs (prodi) they run
+export const facultySchema = z.object({
+  id: z.number(),
+  code: z.string(),
+  name: z.string(),
+  is_active: z.boolean(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Faculty = z.infer<typeof facultySchema>;
+
+export const studyProgramSchema = z.object({
+  id: z.number(),
+  code: z.string(),
+  name: z.string(),
+  faculty_id: z.number(),
+  is_active: z.boolean(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type StudyProgram = z.infer<typeof studyProgramSchema>;
+
+// A free-text prodi not yet linked to the study program master, with the records still using it
+export const unmappedProdiSchema = z.object({
+  prodi: z.string(),
+  user_count: z.number().int(),
+  student_count: z.number().int(),
+  suggested_study_program_id: z.number().nullable() // The program whose code or name matches, ignoring case
+});
+
+export type UnmappedProdi = z.infer<typeof unmappedProdiSchema>;
+
+export const mapProdiResultSchema = z.object({
+  prodi: z.string(),
+  study_program_id: z.number(),
+  users_mapped: z.number().int(),
+  students_mapped: z.number().int()
+});
+
+export type MapProdiResult = z.infer<typeof mapProdiResultSchema>;
+
 // User schema
 export const userSchema = z.object({
   id: z.number(),
   email: z.string().email(),
   name: z.string(),
   role: userRoleSchema,
-  prodi: z.string().nullable(), // Only relevant for certain roles
+  prodi: z.string().nullable(), // Only relevant for certain roles; the study program's name once linked
+  study_program_id: z.number().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
 
 export type User = z.infer<typeof userSchema>;
 
-// Student schema
+// Academic status as reported by SIAKAD
+export const studentStatusSchema = z.enum(['ACTIVE', 'LEAVE', 'GRADUATED', 'DROPPED_OUT']);
+export type StudentStatus = z.infer<typeof studentStatusSchema>;
+
 export const studentSchema = z.object({
   id: z.number(),
   nim: z.string(),
   name: z.string(),
-  prodi: z.string(),
+  prodi: z.string(), // The study program's name once linked
+  study_program_id: z.number().nullable(), // Null until the free-text prodi is mapped
+  status: studentStatusSchema,
+  angkatan: z.number().int().nullable(), // Cohort: the year the student enrolled
+  semester: z.number().int().nullable(),
+  faculty_id: z.number().nullable(), // Follows the study program; null until the prodi is mapped
+  user_id: z.number().nullable(), // STUDENT account linked through registerStudent
   created_at: z.coerce.date()
 });
 
 export type Student = z.infer<typeof studentSchema>;
 
+// What importStudents did, or would do in a dry run, with one spreadsheet row
+export const studentImportActionSchema = z.enum(['CREATE', 'UPDATE', 'UNCHANGED', 'ERROR']);
+export type StudentImportAction = z.infer<typeof studentImportActionSchema>;
+
+export const studentImportRowSchema = z.object({
+  row: z.number(), // Spreadsheet row, the header being row 1
+  nim: z.string().nullable(),
+  action: studentImportActionSchema,
+  message: z.string().nullable() // Why the row was skipped
+});
+
+export type StudentImportRow = z.infer<typeof studentImportRowSchema>;
+
+export const studentImportResultSchema = z.object({
+  batch_id: z.number().nullable(), // Null for dry runs, which are not recorded
+  dry_run: z.boolean(),
+  file_name: z.string(),
+  total_rows: z.number(),
+  created_count: z.number(),
+  updated_count: z.number(),
+  unchanged_count: z.number(),
+  error_count: z.number(),
+  rows: z.array(studentImportRowSchema)
+});
+
+export type StudentImportResult = z.infer<typeof studentImportResultSchema>;
+
+// A recorded import with the rows it skipped
+export const studentImportBatchSchema = z.object({
+  id: z.number(),
+  file_name: z.string(),
+  size_bytes: z.number(),
+  sha256: z.string(),
+  imported_by_user_id: z.number(),
+  imported_by_name: z.string(),
+  total_rows: z.number(),
+  created_count: z.number(),
+  updated_count: z.number(),
+  unchanged_count: z.number(),
+  error_count: z.number(),
+  created_at: z.coerce.date(),
+  errors: z.array(z.object({
+    row_number: z.number(),
+    nim: z.string().nullable(),
+    message: z.string()
+  }))
+});
+
+export type StudentImportBatch = z.infer<typeof studentImportBatchSchema>;
+
+// Letter type schema - one entry of the managed catalog
+export const letterTypeSchema = z.object({
+  id: z.number(),
+  code: z.string(),
+  name: z.string(),
+  description: z.string().nullable(),
+  required_documents: z.array(z.string()),
+  default_priority: prioritySchema,
+  default_disposition_chain: z.array(userRoleSchema),
+  sla_days: z.number().int().nullable(),
+  prodi_level_only: z.boolean(),
+  allowed_mime_types: z.array(z.string()),
+  max_upload_bytes: z.number().int().nullable(),
+  eligible_statuses: z.array(studentStatusSchema), // Empty allows any status
+  min_semester: z.number().int().nullable(),
+  is_active: z.boolean(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type LetterType = z.infer<typeof letterTypeSchema>;
+
+// A free-text letter type on requests from before the catalog, with how many requests still use it
+export const unmappedLetterTypeSchema = z.object({
+  letter_type: z.string(),
+  request_count: z.number().int(),
+  suggested_code: z.string().nullable() // The catalog entry whose name matches, ignoring case
+});
+
+export type UnmappedLetterType = z.infer<typeof unmappedLetterTypeSchema>;
+
+export const mapLetterTypeResultSchema = z.object({
+  letter_type: z.string(),
+  code: z.string(),
+  requests_mapped: z.number().int()
+});
+
+export type MapLetterTypeResult = z.infer<typeof mapLetterTypeResultSchema>;
+
+// Rejection reason schema
+export const rejectionReasonSchema = z.object({
+  id: z.number(),
+  code: z.string(),
+  label: z.string(),
+  description: z.string().nullable(),
+  is_active: z.boolean(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type RejectionReason = z.infer<typeof rejectionReasonSchema>;
+
 // Letter request schema
 export const letterRequestSchema = z.object({
   id: z.number(),
   student_id: z.number(),
   created_by_user_id: z.number(),
-  letter_type: z.string(),
+  letter_type: z.string(), // Letter type code
   purpose: z.string(),
   priority: prioritySchema,
   status: requestStatusSchema,
   current_handler_user_id: z.number().nullable(),
+  parallel_handler_user_ids: z.array(z.number()),
   dekan_instructions: z.string().nullable(),
   final_letter_url: z.string().nullable(),
+  current_letter_version_id: z.number().nullable(),
+  letter_number: z.string().nullable(),
+  verification_token: z.string().nullable(),
+  revision_count: z.number().int(),
+  rejection_reason_code: z.string().nullable(),
+  rejection_notes: z.string().nullable(),
+  due_at: z.coerce.date().nullable(), // From the letter type's SLA
+  version: z.number().int(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
 
 export type LetterRequest = z.infer<typeof letterRequestSchema>;
 
+// Final letter versions of a request, newest first
+export const letterVersionSourceSchema = z.enum(['UPLOADED', 'GENERATED']);
+export type LetterVersionSource = z.infer<typeof letterVersionSourceSchema>;
+
+export const letterVersionSchema = z.object({
+  id: z.number(),
+  letter_request_id: z.number(),
+  version_number: z.number().int(),
+  source: letterVersionSourceSchema,
+  file_url: z.string(),
+  file_name: z.string(),
+  size_bytes: z.number().int(),
+  sha256: z.string(),
+  change_note: z.string().nullable(),
+  created_by_user_id: z.number(),
+  created_by_name: z.string(),
+  is_current: z.boolean(),
+  created_at: z.coerce.date()
+});
+
+export type LetterVersion = z.infer<typeof letterVersionSchema>;
+
 // Supporting documents schema
 export const supportingDocumentSchema = z.object({
   id: z.number(),
   letter_request_id: z.number(),
   file_name: z.string(),
   file_url: z.string(),
+  document_type: z.string().nullable(),
+  storage_key: z.string().nullable(),
+  mime_type: z.string().nullable(),
+  size_bytes: z.number().int().nullable(),
+  sha256: z.string().nullable(),
+  page_count: z.number().int().nullable(),
+  status: documentStatusSchema,
+  quarantine_reason: z.string().nullable(),
   uploaded_by_user_id: z.number(),
   created_at: z.coerce.date()
 });
 
 export type SupportingDocument = z.infer<typeof supportingDocumentSchema>;
 
+// How a printed letter reached the student
+export const deliveryMethodSchema = z.enum(['PICKUP', 'EMAIL', 'COURIER']);
+export type DeliveryMethod = z.infer<typeof deliveryMethodSchema>;
+
+export const letterDeliverySchema = z.object({
+  id: z.number(),
+  letter_request_id: z.number(),
+  recipient_name: z.string(),
+  delivery_method: deliveryMethodSchema,
+  proof_storage_key: z.string().nullable(), // Download through GET /files/<key>
+  proof_file_name: z.string().nullable(),
+  proof_mime_type: z.string().nullable(),
+  delivered_by_user_id: z.number(),
+  delivered_at: z.coerce.date()
+});
+
+export type LetterDelivery = z.infer<typeof letterDeliverySchema>;
+
 // Tracking log schema
 export const trackingLogSchema = z.object({
   id: z.number(),
@@ -153,12 +385,139 @@ export const dispositionAssignmentSchema = z.object({
   order_sequence: z.number().int(),
   is_completed: z.boolean(),
   completed_at: z.coerce.date().nullable(),
+  escalated_at: z.coerce.date().nullable(),
   notes: z.string().nullable(),
   created_at: z.coerce.date()
 });
 
 export type DispositionAssignment = z.infer<typeof dispositionAssignmentSchema>;
 
+// Why an officer escalated a disposition assignment
+export const escalationCategorySchema = z.enum([
+  'MISSING_INFORMATION',
+  'POLICY_QUESTION',
+  'OUT_OF_SCOPE',
+  'WORKLOAD',
+  'OTHER'
+]);
+export type EscalationCategory = z.infer<typeof escalationCategorySchema>;
+
+// How an admin resolved an escalation
+export const escalationResolutionSchema = z.enum([
+  'RETURNED_TO_OFFICER',
+  'REROUTED',
+  'SENT_TO_DEKAN',
+  'REJECTED'
+]);
+export type EscalationResolution = z.infer<typeof escalationResolutionSchema>;
+
+// Escalation schema; open while resolved_at is null
+export const escalationSchema = z.object({
+  id: z.number(),
+  letter_request_id: z.number(),
+  assignment_id: z.number(),
+  raised_by_user_id: z.number(),
+  category: escalationCategorySchema,
+  reason: z.string(),
+  raised_at: z.coerce.date(),
+  resolution: escalationResolutionSchema.nullable(),
+  resolution_notes: z.string().nullable(),
+  resolved_by_user_id: z.number().nullable(),
+  resolved_at: z.coerce.date().nullable(),
+  time_to_resolve_seconds: z.number().int().nullable()
+});
+
+export type Escalation = z.infer<typeof escalationSchema>;
+
+// An entry of the admin queue: the escalation with what is needed to pick it up
+export const openEscalationSchema = escalationSchema.extend({
+  raised_by_name: z.string(),
+  student_nim: z.string(),
+  student_name: z.string(),
+  letter_type: z.string(),
+  priority: prioritySchema
+});
+
+export type OpenEscalation = z.infer<typeof openEscalationSchema>;
+
+// Letter template schema
+export const letterTemplateSchema = z.object({
+  id: z.number(),
+  letter_type: z.string(),
+  version: z.number().int(),
+  title: z.string(),
+  body: z.string(),
+  created_by_user_id: z.number(),
+  created_at: z.coerce.date()
+});
+
+export type LetterTemplate = z.infer<typeof letterTemplateSchema>;
+
+// Letter number format schema
+export const letterNumberFormatSchema = z.object({
+  id: z.number(),
+  letter_type: z.string().nullable(),
+  unit_code: z.string(),
+  classification_code: z.string(),
+  pattern: z.string(),
+  reset_period: numberResetPeriodSchema,
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type LetterNumberFormat = z.infer<typeof letterNumberFormatSchema>;
+
+// Result of checking the latest signature of a request against its current final letter
+export const signatureVerificationSchema = z.object({
+  request_id: z.number(),
+  signed: z.boolean(),
+  // The signature matches the signer's certificate and the document is unchanged since signing
+  valid: z.boolean(),
+  signature_valid: z.boolean(),
+  document_intact: z.boolean(),
+  letter_number: z.string().nullable(),
+  algorithm: z.string().nullable(),
+  signed_document_hash: z.string().nullable(),
+  current_document_hash: z.string().nullable(),
+  signed_at: z.coerce.date().nullable(),
+  signer: z.object({
+    user_id: z.number(),
+    name: z.string(),
+    role: z.string(),
+    key_fingerprint: z.string()
+  }).nullable()
+});
+
+export type SignatureVerification = z.infer<typeof signatureVerificationSchema>;
+
+// What the public verification page may show about a signed letter, and nothing more
+export const publicLetterVerificationSchema = z.object({
+  letter_number: z.string(),
+  student_name: z.string(),
+  letter_type: z.string(),
+  signed_at: z.coerce.date(),
+  signer_name: z.string(),
+  signer_role: z.string(),
+  // Signature checks out and the letter is unchanged since signing
+  valid: z.boolean()
+});
+
+export type PublicLetterVerification = z.infer<typeof publicLetterVerificationSchema>;
+
+// Generated letter schema - the PDF travels base64 encoded
+export const generatedLetterSchema = z.object({
+  id: z.number(),
+  letter_request_id: z.number(),
+  template_id: z.number(),
+  template_version: z.number().int(),
+  file_name: z.string(),
+  content_base64: z.string(),
+  generated_by_user_id: z.number(),
+  created_at: z.coerce.date()
+});
+
+export type GeneratedLetter = z.infer<typeof generatedLetterSchema>;
+
 // Input schemas for creating/updating
 
 // Create user input
@@ -166,30 +525,188 @@ export const createUserInputSchema = z.object({
   email: z.string().email(),
   name: z.string(),
   role: userRoleSchema,
-  prodi: z.string().nullable().optional()
+  study_program_id: z.number().nullable().optional(), // Required for Staff Prodi and Kaprodi
+  password: z.string().min(8).optional() // Accounts without a password cannot log in
 });
 
 export type CreateUserInput = z.infer<typeof createUserInputSchema>;
 
+// Login input
+export const loginInputSchema = z.object({
+  email: z.string().email(),
+  password: z.string()
+});
+
+export type LoginInput = z.infer<typeof loginInputSchema>;
+
+// Login result - the token is only ever returned here, the database keeps its hash
+export const loginResultSchema = z.object({
+  token: z.string(),
+  expires_at: z.coerce.date(),
+  user: userSchema
+});
+
+export type LoginResult = z.infer<typeof loginResultSchema>;
+
 // Create student input
 export const createStudentInputSchema = z.object({
   nim: z.string(),
   name: z.string(),
-  prodi: z.string()
+  study_program_id: z.number(),
+  status: studentStatusSchema.optional(), // Defaults to ACTIVE
+  angkatan: z.number().int().nullable().optional(),
+  semester: z.number().int().positive().nullable().optional(),
+  faculty_id: z.number().optional() // Must be the study program's faculty when given
 });
 
 export type CreateStudentInput = z.infer<typeof createStudentInputSchema>;
 
+// Self-registration of a STUDENT account, checked against the student master by NIM and name and proven
+// with the one-time code staff issued for that record
+export const registerStudentInputSchema = z.object({
+  nim: z.string().trim().min(1),
+  name: z.string().trim().min(1),
+  registration_code: z.string().trim().min(1),
+  email: z.string().email(),
+  password: z.string().min(8)
+});
+
+export type RegisterStudentInput = z.infer<typeof registerStudentInputSchema>;
+
+// Issue a registration code for a student record that has no account yet
+export const issueRegistrationCodeInputSchema = z.object({
+  student_id: z.number()
+});
+
+export type IssueRegistrationCodeInput = z.infer<typeof issueRegistrationCodeInputSchema>;
+
+// The code is only returned here, for staff to hand to the student
+export const registrationCodeSchema = z.object({
+  student_id: z.number(),
+  nim: z.string(),
+  code: z.string(),
+  expires_at: z.coerce.date()
+});
+
+export type RegistrationCode = z.infer<typeof registrationCodeSchema>;
+
+// Organizational master input; codes are compared case-insensitively and stored upper case
+export const createFacultyInputSchema = z.object({
+  code: z.string().regex(/^[A-Za-z0-9_.-]+$/, 'Faculty codes may only contain letters, digits, ".", "_" and "-"'),
+  name: z.string().trim().min(1)
+});
+
+export type CreateFacultyInput = z.infer<typeof createFacultyInputSchema>;
+
+// Users and students refer to the master by id, so codes may still be corrected
+export const updateFacultyInputSchema = createFacultyInputSchema
+  .partial()
+  .extend({
+    id: z.number(),
+    is_active: z.boolean().optional()
+  });
+
+export type UpdateFacultyInput = z.infer<typeof updateFacultyInputSchema>;
+
+export const createStudyProgramInputSchema = z.object({
+  code: z.string().regex(/^[A-Za-z0-9_.-]+$/, 'Study program codes may only contain letters, digits, ".", "_" and "-"'),
+  name: z.string().trim().min(1),
+  faculty_id: z.number()
+});
+
+export type CreateStudyProgramInput = z.infer<typeof createStudyProgramInputSchema>;
+
+// Renaming a program renames the prodi of every user and student linked to it
+export const updateStudyProgramInputSchema = createStudyProgramInputSchema
+  .partial()
+  .extend({
+    id: z.number(),
+    is_active: z.boolean().optional()
+  });
+
+export type UpdateStudyProgramInput = z.infer<typeof updateStudyProgramInputSchema>;
+
+export const getStudyProgramsInputSchema = z.object({
+  faculty_id: z.number().optional(),
+  includeInactive: z.boolean().optional()
+});
+
+export type GetStudyProgramsInput = z.infer<typeof getStudyProgramsInputSchema>;
+
+// Links every unmapped user and student with this exact free-text prodi to a study program
+export const mapProdiInputSchema = z.object({
+  prodi: z.string(),
+  study_program_id: z.number()
+});
+
+export type MapProdiInput = z.infer<typeof mapProdiInputSchema>;
+
+// Letter type catalog input
+export const createLetterTypeInputSchema = z.object({
+  code: z.string().regex(/^[A-Za-z0-9_.-]+$/, 'Letter type codes may only contain letters, digits, ".", "_" and "-"'),
+  name: z.string().min(1),
+  description: z.string().nullable().optional(),
+  required_documents: z.array(z.string().min(1)).optional(), // Document types, e.g. KTM
+  default_priority: prioritySchema.optional(),
+  default_disposition_chain: z.array(userRoleSchema).optional(), // Disposition roles in order
+  sla_days: z.number().int().positive().nullable().optional(), // Working days to deliver the letter
+  prodi_level_only: z.boolean().optional(), // Approved by the Kaprodi without going to the Dean
+  allowed_mime_types: z.array(uploadMimeTypeSchema).min(1).optional(), // For supporting documents
+  max_upload_bytes: z.number().int().positive().nullable().optional(), // Null uses the server-wide limit
+  eligible_statuses: z.array(studentStatusSchema).optional(), // Student statuses that may request it; empty allows any
+  min_semester: z.number().int().positive().nullable().optional() // Earliest semester that may request it
+});
+
+export type CreateLetterTypeInput = z.infer<typeof createLetterTypeInputSchema>;
+
+// The code is fixed once created since requests refer to it
+export const updateLetterTypeInputSchema = createLetterTypeInputSchema
+  .omit({ code: true })
+  .partial()
+  .extend({
+    id: z.number(),
+    is_active: z.boolean().optional()
+  });
+
+export type UpdateLetterTypeInput = z.infer<typeof updateLetterTypeInputSchema>;
+
+// Moves every request with this exact free-text letter type to a catalog code
+export const mapLetterTypeInputSchema = z.object({
+  letter_type: z.string(),
+  code: z.string()
+});
+
+export type MapLetterTypeInput = z.infer<typeof mapLetterTypeInputSchema>;
+
+// Create rejection reason input
+export const createRejectionReasonInputSchema = z.object({
+  code: z.string().regex(/^[A-Za-z0-9_.-]+$/, 'Rejection reason codes may only contain letters, digits, ".", "_" and "-"'),
+  label: z.string().min(1),
+  description: z.string().nullable().optional()
+});
+
+export type CreateRejectionReasonInput = z.infer<typeof createRejectionReasonInputSchema>;
+
+// The code is fixed once created since rejected requests refer to it
+export const updateRejectionReasonInputSchema = createRejectionReasonInputSchema
+  .omit({ code: true })
+  .partial()
+  .extend({
+    id: z.number(),
+    is_active: z.boolean().optional()
+  });
+
+export type UpdateRejectionReasonInput = z.infer<typeof updateRejectionReasonInputSchema>;
+
 // Create letter request input
 export const createLetterRequestInputSchema = z.object({
   student_id: z.number(),
-  letter_type: z.string(),
+  letter_type: z.string(), // Code of an active letter type
   purpose: z.string(),
-  priority: prioritySchema,
-  supporting_documents: z.array(z.object({
-    file_name: z.string(),
-    file_url: z.string()
-  })).optional()
+  priority: prioritySchema.optional(), // Defaults to the letter type's default priority
+  // Supporting document types the request brings, uploaded to the draft afterwards; must cover the letter type's
+  // required documents
+  document_types: z.array(z.string()).optional()
 });
 
 export type CreateLetterRequestInput = z.infer<typeof createLetterRequestInputSchema>;
@@ -197,6 +714,8 @@ export type CreateLetterRequestInput = z.infer<typeof createLetterRequestInputSc
 // Update letter request status input
 export const updateRequestStatusInputSchema = z.object({
   request_id: z.number(),
+  // Version of the request the caller last read; a mismatch fails with CONFLICT
+  expected_version: z.number().int(),
   new_status: requestStatusSchema,
   notes: z.string().optional(),
   next_handler_user_id: z.number().optional()
@@ -204,14 +723,89 @@ export const updateRequestStatusInputSchema = z.object({
 
 export type UpdateRequestStatusInput = z.infer<typeof updateRequestStatusInputSchema>;
 
+// Kaprodi review inputs - the Kaprodi of the student's prodi approves a draft and forwards it to the Dean
+export const approveByKaprodiInputSchema = z.object({
+  request_id: z.number(),
+  // Version of the request the caller last read; a mismatch fails with CONFLICT
+  expected_version: z.number().int(),
+  notes: z.string().optional()
+});
+
+export type ApproveByKaprodiInput = z.infer<typeof approveByKaprodiInputSchema>;
+
+export const forwardToDekanInputSchema = z.object({
+  request_id: z.number(),
+  // Version of the request the caller last read; a mismatch fails with CONFLICT
+  expected_version: z.number().int(),
+  notes: z.string().optional()
+});
+
+export type ForwardToDekanInput = z.infer<typeof forwardToDekanInputSchema>;
+
+// Fulfilment steps after signing; markDelivered is multipart because of the optional proof photo
+export const returnToProdiInputSchema = z.object({
+  request_id: z.number(),
+  // Version of the request the caller last read; a mismatch fails with CONFLICT
+  expected_version: z.number().int(),
+  notes: z.string().optional()
+});
+
+export type ReturnToProdiInput = z.infer<typeof returnToProdiInputSchema>;
+
+export const markPrintedInputSchema = z.object({
+  request_id: z.number(),
+  // Version of the request the caller last read; a mismatch fails with CONFLICT
+  expected_version: z.number().int(),
+  notes: z.string().optional()
+});
+
+export type MarkPrintedInput = z.infer<typeof markPrintedInputSchema>;
+
+export const archiveRequestInputSchema = z.object({
+  request_id: z.number(),
+  // Version of the request the caller last read; a mismatch fails with CONFLICT
+  expected_version: z.number().int(),
+  notes: z.string().optional()
+});
+
+export type ArchiveRequestInput = z.infer<typeof archiveRequestInputSchema>;
+
+// Reject request input - a reason code from the managed list plus an explanation for the creator
+export const rejectRequestInputSchema = z.object({
+  request_id: z.number(),
+  // Version of the request the caller last read; a mismatch fails with CONFLICT
+  expected_version: z.number().int(),
+  reason_code: z.string().min(1),
+  notes: z.string().trim().min(1, 'Rejection notes are required')
+});
+
+export type RejectRequestInput = z.infer<typeof rejectRequestInputSchema>;
+
+// Resubmit request input - the creator fixes a rejected request and sends it back to the Kaprodi.
+// New files are uploaded with uploadSupportingDocument beforehand.
+export const resubmitRequestInputSchema = z.object({
+  request_id: z.number(),
+  // Version of the request the caller last read; a mismatch fails with CONFLICT
+  expected_version: z.number().int(),
+  purpose: z.string().min(1).optional(),
+  remove_document_ids: z.array(z.number()).optional(),
+  notes: z.string().optional()
+});
+
+export type ResubmitRequestInput = z.infer<typeof resubmitRequestInputSchema>;
+
 // Create disposition input
 export const createDispositionInputSchema = z.object({
   request_id: z.number(),
+  // Version of the request the caller last read; a mismatch fails with CONFLICT
+  expected_version: z.number().int(),
   instructions: z.string(),
+  // Steps run in order_sequence order; assignments sharing an order_sequence work in parallel. Without
+  // assignments, the letter type's default disposition chain is used, one step per role.
   assignments: z.array(z.object({
     user_id: z.number(),
     order_sequence: z.number().int()
-  }))
+  })).min(1).optional()
 });
 
 export type CreateDispositionInput = z.infer<typeof createDispositionInputSchema>;
@@ -219,29 +813,195 @@ export type CreateDispositionInput = z.infer<typeof createDispositionInputSchema
 // Process disposition input
 export const processDispositionInputSchema = z.object({
   assignment_id: z.number(),
+  // Version of the request the caller last read; a mismatch fails with CONFLICT
+  expected_version: z.number().int(),
   notes: z.string().optional(),
   escalate: z.boolean().optional(),
+  // Recorded with an escalation; the reason defaults to the notes
+  escalation_reason: z.string().optional(),
+  escalation_category: escalationCategorySchema.optional(),
   flag_for_coordination: z.boolean().optional()
 });
 
 export type ProcessDispositionInput = z.infer<typeof processDispositionInputSchema>;
 
-// Upload final letter input
-export const uploadFinalLetterInputSchema = z.object({
+// Reassign an uncompleted disposition assignment to another officer
+export const reassignDispositionInputSchema = z.object({
+  assignment_id: z.number(),
+  // Version of the request the caller last read; a mismatch fails with CONFLICT
+  expected_version: z.number().int(),
+  user_id: z.number(),
+  notes: z.string().optional()
+});
+
+export type ReassignDispositionInput = z.infer<typeof reassignDispositionInputSchema>;
+
+// Add a step to a running disposition; an order_sequence already in use adds a parallel assignee
+export const addDispositionStepInputSchema = z.object({
   request_id: z.number(),
-  file_url: z.string()
+  // Version of the request the caller last read; a mismatch fails with CONFLICT
+  expected_version: z.number().int(),
+  user_id: z.number(),
+  order_sequence: z.number().int(),
+  // Defaults to the instructions the disposition was created with
+  instructions: z.string().optional(),
+  notes: z.string().optional()
 });
 
+export type AddDispositionStepInput = z.infer<typeof addDispositionStepInputSchema>;
+
+// Remove an uncompleted disposition assignment
+export const removeDispositionStepInputSchema = z.object({
+  assignment_id: z.number(),
+  // Version of the request the caller last read; a mismatch fails with CONFLICT
+  expected_version: z.number().int(),
+  notes: z.string().optional()
+});
+
+export type RemoveDispositionStepInput = z.infer<typeof removeDispositionStepInputSchema>;
+
+// Withdraw a running disposition; the request goes back to the Dean
+export const withdrawDispositionInputSchema = z.object({
+  request_id: z.number(),
+  // Version of the request the caller last read; a mismatch fails with CONFLICT
+  expected_version: z.number().int(),
+  notes: z.string().optional()
+});
+
+export type WithdrawDispositionInput = z.infer<typeof withdrawDispositionInputSchema>;
+
+// Resolve an open escalation; REROUTED names the officer to take over, REJECTED a rejection reason
+export const resolveEscalationInputSchema = z.object({
+  escalation_id: z.number(),
+  // Version of the request the caller last read; a mismatch fails with CONFLICT
+  expected_version: z.number().int(),
+  resolution: escalationResolutionSchema,
+  user_id: z.number().optional(),
+  reason_code: z.string().optional(),
+  notes: z.string().optional()
+});
+
+export type ResolveEscalationInput = z.infer<typeof resolveEscalationInputSchema>;
+
+// Upload final letter input
+// Multipart uploads arrive as FormData: plain fields are strings and the file part is a File
+const formDataFields = z.instanceof(FormData).transform(formData => Object.fromEntries(formData.entries()));
+
+export const uploadFinalLetterInputSchema = formDataFields.pipe(z.object({
+  request_id: z.coerce.number().int(),
+  // Version of the request the caller last read; a mismatch fails with CONFLICT
+  expected_version: z.coerce.number().int(),
+  file: z.instanceof(File), // Must be a PDF
+  change_note: z.string().optional() // What changed compared to the previous version
+}));
+
 export type UploadFinalLetterInput = z.infer<typeof uploadFinalLetterInputSchema>;
 
+// Upload supporting document input - multipart, like uploadFinalLetter
+export const uploadSupportingDocumentInputSchema = formDataFields.pipe(z.object({
+  request_id: z.coerce.number().int(),
+  document_type: z.string().optional(), // e.g. KTM; matched against the letter type's required_documents
+  file: z.instanceof(File)
+}));
+
+export type UploadSupportingDocumentInput = z.infer<typeof uploadSupportingDocumentInputSchema>;
+
+// A short-lived link to GET /files/<key> that works without the Authorization header
+export const createDownloadLinkInputSchema = z.object({
+  file_url: z.string() // files/<key>, as recorded on the document, letter version or delivery
+});
+
+export type CreateDownloadLinkInput = z.infer<typeof createDownloadLinkInputSchema>;
+
+export const downloadLinkSchema = z.object({
+  url: z.string(),
+  expires_at: z.coerce.date()
+});
+
+export type DownloadLink = z.infer<typeof downloadLinkSchema>;
+
+// Mark delivered input - multipart, like uploadFinalLetter
+export const markDeliveredInputSchema = formDataFields.pipe(z.object({
+  request_id: z.coerce.number().int(),
+  // Version of the request the caller last read; a mismatch fails with CONFLICT
+  expected_version: z.coerce.number().int(),
+  recipient_name: z.string().trim().min(1, 'Recipient name is required'),
+  delivery_method: deliveryMethodSchema,
+  proof_photo: z.instanceof(File).optional(), // JPEG, PNG or WebP
+  notes: z.string().optional()
+}));
+
+export type MarkDeliveredInput = z.infer<typeof markDeliveredInputSchema>;
+
+// Import students input - multipart; the file is a CSV or XLSX export from SIAKAD
+export const importStudentsInputSchema = formDataFields.pipe(z.object({
+  file: z.instanceof(File),
+  // Multipart fields are strings; "true" validates the file without writing anything
+  dry_run: z.enum(['true', 'false']).default('false').transform(value => value === 'true')
+}));
+
+export type ImportStudentsInput = z.infer<typeof importStudentsInputSchema>;
+
+// Create letter template input - stored as the next version for the letter type
+export const createLetterTemplateInputSchema = z.object({
+  letter_type: z.string().min(1),
+  title: z.string().min(1),
+  body: z.string().min(1) // Placeholders are written as {{student_name}}
+});
+
+export type CreateLetterTemplateInput = z.infer<typeof createLetterTemplateInputSchema>;
+
+// Generate final letter input - renders the latest template for the request's letter type
+export const generateFinalLetterInputSchema = z.object({
+  request_id: z.number(),
+  // Version of the request the caller last read; a mismatch fails with CONFLICT
+  expected_version: z.number().int(),
+  change_note: z.string().optional() // What changed compared to the previous version
+});
+
+export type GenerateFinalLetterInput = z.infer<typeof generateFinalLetterInputSchema>;
+
+// Restore letter version input - makes an earlier final letter the current one again
+export const restoreLetterVersionInputSchema = z.object({
+  request_id: z.number(),
+  // Version of the request the caller last read; a mismatch fails with CONFLICT
+  expected_version: z.number().int(),
+  letter_version_id: z.number(),
+  change_note: z.string().optional()
+});
+
+export type RestoreLetterVersionInput = z.infer<typeof restoreLetterVersionInputSchema>;
+
+// Configure letter number format input - letter_type null sets the faculty default
+export const configureLetterNumberFormatInputSchema = z.object({
+  letter_type: z.string().min(1).nullable(),
+  unit_code: z.string().min(1), // e.g. UN1.FT
+  classification_code: z.string().min(1), // e.g. KM
+  pattern: z.string().min(1).optional(), // Defaults to {seq}/{unit}/{code}/{year}
+  reset_period: numberResetPeriodSchema.optional()
+});
+
+export type ConfigureLetterNumberFormatInput = z.infer<typeof configureLetterNumberFormatInputSchema>;
+
 // Sign letter input
 export const signLetterInputSchema = z.object({
   request_id: z.number(),
-  signature_data: z.string() // Could be digital signature hash or similar
+  // Version of the request the caller last read; a mismatch fails with CONFLICT
+  expected_version: z.number().int()
 });
 
 export type SignLetterInput = z.infer<typeof signLetterInputSchema>;
 
+// Request revision input - the Dean sends the final letter back to the officer who prepared it
+export const requestRevisionInputSchema = z.object({
+  request_id: z.number(),
+  // Version of the request the caller last read; a mismatch fails with CONFLICT
+  expected_version: z.number().int(),
+  comments: z.string().trim().min(1, 'Revision comments are required')
+});
+
+export type RequestRevisionInput = z.infer<typeof requestRevisionInputSchema>;
+
 // Add tracking log input
 export const addTrackingLogInputSchema = z.object({
   request_id: z.number(),
@@ -254,6 +1014,15 @@ export const addTrackingLogInputSchema = z.object({
 
 export type AddTrackingLogInput = z.infer<typeof addTrackingLogInputSchema>;
 
+// Allowed status transition for the acting user, used by the UI to only offer legal actions
+export const allowedTransitionSchema = z.object({
+  from: requestStatusSchema,
+  to: requestStatusSchema,
+  action_type: actionTypeSchema
+});
+
+export type AllowedTransition = z.infer<typeof allowedTransitionSchema>;
+
 // Get requests filter input
 export const getRequestsFilterSchema = z.object({
   status: requestStatusSchema.optional(),
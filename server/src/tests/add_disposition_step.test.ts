@@ -0,0 +1,167 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, studentsTable, letterRequestsTable, trackingLogsTable } from '../db/schema';
+import { createDisposition } from '../handlers/create_disposition';
+import { processDisposition } from '../handlers/process_disposition';
+import { addDispositionStep } from '../handlers/add_disposition_step';
+import { asc, eq } from 'drizzle-orm';
+
+describe('addDispositionStep', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let dekanUser: any;
+  let wd1User: any;
+  let kaurUser: any;
+  let keuanganUser: any;
+  let letterRequest: any;
+  let assignments: any[];
+
+  beforeEach(async () => {
+    let staffUser: any;
+    [dekanUser, wd1User, kaurUser, keuanganUser, staffUser] = await db.insert(usersTable)
+      .values([
+        { email: 'dekan@university.edu', name: 'Dekan Faculty', role: 'DEKAN', prodi: null },
+        { email: 'wd1@university.edu', name: 'WD1 Officer', role: 'WD1', prodi: null },
+        { email: 'kaur@university.edu', name: 'Kaur Akademik', role: 'KAUR_AKADEMIK', prodi: null },
+        { email: 'keuangan@university.edu', name: 'Kaur Keuangan', role: 'KAUR_KEUANGAN', prodi: null },
+        { email: 'staff@university.edu', name: 'Staff Prodi', role: 'STAFF_PRODI', prodi: 'Teknik Informatika' }
+      ])
+      .returning()
+      .execute();
+
+    const students = await db.insert(studentsTable)
+      .values({ nim: '123456789', name: 'Test Student', prodi: 'Teknik Informatika' })
+      .returning()
+      .execute();
+
+    const requests = await db.insert(letterRequestsTable)
+      .values({
+        student_id: students[0].id,
+        created_by_user_id: staffUser.id,
+        letter_type: 'Surat Keterangan Aktif',
+        purpose: 'Keperluan beasiswa',
+        priority: 'NORMAL',
+        status: 'FORWARDED_TO_DEKAN',
+        current_handler_user_id: dekanUser.id
+      })
+      .returning()
+      .execute();
+    letterRequest = requests[0];
+
+    assignments = await createDisposition({
+      request_id: letterRequest.id,
+      expected_version: 1,
+      instructions: 'Please check the academic record',
+      assignments: [
+        { user_id: wd1User.id, order_sequence: 1 },
+        { user_id: kaurUser.id, order_sequence: 2 }
+      ]
+    }, dekanUser.id);
+  });
+
+  const loadRequest = async () => {
+    const requests = await db.select()
+      .from(letterRequestsTable)
+      .where(eq(letterRequestsTable.id, letterRequest.id))
+      .execute();
+    return requests[0];
+  };
+
+  it('should add a later step without touching the step in progress', async () => {
+    const result = await addDispositionStep({
+      request_id: letterRequest.id,
+      expected_version: 2,
+      user_id: keuanganUser.id,
+      order_sequence: 3
+    }, dekanUser.id);
+
+    expect(result.assigned_to_user_id).toEqual(keuanganUser.id);
+    expect(result.assigned_by_user_id).toEqual(dekanUser.id);
+    expect(result.order_sequence).toEqual(3);
+    expect(result.instructions).toEqual('Please check the academic record');
+
+    const request = await loadRequest();
+    expect(request.status).toEqual('DISPOSISI_TO_WD1');
+    expect(request.current_handler_user_id).toEqual(wd1User.id);
+
+    const logs = await db.select()
+      .from(trackingLogsTable)
+      .where(eq(trackingLogsTable.letter_request_id, letterRequest.id))
+      .orderBy(asc(trackingLogsTable.id))
+      .execute();
+
+    const log = logs[logs.length - 1];
+    expect(log.action_type).toEqual('DISPOSISI_AMENDED');
+    expect(log.description).toEqual('Disposition step 3 added for Kaur Keuangan');
+    expect(log.previous_status).toEqual('DISPOSISI_TO_WD1');
+    expect(log.new_status).toEqual('DISPOSISI_TO_WD1');
+  });
+
+  it('should make the step in progress parallel when joining it', async () => {
+    await addDispositionStep({
+      request_id: letterRequest.id,
+      expected_version: 2,
+      user_id: keuanganUser.id,
+      order_sequence: 1,
+      instructions: 'Check the tuition payments'
+    }, dekanUser.id);
+
+    const request = await loadRequest();
+    expect(request.status).toEqual('DISPOSISI_PARALLEL');
+    expect(request.current_handler_user_id).toBeNull();
+    expect(request.parallel_handler_user_ids.sort()).toEqual([wd1User.id, keuanganUser.id].sort());
+  });
+
+  it('should reopen the disposition after the last step was processed', async () => {
+    await processDisposition({ assignment_id: assignments[0].id, expected_version: 2 }, wd1User.id);
+    await processDisposition({ assignment_id: assignments[1].id, expected_version: 3 }, kaurUser.id);
+    expect((await loadRequest()).status).toEqual('PROCESSED_BY_KAUR_AKADEMIK');
+
+    await addDispositionStep({
+      request_id: letterRequest.id,
+      expected_version: 4,
+      user_id: keuanganUser.id,
+      order_sequence: 3
+    }, dekanUser.id);
+
+    const request = await loadRequest();
+    expect(request.status).toEqual('DISPOSISI_TO_KAUR_KEUANGAN');
+    expect(request.current_handler_user_id).toEqual(keuanganUser.id);
+  });
+
+  it('should reject steps before the one in progress', async () => {
+    await processDisposition({ assignment_id: assignments[0].id, expected_version: 2 }, wd1User.id);
+
+    await expect(addDispositionStep({
+      request_id: letterRequest.id,
+      expected_version: 3,
+      user_id: keuanganUser.id,
+      order_sequence: 1
+    }, dekanUser.id)).rejects.toThrow(/Disposition step 1 cannot be added before step 2/);
+  });
+
+  it('should reject a user already in the step', async () => {
+    await expect(addDispositionStep({
+      request_id: letterRequest.id,
+      expected_version: 2,
+      user_id: kaurUser.id,
+      order_sequence: 2
+    }, dekanUser.id)).rejects.toThrow(/Kaur Akademik is assigned twice in disposition step 2/);
+  });
+
+  it('should reject requests that are not in disposition', async () => {
+    await db.update(letterRequestsTable)
+      .set({ status: 'TTD_READY' })
+      .where(eq(letterRequestsTable.id, letterRequest.id))
+      .execute();
+
+    await expect(addDispositionStep({
+      request_id: letterRequest.id,
+      expected_version: 2,
+      user_id: keuanganUser.id,
+      order_sequence: 3
+    }, dekanUser.id)).rejects.toThrow(/Letter request is not in disposition. Current status: TTD_READY/);
+  });
+});
@@ -0,0 +1,229 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  studentsTable,
+  letterTypesTable,
+  letterRequestsTable,
+  letterNumberFormatsTable,
+  letterSignaturesTable,
+  letterTemplatesTable,
+  letterVersionsTable,
+  supportingDocumentsTable,
+  trackingLogsTable
+} from '../db/schema';
+import { approveByKaprodi } from '../handlers/approve_by_kaprodi';
+import { eq } from 'drizzle-orm';
+
+process.env['SIGNING_KEY_SECRET'] = 'test-signing-key-secret';
+
+describe('approveByKaprodi', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let studentUser: any;
+  let staffUser: any;
+  let kaprodiUser: any;
+  let otherKaprodiUser: any;
+  let student: any;
+  let letterRequest: any;
+
+  beforeEach(async () => {
+    [studentUser, staffUser, kaprodiUser, otherKaprodiUser] = await db.insert(usersTable)
+      .values([
+        { email: 'siti@student.university.edu', name: 'Siti Rahma', role: 'STUDENT' },
+        { email: 'staff@university.edu', name: 'Staff Prodi', role: 'STAFF_PRODI', prodi: 'Informatika' },
+        { email: 'kaprodi@university.edu', name: 'Kaprodi IF', role: 'KAPRODI', prodi: 'Informatika' },
+        { email: 'kaprodi.si@university.edu', name: 'Kaprodi SI', role: 'KAPRODI', prodi: 'Sistem Informasi' }
+      ])
+      .returning()
+      .execute();
+
+    [student] = await db.insert(studentsTable)
+      .values({ nim: '2021001', name: 'Siti Rahma', prodi: 'Informatika' })
+      .returning()
+      .execute();
+
+    await db.insert(letterTypesTable)
+      .values([
+        { code: 'SKAK', name: 'Surat Keterangan Aktif Kuliah' },
+        { code: 'SPP', name: 'Surat Pengantar Penelitian', prodi_level_only: true },
+        { code: 'SR', name: 'Surat Rekomendasi', required_documents: ['KTM', 'TRANSKRIP'] }
+      ])
+      .execute();
+
+    [letterRequest] = await db.insert(letterRequestsTable)
+      .values({
+        student_id: student.id,
+        created_by_user_id: staffUser.id,
+        letter_type: 'SKAK',
+        purpose: 'Beasiswa',
+        priority: 'NORMAL',
+        status: 'DRAFT',
+        current_handler_user_id: kaprodiUser.id
+      })
+      .returning()
+      .execute();
+  });
+
+  it('should approve a draft and keep it with the Kaprodi', async () => {
+    const result = await approveByKaprodi({
+      request_id: letterRequest.id,
+      expected_version: letterRequest.version,
+      notes: 'Documents complete'
+    }, kaprodiUser.id);
+
+    expect(result.status).toEqual('APPROVED_KAPRODI');
+    expect(result.current_handler_user_id).toEqual(kaprodiUser.id);
+    expect(result.version).toEqual(letterRequest.version + 1);
+
+    const logs = await db.select()
+      .from(trackingLogsTable)
+      .where(eq(trackingLogsTable.letter_request_id, letterRequest.id))
+      .execute();
+
+    expect(logs).toHaveLength(1);
+    expect(logs[0].action_type).toEqual('APPROVED');
+    expect(logs[0].description).toEqual('Letter request approved by Kaprodi');
+    expect(logs[0].notes).toEqual('Documents complete');
+    expect(logs[0].previous_status).toEqual('DRAFT');
+    expect(logs[0].new_status).toEqual('APPROVED_KAPRODI');
+  });
+
+  describe('prodi-level letters', () => {
+    let prodiLetter: any;
+
+    beforeEach(async () => {
+      [prodiLetter] = await db.insert(letterRequestsTable)
+        .values({
+          student_id: student.id,
+          created_by_user_id: studentUser.id,
+          letter_type: 'SPP',
+          purpose: 'Penelitian skripsi',
+          priority: 'NORMAL',
+          status: 'DRAFT',
+          current_handler_user_id: kaprodiUser.id
+        })
+        .returning()
+        .execute();
+
+      await db.insert(letterNumberFormatsTable)
+        .values({ letter_type: null, unit_code: 'UN1.IF', classification_code: 'PP', pattern: '{seq}/{unit}/{code}/{year}' })
+        .execute();
+    });
+
+    const addTemplate = () => db.insert(letterTemplatesTable)
+      .values({
+        letter_type: 'SPP',
+        version: 1,
+        title: 'SURAT PENGANTAR PENELITIAN',
+        body: 'Yang bertanda tangan di bawah ini menerangkan bahwa {{student_name}} ({{student_nim}}) akan melakukan penelitian.',
+        created_by_user_id: kaprodiUser.id
+      })
+      .execute();
+
+    it('should issue a numbered letter signed by the Kaprodi and return it to the prodi staff', async () => {
+      await addTemplate();
+
+      const result = await approveByKaprodi({
+        request_id: prodiLetter.id,
+        expected_version: prodiLetter.version
+      }, kaprodiUser.id);
+
+      expect(result.status).toEqual('RETURNED_TO_PRODI');
+      expect(result.current_handler_user_id).toEqual(staffUser.id);
+      expect(result.letter_number).toEqual(`1/UN1.IF/PP/${new Date().getFullYear()}`);
+      expect(result.final_letter_url).toMatch(/^generated-letters\/\d+$/);
+      expect(result.verification_token).not.toBeNull();
+
+      const versions = await db.select().from(letterVersionsTable).where(eq(letterVersionsTable.letter_request_id, prodiLetter.id)).execute();
+      expect(versions).toHaveLength(1);
+      expect(result.current_letter_version_id).toEqual(versions[0].id);
+
+      const signatures = await db.select().from(letterSignaturesTable).where(eq(letterSignaturesTable.letter_request_id, prodiLetter.id)).execute();
+      expect(signatures).toHaveLength(1);
+      expect(signatures[0].signer_user_id).toEqual(kaprodiUser.id);
+      expect(signatures[0].letter_number).toEqual(result.letter_number!);
+
+      const logs = await db.select()
+        .from(trackingLogsTable)
+        .where(eq(trackingLogsTable.letter_request_id, prodiLetter.id))
+        .execute();
+      expect(logs.map(log => [log.action_type, log.new_status])).toEqual([
+        ['APPROVED', 'RETURNED_TO_PRODI'],
+        ['SIGNED', 'RETURNED_TO_PRODI']
+      ]);
+    });
+
+    it('should leave the draft untouched when the letter type has no template', async () => {
+      await expect(approveByKaprodi({ request_id: prodiLetter.id, expected_version: prodiLetter.version }, kaprodiUser.id))
+        .rejects.toThrow('No letter template found for letter type: SPP');
+
+      const request = await db.select().from(letterRequestsTable).where(eq(letterRequestsTable.id, prodiLetter.id)).execute();
+      expect(request[0].status).toEqual('DRAFT');
+      expect(request[0].letter_number).toBeNull();
+    });
+  });
+
+  it('should only approve drafts whose accepted uploads cover the required documents', async () => {
+    await db.update(letterRequestsTable)
+      .set({ letter_type: 'SR' })
+      .where(eq(letterRequestsTable.id, letterRequest.id))
+      .execute();
+
+    const addDocument = (documentType: string, status: 'ACCEPTED' | 'QUARANTINED') => db.insert(supportingDocumentsTable)
+      .values({
+        letter_request_id: letterRequest.id,
+        file_name: `${documentType.toLowerCase()}.pdf`,
+        file_url: `files/requests/${letterRequest.id}/documents/${documentType.toLowerCase()}.pdf`,
+        document_type: documentType,
+        status,
+        uploaded_by_user_id: staffUser.id
+      })
+      .execute();
+
+    // A quarantined upload does not count
+    await addDocument('KTM', 'ACCEPTED');
+    await addDocument('TRANSKRIP', 'QUARANTINED');
+
+    await expect(approveByKaprodi({ request_id: letterRequest.id, expected_version: letterRequest.version }, kaprodiUser.id))
+      .rejects.toThrow(/Missing required supporting documents for SR: TRANSKRIP/);
+
+    await addDocument('TRANSKRIP', 'ACCEPTED');
+
+    const result = await approveByKaprodi({ request_id: letterRequest.id, expected_version: letterRequest.version }, kaprodiUser.id);
+    expect(result.status).toEqual('APPROVED_KAPRODI');
+  });
+
+  it('should only accept the Kaprodi of the student prodi', async () => {
+    await expect(approveByKaprodi({
+      request_id: letterRequest.id,
+      expected_version: letterRequest.version
+    }, otherKaprodiUser.id)).rejects.toThrow(/Only the Kaprodi of Informatika can review this request/);
+
+    await expect(approveByKaprodi({
+      request_id: letterRequest.id,
+      expected_version: letterRequest.version
+    }, staffUser.id)).rejects.toThrow(/Only the Kaprodi of Informatika/);
+  });
+
+  it('should only approve drafts', async () => {
+    const approved = await approveByKaprodi({
+      request_id: letterRequest.id,
+      expected_version: letterRequest.version
+    }, kaprodiUser.id);
+
+    await expect(approveByKaprodi({
+      request_id: letterRequest.id,
+      expected_version: approved.version
+    }, kaprodiUser.id)).rejects.toThrow(/Cannot approve request in status: APPROVED_KAPRODI/);
+  });
+
+  it('should fail with a conflict on a stale version', async () => {
+    await expect(approveByKaprodi({
+      request_id: letterRequest.id,
+      expected_version: letterRequest.version + 1
+    }, kaprodiUser.id)).rejects.toThrow(/version/i);
+  });
+});
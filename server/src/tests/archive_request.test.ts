@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, studentsTable, letterRequestsTable, trackingLogsTable } from '../db/schema';
+import { archiveRequest } from '../handlers/archive_request';
+import { eq } from 'drizzle-orm';
+
+describe('archiveRequest', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let adminUser: any;
+  let staffProdi: any;
+  let kaprodiUser: any;
+  let letterRequest: any;
+
+  beforeEach(async () => {
+    [adminUser, staffProdi, kaprodiUser] = await db.insert(usersTable)
+      .values([
+        { email: 'admin@university.edu', name: 'Admin', role: 'ADMIN', prodi: null },
+        { email: 'prodi@university.edu', name: 'Staff Prodi', role: 'STAFF_PRODI', prodi: 'Informatika' },
+        { email: 'kaprodi@university.edu', name: 'Kaprodi', role: 'KAPRODI', prodi: 'Informatika' }
+      ])
+      .returning()
+      .execute();
+
+    const students = await db.insert(studentsTable)
+      .values({ nim: '123456789', name: 'Test Student', prodi: 'Informatika' })
+      .returning()
+      .execute();
+
+    const requests = await db.insert(letterRequestsTable)
+      .values({
+        student_id: students[0].id,
+        created_by_user_id: staffProdi.id,
+        letter_type: 'Surat Keterangan Aktif',
+        purpose: 'Keperluan beasiswa',
+        priority: 'NORMAL',
+        status: 'DELIVERED',
+        current_handler_user_id: staffProdi.id
+      })
+      .returning()
+      .execute();
+    letterRequest = requests[0];
+  });
+
+  it('should archive a delivered request and release its handler', async () => {
+    const result = await archiveRequest({ request_id: letterRequest.id, expected_version: 1 }, staffProdi.id);
+
+    expect(result.status).toEqual('ARCHIVED');
+    expect(result.current_handler_user_id).toBeNull();
+    expect(result.version).toEqual(2);
+
+    const logs = await db.select()
+      .from(trackingLogsTable)
+      .where(eq(trackingLogsTable.letter_request_id, letterRequest.id))
+      .execute();
+
+    expect(logs).toHaveLength(1);
+    expect(logs[0].action_type).toEqual('ARCHIVED');
+    expect(logs[0].previous_status).toEqual('DELIVERED');
+    expect(logs[0].new_status).toEqual('ARCHIVED');
+    expect(logs[0].description).toEqual('Delivered letter request archived');
+  });
+
+  it('should let an admin archive a rejected request', async () => {
+    await db.update(letterRequestsTable)
+      .set({ status: 'REJECTED' })
+      .where(eq(letterRequestsTable.id, letterRequest.id))
+      .execute();
+
+    const result = await archiveRequest({ request_id: letterRequest.id, expected_version: 1, notes: 'Student withdrew' }, adminUser.id);
+
+    expect(result.status).toEqual('ARCHIVED');
+
+    const logs = await db.select()
+      .from(trackingLogsTable)
+      .where(eq(trackingLogsTable.letter_request_id, letterRequest.id))
+      .execute();
+
+    expect(logs[0].description).toEqual('Rejected letter request archived');
+    expect(logs[0].notes).toEqual('Student withdrew');
+  });
+
+  it('should not archive requests still in progress', async () => {
+    await db.update(letterRequestsTable)
+      .set({ status: 'PRINTED' })
+      .where(eq(letterRequestsTable.id, letterRequest.id))
+      .execute();
+
+    await expect(archiveRequest({ request_id: letterRequest.id, expected_version: 1 }, staffProdi.id))
+      .rejects.toThrow(/Cannot archive request in status: PRINTED \(attempted ARCHIVED\)/);
+  });
+
+  it('should not let other roles archive', async () => {
+    await expect(archiveRequest({ request_id: letterRequest.id, expected_version: 1 }, kaprodiUser.id))
+      .rejects.toThrow(/Role KAPRODI cannot move a request from DELIVERED to ARCHIVED/);
+  });
+});
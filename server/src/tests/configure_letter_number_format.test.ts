@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { letterNumberFormatsTable, letterTypesTable } from '../db/schema';
+import { configureLetterNumberFormat } from '../handlers/configure_letter_number_format';
+
+describe('configureLetterNumberFormat', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    await db.insert(letterTypesTable)
+      .values({ code: 'SR', name: 'Surat Rekomendasi' })
+      .execute();
+  });
+
+  it('should create the faculty default format with the default pattern', async () => {
+    const result = await configureLetterNumberFormat({
+      letter_type: null,
+      unit_code: 'UN1.FT',
+      classification_code: 'KM'
+    });
+
+    expect(result.letter_type).toBeNull();
+    expect(result.pattern).toEqual('{seq}/{unit}/{code}/{year}');
+    expect(result.reset_period).toEqual('YEARLY');
+  });
+
+  it('should replace the existing format of a letter type', async () => {
+    const first = await configureLetterNumberFormat({
+      letter_type: 'SR',
+      unit_code: 'UN1.FT',
+      classification_code: 'KM'
+    });
+
+    const second = await configureLetterNumberFormat({
+      letter_type: 'SR',
+      unit_code: 'UN1.FT',
+      classification_code: 'PP',
+      pattern: '{seq}/{unit}/{code}/{month_roman}/{year}',
+      reset_period: 'MONTHLY'
+    });
+
+    expect(second.id).toEqual(first.id);
+    expect(second.classification_code).toEqual('PP');
+    expect(second.reset_period).toEqual('MONTHLY');
+
+    const formats = await db.select().from(letterNumberFormatsTable).execute();
+    expect(formats).toHaveLength(1);
+  });
+
+  it('should keep the default and type-specific formats apart', async () => {
+    await configureLetterNumberFormat({ letter_type: null, unit_code: 'UN1.FT', classification_code: 'KM' });
+    await configureLetterNumberFormat({ letter_type: null, unit_code: 'UN1.FT', classification_code: 'TU' });
+    await configureLetterNumberFormat({ letter_type: 'SR', unit_code: 'UN1.FT', classification_code: 'PP' });
+
+    const formats = await db.select().from(letterNumberFormatsTable).execute();
+    expect(formats).toHaveLength(2);
+    expect(formats.find(format => format.letter_type === null)!.classification_code).toEqual('TU');
+    expect(formats.find(format => format.letter_type === 'SR')!.classification_code).toEqual('PP');
+  });
+
+  it('should key formats by the catalog code requests use', async () => {
+    const result = await configureLetterNumberFormat({ letter_type: 'sr', unit_code: 'UN1.FT', classification_code: 'PP' });
+
+    expect(result.letter_type).toEqual('SR');
+
+    await expect(configureLetterNumberFormat({ letter_type: 'Surat Rekomendasi', unit_code: 'UN1.FT', classification_code: 'PP' }))
+      .rejects.toThrow(/Unknown letter type: Surat Rekomendasi/);
+  });
+
+  it('should reject patterns with unknown tokens or without a sequence', async () => {
+    await expect(configureLetterNumberFormat({
+      letter_type: null,
+      unit_code: 'UN1.FT',
+      classification_code: 'KM',
+      pattern: '{unit}/{code}/{yaer}'
+    })).rejects.toThrow(/unknown tokens: yaer; the pattern must contain \{seq\}/i);
+
+    const formats = await db.select().from(letterNumberFormatsTable).execute();
+    expect(formats).toHaveLength(0);
+  });
+});
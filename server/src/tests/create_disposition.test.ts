@@ -6,11 +6,12 @@ import {
   studentsTable,
   letterRequestsTable, 
   dispositionAssignmentsTable,
+  letterTypesTable,
   trackingLogsTable 
 } from '../db/schema';
 import { type CreateDispositionInput } from '../schema';
 import { createDisposition } from '../handlers/create_disposition';
-import { eq } from 'drizzle-orm';
+import { asc, eq } from 'drizzle-orm';
 
 describe('createDisposition', () => {
   beforeEach(createDB);
@@ -19,6 +20,7 @@ describe('createDisposition', () => {
   let dekanUser: any;
   let wd1User: any;
   let kabagtUser: any;
+  let staffUser: any;
   let student: any;
   let letterRequest: any;
 
@@ -57,7 +59,7 @@ describe('createDisposition', () => {
     dekanUser = users[0];
     wd1User = users[1];
     kabagtUser = users[2];
-    const staffUser = users[3];
+    staffUser = users[3];
 
     // Create test student
     const students = await db.insert(studentsTable)
@@ -91,6 +93,7 @@ describe('createDisposition', () => {
   it('should create disposition assignments successfully', async () => {
     const input: CreateDispositionInput = {
       request_id: letterRequest.id,
+      expected_version: 1,
       instructions: 'Please process this letter request according to university procedures',
       assignments: [
         {
@@ -124,6 +127,7 @@ describe('createDisposition', () => {
   it('should update letter request status and handler correctly', async () => {
     const input: CreateDispositionInput = {
       request_id: letterRequest.id,
+      expected_version: 1,
       instructions: 'Process with high priority',
       assignments: [
         {
@@ -150,6 +154,7 @@ describe('createDisposition', () => {
   it('should create tracking log entry', async () => {
     const input: CreateDispositionInput = {
       request_id: letterRequest.id,
+      expected_version: 1,
       instructions: 'Handle with care',
       assignments: [
         {
@@ -179,6 +184,7 @@ describe('createDisposition', () => {
   it('should reject if user is not Dekan', async () => {
     const input: CreateDispositionInput = {
       request_id: letterRequest.id,
+      expected_version: 1,
       instructions: 'Test instructions',
       assignments: [
         {
@@ -194,6 +200,7 @@ describe('createDisposition', () => {
   it('should reject if letter request not found', async () => {
     const input: CreateDispositionInput = {
       request_id: 99999,
+      expected_version: 1,
       instructions: 'Test instructions',
       assignments: [
         {
@@ -209,6 +216,7 @@ describe('createDisposition', () => {
   it('should reject if assigned user does not exist', async () => {
     const input: CreateDispositionInput = {
       request_id: letterRequest.id,
+      expected_version: 1,
       instructions: 'Test instructions',
       assignments: [
         {
@@ -224,6 +232,7 @@ describe('createDisposition', () => {
   it('should save disposition assignments to database', async () => {
     const input: CreateDispositionInput = {
       request_id: letterRequest.id,
+      expected_version: 1,
       instructions: 'Database persistence test',
       assignments: [
         {
@@ -256,6 +265,7 @@ describe('createDisposition', () => {
   it('should handle multiple assignments in correct sequence', async () => {
     const input: CreateDispositionInput = {
       request_id: letterRequest.id,
+      expected_version: 1,
       instructions: 'Sequential processing required',
       assignments: [
         {
@@ -287,4 +297,107 @@ describe('createDisposition', () => {
     expect(updatedRequest[0].status).toEqual('DISPOSISI_TO_WD1');
     expect(updatedRequest[0].current_handler_user_id).toEqual(wd1User.id);
   });
-});
\ No newline at end of file
+
+  it('should start assignments sharing an order_sequence in parallel', async () => {
+    const input: CreateDispositionInput = {
+      request_id: letterRequest.id,
+      expected_version: 1,
+      instructions: 'Review together',
+      assignments: [
+        { user_id: wd1User.id, order_sequence: 1 },
+        { user_id: kabagtUser.id, order_sequence: 1 }
+      ]
+    };
+
+    await createDisposition(input, dekanUser.id);
+
+    const updatedRequest = await db.select()
+      .from(letterRequestsTable)
+      .where(eq(letterRequestsTable.id, letterRequest.id))
+      .execute();
+
+    expect(updatedRequest[0].status).toEqual('DISPOSISI_PARALLEL');
+    expect(updatedRequest[0].current_handler_user_id).toBeNull();
+    expect(updatedRequest[0].parallel_handler_user_ids.sort()).toEqual([wd1User.id, kabagtUser.id].sort());
+
+    const logs = await db.select()
+      .from(trackingLogsTable)
+      .where(eq(trackingLogsTable.letter_request_id, letterRequest.id))
+      .execute();
+
+    expect(logs[0].new_status).toEqual('DISPOSISI_PARALLEL');
+    expect(logs[0].description).toContain('work in parallel first');
+  });
+
+  it('should reject assignments to users without a disposition role', async () => {
+    const input: CreateDispositionInput = {
+      request_id: letterRequest.id,
+      expected_version: 1,
+      instructions: 'Test instructions',
+      assignments: [
+        { user_id: wd1User.id, order_sequence: 1 },
+        { user_id: staffUser.id, order_sequence: 1 }
+      ]
+    };
+
+    await expect(createDisposition(input, dekanUser.id)).rejects.toThrow(/Invalid role for disposition assignment: STAFF_PRODI/);
+
+    const savedAssignments = await db.select()
+      .from(dispositionAssignmentsTable)
+      .where(eq(dispositionAssignmentsTable.letter_request_id, letterRequest.id))
+      .execute();
+
+    expect(savedAssignments).toHaveLength(0);
+  });
+
+  it('should reject a user assigned twice in the same step', async () => {
+    const input: CreateDispositionInput = {
+      request_id: letterRequest.id,
+      expected_version: 1,
+      instructions: 'Test instructions',
+      assignments: [
+        { user_id: wd1User.id, order_sequence: 1 },
+        { user_id: wd1User.id, order_sequence: 1 }
+      ]
+    };
+
+    await expect(createDisposition(input, dekanUser.id)).rejects.toThrow(/WD1 Officer is assigned twice in disposition step 1/);
+  });
+
+  it('should follow the letter type default chain when no assignments are given', async () => {
+    await db.insert(letterTypesTable)
+      .values({ code: 'SKA', name: 'Surat Keterangan Aktif', default_disposition_chain: ['KABAG_TU', 'WD1'] })
+      .execute();
+    await db.update(letterRequestsTable).set({ letter_type: 'SKA' }).where(eq(letterRequestsTable.id, letterRequest.id)).execute();
+
+    await createDisposition({ request_id: letterRequest.id, expected_version: 1, instructions: 'Proses sesuai prosedur' }, dekanUser.id);
+
+    const assignments = await db.select()
+      .from(dispositionAssignmentsTable)
+      .orderBy(asc(dispositionAssignmentsTable.order_sequence))
+      .execute();
+    expect(assignments.map(assignment => [assignment.assigned_to_user_id, assignment.order_sequence])).toEqual([
+      [kabagtUser.id, 1],
+      [wd1User.id, 2]
+    ]);
+
+    const request = await db.select().from(letterRequestsTable).where(eq(letterRequestsTable.id, letterRequest.id)).execute();
+    expect(request[0].status).toEqual('DISPOSISI_TO_KABAG_TU');
+    expect(request[0].current_handler_user_id).toEqual(kabagtUser.id);
+  });
+
+  it('should require assignments when the letter type has no default chain', async () => {
+    await expect(createDisposition({ request_id: letterRequest.id, expected_version: 1, instructions: 'Test instructions' }, dekanUser.id))
+      .rejects.toThrow(/Letter type SURAT KETERANGAN AKTIF has no default disposition chain/);
+  });
+
+  it('should reject a default chain with a role nobody holds', async () => {
+    await db.insert(letterTypesTable)
+      .values({ code: 'SKA', name: 'Surat Keterangan Aktif', default_disposition_chain: ['WD3'] })
+      .execute();
+    await db.update(letterRequestsTable).set({ letter_type: 'SKA' }).where(eq(letterRequestsTable.id, letterRequest.id)).execute();
+
+    await expect(createDisposition({ request_id: letterRequest.id, expected_version: 1, instructions: 'Test instructions' }, dekanUser.id))
+      .rejects.toThrow(/No WD3 user found for the default disposition chain of SKA/);
+  });
+});
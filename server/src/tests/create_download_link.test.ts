@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, studentsTable, letterRequestsTable } from '../db/schema';
+import { createDownloadLink } from '../handlers/create_download_link';
+import { uploadSupportingDocument } from '../handlers/upload_supporting_document';
+import { verifyDownloadLink } from '../lib/storage';
+import { PDFDocument } from 'pdf-lib';
+import { rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+const storageDir = join(tmpdir(), 'create-download-link-test');
+const pdfBytes = Buffer.from(await (await PDFDocument.create()).save());
+
+// The storage key and query of a signed link
+const parseLink = (url: string) => {
+  const parsed = new URL(url, 'http://localhost/');
+  return { key: decodeURIComponent(parsed.pathname.replace(/^\/files\//, '')), query: parsed.searchParams };
+};
+
+describe('createDownloadLink', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(() => {
+    process.env['STORAGE_LOCAL_DIR'] = storageDir;
+  });
+  afterEach(() => rm(storageDir, { recursive: true, force: true }));
+
+  let staffUser: any;
+  let otherProdiUser: any;
+  let document: any;
+
+  beforeEach(async () => {
+    [staffUser, otherProdiUser] = await db.insert(usersTable)
+      .values([
+        { email: 'staff@test.com', name: 'Staff Prodi', role: 'STAFF_PRODI', prodi: 'Informatika' },
+        { email: 'kaprodi.si@test.com', name: 'Kaprodi SI', role: 'KAPRODI', prodi: 'Sistem Informasi' }
+      ])
+      .returning()
+      .execute();
+
+    const [student] = await db.insert(studentsTable)
+      .values({ nim: 'TEST001', name: 'Test Student', prodi: 'Informatika' })
+      .returning()
+      .execute();
+
+    const [letterRequest] = await db.insert(letterRequestsTable)
+      .values({
+        student_id: student.id,
+        created_by_user_id: staffUser.id,
+        letter_type: 'SKA',
+        purpose: 'Beasiswa',
+        priority: 'NORMAL',
+        status: 'DRAFT',
+        current_handler_user_id: staffUser.id
+      })
+      .returning()
+      .execute();
+
+    document = await uploadSupportingDocument(
+      { request_id: letterRequest.id, file: new File([pdfBytes], 'ktm.pdf', { type: 'application/pdf' }) },
+      staffUser.id
+    );
+  });
+
+  it('should sign a short-lived link for the user', async () => {
+    const link = await createDownloadLink({ file_url: document.file_url }, staffUser.id);
+
+    expect(link.url.startsWith(`${document.file_url}?`)).toBe(true);
+    expect(link.expires_at.getTime()).toBeGreaterThan(Date.now());
+    expect(link.expires_at.getTime()).toBeLessThanOrEqual(Date.now() + 300 * 1000);
+
+    const { key, query } = parseLink(link.url);
+    expect(key).toEqual(document.storage_key);
+    expect(verifyDownloadLink(key, query)).toEqual(staffUser.id);
+  });
+
+  it('should not accept an altered or expired link', async () => {
+    const link = await createDownloadLink({ file_url: document.file_url }, staffUser.id);
+    const { key, query } = parseLink(link.url);
+
+    const otherUser = new URLSearchParams(query);
+    otherUser.set('user', String(otherProdiUser.id));
+    expect(verifyDownloadLink(key, otherUser)).toBeNull();
+    expect(verifyDownloadLink(`${key}.other`, query)).toBeNull();
+
+    const later = new Date(link.expires_at.getTime() + 1000);
+    expect(verifyDownloadLink(key, query, later)).toBeNull();
+  });
+
+  it('should refuse files the user may not read', async () => {
+    await expect(createDownloadLink({ file_url: document.file_url }, otherProdiUser.id))
+      .rejects.toThrow(`File not found: ${document.file_url}`);
+  });
+
+  it('should refuse URLs that are not stored files', async () => {
+    await expect(createDownloadLink({ file_url: 'generated-letters/1' }, staffUser.id))
+      .rejects.toThrow('File not found: generated-letters/1');
+  });
+});
@@ -0,0 +1,37 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { facultiesTable } from '../db/schema';
+import { createFacultyInputSchema } from '../schema';
+import { createFaculty } from '../handlers/create_faculty';
+
+describe('createFaculty', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create an active faculty with an upper-case code', async () => {
+    const result = await createFaculty({ code: 'ft', name: 'Fakultas Teknik' });
+
+    expect(result.id).toBeDefined();
+    expect(result.code).toEqual('FT');
+    expect(result.name).toEqual('Fakultas Teknik');
+    expect(result.is_active).toBe(true);
+
+    const faculties = await db.select().from(facultiesTable).execute();
+    expect(faculties).toHaveLength(1);
+  });
+
+  it('should reject duplicate codes regardless of case and duplicate names', async () => {
+    await createFaculty({ code: 'FT', name: 'Fakultas Teknik' });
+
+    await expect(createFaculty({ code: 'ft', name: 'Fakultas Teknologi' }))
+      .rejects.toThrow('Faculty code or name already exists: FT');
+    await expect(createFaculty({ code: 'FTK', name: 'Fakultas Teknik' }))
+      .rejects.toThrow('Faculty code or name already exists: FTK');
+  });
+
+  it('should only accept codes made of letters, digits, ".", "_" and "-"', () => {
+    expect(createFacultyInputSchema.safeParse({ code: 'F T', name: 'Fakultas Teknik' }).success).toBe(false);
+    expect(createFacultyInputSchema.safeParse({ code: 'FT', name: '  ' }).success).toBe(false);
+  });
+});
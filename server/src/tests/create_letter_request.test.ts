@@ -1,9 +1,10 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, studentsTable, letterRequestsTable, supportingDocumentsTable, trackingLogsTable } from '../db/schema';
+import { usersTable, studentsTable, letterRequestsTable, supportingDocumentsTable, trackingLogsTable, letterTypesTable } from '../db/schema';
 import { type CreateLetterRequestInput } from '../schema';
 import { createLetterRequest } from '../handlers/create_letter_request';
+import { MissingDocumentsError } from '../lib/errors';
 import { eq } from 'drizzle-orm';
 
 describe('createLetterRequest', () => {
@@ -13,6 +14,7 @@ describe('createLetterRequest', () => {
   // Test data setup
   let staffProdiUser: any;
   let kaprodiUser: any;
+  let facultyStaffUser: any;
   let student: any;
 
   beforeEach(async () => {
@@ -39,6 +41,16 @@ describe('createLetterRequest', () => {
       .execute();
     kaprodiUser = kaprodiResult[0];
 
+    const facultyStaffResult = await db.insert(usersTable)
+      .values({
+        email: 'staff@fakultas.com',
+        name: 'Staff Fakultas',
+        role: 'STAFF_FAKULTAS'
+      })
+      .returning()
+      .execute();
+    facultyStaffUser = facultyStaffResult[0];
+
     // Create test student
     const studentResult = await db.insert(studentsTable)
       .values({
@@ -49,12 +61,22 @@ describe('createLetterRequest', () => {
       .returning()
       .execute();
     student = studentResult[0];
+
+    await db.insert(letterTypesTable)
+      .values([
+        { code: 'SKA', name: 'Surat Keterangan Aktif' },
+        { code: 'SKL', name: 'Surat Keterangan Lulus', default_priority: 'URGENT', sla_days: 3 },
+        { code: 'SR', name: 'Surat Rekomendasi', required_documents: ['KTM', 'TRANSKRIP'] },
+        { code: 'SPM', name: 'Surat Pindah', is_active: false },
+        { code: 'SPKL', name: 'Surat Pengantar Kerja Praktik', eligible_statuses: ['ACTIVE'], min_semester: 5 }
+      ])
+      .execute();
   });
 
   it('should create a letter request successfully', async () => {
     const input: CreateLetterRequestInput = {
       student_id: student.id,
-      letter_type: 'Surat Keterangan Aktif',
+      letter_type: 'SKA',
       purpose: 'Untuk keperluan beasiswa',
       priority: 'NORMAL'
     };
@@ -77,7 +99,7 @@ describe('createLetterRequest', () => {
   it('should save letter request to database', async () => {
     const input: CreateLetterRequestInput = {
       student_id: student.id,
-      letter_type: 'Surat Keterangan Lulus',
+      letter_type: 'SKL',
       purpose: 'Untuk melamar kerja',
       priority: 'URGENT'
     };
@@ -91,7 +113,7 @@ describe('createLetterRequest', () => {
       .execute();
 
     expect(requests).toHaveLength(1);
-    expect(requests[0].letter_type).toEqual('Surat Keterangan Lulus');
+    expect(requests[0].letter_type).toEqual('SKL');
     expect(requests[0].purpose).toEqual('Untuk melamar kerja');
     expect(requests[0].priority).toEqual('URGENT');
     expect(requests[0].status).toEqual('DRAFT');
@@ -101,7 +123,7 @@ describe('createLetterRequest', () => {
   it('should create tracking log entry', async () => {
     const input: CreateLetterRequestInput = {
       student_id: student.id,
-      letter_type: 'Surat Keterangan Aktif',
+      letter_type: 'SKA',
       purpose: 'Untuk keperluan administrasi',
       priority: 'NORMAL'
     };
@@ -123,44 +145,10 @@ describe('createLetterRequest', () => {
     expect(logs[0].new_status).toEqual('DRAFT');
   });
 
-  it('should handle supporting documents', async () => {
-    const input: CreateLetterRequestInput = {
-      student_id: student.id,
-      letter_type: 'Surat Keterangan Aktif',
-      purpose: 'Untuk keperluan beasiswa',
-      priority: 'NORMAL',
-      supporting_documents: [
-        {
-          file_name: 'transkrip.pdf',
-          file_url: 'https://example.com/transkrip.pdf'
-        },
-        {
-          file_name: 'ktp.jpg',
-          file_url: 'https://example.com/ktp.jpg'
-        }
-      ]
-    };
-
-    const result = await createLetterRequest(input, staffProdiUser.id);
-
-    // Verify supporting documents were saved
-    const documents = await db.select()
-      .from(supportingDocumentsTable)
-      .where(eq(supportingDocumentsTable.letter_request_id, result.id))
-      .execute();
-
-    expect(documents).toHaveLength(2);
-    expect(documents[0].file_name).toEqual('transkrip.pdf');
-    expect(documents[0].file_url).toEqual('https://example.com/transkrip.pdf');
-    expect(documents[0].uploaded_by_user_id).toEqual(staffProdiUser.id);
-    expect(documents[1].file_name).toEqual('ktp.jpg');
-    expect(documents[1].file_url).toEqual('https://example.com/ktp.jpg');
-  });
-
   it('should handle request without supporting documents', async () => {
     const input: CreateLetterRequestInput = {
       student_id: student.id,
-      letter_type: 'Surat Keterangan Aktif',
+      letter_type: 'SKA',
       purpose: 'Untuk keperluan administrasi',
       priority: 'NORMAL'
       // No supporting_documents provided
@@ -183,7 +171,7 @@ describe('createLetterRequest', () => {
   it('should throw error when student not found', async () => {
     const input: CreateLetterRequestInput = {
       student_id: 99999, // Non-existent student ID
-      letter_type: 'Surat Keterangan Aktif',
+      letter_type: 'SKA',
       purpose: 'Test purpose',
       priority: 'NORMAL'
     };
@@ -192,6 +180,26 @@ describe('createLetterRequest', () => {
       .rejects.toThrow(/student not found/i);
   });
 
+  it('should let students request letters only for their own record', async () => {
+    const [studentUser] = await db.insert(usersTable)
+      .values({ email: 'john@student.ac.id', name: 'John Doe', role: 'STUDENT' })
+      .returning()
+      .execute();
+
+    const input: CreateLetterRequestInput = { student_id: student.id, letter_type: 'SKA', purpose: 'Beasiswa' };
+
+    await expect(createLetterRequest(input, studentUser.id))
+      .rejects.toThrow(/Students can only request letters for their own student record/);
+
+    await db.update(studentsTable)
+      .set({ user_id: studentUser.id })
+      .where(eq(studentsTable.id, student.id))
+      .execute();
+
+    const result = await createLetterRequest(input, studentUser.id);
+    expect(result.created_by_user_id).toEqual(studentUser.id);
+  });
+
   it('should throw error when no Kaprodi found for prodi', async () => {
     // Create student with different prodi
     const differentStudent = await db.insert(studentsTable)
@@ -205,15 +213,32 @@ describe('createLetterRequest', () => {
 
     const input: CreateLetterRequestInput = {
       student_id: differentStudent[0].id,
-      letter_type: 'Surat Keterangan Aktif',
+      letter_type: 'SKA',
       purpose: 'Test purpose',
       priority: 'NORMAL'
     };
 
-    expect(createLetterRequest(input, staffProdiUser.id))
+    expect(createLetterRequest(input, facultyStaffUser.id))
       .rejects.toThrow(/no kaprodi found for prodi/i);
   });
 
+  it('should not let prodi staff create requests for students of another prodi', async () => {
+    const siStudent = await db.insert(studentsTable)
+      .values({
+        nim: '2024004',
+        name: 'Bob Smith',
+        prodi: 'Sistem Informasi'
+      })
+      .returning()
+      .execute();
+
+    await expect(createLetterRequest({
+      student_id: siStudent[0].id,
+      letter_type: 'SKA',
+      purpose: 'Test purpose'
+    }, staffProdiUser.id)).rejects.toThrow('User does not have permission to create requests for this student');
+  });
+
   it('should handle multiple prodi correctly', async () => {
     // Create another Kaprodi for different prodi
     const kaprodiSI = await db.insert(usersTable)
@@ -238,14 +263,129 @@ describe('createLetterRequest', () => {
 
     const input: CreateLetterRequestInput = {
       student_id: siStudent[0].id,
-      letter_type: 'Surat Keterangan Aktif',
+      letter_type: 'SKA',
       purpose: 'Test purpose',
       priority: 'NORMAL'
     };
 
-    const result = await createLetterRequest(input, staffProdiUser.id);
+    const result = await createLetterRequest(input, facultyStaffUser.id);
 
     // Should assign to correct Kaprodi based on student's prodi
     expect(result.current_handler_user_id).toEqual(kaprodiSI[0].id);
   });
-});
\ No newline at end of file
+
+  it('should store the catalog code and default the priority from the letter type', async () => {
+    const result = await createLetterRequest({
+      student_id: student.id,
+      letter_type: ' skl ',
+      purpose: 'Untuk melamar kerja'
+    }, staffProdiUser.id);
+
+    expect(result.letter_type).toEqual('SKL');
+    expect(result.priority).toEqual('URGENT');
+  });
+
+  it('should set the due date from the letter type SLA in working days', async () => {
+    const result = await createLetterRequest({ student_id: student.id, letter_type: 'SKL', purpose: 'Untuk melamar kerja' }, staffProdiUser.id);
+
+    // Three working days are three to five calendar days, depending on the weekend in between
+    const days = (result.due_at!.getTime() - result.created_at.getTime()) / (24 * 60 * 60 * 1000);
+    expect(Math.round(days)).toBeGreaterThanOrEqual(3);
+    expect(Math.round(days)).toBeLessThanOrEqual(5);
+    expect([0, 6]).not.toContain(result.due_at!.getDay());
+
+    const withoutSla = await createLetterRequest({ student_id: student.id, letter_type: 'SKA', purpose: 'Beasiswa' }, staffProdiUser.id);
+    expect(withoutSla.due_at).toBeNull();
+  });
+
+  it('should reject letter types outside the catalog', async () => {
+    const input: CreateLetterRequestInput = {
+      student_id: student.id,
+      letter_type: 'Surat Aktif',
+      purpose: 'Test purpose',
+      priority: 'NORMAL'
+    };
+
+    await expect(createLetterRequest(input, staffProdiUser.id))
+      .rejects.toThrow(/unknown letter type: surat aktif/i);
+  });
+
+  it('should reject deactivated letter types', async () => {
+    const input: CreateLetterRequestInput = {
+      student_id: student.id,
+      letter_type: 'SPM',
+      purpose: 'Test purpose',
+      priority: 'NORMAL'
+    };
+
+    await expect(createLetterRequest(input, staffProdiUser.id))
+      .rejects.toThrow(/unknown letter type: spm/i);
+  });
+
+  it('should require the declared documents to cover the letter type\'s required documents', async () => {
+    const error = await createLetterRequest({
+      student_id: student.id,
+      letter_type: 'SR',
+      purpose: 'Beasiswa',
+      document_types: ['ktm']
+    }, staffProdiUser.id).catch(e => e);
+
+    expect(error).toBeInstanceOf(MissingDocumentsError);
+    expect(error.code).toEqual('BAD_REQUEST');
+    expect(error.missingDocuments).toEqual(['TRANSKRIP']);
+    expect(error.message).toEqual('Missing required supporting documents for SR: TRANSKRIP');
+
+    await expect(createLetterRequest({ student_id: student.id, letter_type: 'SR', purpose: 'Beasiswa' }, staffProdiUser.id))
+      .rejects.toThrow('Missing required supporting documents for SR: KTM, TRANSKRIP');
+
+    const requests = await db.select().from(letterRequestsTable).execute();
+    expect(requests).toHaveLength(0);
+  });
+
+  it('should leave checking the uploaded documents to the Kaprodi review', async () => {
+    // The files are uploaded to the draft afterwards; approveByKaprodi checks them
+    const result = await createLetterRequest({
+      student_id: student.id,
+      letter_type: 'SR',
+      purpose: 'Beasiswa',
+      document_types: ['KTM', 'TRANSKRIP']
+    }, staffProdiUser.id);
+
+    expect(result.status).toEqual('DRAFT');
+    expect(result.letter_type).toEqual('SR');
+  });
+
+  it('should accept students meeting the eligibility rules', async () => {
+    await db.update(studentsTable).set({ semester: 5 }).where(eq(studentsTable.id, student.id)).execute();
+
+    const result = await createLetterRequest({
+      student_id: student.id,
+      letter_type: 'SPKL',
+      purpose: 'Kerja praktik'
+    }, staffProdiUser.id);
+
+    expect(result.letter_type).toEqual('SPKL');
+  });
+
+  it('should reject students whose status the letter type excludes', async () => {
+    await db.update(studentsTable).set({ status: 'LEAVE', semester: 6 }).where(eq(studentsTable.id, student.id)).execute();
+
+    await expect(createLetterRequest({ student_id: student.id, letter_type: 'SPKL', purpose: 'Kerja praktik' }, staffProdiUser.id))
+      .rejects.toThrow('Surat Pengantar Kerja Praktik is only issued to students with status ACTIVE; student 2024001 is LEAVE');
+
+    const requests = await db.select().from(letterRequestsTable).execute();
+    expect(requests).toHaveLength(0);
+  });
+
+  it('should reject students below the minimum semester', async () => {
+    await db.update(studentsTable).set({ semester: 3 }).where(eq(studentsTable.id, student.id)).execute();
+
+    await expect(createLetterRequest({ student_id: student.id, letter_type: 'SPKL', purpose: 'Kerja praktik' }, staffProdiUser.id))
+      .rejects.toThrow('Surat Pengantar Kerja Praktik requires semester 5 or later; student 2024001 is in semester 3');
+  });
+
+  it('should reject students without a recorded semester when a minimum applies', async () => {
+    await expect(createLetterRequest({ student_id: student.id, letter_type: 'SPKL', purpose: 'Kerja praktik' }, staffProdiUser.id))
+      .rejects.toThrow(/requires semester 5 or later; the semester of student 2024001 is not recorded/);
+  });
+});
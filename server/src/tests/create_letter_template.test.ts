@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, letterTemplatesTable, letterTypesTable } from '../db/schema';
+import { type CreateLetterTemplateInput } from '../schema';
+import { createLetterTemplate } from '../handlers/create_letter_template';
+import { eq } from 'drizzle-orm';
+
+const testInput: CreateLetterTemplateInput = {
+  letter_type: 'SKAK',
+  title: 'SURAT KETERANGAN AKTIF KULIAH',
+  body: 'Menerangkan bahwa {{student_name}} (NIM {{student_nim}}) adalah mahasiswa aktif {{student_prodi}}.'
+};
+
+describe('createLetterTemplate', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let adminUser: any;
+
+  beforeEach(async () => {
+    [adminUser] = await db.insert(usersTable)
+      .values({ email: 'admin@university.edu', name: 'Admin', role: 'ADMIN' })
+      .returning()
+      .execute();
+
+    await db.insert(letterTypesTable)
+      .values([
+        { code: 'SKAK', name: 'Surat Keterangan Aktif Kuliah' },
+        { code: 'SR', name: 'Surat Rekomendasi' },
+        { code: 'SPM', name: 'Surat Pindah', is_active: false }
+      ])
+      .execute();
+  });
+
+  it('should create the first version of a template', async () => {
+    const result = await createLetterTemplate(testInput, adminUser.id);
+
+    expect(result.id).toBeDefined();
+    expect(result.letter_type).toEqual(testInput.letter_type);
+    expect(result.version).toEqual(1);
+    expect(result.title).toEqual(testInput.title);
+    expect(result.body).toEqual(testInput.body);
+    expect(result.created_by_user_id).toEqual(adminUser.id);
+    expect(result.created_at).toBeInstanceOf(Date);
+  });
+
+  it('should store changes as a new version and keep the old one', async () => {
+    const first = await createLetterTemplate(testInput, adminUser.id);
+    const second = await createLetterTemplate({ ...testInput, body: 'Teks baru untuk {{student_name}}' }, adminUser.id);
+
+    expect(second.version).toEqual(2);
+
+    const stored = await db.select()
+      .from(letterTemplatesTable)
+      .where(eq(letterTemplatesTable.letter_type, testInput.letter_type))
+      .execute();
+
+    expect(stored).toHaveLength(2);
+    expect(stored.find(template => template.id === first.id)?.body).toEqual(testInput.body);
+  });
+
+  it('should version each letter type independently', async () => {
+    await createLetterTemplate(testInput, adminUser.id);
+    const other = await createLetterTemplate({ ...testInput, letter_type: 'SR' }, adminUser.id);
+
+    expect(other.version).toEqual(1);
+  });
+
+  it('should store the catalog code requests use', async () => {
+    const result = await createLetterTemplate({ ...testInput, letter_type: ' skak ' }, adminUser.id);
+
+    expect(result.letter_type).toEqual('SKAK');
+  });
+
+  it('should reject letter types outside the catalog', async () => {
+    await expect(createLetterTemplate({ ...testInput, letter_type: 'Surat Keterangan Aktif Kuliah' }, adminUser.id))
+      .rejects.toThrow(/Unknown letter type: Surat Keterangan Aktif Kuliah/);
+    await expect(createLetterTemplate({ ...testInput, letter_type: 'SPM' }, adminUser.id))
+      .rejects.toThrow(/Unknown letter type: SPM/);
+  });
+
+  it('should reject unknown placeholders', async () => {
+    await expect(createLetterTemplate({ ...testInput, body: 'Nama: {{nama_mahasiswa}}' }, adminUser.id))
+      .rejects.toThrow(/Unknown template placeholders: nama_mahasiswa/);
+
+    const stored = await db.select().from(letterTemplatesTable).execute();
+    expect(stored).toHaveLength(0);
+  });
+});
@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { letterTypesTable } from '../db/schema';
+import { createLetterTypeInputSchema, type CreateLetterTypeInput } from '../schema';
+import { createLetterType } from '../handlers/create_letter_type';
+
+const testInput: CreateLetterTypeInput = {
+  code: 'skak',
+  name: 'Surat Keterangan Aktif Kuliah',
+  description: 'Keterangan status mahasiswa aktif',
+  required_documents: ['ktm', 'KRS', 'KTM'],
+  default_priority: 'URGENT',
+  default_disposition_chain: ['WD1', 'KAUR_AKADEMIK'],
+  sla_days: 3,
+  prodi_level_only: true,
+  allowed_mime_types: ['application/pdf'],
+  max_upload_bytes: 5_000_000,
+  eligible_statuses: ['ACTIVE', 'LEAVE', 'ACTIVE'],
+  min_semester: 3
+};
+
+describe('createLetterType', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create a catalog entry with normalized codes', async () => {
+    const result = await createLetterType(testInput);
+
+    expect(result.id).toBeDefined();
+    expect(result.code).toEqual('SKAK');
+    expect(result.name).toEqual('Surat Keterangan Aktif Kuliah');
+    expect(result.description).toEqual('Keterangan status mahasiswa aktif');
+    expect(result.required_documents).toEqual(['KTM', 'KRS']);
+    expect(result.default_priority).toEqual('URGENT');
+    expect(result.default_disposition_chain).toEqual(['WD1', 'KAUR_AKADEMIK']);
+    expect(result.sla_days).toEqual(3);
+    expect(result.prodi_level_only).toBe(true);
+    expect(result.allowed_mime_types).toEqual(['application/pdf']);
+    expect(result.max_upload_bytes).toEqual(5_000_000);
+    expect(result.eligible_statuses).toEqual(['ACTIVE', 'LEAVE']);
+    expect(result.min_semester).toEqual(3);
+    expect(result.is_active).toBe(true);
+  });
+
+  it('should apply defaults for optional fields', async () => {
+    const result = await createLetterType({ code: 'SR', name: 'Surat Rekomendasi' });
+
+    expect(result.description).toBeNull();
+    expect(result.required_documents).toEqual([]);
+    expect(result.default_priority).toEqual('NORMAL');
+    expect(result.default_disposition_chain).toEqual([]);
+    expect(result.sla_days).toBeNull();
+    expect(result.prodi_level_only).toBe(false);
+    expect(result.allowed_mime_types).toEqual(['application/pdf', 'image/jpeg', 'image/png']);
+    expect(result.max_upload_bytes).toBeNull();
+    expect(result.eligible_statuses).toEqual([]);
+    expect(result.min_semester).toBeNull();
+  });
+
+  it('should only accept MIME types the server can recognise', () => {
+    expect(createLetterTypeInputSchema.safeParse({ ...testInput, allowed_mime_types: ['video/mp4'] }).success).toBe(false);
+    expect(createLetterTypeInputSchema.safeParse({ ...testInput, allowed_mime_types: [] }).success).toBe(false);
+    expect(createLetterTypeInputSchema.safeParse({ ...testInput, allowed_mime_types: ['image/webp'] }).success).toBe(true);
+  });
+
+  it('should reject duplicate codes regardless of case', async () => {
+    await createLetterType(testInput);
+
+    await expect(createLetterType({ code: 'SKAK', name: 'Duplikat' }))
+      .rejects.toThrow(/letter type code already exists: SKAK/i);
+
+    const letterTypes = await db.select().from(letterTypesTable).execute();
+    expect(letterTypes).toHaveLength(1);
+  });
+
+  it('should reject disposition chains with non-disposition roles', async () => {
+    await expect(createLetterType({ ...testInput, default_disposition_chain: ['WD1', 'STUDENT'] }))
+      .rejects.toThrow(/only contain disposition roles, got: STUDENT/);
+  });
+});
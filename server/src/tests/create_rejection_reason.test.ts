@@ -0,0 +1,45 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { rejectionReasonsTable } from '../db/schema';
+import { createRejectionReasonInputSchema } from '../schema';
+import { createRejectionReason } from '../handlers/create_rejection_reason';
+
+describe('createRejectionReason', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create an active reason with a normalized code', async () => {
+    const result = await createRejectionReason({
+      code: 'incomplete_documents',
+      label: 'Dokumen pendukung tidak lengkap',
+      description: 'A required document is missing or unreadable'
+    });
+
+    expect(result.id).toBeDefined();
+    expect(result.code).toEqual('INCOMPLETE_DOCUMENTS');
+    expect(result.label).toEqual('Dokumen pendukung tidak lengkap');
+    expect(result.description).toEqual('A required document is missing or unreadable');
+    expect(result.is_active).toBe(true);
+
+    const stored = await db.select().from(rejectionReasonsTable).execute();
+    expect(stored).toHaveLength(1);
+  });
+
+  it('should default the description to null', async () => {
+    const result = await createRejectionReason({ code: 'NOT_ELIGIBLE', label: 'Mahasiswa tidak memenuhi syarat' });
+
+    expect(result.description).toBeNull();
+  });
+
+  it('should reject duplicate codes regardless of case', async () => {
+    await createRejectionReason({ code: 'NOT_ELIGIBLE', label: 'Mahasiswa tidak memenuhi syarat' });
+
+    await expect(createRejectionReason({ code: 'not_eligible', label: 'Duplicate' }))
+      .rejects.toThrow(/Rejection reason code already exists: NOT_ELIGIBLE/);
+  });
+
+  it('should only accept simple codes', () => {
+    expect(createRejectionReasonInputSchema.safeParse({ code: 'NOT ELIGIBLE', label: 'x' }).success).toBe(false);
+  });
+});
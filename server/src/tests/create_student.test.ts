@@ -1,35 +1,81 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { studentsTable } from '../db/schema';
+import { facultiesTable, studentsTable, studyProgramsTable, usersTable } from '../db/schema';
 import { type CreateStudentInput } from '../schema';
 import { createStudent } from '../handlers/create_student';
 import { eq } from 'drizzle-orm';
 
+// Study programs seeded with fixed ids before each test
+const COMPUTER_SCIENCE = 1;
+const INFORMATION_SYSTEMS = 2;
+const SOFTWARE_ENGINEERING = 3;
+
 // Simple test input
 const testInput: CreateStudentInput = {
   nim: '12345678',
   name: 'John Doe',
-  prodi: 'Computer Science'
+  study_program_id: COMPUTER_SCIENCE
 };
 
 describe('createStudent', () => {
   beforeEach(createDB);
   afterEach(resetDB);
 
+  let staff: any;
+
+  beforeEach(async () => {
+    await db.insert(facultiesTable).values({ id: 1, code: 'FIK', name: 'Faculty of Computing' }).execute();
+    await db.insert(studyProgramsTable)
+      .values([
+        { id: COMPUTER_SCIENCE, code: 'CS', name: 'Computer Science', faculty_id: 1 },
+        { id: INFORMATION_SYSTEMS, code: 'IS', name: 'Information Systems', faculty_id: 1 },
+        { id: SOFTWARE_ENGINEERING, code: 'SE', name: 'Software Engineering', faculty_id: 1 }
+      ])
+      .execute();
+
+    [staff] = await db.insert(usersTable)
+      .values({ email: 'staff@university.edu', name: 'Staff Fakultas', role: 'STAFF_FAKULTAS' })
+      .returning()
+      .execute();
+  });
+
   it('should create a student', async () => {
-    const result = await createStudent(testInput);
+    const result = await createStudent(testInput, staff.id);
 
     // Basic field validation
     expect(result.nim).toEqual('12345678');
     expect(result.name).toEqual('John Doe');
     expect(result.prodi).toEqual('Computer Science');
+    expect(result.study_program_id).toEqual(COMPUTER_SCIENCE);
     expect(result.id).toBeDefined();
     expect(result.created_at).toBeInstanceOf(Date);
   });
 
+  it('should record the academic attributes when given', async () => {
+    const result = await createStudent({ ...testInput, status: 'LEAVE', angkatan: 2022, semester: 4, faculty_id: 1 }, staff.id);
+
+    expect(result.status).toEqual('LEAVE');
+    expect(result.angkatan).toEqual(2022);
+    expect(result.semester).toEqual(4);
+    expect(result.faculty_id).toEqual(1);
+
+    const defaults = await createStudent({ ...testInput, nim: '87654321' }, staff.id);
+    expect(defaults.status).toEqual('ACTIVE');
+    expect([defaults.angkatan, defaults.semester, defaults.faculty_id]).toEqual([null, null, 1]);
+  });
+
+  it('should reject a faculty the study program does not belong to', async () => {
+    await db.insert(facultiesTable).values({ id: 2, code: 'FE', name: 'Faculty of Economics' }).execute();
+
+    await expect(createStudent({ ...testInput, faculty_id: 2 }, staff.id))
+      .rejects.toThrow('Study program Computer Science does not belong to faculty 2');
+    await expect(createStudent({ ...testInput, faculty_id: 99999 }, staff.id))
+      .rejects.toThrow('Study program Computer Science does not belong to faculty 99999');
+  });
+
   it('should save student to database', async () => {
-    const result = await createStudent(testInput);
+    const result = await createStudent(testInput, staff.id);
 
     // Query using proper drizzle syntax
     const students = await db.select()
@@ -48,8 +94,8 @@ describe('createStudent', () => {
     const input1 = { ...testInput, nim: '11111111' };
     const input2 = { ...testInput, nim: '22222222' };
 
-    const result1 = await createStudent(input1);
-    const result2 = await createStudent(input2);
+    const result1 = await createStudent(input1, staff.id);
+    const result2 = await createStudent(input2, staff.id);
 
     expect(result1.nim).toEqual('11111111');
     expect(result2.nim).toEqual('22222222');
@@ -66,11 +112,11 @@ describe('createStudent', () => {
   });
 
   it('should create students with different prodi values', async () => {
-    const input1 = { ...testInput, nim: '11111111', prodi: 'Information Systems' };
-    const input2 = { ...testInput, nim: '22222222', prodi: 'Software Engineering' };
+    const input1 = { ...testInput, nim: '11111111', study_program_id: INFORMATION_SYSTEMS };
+    const input2 = { ...testInput, nim: '22222222', study_program_id: SOFTWARE_ENGINEERING };
 
-    const result1 = await createStudent(input1);
-    const result2 = await createStudent(input2);
+    const result1 = await createStudent(input1, staff.id);
+    const result2 = await createStudent(input2, staff.id);
 
     expect(result1.prodi).toEqual('Information Systems');
     expect(result2.prodi).toEqual('Software Engineering');
@@ -86,12 +132,36 @@ describe('createStudent', () => {
     expect(prodis).toContain('Software Engineering');
   });
 
+  it('should reject unknown study programs', async () => {
+    await expect(createStudent({ ...testInput, study_program_id: 999 }, staff.id))
+      .rejects.toThrow('Unknown study program: 999');
+  });
+
+  it('should let prodi staff add students only to their own study program', async () => {
+    const [prodiStaff] = await db.insert(usersTable)
+      .values({
+        email: 'prodi@university.edu',
+        name: 'Staff Prodi',
+        role: 'STAFF_PRODI',
+        prodi: 'Computer Science',
+        study_program_id: COMPUTER_SCIENCE
+      })
+      .returning()
+      .execute();
+
+    const result = await createStudent(testInput, prodiStaff.id);
+    expect(result.study_program_id).toEqual(COMPUTER_SCIENCE);
+
+    await expect(createStudent({ ...testInput, nim: '22222222', study_program_id: INFORMATION_SYSTEMS }, prodiStaff.id))
+      .rejects.toThrow('User does not have permission to add students to Information Systems');
+  });
+
   it('should enforce unique NIM constraint', async () => {
     // Create first student
-    await createStudent(testInput);
+    await createStudent(testInput, staff.id);
 
     // Try to create another student with same NIM
-    await expect(createStudent(testInput)).rejects.toThrow();
+    await expect(createStudent(testInput, staff.id)).rejects.toThrow();
   });
 
   it('should handle long student names', async () => {
@@ -101,7 +171,7 @@ describe('createStudent', () => {
       name: 'Very Long Student Name That Contains Many Characters And Should Still Work'
     };
 
-    const result = await createStudent(longNameInput);
+    const result = await createStudent(longNameInput, staff.id);
 
     expect(result.name).toEqual(longNameInput.name);
     expect(result.nim).toEqual('87654321');
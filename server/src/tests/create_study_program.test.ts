@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { facultiesTable } from '../db/schema';
+import { createStudyProgram } from '../handlers/create_study_program';
+
+describe('createStudyProgram', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let faculty: any;
+  let closedFaculty: any;
+
+  beforeEach(async () => {
+    [faculty, closedFaculty] = await db.insert(facultiesTable)
+      .values([
+        { code: 'FT', name: 'Fakultas Teknik' },
+        { code: 'FH', name: 'Fakultas Hukum', is_active: false }
+      ])
+      .returning()
+      .execute();
+  });
+
+  it('should create an active study program in the faculty', async () => {
+    const result = await createStudyProgram({ code: 'if', name: 'Informatika', faculty_id: faculty.id });
+
+    expect(result.id).toBeDefined();
+    expect(result.code).toEqual('IF');
+    expect(result.name).toEqual('Informatika');
+    expect(result.faculty_id).toEqual(faculty.id);
+    expect(result.is_active).toBe(true);
+  });
+
+  it('should reject duplicate codes and names', async () => {
+    await createStudyProgram({ code: 'IF', name: 'Informatika', faculty_id: faculty.id });
+
+    await expect(createStudyProgram({ code: 'if', name: 'Teknik Informatika', faculty_id: faculty.id }))
+      .rejects.toThrow('Study program code or name already exists: IF');
+    await expect(createStudyProgram({ code: 'TI', name: 'Informatika', faculty_id: faculty.id }))
+      .rejects.toThrow('Study program code or name already exists: TI');
+  });
+
+  it('should reject unknown and deactivated faculties', async () => {
+    await expect(createStudyProgram({ code: 'IF', name: 'Informatika', faculty_id: 99999 }))
+      .rejects.toThrow('Unknown faculty: 99999');
+    await expect(createStudyProgram({ code: 'IH', name: 'Ilmu Hukum', faculty_id: closedFaculty.id }))
+      .rejects.toThrow(`Unknown faculty: ${closedFaculty.id}`);
+  });
+});
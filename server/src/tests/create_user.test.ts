@@ -1,31 +1,38 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable } from '../db/schema';
+import { facultiesTable, studyProgramsTable, usersTable } from '../db/schema';
 import { type CreateUserInput } from '../schema';
 import { createUser } from '../handlers/create_user';
+import { verifyPassword } from '../lib/password';
 import { eq } from 'drizzle-orm';
 
+// Study programs seeded with fixed ids before each test
+const TEKNIK_INFORMATIKA = 1;
+const SISTEM_INFORMASI = 2;
+const TEKNIK_ELEKTRO = 3;
+const INACTIVE_PROGRAM = 4;
+
 // Test inputs for different user roles
 const testInputStudent: CreateUserInput = {
   email: 'student@example.com',
   name: 'Test Student',
   role: 'STUDENT',
-  prodi: 'Teknik Informatika'
+  study_program_id: TEKNIK_INFORMATIKA
 };
 
 const testInputStaff: CreateUserInput = {
   email: 'staff@example.com',
   name: 'Test Staff',
   role: 'STAFF_PRODI',
-  prodi: 'Teknik Informatika'
+  study_program_id: TEKNIK_INFORMATIKA
 };
 
 const testInputAdmin: CreateUserInput = {
   email: 'admin@example.com',
   name: 'Test Admin',
   role: 'ADMIN',
-  prodi: null // Admin doesn't need prodi
+  study_program_id: null // Admin doesn't need prodi
 };
 
 const testInputDekan: CreateUserInput = {
@@ -39,6 +46,18 @@ describe('createUser', () => {
   beforeEach(createDB);
   afterEach(resetDB);
 
+  beforeEach(async () => {
+    await db.insert(facultiesTable).values({ id: 1, code: 'FT', name: 'Fakultas Teknik' }).execute();
+    await db.insert(studyProgramsTable)
+      .values([
+        { id: TEKNIK_INFORMATIKA, code: 'TI', name: 'Teknik Informatika', faculty_id: 1 },
+        { id: SISTEM_INFORMASI, code: 'SI', name: 'Sistem Informasi', faculty_id: 1 },
+        { id: TEKNIK_ELEKTRO, code: 'TE', name: 'Teknik Elektro', faculty_id: 1 },
+        { id: INACTIVE_PROGRAM, code: 'TM', name: 'Teknik Mesin', faculty_id: 1, is_active: false }
+      ])
+      .execute();
+  });
+
   it('should create a student user', async () => {
     const result = await createUser(testInputStudent);
 
@@ -47,6 +66,7 @@ describe('createUser', () => {
     expect(result.name).toEqual('Test Student');
     expect(result.role).toEqual('STUDENT');
     expect(result.prodi).toEqual('Teknik Informatika');
+    expect(result.study_program_id).toEqual(TEKNIK_INFORMATIKA);
     expect(result.id).toBeDefined();
     expect(result.created_at).toBeInstanceOf(Date);
     expect(result.updated_at).toBeInstanceOf(Date);
@@ -115,7 +135,7 @@ describe('createUser', () => {
       email: 'student@example.com', // Same email
       name: 'Another Student',
       role: 'STUDENT',
-      prodi: 'Sistem Informasi'
+      study_program_id: SISTEM_INFORMASI
     };
 
     await expect(createUser(duplicateUser)).rejects.toThrow(/duplicate key value violates unique constraint|unique constraint failed/i);
@@ -166,13 +186,26 @@ describe('createUser', () => {
       email: 'kaprodi@example.com',
       name: 'Test Kaprodi',
       role: 'KAPRODI',
-      prodi: 'Teknik Elektro'
+      study_program_id: TEKNIK_ELEKTRO
     };
 
     const result = await createUser(kaprodiUser);
 
     expect(result.role).toEqual('KAPRODI');
     expect(result.prodi).toEqual('Teknik Elektro');
+    expect(result.study_program_id).toEqual(TEKNIK_ELEKTRO);
+  });
+
+  it('should require a study program for prodi-level roles', async () => {
+    await expect(createUser({ email: 'kaprodi@example.com', name: 'Test Kaprodi', role: 'KAPRODI' }))
+      .rejects.toThrow('A study program is required for role KAPRODI');
+  });
+
+  it('should reject unknown and deactivated study programs', async () => {
+    await expect(createUser({ ...testInputStaff, study_program_id: 999 }))
+      .rejects.toThrow('Unknown study program: 999');
+    await expect(createUser({ ...testInputStaff, study_program_id: INACTIVE_PROGRAM }))
+      .rejects.toThrow(`Unknown study program: ${INACTIVE_PROGRAM}`);
   });
 
   it('should handle roles that do not need prodi', async () => {
@@ -188,4 +221,31 @@ describe('createUser', () => {
     expect(result.role).toEqual('WD1');
     expect(result.prodi).toBeNull();
   });
-});
\ No newline at end of file
+
+  it('should store a hashed password and never return it', async () => {
+    const result = await createUser({ ...testInputDekan, password: 'rahasia-dekan' });
+
+    expect((result as any).password_hash).toBeUndefined();
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, result.id))
+      .execute();
+
+    expect(users[0].password_hash).not.toBeNull();
+    expect(users[0].password_hash).not.toEqual('rahasia-dekan');
+    expect(await verifyPassword('rahasia-dekan', users[0].password_hash!)).toBe(true);
+    expect(await verifyPassword('wrong-password', users[0].password_hash!)).toBe(false);
+  });
+
+  it('should leave password_hash null when no password is given', async () => {
+    const result = await createUser(testInputStudent);
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, result.id))
+      .execute();
+
+    expect(users[0].password_hash).toBeNull();
+  });
+});
@@ -0,0 +1,47 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { facultiesTable, studyProgramsTable } from '../db/schema';
+import { deleteFaculty } from '../handlers/delete_faculty';
+
+describe('deleteFaculty', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let usedFaculty: any;
+  let emptyFaculty: any;
+
+  beforeEach(async () => {
+    [usedFaculty, emptyFaculty] = await db.insert(facultiesTable)
+      .values([
+        { code: 'FT', name: 'Fakultas Teknik' },
+        { code: 'FEB', name: 'Fakultas Ekonomi dan Bisnis' }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(studyProgramsTable)
+      .values({ code: 'IF', name: 'Informatika', faculty_id: usedFaculty.id })
+      .execute();
+  });
+
+  it('should delete faculties without study programs', async () => {
+    const result = await deleteFaculty(emptyFaculty.id);
+
+    expect(result.success).toBe(true);
+    const remaining = await db.select().from(facultiesTable).execute();
+    expect(remaining.map(faculty => faculty.code)).toEqual(['FT']);
+  });
+
+  it('should refuse to delete faculties that still have study programs', async () => {
+    await expect(deleteFaculty(usedFaculty.id))
+      .rejects.toThrow('Faculty FT still has study programs; deactivate it instead');
+
+    const remaining = await db.select().from(facultiesTable).execute();
+    expect(remaining).toHaveLength(2);
+  });
+
+  it('should throw when the faculty does not exist', async () => {
+    await expect(deleteFaculty(99999)).rejects.toThrow('Faculty not found');
+  });
+});
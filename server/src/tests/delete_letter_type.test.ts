@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, studentsTable, letterRequestsTable, letterTypesTable } from '../db/schema';
+import { deleteLetterType } from '../handlers/delete_letter_type';
+
+describe('deleteLetterType', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let usedType: any;
+  let unusedType: any;
+
+  beforeEach(async () => {
+    [usedType, unusedType] = await db.insert(letterTypesTable)
+      .values([
+        { code: 'SKAK', name: 'Surat Keterangan Aktif Kuliah' },
+        { code: 'SR', name: 'Surat Rekomendasi' }
+      ])
+      .returning()
+      .execute();
+
+    const [user] = await db.insert(usersTable)
+      .values({ email: 'admin@university.edu', name: 'Admin', role: 'ADMIN' })
+      .returning()
+      .execute();
+
+    const [student] = await db.insert(studentsTable)
+      .values({ nim: '2021001', name: 'Siti Rahma', prodi: 'Teknik Informatika' })
+      .returning()
+      .execute();
+
+    await db.insert(letterRequestsTable)
+      .values({
+        student_id: student.id,
+        created_by_user_id: user.id,
+        letter_type: 'SKAK',
+        purpose: 'Beasiswa',
+        priority: 'NORMAL',
+        status: 'DRAFT'
+      })
+      .execute();
+  });
+
+  it('should delete letter types no request uses', async () => {
+    const result = await deleteLetterType(unusedType.id);
+
+    expect(result.success).toBe(true);
+    const remaining = await db.select().from(letterTypesTable).execute();
+    expect(remaining.map(letterType => letterType.code)).toEqual(['SKAK']);
+  });
+
+  it('should refuse to delete letter types in use', async () => {
+    await expect(deleteLetterType(usedType.id))
+      .rejects.toThrow(/letter type SKAK is used by existing requests; deactivate it instead/i);
+
+    const remaining = await db.select().from(letterTypesTable).execute();
+    expect(remaining).toHaveLength(2);
+  });
+
+  it('should throw when the letter type does not exist', async () => {
+    await expect(deleteLetterType(99999)).rejects.toThrow(/letter type not found/i);
+  });
+});
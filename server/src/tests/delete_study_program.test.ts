@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { facultiesTable, studentsTable, studyProgramsTable, usersTable } from '../db/schema';
+import { deleteStudyProgram } from '../handlers/delete_study_program';
+
+describe('deleteStudyProgram', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let informatika: any;
+  let sistemInformasi: any;
+  let teknikSipil: any;
+
+  beforeEach(async () => {
+    const [faculty] = await db.insert(facultiesTable)
+      .values({ code: 'FT', name: 'Fakultas Teknik' })
+      .returning()
+      .execute();
+
+    [informatika, sistemInformasi, teknikSipil] = await db.insert(studyProgramsTable)
+      .values([
+        { code: 'IF', name: 'Informatika', faculty_id: faculty.id },
+        { code: 'SI', name: 'Sistem Informasi', faculty_id: faculty.id },
+        { code: 'TS', name: 'Teknik Sipil', faculty_id: faculty.id }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(usersTable)
+      .values({ email: 'kaprodi@university.edu', name: 'Kaprodi IF', role: 'KAPRODI', prodi: 'Informatika', study_program_id: informatika.id })
+      .execute();
+
+    await db.insert(studentsTable)
+      .values({ nim: '2021000001', name: 'Siti Rahma', prodi: 'Sistem Informasi', study_program_id: sistemInformasi.id })
+      .execute();
+  });
+
+  it('should delete study programs nobody is linked to', async () => {
+    const result = await deleteStudyProgram(teknikSipil.id);
+
+    expect(result.success).toBe(true);
+    const remaining = await db.select().from(studyProgramsTable).execute();
+    expect(remaining.map(program => program.code).sort()).toEqual(['IF', 'SI']);
+  });
+
+  it('should refuse to delete study programs with linked users or students', async () => {
+    await expect(deleteStudyProgram(informatika.id))
+      .rejects.toThrow('Study program IF has linked users or students; deactivate it instead');
+    await expect(deleteStudyProgram(sistemInformasi.id))
+      .rejects.toThrow('Study program SI has linked users or students; deactivate it instead');
+
+    const remaining = await db.select().from(studyProgramsTable).execute();
+    expect(remaining).toHaveLength(3);
+  });
+
+  it('should throw when the study program does not exist', async () => {
+    await expect(deleteStudyProgram(99999)).rejects.toThrow('Study program not found');
+  });
+});
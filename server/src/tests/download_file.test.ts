@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, studentsTable, letterRequestsTable, letterVersionsTable, letterDeliveriesTable } from '../db/schema';
+import { downloadFile } from '../handlers/download_file';
+import { uploadSupportingDocument } from '../handlers/upload_supporting_document';
+import { markDelivered } from '../handlers/mark_delivered';
+import { getStorage, storedFileUrl } from '../lib/storage';
+import { PDFDocument } from 'pdf-lib';
+import { rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { eq } from 'drizzle-orm';
+
+const storageDir = join(tmpdir(), 'download-file-test');
+const pdfBytes = Buffer.from(await (await PDFDocument.create()).save());
+
+describe('downloadFile', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(() => {
+    process.env['STORAGE_LOCAL_DIR'] = storageDir;
+  });
+  afterEach(() => rm(storageDir, { recursive: true, force: true }));
+
+  let staffUser: any;
+  let otherProdiUser: any;
+  let letterRequest: any;
+
+  beforeEach(async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'staff@test.com', name: 'Staff Prodi', role: 'STAFF_PRODI', prodi: 'Informatika' },
+        { email: 'kaprodi.si@test.com', name: 'Kaprodi SI', role: 'KAPRODI', prodi: 'Sistem Informasi' }
+      ])
+      .returning()
+      .execute();
+    [staffUser, otherProdiUser] = users;
+
+    const students = await db.insert(studentsTable)
+      .values({ nim: 'TEST001', name: 'Test Student', prodi: 'Informatika' })
+      .returning()
+      .execute();
+
+    const requests = await db.insert(letterRequestsTable)
+      .values({
+        student_id: students[0].id,
+        created_by_user_id: staffUser.id,
+        letter_type: 'SKA',
+        purpose: 'Beasiswa',
+        priority: 'NORMAL',
+        status: 'DRAFT',
+        current_handler_user_id: staffUser.id
+      })
+      .returning()
+      .execute();
+    letterRequest = requests[0];
+  });
+
+  it('should return a stored supporting document', async () => {
+    const document = await uploadSupportingDocument(
+      { request_id: letterRequest.id, file: new File([pdfBytes], 'KTM scan.pdf', { type: 'application/pdf' }) },
+      staffUser.id
+    );
+
+    const result = await downloadFile(document.storage_key!, staffUser.id);
+
+    expect(result).not.toBeNull();
+    expect(result!.file_name).toEqual('KTM scan.pdf');
+    expect(result!.mime_type).toEqual('application/pdf');
+    expect(result!.content).toEqual(pdfBytes);
+  });
+
+  it('should return null for users who may not read the request', async () => {
+    const document = await uploadSupportingDocument(
+      { request_id: letterRequest.id, file: new File([pdfBytes], 'ktm.pdf', { type: 'application/pdf' }) },
+      staffUser.id
+    );
+
+    expect(await downloadFile(document.storage_key!, otherProdiUser.id)).toBeNull();
+  });
+
+  it('should return null for quarantined documents', async () => {
+    const document = await uploadSupportingDocument(
+      { request_id: letterRequest.id, file: new File(['not a pdf'], 'ktm.pdf', { type: 'application/pdf' }) },
+      staffUser.id
+    );
+    expect(document.status).toEqual('QUARANTINED');
+
+    expect(await downloadFile(document.storage_key!, staffUser.id)).toBeNull();
+  });
+
+  it('should return null for keys no record points at', async () => {
+    const key = `requests/${letterRequest.id}/documents/orphan/file.pdf`;
+    await getStorage().put(key, pdfBytes, 'application/pdf');
+
+    expect(await downloadFile(key, staffUser.id)).toBeNull();
+  });
+
+  const addLetterVersion = async (key: string, versionNumber: number) => {
+    await getStorage().put(key, pdfBytes, 'application/pdf');
+    await db.insert(letterVersionsTable)
+      .values({
+        letter_request_id: letterRequest.id,
+        version_number: versionNumber,
+        source: 'UPLOADED',
+        file_url: storedFileUrl(key),
+        file_name: `draft-${versionNumber}.pdf`,
+        size_bytes: pdfBytes.length,
+        sha256: 'unused',
+        created_by_user_id: staffUser.id
+      })
+      .execute();
+  };
+
+  it('should return every version of the final letter', async () => {
+    await addLetterVersion(`requests/${letterRequest.id}/final-letters/one/draft-1.pdf`, 1);
+    await addLetterVersion(`requests/${letterRequest.id}/final-letters/two/draft-2.pdf`, 2);
+
+    const first = await downloadFile(`requests/${letterRequest.id}/final-letters/one/draft-1.pdf`, staffUser.id);
+    const second = await downloadFile(`requests/${letterRequest.id}/final-letters/two/draft-2.pdf`, staffUser.id);
+
+    expect(first!.file_name).toEqual('draft-1.pdf');
+    expect(first!.mime_type).toEqual('application/pdf');
+    expect(first!.content).toEqual(pdfBytes);
+    expect(second!.file_name).toEqual('draft-2.pdf');
+  });
+
+  it('should return null for final letter versions the user may not read', async () => {
+    await addLetterVersion(`requests/${letterRequest.id}/final-letters/one/draft-1.pdf`, 1);
+
+    expect(await downloadFile(`requests/${letterRequest.id}/final-letters/one/draft-1.pdf`, otherProdiUser.id)).toBeNull();
+  });
+
+  it('should return the proof photo of a delivery', async () => {
+    const pngBytes = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.from('image data')]);
+    await db.update(letterRequestsTable)
+      .set({ status: 'PRINTED' })
+      .where(eq(letterRequestsTable.id, letterRequest.id))
+      .execute();
+
+    await markDelivered({
+      request_id: letterRequest.id,
+      expected_version: 1,
+      recipient_name: 'Test Student',
+      delivery_method: 'PICKUP',
+      proof_photo: new File([pngBytes], 'handover.png', { type: 'image/png' })
+    }, staffUser.id);
+    const deliveries = await db.select().from(letterDeliveriesTable).execute();
+
+    const result = await downloadFile(deliveries[0].proof_storage_key!, staffUser.id);
+
+    expect(result!.file_name).toEqual('handover.png');
+    expect(result!.mime_type).toEqual('image/png');
+    expect(result!.content).toEqual(pngBytes);
+    expect(await downloadFile(deliveries[0].proof_storage_key!, otherProdiUser.id)).toBeNull();
+  });
+});
@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, studentsTable, letterTypesTable, letterRequestsTable, trackingLogsTable } from '../db/schema';
+import { approveByKaprodi } from '../handlers/approve_by_kaprodi';
+import { forwardToDekan } from '../handlers/forward_to_dekan';
+import { asc, eq } from 'drizzle-orm';
+
+describe('forwardToDekan', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let staffUser: any;
+  let kaprodiUser: any;
+  let otherKaprodiUser: any;
+  let dekanUser: any;
+  let student: any;
+  let letterRequest: any;
+
+  beforeEach(async () => {
+    [staffUser, kaprodiUser, otherKaprodiUser, dekanUser] = await db.insert(usersTable)
+      .values([
+        { email: 'staff@university.edu', name: 'Staff Prodi', role: 'STAFF_PRODI', prodi: 'Informatika' },
+        { email: 'kaprodi@university.edu', name: 'Kaprodi IF', role: 'KAPRODI', prodi: 'Informatika' },
+        { email: 'kaprodi.si@university.edu', name: 'Kaprodi SI', role: 'KAPRODI', prodi: 'Sistem Informasi' },
+        { email: 'dekan@university.edu', name: 'Prof. Dr. Dekan', role: 'DEKAN' }
+      ])
+      .returning()
+      .execute();
+
+    [student] = await db.insert(studentsTable)
+      .values({ nim: '2021001', name: 'Siti Rahma', prodi: 'Informatika' })
+      .returning()
+      .execute();
+
+    await db.insert(letterTypesTable)
+      .values([
+        { code: 'SKAK', name: 'Surat Keterangan Aktif Kuliah' },
+        { code: 'SPP', name: 'Surat Pengantar Penelitian', prodi_level_only: true }
+      ])
+      .execute();
+
+    [letterRequest] = await db.insert(letterRequestsTable)
+      .values({
+        student_id: student.id,
+        created_by_user_id: staffUser.id,
+        letter_type: 'SKAK',
+        purpose: 'Beasiswa',
+        priority: 'NORMAL',
+        status: 'DRAFT',
+        current_handler_user_id: kaprodiUser.id
+      })
+      .returning()
+      .execute();
+  });
+
+  const logsOf = (requestId: number) => db.select()
+    .from(trackingLogsTable)
+    .where(eq(trackingLogsTable.letter_request_id, requestId))
+    .orderBy(asc(trackingLogsTable.id))
+    .execute();
+
+  it('should route an approved request to the Dean', async () => {
+    const approved = await approveByKaprodi({
+      request_id: letterRequest.id,
+      expected_version: letterRequest.version
+    }, kaprodiUser.id);
+
+    const result = await forwardToDekan({
+      request_id: letterRequest.id,
+      expected_version: approved.version,
+      notes: 'Urgent for scholarship deadline'
+    }, kaprodiUser.id);
+
+    expect(result.status).toEqual('FORWARDED_TO_DEKAN');
+    expect(result.current_handler_user_id).toEqual(dekanUser.id);
+    expect(result.version).toEqual(approved.version + 1);
+
+    const logs = await logsOf(letterRequest.id);
+    expect(logs.map(log => log.action_type)).toEqual(['APPROVED', 'FORWARDED']);
+    expect(logs[1].description).toEqual('Letter request forwarded to Dekan (Prof. Dr. Dekan) for disposition');
+    expect(logs[1].notes).toEqual('Urgent for scholarship deadline');
+    expect(logs[1].previous_status).toEqual('APPROVED_KAPRODI');
+    expect(logs[1].new_status).toEqual('FORWARDED_TO_DEKAN');
+  });
+
+  it('should approve and forward a draft in one step', async () => {
+    const result = await forwardToDekan({
+      request_id: letterRequest.id,
+      expected_version: letterRequest.version
+    }, kaprodiUser.id);
+
+    expect(result.status).toEqual('FORWARDED_TO_DEKAN');
+
+    const logs = await logsOf(letterRequest.id);
+    expect(logs.map(log => [log.action_type, log.previous_status, log.new_status])).toEqual([
+      ['APPROVED', 'DRAFT', 'APPROVED_KAPRODI'],
+      ['FORWARDED', 'APPROVED_KAPRODI', 'FORWARDED_TO_DEKAN']
+    ]);
+  });
+
+  it('should refuse letter types issued at prodi level', async () => {
+    const [prodiLetter] = await db.insert(letterRequestsTable)
+      .values({
+        student_id: student.id,
+        created_by_user_id: staffUser.id,
+        letter_type: 'SPP',
+        purpose: 'Penelitian skripsi',
+        priority: 'NORMAL',
+        status: 'DRAFT',
+        current_handler_user_id: kaprodiUser.id
+      })
+      .returning()
+      .execute();
+
+    await expect(forwardToDekan({
+      request_id: prodiLetter.id,
+      expected_version: prodiLetter.version
+    }, kaprodiUser.id)).rejects.toThrow(/Letter type SPP is issued by the prodi and does not go to the Dean/);
+  });
+
+  it('should only accept the Kaprodi of the student prodi', async () => {
+    await expect(forwardToDekan({
+      request_id: letterRequest.id,
+      expected_version: letterRequest.version
+    }, otherKaprodiUser.id)).rejects.toThrow(/Only the Kaprodi of Informatika can review this request/);
+  });
+
+  it('should fail without a Dean', async () => {
+    await db.delete(usersTable).where(eq(usersTable.id, dekanUser.id)).execute();
+
+    await expect(forwardToDekan({
+      request_id: letterRequest.id,
+      expected_version: letterRequest.version
+    }, kaprodiUser.id)).rejects.toThrow(/No DEKAN user found/);
+  });
+
+  it('should reject requests already past the Kaprodi', async () => {
+    const forwarded = await forwardToDekan({
+      request_id: letterRequest.id,
+      expected_version: letterRequest.version
+    }, kaprodiUser.id);
+
+    await expect(forwardToDekan({
+      request_id: letterRequest.id,
+      expected_version: forwarded.version
+    }, kaprodiUser.id)).rejects.toThrow(/Cannot forward request in status: FORWARDED_TO_DEKAN/);
+  });
+});
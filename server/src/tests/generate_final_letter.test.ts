@@ -0,0 +1,204 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, studentsTable, letterRequestsTable, letterTemplatesTable, generatedLettersTable, letterVersionsTable, trackingLogsTable } from '../db/schema';
+import { type GenerateFinalLetterInput } from '../schema';
+import { generateFinalLetter } from '../handlers/generate_final_letter';
+import { renderTemplate, findUnknownPlaceholders } from '../lib/letter_template';
+import { PDFDocument } from 'pdf-lib';
+import { createHash } from 'node:crypto';
+import { eq } from 'drizzle-orm';
+
+describe('generateFinalLetter', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let adminUser: any;
+  let dekanUser: any;
+  let kaurUser: any;
+  let student: any;
+  let letterRequest: any;
+
+  beforeEach(async () => {
+    [adminUser, dekanUser, kaurUser] = await db.insert(usersTable)
+      .values([
+        { email: 'admin@university.edu', name: 'Admin', role: 'ADMIN' },
+        { email: 'dekan@university.edu', name: 'Prof. Dr. Dekan', role: 'DEKAN' },
+        { email: 'kaur@university.edu', name: 'Kaur Akademik', role: 'KAUR_AKADEMIK' }
+      ])
+      .returning()
+      .execute();
+
+    [student] = await db.insert(studentsTable)
+      .values({ nim: '2021001', name: 'Siti Rahma', prodi: 'Teknik Informatika' })
+      .returning()
+      .execute();
+
+    [letterRequest] = await db.insert(letterRequestsTable)
+      .values({
+        student_id: student.id,
+        created_by_user_id: kaurUser.id,
+        letter_type: 'Surat Keterangan Aktif Kuliah',
+        purpose: 'Beasiswa',
+        priority: 'NORMAL',
+        status: 'PROCESSED_BY_KAUR_AKADEMIK',
+        current_handler_user_id: kaurUser.id,
+        dekan_instructions: 'Segera diproses'
+      })
+      .returning()
+      .execute();
+  });
+
+  const createTemplate = async (version: number, body: string) => {
+    const [template] = await db.insert(letterTemplatesTable)
+      .values({
+        letter_type: 'Surat Keterangan Aktif Kuliah',
+        version,
+        title: 'SURAT KETERANGAN AKTIF KULIAH',
+        body,
+        created_by_user_id: adminUser.id
+      })
+      .returning()
+      .execute();
+    return template;
+  };
+
+  const input = (): GenerateFinalLetterInput => ({
+    request_id: letterRequest.id,
+    expected_version: 1
+  });
+
+  it('should render the latest template to a PDF and move the request to TTD_READY', async () => {
+    await createTemplate(1, 'Versi lama untuk {{student_name}}');
+    const latest = await createTemplate(2, 'Menerangkan bahwa {{student_name}} ({{student_nim}}) adalah mahasiswa {{student_prodi}}.');
+
+    const result = await generateFinalLetter(input(), kaurUser.id);
+
+    expect(result.status).toEqual('TTD_READY');
+    expect(result.current_handler_user_id).toEqual(dekanUser.id);
+    expect(result.version).toEqual(2);
+
+    const generated = await db.select()
+      .from(generatedLettersTable)
+      .where(eq(generatedLettersTable.letter_request_id, letterRequest.id))
+      .execute();
+
+    expect(generated).toHaveLength(1);
+    expect(generated[0].template_id).toEqual(latest.id);
+    expect(generated[0].file_name).toEqual('surat-keterangan-aktif-kuliah-2021001.pdf');
+    expect(result.final_letter_url).toEqual(`generated-letters/${generated[0].id}`);
+
+    // The stored bytes are a readable PDF
+    expect(generated[0].content.subarray(0, 5).toString()).toEqual('%PDF-');
+    const pdf = await PDFDocument.load(generated[0].content);
+    expect(pdf.getPageCount()).toEqual(1);
+    expect(pdf.getTitle()).toEqual('SURAT KETERANGAN AKTIF KULIAH');
+  });
+
+  it('should log which template version the letter was rendered from', async () => {
+    await createTemplate(1, 'Menerangkan bahwa {{student_name}}');
+
+    await generateFinalLetter(input(), kaurUser.id);
+
+    const logs = await db.select()
+      .from(trackingLogsTable)
+      .where(eq(trackingLogsTable.letter_request_id, letterRequest.id))
+      .execute();
+
+    expect(logs).toHaveLength(1);
+    expect(logs[0].action_type).toEqual('DOCUMENT_UPLOADED');
+    expect(logs[0].previous_status).toEqual('PROCESSED_BY_KAUR_AKADEMIK');
+    expect(logs[0].new_status).toEqual('TTD_READY');
+    expect(logs[0].notes).toContain('version 1');
+  });
+
+  it('should record the generated letter as the current letter version', async () => {
+    await createTemplate(1, 'Menerangkan bahwa {{student_name}}');
+
+    const result = await generateFinalLetter({ ...input(), change_note: 'First draft' }, kaurUser.id);
+
+    const versions = await db.select()
+      .from(letterVersionsTable)
+      .where(eq(letterVersionsTable.letter_request_id, letterRequest.id))
+      .execute();
+    const generated = await db.select()
+      .from(generatedLettersTable)
+      .where(eq(generatedLettersTable.letter_request_id, letterRequest.id))
+      .execute();
+
+    expect(versions).toHaveLength(1);
+    expect(versions[0].version_number).toEqual(1);
+    expect(versions[0].source).toEqual('GENERATED');
+    expect(versions[0].file_url).toEqual(result.final_letter_url!);
+    expect(versions[0].sha256).toEqual(createHash('sha256').update(generated[0].content).digest('hex'));
+    expect(versions[0].change_note).toEqual('First draft');
+    expect(versions[0].created_by_user_id).toEqual(kaurUser.id);
+    expect(result.current_letter_version_id).toEqual(versions[0].id);
+  });
+
+  it('should keep pointing at the original template after a new version is added', async () => {
+    const original = await createTemplate(1, 'Menerangkan bahwa {{student_name}}');
+
+    await generateFinalLetter(input(), kaurUser.id);
+    await createTemplate(2, 'Teks baru untuk {{student_name}}');
+
+    const generated = await db.select()
+      .from(generatedLettersTable)
+      .where(eq(generatedLettersTable.letter_request_id, letterRequest.id))
+      .execute();
+
+    expect(generated[0].template_id).toEqual(original.id);
+  });
+
+  it('should give the request a verification token for the QR code on the letter', async () => {
+    await createTemplate(1, 'Menerangkan bahwa {{student_name}}');
+
+    const result = await generateFinalLetter(input(), kaurUser.id);
+
+    expect(result.verification_token).toMatch(/^[A-Za-z0-9_-]{43}$/);
+  });
+
+  it('should reject requests whose letter type has no template', async () => {
+    await expect(generateFinalLetter(input(), kaurUser.id))
+      .rejects.toThrow(/No letter template found for letter type: Surat Keterangan Aktif Kuliah/);
+
+    const requests = await db.select()
+      .from(letterRequestsTable)
+      .where(eq(letterRequestsTable.id, letterRequest.id))
+      .execute();
+    expect(requests[0].status).toEqual('PROCESSED_BY_KAUR_AKADEMIK');
+  });
+
+  it('should reject users who are not the current handler', async () => {
+    await createTemplate(1, 'Menerangkan bahwa {{student_name}}');
+
+    await expect(generateFinalLetter(input(), dekanUser.id))
+      .rejects.toThrow(/not authorized to generate final letter/);
+  });
+
+  it('should reject requests that are not ready for a final letter', async () => {
+    await createTemplate(1, 'Menerangkan bahwa {{student_name}}');
+    await db.update(letterRequestsTable)
+      .set({ status: 'DRAFT' })
+      .where(eq(letterRequestsTable.id, letterRequest.id))
+      .execute();
+
+    await expect(generateFinalLetter(input(), kaurUser.id))
+      .rejects.toThrow(/Cannot generate final letter for request in status: DRAFT/);
+  });
+
+  it('should fill every known placeholder and leave unknown ones untouched', () => {
+    const rendered = renderTemplate('{{ student_name }} / {{student_nim}} / {{purpose}} / {{unknown}}', {
+      student_name: 'Siti Rahma',
+      student_nim: '2021001',
+      student_prodi: 'Teknik Informatika',
+      letter_type: 'Surat Keterangan Aktif Kuliah',
+      purpose: 'Beasiswa',
+      dekan_instructions: '',
+      date: '1 Januari 2025'
+    });
+
+    expect(rendered).toEqual('Siti Rahma / 2021001 / Beasiswa / {{unknown}}');
+    expect(findUnknownPlaceholders('{{student_name}} {{unknown}} {{unknown}}')).toEqual(['unknown']);
+  });
+});
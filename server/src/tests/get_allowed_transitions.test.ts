@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, studentsTable, letterRequestsTable } from '../db/schema';
+import { getAllowedTransitions } from '../handlers/get_allowed_transitions';
+import { eq } from 'drizzle-orm';
+
+describe('getAllowedTransitions', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let kaprodiUser: any;
+  let staffProdiUser: any;
+  let dekanUser: any;
+  let testRequest: any;
+
+  beforeEach(async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'kaprodi@ti.com', name: 'Kaprodi TI', role: 'KAPRODI', prodi: 'Teknik Informatika' },
+        { email: 'staff@ti.com', name: 'Staff Prodi TI', role: 'STAFF_PRODI', prodi: 'Teknik Informatika' },
+        { email: 'dekan@university.edu', name: 'Dekan User', role: 'DEKAN', prodi: null }
+      ])
+      .returning()
+      .execute();
+    [kaprodiUser, staffProdiUser, dekanUser] = users;
+
+    const students = await db.insert(studentsTable)
+      .values({ nim: '2024001', name: 'John Doe', prodi: 'Teknik Informatika' })
+      .returning()
+      .execute();
+
+    const requests = await db.insert(letterRequestsTable)
+      .values({
+        student_id: students[0].id,
+        created_by_user_id: staffProdiUser.id,
+        letter_type: 'Surat Keterangan Aktif',
+        purpose: 'Keperluan beasiswa',
+        priority: 'NORMAL',
+        status: 'DRAFT',
+        current_handler_user_id: kaprodiUser.id
+      })
+      .returning()
+      .execute();
+    testRequest = requests[0];
+  });
+
+  it('should leave forwarding an approved request to forwardToDekan', async () => {
+    await db.update(letterRequestsTable)
+      .set({ status: 'APPROVED_KAPRODI' })
+      .where(eq(letterRequestsTable.id, testRequest.id))
+      .execute();
+
+    expect(await getAllowedTransitions(testRequest.id, kaprodiUser.id)).toEqual([]);
+    expect(await getAllowedTransitions(testRequest.id, staffProdiUser.id)).toEqual([]);
+  });
+
+  it('should leave the review of drafts to approveByKaprodi and forwardToDekan', async () => {
+    const result = await getAllowedTransitions(testRequest.id, kaprodiUser.id);
+
+    expect(result).toEqual([]);
+  });
+
+  it('should not offer transitions reserved for other roles', async () => {
+    // The Staff Prodi creator cannot approve a draft
+    const result = await getAllowedTransitions(testRequest.id, staffProdiUser.id);
+
+    expect(result).toEqual([]);
+  });
+
+  it('should leave out transitions that have a dedicated procedure', async () => {
+    // Signing, returning for revision and rejecting go through signLetter, requestRevision and rejectRequest
+    await db.update(letterRequestsTable)
+      .set({ status: 'TTD_READY', current_handler_user_id: dekanUser.id })
+      .where(eq(letterRequestsTable.id, testRequest.id))
+      .execute();
+
+    const result = await getAllowedTransitions(testRequest.id, dekanUser.id);
+
+    expect(result).toEqual([]);
+  });
+
+  it('should leave dispositions to createDisposition and processDisposition', async () => {
+    await db.update(letterRequestsTable)
+      .set({ status: 'FORWARDED_TO_DEKAN', current_handler_user_id: dekanUser.id })
+      .where(eq(letterRequestsTable.id, testRequest.id))
+      .execute();
+    expect(await getAllowedTransitions(testRequest.id, dekanUser.id)).toEqual([]);
+
+    const [officer] = await db.insert(usersTable)
+      .values({ email: 'wd1@university.edu', name: 'WD1 User', role: 'WD1', prodi: null })
+      .returning()
+      .execute();
+    await db.update(letterRequestsTable)
+      .set({ status: 'DISPOSISI_TO_WD1', current_handler_user_id: officer.id })
+      .where(eq(letterRequestsTable.id, testRequest.id))
+      .execute();
+    expect(await getAllowedTransitions(testRequest.id, officer.id)).toEqual([]);
+  });
+
+  it('should return nothing for users not involved in the request', async () => {
+    const result = await getAllowedTransitions(testRequest.id, dekanUser.id);
+
+    expect(result).toEqual([]);
+  });
+
+  it('should throw when the request does not exist', async () => {
+    await expect(getAllowedTransitions(99999, kaprodiUser.id))
+      .rejects.toThrow(/Letter request with ID 99999 not found/);
+  });
+});
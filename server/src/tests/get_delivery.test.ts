@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, studentsTable, letterRequestsTable } from '../db/schema';
+import { getDelivery } from '../handlers/get_delivery';
+import { markDelivered } from '../handlers/mark_delivered';
+
+describe('getDelivery', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let staffProdi: any;
+  let otherProdiStaff: any;
+  let letterRequest: any;
+
+  beforeEach(async () => {
+    [staffProdi, otherProdiStaff] = await db.insert(usersTable)
+      .values([
+        { email: 'prodi@university.edu', name: 'Staff Prodi', role: 'STAFF_PRODI', prodi: 'Informatika' },
+        { email: 'si@university.edu', name: 'Staff SI', role: 'STAFF_PRODI', prodi: 'Sistem Informasi' }
+      ])
+      .returning()
+      .execute();
+
+    const students = await db.insert(studentsTable)
+      .values({ nim: '123456789', name: 'Test Student', prodi: 'Informatika' })
+      .returning()
+      .execute();
+
+    const requests = await db.insert(letterRequestsTable)
+      .values({
+        student_id: students[0].id,
+        created_by_user_id: staffProdi.id,
+        letter_type: 'Surat Keterangan Aktif',
+        purpose: 'Keperluan beasiswa',
+        priority: 'NORMAL',
+        status: 'PRINTED',
+        current_handler_user_id: staffProdi.id
+      })
+      .returning()
+      .execute();
+    letterRequest = requests[0];
+  });
+
+  it('should return null before the letter is delivered', async () => {
+    expect(await getDelivery(letterRequest.id, staffProdi.id)).toBeNull();
+  });
+
+  it('should return the recorded delivery', async () => {
+    await markDelivered({
+      request_id: letterRequest.id,
+      expected_version: 1,
+      recipient_name: 'Parent of Test Student',
+      delivery_method: 'PICKUP'
+    }, staffProdi.id);
+
+    const delivery = await getDelivery(letterRequest.id, staffProdi.id);
+
+    expect(delivery).not.toBeNull();
+    expect(delivery!.letter_request_id).toEqual(letterRequest.id);
+    expect(delivery!.recipient_name).toEqual('Parent of Test Student');
+    expect(delivery!.delivery_method).toEqual('PICKUP');
+    expect(delivery!.delivered_by_user_id).toEqual(staffProdi.id);
+  });
+
+  it('should return null for users who may not read the request', async () => {
+    await markDelivered({
+      request_id: letterRequest.id,
+      expected_version: 1,
+      recipient_name: 'Test Student',
+      delivery_method: 'PICKUP'
+    }, staffProdi.id);
+
+    expect(await getDelivery(letterRequest.id, otherProdiStaff.id)).toBeNull();
+  });
+});
@@ -0,0 +1,32 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { facultiesTable } from '../db/schema';
+import { getFaculties } from '../handlers/get_faculties';
+
+describe('getFaculties', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    await db.insert(facultiesTable)
+      .values([
+        { code: 'FT', name: 'Fakultas Teknik' },
+        { code: 'FEB', name: 'Fakultas Ekonomi dan Bisnis' },
+        { code: 'FH', name: 'Fakultas Hukum', is_active: false }
+      ])
+      .execute();
+  });
+
+  it('should return active faculties ordered by name', async () => {
+    const result = await getFaculties();
+
+    expect(result.map(faculty => faculty.code)).toEqual(['FEB', 'FT']);
+  });
+
+  it('should include deactivated faculties when asked', async () => {
+    const result = await getFaculties(true);
+
+    expect(result.map(faculty => faculty.code)).toEqual(['FEB', 'FH', 'FT']);
+  });
+});
@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, studentsTable, letterRequestsTable, letterTemplatesTable, generatedLettersTable } from '../db/schema';
+import { getGeneratedLetter } from '../handlers/get_generated_letter';
+
+describe('getGeneratedLetter', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let adminUser: any;
+  let studentUser: any;
+  let letterRequest: any;
+  let template: any;
+
+  beforeEach(async () => {
+    [adminUser, studentUser] = await db.insert(usersTable)
+      .values([
+        { email: 'admin@university.edu', name: 'Admin', role: 'ADMIN' },
+        { email: 'student@university.edu', name: 'Other Student', role: 'STUDENT' }
+      ])
+      .returning()
+      .execute();
+
+    const [student] = await db.insert(studentsTable)
+      .values({ nim: '2021001', name: 'Siti Rahma', prodi: 'Teknik Informatika' })
+      .returning()
+      .execute();
+
+    [letterRequest] = await db.insert(letterRequestsTable)
+      .values({
+        student_id: student.id,
+        created_by_user_id: adminUser.id,
+        letter_type: 'Surat Keterangan Aktif Kuliah',
+        purpose: 'Beasiswa',
+        priority: 'NORMAL',
+        status: 'TTD_READY'
+      })
+      .returning()
+      .execute();
+
+    [template] = await db.insert(letterTemplatesTable)
+      .values({
+        letter_type: 'Surat Keterangan Aktif Kuliah',
+        version: 3,
+        title: 'AKTIF',
+        body: 'Isi surat',
+        created_by_user_id: adminUser.id
+      })
+      .returning()
+      .execute();
+  });
+
+  it('should return the latest generated letter with its template version', async () => {
+    await db.insert(generatedLettersTable)
+      .values([
+        { letter_request_id: letterRequest.id, template_id: template.id, file_name: 'old.pdf', content: Buffer.from('%PDF-old'), generated_by_user_id: adminUser.id },
+        { letter_request_id: letterRequest.id, template_id: template.id, file_name: 'new.pdf', content: Buffer.from('%PDF-new'), generated_by_user_id: adminUser.id }
+      ])
+      .execute();
+
+    const result = await getGeneratedLetter(letterRequest.id, adminUser.id);
+
+    expect(result).not.toBeNull();
+    expect(result!.file_name).toEqual('new.pdf');
+    expect(result!.template_id).toEqual(template.id);
+    expect(result!.template_version).toEqual(3);
+    expect(Buffer.from(result!.content_base64, 'base64').toString()).toEqual('%PDF-new');
+  });
+
+  it('should return null when no letter has been generated', async () => {
+    const result = await getGeneratedLetter(letterRequest.id, adminUser.id);
+
+    expect(result).toBeNull();
+  });
+
+  it('should return null for users who cannot read the request', async () => {
+    await db.insert(generatedLettersTable)
+      .values({ letter_request_id: letterRequest.id, template_id: template.id, file_name: 'letter.pdf', content: Buffer.from('%PDF-'), generated_by_user_id: adminUser.id })
+      .execute();
+
+    const result = await getGeneratedLetter(letterRequest.id, studentUser.id);
+
+    expect(result).toBeNull();
+  });
+});
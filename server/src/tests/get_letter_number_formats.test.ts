@@ -0,0 +1,34 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { letterNumberFormatsTable } from '../db/schema';
+import { getLetterNumberFormats } from '../handlers/get_letter_number_formats';
+
+describe('getLetterNumberFormats', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should list the faculty default first', async () => {
+    await db.insert(letterNumberFormatsTable)
+      .values([
+        { letter_type: 'Surat Rekomendasi', unit_code: 'UN1.FT', classification_code: 'PP', pattern: '{seq}/{code}' },
+        { letter_type: null, unit_code: 'UN1.FT', classification_code: 'KM', pattern: '{seq}/{code}' },
+        { letter_type: 'Surat Keterangan Aktif Kuliah', unit_code: 'UN1.FT', classification_code: 'AK', pattern: '{seq}/{code}' }
+      ])
+      .execute();
+
+    const result = await getLetterNumberFormats();
+
+    expect(result.map(format => format.letter_type)).toEqual([
+      null,
+      'Surat Keterangan Aktif Kuliah',
+      'Surat Rekomendasi'
+    ]);
+  });
+
+  it('should return an empty list when nothing is configured', async () => {
+    const result = await getLetterNumberFormats();
+
+    expect(result).toEqual([]);
+  });
+});
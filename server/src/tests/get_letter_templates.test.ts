@@ -0,0 +1,48 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, letterTemplatesTable } from '../db/schema';
+import { getLetterTemplates } from '../handlers/get_letter_templates';
+
+describe('getLetterTemplates', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    const [adminUser] = await db.insert(usersTable)
+      .values({ email: 'admin@university.edu', name: 'Admin', role: 'ADMIN' })
+      .returning()
+      .execute();
+
+    await db.insert(letterTemplatesTable)
+      .values([
+        { letter_type: 'Surat Rekomendasi', version: 1, title: 'REKOMENDASI', body: 'v1', created_by_user_id: adminUser.id },
+        { letter_type: 'Surat Keterangan Aktif Kuliah', version: 1, title: 'AKTIF', body: 'v1', created_by_user_id: adminUser.id },
+        { letter_type: 'Surat Keterangan Aktif Kuliah', version: 2, title: 'AKTIF', body: 'v2', created_by_user_id: adminUser.id }
+      ])
+      .execute();
+  });
+
+  it('should return every version ordered by letter type, newest first', async () => {
+    const result = await getLetterTemplates();
+
+    expect(result.map(template => [template.letter_type, template.version])).toEqual([
+      ['Surat Keterangan Aktif Kuliah', 2],
+      ['Surat Keterangan Aktif Kuliah', 1],
+      ['Surat Rekomendasi', 1]
+    ]);
+  });
+
+  it('should filter by letter type', async () => {
+    const result = await getLetterTemplates('Surat Rekomendasi');
+
+    expect(result).toHaveLength(1);
+    expect(result[0].title).toEqual('REKOMENDASI');
+  });
+
+  it('should return an empty list for letter types without templates', async () => {
+    const result = await getLetterTemplates('Surat Pengantar PKL');
+
+    expect(result).toEqual([]);
+  });
+});
@@ -0,0 +1,32 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { letterTypesTable } from '../db/schema';
+import { getLetterTypes } from '../handlers/get_letter_types';
+
+describe('getLetterTypes', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    await db.insert(letterTypesTable)
+      .values([
+        { code: 'SR', name: 'Surat Rekomendasi' },
+        { code: 'SKAK', name: 'Surat Keterangan Aktif Kuliah' },
+        { code: 'SPM', name: 'Surat Pindah', is_active: false }
+      ])
+      .execute();
+  });
+
+  it('should return active letter types ordered by name', async () => {
+    const result = await getLetterTypes();
+
+    expect(result.map(letterType => letterType.code)).toEqual(['SKAK', 'SR']);
+  });
+
+  it('should include deactivated letter types when asked', async () => {
+    const result = await getLetterTypes(true);
+
+    expect(result.map(letterType => letterType.code)).toEqual(['SKAK', 'SPM', 'SR']);
+  });
+});
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, studentsTable, letterRequestsTable, letterTypesTable, letterNumberFormatsTable } from '../db/schema';
+import { signLetter } from '../handlers/sign_letter';
+import { getLetterVerification } from '../handlers/get_letter_verification';
+import { eq } from 'drizzle-orm';
+
+process.env['SIGNING_KEY_SECRET'] = 'test-signing-key-secret';
+
+describe('getLetterVerification', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let dekanUser: any;
+  let letterRequest: any;
+
+  beforeEach(async () => {
+    [dekanUser] = await db.insert(usersTable)
+      .values([
+        { email: 'dekan@university.edu', name: 'Prof. Dr. Dekan', role: 'DEKAN' },
+        { email: 'staff@fakultas.edu', name: 'Staff Fakultas', role: 'STAFF_FAKULTAS' }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(letterTypesTable)
+      .values({ code: 'SKAK', name: 'Surat Keterangan Aktif Kuliah' })
+      .execute();
+
+    await db.insert(letterNumberFormatsTable)
+      .values({ letter_type: null, unit_code: 'UN1.FT', classification_code: 'KM', pattern: '{seq}/{unit}/{code}/{year}' })
+      .execute();
+
+    const [student] = await db.insert(studentsTable)
+      .values({ nim: '2021001', name: 'Siti Rahma', prodi: 'Teknik Informatika' })
+      .returning()
+      .execute();
+
+    [letterRequest] = await db.insert(letterRequestsTable)
+      .values({
+        student_id: student.id,
+        created_by_user_id: dekanUser.id,
+        letter_type: 'SKAK',
+        purpose: 'Beasiswa',
+        priority: 'NORMAL',
+        status: 'TTD_READY',
+        current_handler_user_id: dekanUser.id,
+        final_letter_url: 'https://storage.example.com/letter.pdf',
+        dekan_instructions: 'Internal note'
+      })
+      .returning()
+      .execute();
+  });
+
+  it('should show only the public fields of a signed letter', async () => {
+    const signed = await signLetter({ request_id: letterRequest.id, expected_version: 1 }, dekanUser.id);
+
+    const result = await getLetterVerification(signed.verification_token!);
+
+    expect(result).toEqual({
+      letter_number: signed.letter_number!,
+      student_name: 'Siti Rahma',
+      letter_type: 'Surat Keterangan Aktif Kuliah',
+      signed_at: expect.any(Date),
+      signer_name: 'Prof. Dr. Dekan',
+      signer_role: 'DEKAN',
+      valid: true
+    });
+  });
+
+  it('should keep answering after the letter moves on to delivery', async () => {
+    const signed = await signLetter({ request_id: letterRequest.id, expected_version: 1 }, dekanUser.id);
+    await db.update(letterRequestsTable)
+      .set({ status: 'DELIVERED' })
+      .where(eq(letterRequestsTable.id, letterRequest.id))
+      .execute();
+
+    const result = await getLetterVerification(signed.verification_token!);
+
+    expect(result).not.toBeNull();
+    expect(result!.valid).toBe(true);
+  });
+
+  it('should report letters changed after signing as invalid', async () => {
+    const signed = await signLetter({ request_id: letterRequest.id, expected_version: 1 }, dekanUser.id);
+    await db.update(letterRequestsTable)
+      .set({ final_letter_url: 'https://storage.example.com/forged.pdf' })
+      .where(eq(letterRequestsTable.id, letterRequest.id))
+      .execute();
+
+    const result = await getLetterVerification(signed.verification_token!);
+
+    expect(result!.valid).toBe(false);
+  });
+
+  it('should not answer for letters that are not signed yet', async () => {
+    const token = 'a'.repeat(43);
+    await db.update(letterRequestsTable)
+      .set({ verification_token: token })
+      .where(eq(letterRequestsTable.id, letterRequest.id))
+      .execute();
+
+    expect(await getLetterVerification(token)).toBeNull();
+  });
+
+  it('should return null for unknown and malformed tokens', async () => {
+    await signLetter({ request_id: letterRequest.id, expected_version: 1 }, dekanUser.id);
+
+    expect(await getLetterVerification('b'.repeat(43))).toBeNull();
+    expect(await getLetterVerification(String(letterRequest.id))).toBeNull();
+  });
+});
@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, studentsTable, letterRequestsTable } from '../db/schema';
+import { getLetterVersions } from '../handlers/get_letter_versions';
+import { uploadFinalLetter } from '../handlers/upload_final_letter';
+import { PDFDocument } from 'pdf-lib';
+import { rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { eq } from 'drizzle-orm';
+
+const storageDir = join(tmpdir(), 'get-letter-versions-test');
+const pdfBytes = Buffer.from(await (await PDFDocument.create()).save());
+
+describe('getLetterVersions', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(() => {
+    process.env['STORAGE_LOCAL_DIR'] = storageDir;
+  });
+  afterEach(() => rm(storageDir, { recursive: true, force: true }));
+
+  let kaurUser: any;
+  let otherProdiUser: any;
+  let letterRequest: any;
+
+  beforeEach(async () => {
+    [kaurUser, , otherProdiUser] = await db.insert(usersTable)
+      .values([
+        { email: 'kaur@university.edu', name: 'Kaur Akademik', role: 'KAUR_AKADEMIK' },
+        { email: 'dekan@university.edu', name: 'Prof. Dr. Dekan', role: 'DEKAN' },
+        { email: 'kaprodi.si@university.edu', name: 'Kaprodi SI', role: 'KAPRODI', prodi: 'Sistem Informasi' }
+      ])
+      .returning()
+      .execute();
+
+    const [student] = await db.insert(studentsTable)
+      .values({ nim: '2021001', name: 'Siti Rahma', prodi: 'Teknik Informatika' })
+      .returning()
+      .execute();
+
+    [letterRequest] = await db.insert(letterRequestsTable)
+      .values({
+        student_id: student.id,
+        created_by_user_id: kaurUser.id,
+        letter_type: 'SKAK',
+        purpose: 'Beasiswa',
+        priority: 'NORMAL',
+        status: 'PROCESSED_BY_KAUR_AKADEMIK',
+        current_handler_user_id: kaurUser.id
+      })
+      .returning()
+      .execute();
+  });
+
+  // Uploads a new draft as if the Dean had sent the previous one back to the officer
+  const uploadDraft = async (fileName: string, changeNote?: string) => {
+    const [current] = await db.update(letterRequestsTable)
+      .set({ status: 'PROCESSED_BY_KAUR_AKADEMIK', current_handler_user_id: kaurUser.id })
+      .where(eq(letterRequestsTable.id, letterRequest.id))
+      .returning()
+      .execute();
+
+    return uploadFinalLetter({
+      request_id: letterRequest.id,
+      expected_version: current.version,
+      file: new File([pdfBytes], fileName, { type: 'application/pdf' }),
+      change_note: changeNote
+    }, kaurUser.id);
+  };
+
+  it('should list every version newest first and mark the current one', async () => {
+    await uploadDraft('draft-1.pdf');
+    await uploadDraft('draft-2.pdf', 'Fixed the student name');
+
+    const result = await getLetterVersions(letterRequest.id, kaurUser.id);
+
+    expect(result).toHaveLength(2);
+    expect(result.map(version => version.version_number)).toEqual([2, 1]);
+    expect(result[0]).toMatchObject({
+      file_name: 'draft-2.pdf',
+      source: 'UPLOADED',
+      change_note: 'Fixed the student name',
+      created_by_user_id: kaurUser.id,
+      created_by_name: 'Kaur Akademik',
+      is_current: true
+    });
+    expect(result[1].file_name).toEqual('draft-1.pdf');
+    expect(result[1].change_note).toBeNull();
+    expect(result[1].is_current).toBe(false);
+  });
+
+  it('should return an empty list for requests without a final letter', async () => {
+    expect(await getLetterVersions(letterRequest.id, kaurUser.id)).toEqual([]);
+  });
+
+  it('should return an empty list for unknown requests', async () => {
+    expect(await getLetterVersions(99999)).toEqual([]);
+  });
+
+  it('should return an empty list for users who cannot read the request', async () => {
+    await uploadDraft('draft-1.pdf');
+
+    expect(await getLetterVersions(letterRequest.id, otherProdiUser.id)).toEqual([]);
+  });
+});
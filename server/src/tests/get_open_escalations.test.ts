@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, studentsTable, letterRequestsTable, dispositionAssignmentsTable, escalationsTable } from '../db/schema';
+import { getOpenEscalations } from '../handlers/get_open_escalations';
+import { eq } from 'drizzle-orm';
+
+describe('getOpenEscalations', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let adminUser: any;
+  let kaurUser: any;
+  let requests: any[];
+  let assignments: any[];
+
+  beforeEach(async () => {
+    let dekanUser: any;
+    [adminUser, dekanUser, kaurUser] = await db.insert(usersTable)
+      .values([
+        { email: 'admin@university.edu', name: 'Admin User', role: 'ADMIN', prodi: null },
+        { email: 'dekan@university.edu', name: 'Dekan Faculty', role: 'DEKAN', prodi: null },
+        { email: 'kaur@university.edu', name: 'Kaur Akademik', role: 'KAUR_AKADEMIK', prodi: null }
+      ])
+      .returning()
+      .execute();
+
+    const students = await db.insert(studentsTable)
+      .values({ nim: '123456789', name: 'Test Student', prodi: 'Teknik Informatika' })
+      .returning()
+      .execute();
+
+    requests = await db.insert(letterRequestsTable)
+      .values([1, 2].map(() => ({
+        student_id: students[0].id,
+        created_by_user_id: kaurUser.id,
+        letter_type: 'SKA',
+        purpose: 'Keperluan beasiswa',
+        priority: 'URGENT' as const,
+        status: 'ESCALATED' as const,
+        current_handler_user_id: adminUser.id
+      })))
+      .returning()
+      .execute();
+
+    assignments = await db.insert(dispositionAssignmentsTable)
+      .values(requests.map(request => ({
+        letter_request_id: request.id,
+        assigned_to_user_id: kaurUser.id,
+        assigned_by_user_id: dekanUser.id,
+        instructions: 'Check',
+        order_sequence: 1,
+        is_completed: true
+      })))
+      .returning()
+      .execute();
+  });
+
+  it('should list open escalations, longest waiting first', async () => {
+    await db.insert(escalationsTable)
+      .values([
+        {
+          letter_request_id: requests[0].id,
+          assignment_id: assignments[0].id,
+          raised_by_user_id: kaurUser.id,
+          category: 'WORKLOAD',
+          reason: 'Too many requests this week',
+          raised_at: new Date('2024-03-02T08:00:00Z')
+        },
+        {
+          letter_request_id: requests[1].id,
+          assignment_id: assignments[1].id,
+          raised_by_user_id: kaurUser.id,
+          category: 'POLICY_QUESTION',
+          reason: 'Unclear whether this letter type applies',
+          raised_at: new Date('2024-03-01T08:00:00Z')
+        }
+      ])
+      .execute();
+
+    const result = await getOpenEscalations();
+
+    expect(result).toHaveLength(2);
+    expect(result[0].letter_request_id).toEqual(requests[1].id);
+    expect(result[0].category).toEqual('POLICY_QUESTION');
+    expect(result[0].raised_by_name).toEqual('Kaur Akademik');
+    expect(result[0].student_nim).toEqual('123456789');
+    expect(result[0].student_name).toEqual('Test Student');
+    expect(result[0].letter_type).toEqual('SKA');
+    expect(result[0].priority).toEqual('URGENT');
+    expect(result[1].letter_request_id).toEqual(requests[0].id);
+  });
+
+  it('should leave out resolved escalations', async () => {
+    const escalations = await db.insert(escalationsTable)
+      .values({
+        letter_request_id: requests[0].id,
+        assignment_id: assignments[0].id,
+        raised_by_user_id: kaurUser.id,
+        category: 'OTHER',
+        reason: 'Needs a decision'
+      })
+      .returning()
+      .execute();
+
+    await db.update(escalationsTable)
+      .set({ resolution: 'SENT_TO_DEKAN', resolved_by_user_id: adminUser.id, resolved_at: new Date(), time_to_resolve_seconds: 60 })
+      .where(eq(escalationsTable.id, escalations[0].id))
+      .execute();
+
+    expect(await getOpenEscalations()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,32 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { rejectionReasonsTable } from '../db/schema';
+import { getRejectionReasons } from '../handlers/get_rejection_reasons';
+
+describe('getRejectionReasons', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    await db.insert(rejectionReasonsTable)
+      .values([
+        { code: 'NOT_ELIGIBLE', label: 'Tidak memenuhi syarat' },
+        { code: 'INCOMPLETE_DOCUMENTS', label: 'Dokumen tidak lengkap' },
+        { code: 'DUPLICATE', label: 'Permohonan ganda', is_active: false }
+      ])
+      .execute();
+  });
+
+  it('should return active reasons ordered by label', async () => {
+    const result = await getRejectionReasons();
+
+    expect(result.map(reason => reason.code)).toEqual(['INCOMPLETE_DOCUMENTS', 'NOT_ELIGIBLE']);
+  });
+
+  it('should include deactivated reasons when asked', async () => {
+    const result = await getRejectionReasons(true);
+
+    expect(result.map(reason => reason.code)).toEqual(['INCOMPLETE_DOCUMENTS', 'DUPLICATE', 'NOT_ELIGIBLE']);
+  });
+});
@@ -223,6 +223,26 @@ describe('getRequestById', () => {
     expect(result).toBeNull();
   });
 
+  it('should allow the student the request is about to view it', async () => {
+    const [studentAccount, otherStudent] = await db.insert(usersTable)
+      .values([
+        { email: 'student@university.edu', name: 'Test Student', role: 'STUDENT', prodi: 'Informatika' },
+        { email: 'other.student@university.edu', name: 'Other Student', role: 'STUDENT', prodi: 'Informatika' }
+      ])
+      .returning()
+      .execute();
+    await db.update(studentsTable)
+      .set({ user_id: studentAccount.id })
+      .where(eq(studentsTable.id, testStudent.id))
+      .execute();
+
+    const result = await getRequestById(testRequest.id, studentAccount.id);
+    expect(result).not.toBeNull();
+    expect(result!.id).toBe(testRequest.id);
+
+    expect(await getRequestById(testRequest.id, otherStudent.id)).toBeNull();
+  });
+
   it('should allow faculty staff to view requests', async () => {
     // Create a DEKAN user
     const dekanUser = await db.insert(usersTable)
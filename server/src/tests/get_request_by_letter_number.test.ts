@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, studentsTable, letterRequestsTable } from '../db/schema';
+import { getRequestByLetterNumber } from '../handlers/get_request_by_letter_number';
+
+describe('getRequestByLetterNumber', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let adminUser: any;
+  let studentUser: any;
+  let letterRequest: any;
+
+  beforeEach(async () => {
+    [adminUser, studentUser] = await db.insert(usersTable)
+      .values([
+        { email: 'admin@university.edu', name: 'Admin', role: 'ADMIN' },
+        { email: 'student@university.edu', name: 'Other Student', role: 'STUDENT' }
+      ])
+      .returning()
+      .execute();
+
+    const [student] = await db.insert(studentsTable)
+      .values({ nim: '2021001', name: 'Siti Rahma', prodi: 'Teknik Informatika' })
+      .returning()
+      .execute();
+
+    [letterRequest] = await db.insert(letterRequestsTable)
+      .values({
+        student_id: student.id,
+        created_by_user_id: adminUser.id,
+        letter_type: 'Surat Keterangan Aktif Kuliah',
+        purpose: 'Beasiswa',
+        priority: 'NORMAL',
+        status: 'TTD_DONE',
+        letter_number: '12/UN1.FT/KM/2026'
+      })
+      .returning()
+      .execute();
+  });
+
+  it('should find the request carrying the letter number', async () => {
+    const result = await getRequestByLetterNumber(' 12/UN1.FT/KM/2026 ', adminUser.id);
+
+    expect(result).not.toBeNull();
+    expect(result!.id).toEqual(letterRequest.id);
+    expect(result!.letter_number).toEqual('12/UN1.FT/KM/2026');
+    expect(result!.version).toEqual(1);
+  });
+
+  it('should return null for unknown numbers', async () => {
+    const result = await getRequestByLetterNumber('13/UN1.FT/KM/2026', adminUser.id);
+
+    expect(result).toBeNull();
+  });
+
+  it('should return null for users who cannot read the request', async () => {
+    const result = await getRequestByLetterNumber('12/UN1.FT/KM/2026', studentUser.id);
+
+    expect(result).toBeNull();
+  });
+});
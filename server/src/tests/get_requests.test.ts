@@ -1,9 +1,10 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, studentsTable, letterRequestsTable } from '../db/schema';
-import { type CreateUserInput, type CreateStudentInput, type CreateLetterRequestInput, type GetRequestsFilter } from '../schema';
+import { usersTable, studentsTable, letterRequestsTable, dispositionAssignmentsTable, type NewStudent, type NewUser } from '../db/schema';
+import { type CreateLetterRequestInput, type GetRequestsFilter } from '../schema';
 import { getRequests } from '../handlers/get_requests';
+import { eq } from 'drizzle-orm';
 
 describe('getRequests', () => {
   beforeEach(createDB);
@@ -23,33 +24,33 @@ describe('getRequests', () => {
 
   const setupTestData = async () => {
     // Create users
-    const adminUserData: CreateUserInput = {
+    const adminUserData: NewUser = {
       email: 'admin@test.com',
       name: 'Admin User',
       role: 'ADMIN'
     };
 
-    const kaprodiBIUserData: CreateUserInput = {
+    const kaprodiBIUserData: NewUser = {
       email: 'kaprodi.bi@test.com',
       name: 'Kaprodi BI',
       role: 'KAPRODI',
       prodi: 'Bisnis Digital'
     };
 
-    const kaprodiTIUserData: CreateUserInput = {
+    const kaprodiTIUserData: NewUser = {
       email: 'kaprodi.ti@test.com',
       name: 'Kaprodi TI',
       role: 'KAPRODI',
       prodi: 'Teknik Informatika'
     };
 
-    const studentUserData: CreateUserInput = {
+    const studentUserData: NewUser = {
       email: 'student@test.com',
       name: 'Student User',
       role: 'STUDENT'
     };
 
-    const wd1UserData: CreateUserInput = {
+    const wd1UserData: NewUser = {
       email: 'wd1@test.com',
       name: 'WD1 User',
       role: 'WD1'
@@ -62,13 +63,13 @@ describe('getRequests', () => {
     [wd1User] = await db.insert(usersTable).values(wd1UserData).returning().execute();
 
     // Create students
-    const student1Data: CreateStudentInput = {
+    const student1Data: NewStudent = {
       nim: '123456789',
       name: 'Student One',
       prodi: 'Bisnis Digital'
     };
 
-    const student2Data: CreateStudentInput = {
+    const student2Data: NewStudent = {
       nim: '987654321',
       name: 'Student Two',
       prodi: 'Teknik Informatika'
@@ -147,6 +148,22 @@ describe('getRequests', () => {
     expect(results[0].id).toBe(request2.id);
   });
 
+  it('should include requests the user is assigned to by disposition', async () => {
+    await setupTestData();
+
+    await db.insert(dispositionAssignmentsTable).values({
+      letter_request_id: request3.id,
+      assigned_to_user_id: wd1User.id,
+      assigned_by_user_id: adminUser.id,
+      instructions: 'Mohon ditindaklanjuti',
+      order_sequence: 1
+    }).execute();
+
+    const results = await getRequests(undefined, wd1User.id);
+
+    expect(results.map(r => r.id).sort()).toEqual([request2.id, request3.id].sort());
+  });
+
   it('should return only created requests for student users', async () => {
     await setupTestData();
 
@@ -157,6 +174,19 @@ describe('getRequests', () => {
     expect(results[0].id).toBe(request3.id);
   });
 
+  it('should include requests about the student linked to a student user', async () => {
+    await setupTestData();
+    await db.update(studentsTable)
+      .set({ user_id: studentUser.id })
+      .where(eq(studentsTable.id, student1.id))
+      .execute();
+
+    const results = await getRequests(undefined, studentUser.id);
+
+    // request1 was created by the Kaprodi on the student's behalf
+    expect(results.map(r => r.id).sort()).toEqual([request1.id, request3.id].sort());
+  });
+
   it('should filter by status', async () => {
     await setupTestData();
 
@@ -224,6 +254,20 @@ describe('getRequests', () => {
     expect(results[0].id).toBe(request2.id);
   });
 
+  it('should include parallel disposition steps when filtering by current_handler_user_id', async () => {
+    await setupTestData();
+
+    await db.update(letterRequestsTable)
+      .set({ status: 'DISPOSISI_PARALLEL', current_handler_user_id: null, parallel_handler_user_ids: [wd1User.id] })
+      .where(eq(letterRequestsTable.id, request3.id))
+      .execute();
+
+    const results = await getRequests({ current_handler_user_id: wd1User.id }, adminUser.id);
+
+    expect(results.map(result => result.id).sort()).toEqual([request2.id, request3.id].sort());
+    expect(results.find(result => result.id === request3.id)!.parallel_handler_user_ids).toEqual([wd1User.id]);
+  });
+
   it('should filter by date range', async () => {
     await setupTestData();
 
@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, sessionsTable } from '../db/schema';
+import { getSessionUser } from '../handlers/get_session_user';
+import { hashSessionToken } from '../lib/session';
+
+describe('getSessionUser', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let kaprodiUser: any;
+
+  beforeEach(async () => {
+    const users = await db.insert(usersTable)
+      .values({
+        email: 'kaprodi@ti.com',
+        name: 'Kaprodi TI',
+        role: 'KAPRODI',
+        prodi: 'Teknik Informatika',
+        password_hash: 'scrypt:00:00'
+      })
+      .returning()
+      .execute();
+    kaprodiUser = users[0];
+  });
+
+  it('should resolve the user for a valid session', async () => {
+    await db.insert(sessionsTable)
+      .values({
+        user_id: kaprodiUser.id,
+        token_hash: hashSessionToken('valid-token'),
+        expires_at: new Date(Date.now() + 60 * 60 * 1000)
+      })
+      .execute();
+
+    const result = await getSessionUser('valid-token');
+
+    expect(result).not.toBeNull();
+    expect(result!.id).toEqual(kaprodiUser.id);
+    expect(result!.role).toEqual('KAPRODI');
+    expect((result as any).password_hash).toBeUndefined();
+  });
+
+  it('should return null for an expired session', async () => {
+    await db.insert(sessionsTable)
+      .values({
+        user_id: kaprodiUser.id,
+        token_hash: hashSessionToken('expired-token'),
+        expires_at: new Date(Date.now() - 60 * 1000)
+      })
+      .execute();
+
+    const result = await getSessionUser('expired-token');
+
+    expect(result).toBeNull();
+  });
+
+  it('should return null for an unknown token', async () => {
+    const result = await getSessionUser('unknown-token');
+
+    expect(result).toBeNull();
+  });
+});
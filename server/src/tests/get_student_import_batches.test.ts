@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { facultiesTable, studyProgramsTable, usersTable } from '../db/schema';
+import { getStudentImportBatches } from '../handlers/get_student_import_batches';
+import { importStudents } from '../handlers/import_students';
+
+const csvFile = (name: string, lines: string[]) => new File([lines.join('\n')], name, { type: 'text/csv' });
+
+describe('getStudentImportBatches', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let staffUser: any;
+
+  beforeEach(async () => {
+    [staffUser] = await db.insert(usersTable)
+      .values({ email: 'fakultas@university.edu', name: 'Staff Fakultas', role: 'STAFF_FAKULTAS', prodi: null })
+      .returning()
+      .execute();
+
+    const [faculty] = await db.insert(facultiesTable)
+      .values({ code: 'FT', name: 'Fakultas Teknik' })
+      .returning()
+      .execute();
+    await db.insert(studyProgramsTable)
+      .values({ code: 'IF', name: 'Informatika', faculty_id: faculty.id })
+      .execute();
+  });
+
+  it('should return an empty list before any import', async () => {
+    expect(await getStudentImportBatches()).toEqual([]);
+  });
+
+  it('should list recorded imports newest first with their skipped rows', async () => {
+    await importStudents({
+      file: csvFile('first.csv', ['nim,nama,prodi,status', '2021000001,Siti Rahma,Informatika,Aktif']),
+      dry_run: false
+    }, staffUser.id);
+    await importStudents({
+      file: csvFile('preview.csv', ['nim,nama,prodi,status', '2021000002,Budi,Informatika,Aktif']),
+      dry_run: true
+    }, staffUser.id);
+    await importStudents({
+      file: csvFile('second.csv', ['nim,nama,prodi,status', '2021000002,Budi,Informatika,Aktif', 'x,Ani,Informatika,Aktif']),
+      dry_run: false
+    }, staffUser.id);
+
+    const batches = await getStudentImportBatches();
+
+    // Dry runs are not recorded
+    expect(batches.map(batch => batch.file_name)).toEqual(['second.csv', 'first.csv']);
+    expect(batches[0].imported_by_name).toEqual('Staff Fakultas');
+    expect(batches[0].created_count).toEqual(1);
+    expect(batches[0].error_count).toEqual(1);
+    expect(batches[0].errors).toEqual([
+      { row_number: 3, nim: 'x', message: 'Invalid NIM: x (expected 8 to 15 digits)' }
+    ]);
+    expect(batches[1].errors).toEqual([]);
+  });
+});
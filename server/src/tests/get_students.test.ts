@@ -1,12 +1,11 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { studentsTable } from '../db/schema';
-import { type CreateStudentInput } from '../schema';
+import { studentsTable, type NewStudent } from '../db/schema';
 import { getStudents } from '../handlers/get_students';
 
 // Test data
-const testStudents: CreateStudentInput[] = [
+const testStudents: NewStudent[] = [
   {
     nim: '1234567890',
     name: 'Ahmad Rizki',
@@ -0,0 +1,44 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { facultiesTable, studyProgramsTable } from '../db/schema';
+import { getStudyPrograms } from '../handlers/get_study_programs';
+
+describe('getStudyPrograms', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let teknik: any;
+
+  beforeEach(async () => {
+    const faculties = await db.insert(facultiesTable)
+      .values([
+        { code: 'FT', name: 'Fakultas Teknik' },
+        { code: 'FEB', name: 'Fakultas Ekonomi dan Bisnis' }
+      ])
+      .returning()
+      .execute();
+    teknik = faculties[0];
+
+    await db.insert(studyProgramsTable)
+      .values([
+        { code: 'SI', name: 'Sistem Informasi', faculty_id: teknik.id },
+        { code: 'IF', name: 'Informatika', faculty_id: teknik.id },
+        { code: 'TM', name: 'Teknik Mesin', faculty_id: teknik.id, is_active: false },
+        { code: 'AK', name: 'Akuntansi', faculty_id: faculties[1].id }
+      ])
+      .execute();
+  });
+
+  it('should return active study programs ordered by name', async () => {
+    const result = await getStudyPrograms();
+
+    expect(result.map(program => program.code)).toEqual(['AK', 'IF', 'SI']);
+  });
+
+  it('should filter by faculty and include deactivated programs when asked', async () => {
+    const result = await getStudyPrograms({ faculty_id: teknik.id, includeInactive: true });
+
+    expect(result.map(program => program.code)).toEqual(['IF', 'SI', 'TM']);
+  });
+});
@@ -33,6 +33,13 @@ const testOtherUser = {
   prodi: 'Matematika'
 };
 
+const testOfficerUser = {
+  email: 'kabag@example.com',
+  name: 'Kabag TU',
+  role: 'KABAG_TU' as const,
+  prodi: null
+};
+
 describe('getSupportingDocuments', () => {
   beforeEach(createDB);
   afterEach(resetDB);
@@ -198,7 +205,7 @@ describe('getSupportingDocuments', () => {
   it('should allow current handler to view documents', async () => {
     // Create prerequisite data
     const [user] = await db.insert(usersTable).values(testUser).returning().execute();
-    const [handlerUser] = await db.insert(usersTable).values(testOtherUser).returning().execute();
+    const [handlerUser] = await db.insert(usersTable).values(testOfficerUser).returning().execute();
     const [student] = await db.insert(studentsTable).values(testStudent).returning().execute();
     
     const [letterRequest] = await db.insert(letterRequestsTable).values({
@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { letterRequestsTable, letterTypesTable, studentsTable, usersTable } from '../db/schema';
+import { getUnmappedLetterTypes } from '../handlers/get_unmapped_letter_types';
+
+describe('getUnmappedLetterTypes', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let staff: any;
+  let student: any;
+
+  beforeEach(async () => {
+    [staff] = await db.insert(usersTable)
+      .values({ email: 'staff@university.edu', name: 'Staff IF', role: 'STAFF_PRODI', prodi: 'Informatika' })
+      .returning()
+      .execute();
+
+    [student] = await db.insert(studentsTable)
+      .values({ nim: '2021000001', name: 'Siti Rahma', prodi: 'Informatika' })
+      .returning()
+      .execute();
+
+    await db.insert(letterTypesTable).values({ code: 'SKA', name: 'Surat Keterangan Aktif' }).execute();
+  });
+
+  const requestWithType = (letterType: string) => ({
+    student_id: student.id,
+    created_by_user_id: staff.id,
+    letter_type: letterType,
+    purpose: 'Beasiswa',
+    priority: 'NORMAL' as const,
+    status: 'DRAFT' as const
+  });
+
+  it('should return an empty list once every request uses a catalog code', async () => {
+    await db.insert(letterRequestsTable).values(requestWithType('SKA')).execute();
+
+    expect(await getUnmappedLetterTypes()).toEqual([]);
+  });
+
+  it('should count requests per free-text type and suggest the entry with the same name', async () => {
+    await db.insert(letterRequestsTable)
+      .values([
+        requestWithType('SKA'),
+        requestWithType('surat keterangan aktif'),
+        requestWithType('surat keterangan aktif'),
+        requestWithType('Surat Cuti')
+      ])
+      .execute();
+
+    expect(await getUnmappedLetterTypes()).toEqual([
+      { letter_type: 'Surat Cuti', request_count: 1, suggested_code: null },
+      { letter_type: 'surat keterangan aktif', request_count: 2, suggested_code: 'SKA' }
+    ]);
+  });
+});
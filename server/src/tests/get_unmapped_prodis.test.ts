@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { facultiesTable, studentsTable, studyProgramsTable, usersTable } from '../db/schema';
+import { getUnmappedProdis } from '../handlers/get_unmapped_prodis';
+
+describe('getUnmappedProdis', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let informatika: any;
+
+  beforeEach(async () => {
+    const [faculty] = await db.insert(facultiesTable)
+      .values({ code: 'FT', name: 'Fakultas Teknik' })
+      .returning()
+      .execute();
+
+    [informatika] = await db.insert(studyProgramsTable)
+      .values({ code: 'IF', name: 'Informatika', faculty_id: faculty.id })
+      .returning()
+      .execute();
+  });
+
+  it('should return an empty list once everything is mapped', async () => {
+    await db.insert(usersTable)
+      .values({ email: 'kaprodi@university.edu', name: 'Kaprodi IF', role: 'KAPRODI', prodi: 'Informatika', study_program_id: informatika.id })
+      .execute();
+
+    expect(await getUnmappedProdis()).toEqual([]);
+  });
+
+  it('should count unlinked users and students per spelling and suggest matching programs', async () => {
+    await db.insert(usersTable)
+      .values([
+        { email: 'kaprodi@university.edu', name: 'Kaprodi TI', role: 'KAPRODI', prodi: 'Teknik Informatika' },
+        { email: 'staff@university.edu', name: 'Staff IF', role: 'STAFF_PRODI', prodi: 'informatika' },
+        { email: 'linked@university.edu', name: 'Staff Linked', role: 'STAFF_PRODI', prodi: 'Informatika', study_program_id: informatika.id },
+        { email: 'dekan@university.edu', name: 'Dekan', role: 'DEKAN', prodi: null }
+      ])
+      .execute();
+
+    await db.insert(studentsTable)
+      .values([
+        { nim: '2021000001', name: 'Siti Rahma', prodi: 'Teknik Informatika' },
+        { nim: '2021000002', name: 'Budi Santoso', prodi: 'Teknik Informatika' },
+        { nim: '2021000003', name: 'Ani Wijaya', prodi: 'IF' }
+      ])
+      .execute();
+
+    expect(await getUnmappedProdis()).toEqual([
+      { prodi: 'IF', user_count: 0, student_count: 1, suggested_study_program_id: informatika.id },
+      { prodi: 'informatika', user_count: 1, student_count: 0, suggested_study_program_id: informatika.id },
+      { prodi: 'Teknik Informatika', user_count: 1, student_count: 2, suggested_study_program_id: null }
+    ]);
+  });
+});
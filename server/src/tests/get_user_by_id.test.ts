@@ -1,19 +1,18 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable } from '../db/schema';
-import { type CreateUserInput } from '../schema';
+import { usersTable, type NewUser } from '../db/schema';
 import { getUserById } from '../handlers/get_user_by_id';
 
 // Test user data
-const testUser: CreateUserInput = {
+const testUser: NewUser = {
   email: 'test@example.com',
   name: 'Test User',
   role: 'STUDENT',
   prodi: 'Informatika'
 };
 
-const testKaprodiUser: CreateUserInput = {
+const testKaprodiUser: NewUser = {
   email: 'kaprodi@example.com',
   name: 'Kaprodi Test',
   role: 'KAPRODI',
@@ -72,7 +71,7 @@ describe('getUserById', () => {
 
   it('should handle users with null prodi', async () => {
     // Create user with null prodi (e.g., admin role)
-    const adminUser: CreateUserInput = {
+    const adminUser: NewUser = {
       email: 'admin@example.com',
       name: 'Admin User',
       role: 'ADMIN',
@@ -1,12 +1,12 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable } from '../db/schema';
-import { type CreateUserInput, type UserRole } from '../schema';
+import { usersTable, type NewUser } from '../db/schema';
+import { type UserRole } from '../schema';
 import { getUsersByRole } from '../handlers/get_users_by_role';
 
 // Test users for different roles
-const testUsers: CreateUserInput[] = [
+const testUsers: NewUser[] = [
   {
     email: 'kaprodi1@university.edu',
     name: 'Kaprodi Informatika',
@@ -167,7 +167,7 @@ describe('getUsersByRole', () => {
   });
 
   it('should handle all administrative roles', async () => {
-    const adminUsers: CreateUserInput[] = [
+    const adminUsers: NewUser[] = [
       {
         email: 'kabag.tu@university.edu',
         name: 'Kabag Tata Usaha',
@@ -0,0 +1,287 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { buildXlsx } from '../helpers/xlsx';
+import { db } from '../db';
+import { usersTable, studentsTable, studentImportBatchesTable, studentImportErrorsTable, facultiesTable, studyProgramsTable } from '../db/schema';
+import { importStudents } from '../handlers/import_students';
+import { asc, eq } from 'drizzle-orm';
+
+const csvFile = (lines: string[]) => new File([lines.join('\n')], 'siakad.csv', { type: 'text/csv' });
+
+describe('importStudents', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let adminUser: any;
+  let faculty: any;
+  let informatika: any;
+  let sistemInformasi: any;
+
+  beforeEach(async () => {
+    [adminUser] = await db.insert(usersTable)
+      .values({ email: 'admin@university.edu', name: 'Admin', role: 'ADMIN', prodi: null })
+      .returning()
+      .execute();
+
+    [faculty] = await db.insert(facultiesTable)
+      .values({ code: 'FT', name: 'Fakultas Teknik' })
+      .returning()
+      .execute();
+    [informatika, sistemInformasi] = await db.insert(studyProgramsTable)
+      .values([
+        { code: 'IF', name: 'Informatika', faculty_id: faculty.id },
+        { code: 'SI', name: 'Sistem Informasi', faculty_id: faculty.id },
+        { code: 'TM', name: 'Teknik Mesin', faculty_id: faculty.id, is_active: false }
+      ])
+      .returning()
+      .execute();
+  });
+
+  it('should create students and record the batch', async () => {
+    const result = await importStudents({
+      file: csvFile([
+        'NIM,Nama,Prodi,Status',
+        '2021000001,Siti Rahma,Informatika,AKTIF',
+        '2021000002,Budi Santoso,sistem informasi,cuti'
+      ]),
+      dry_run: false
+    }, adminUser.id);
+
+    expect(result.dry_run).toBe(false);
+    expect(result.batch_id).not.toBeNull();
+    expect(result.total_rows).toEqual(2);
+    expect(result.created_count).toEqual(2);
+    expect(result.error_count).toEqual(0);
+    expect(result.rows).toEqual([
+      { row: 2, nim: '2021000001', action: 'CREATE', message: null },
+      { row: 3, nim: '2021000002', action: 'CREATE', message: null }
+    ]);
+
+    const students = await db.select().from(studentsTable).orderBy(asc(studentsTable.nim)).execute();
+    expect(students.map(student => [student.nim, student.name, student.prodi, student.study_program_id, student.status])).toEqual([
+      ['2021000001', 'Siti Rahma', 'Informatika', informatika.id, 'ACTIVE'],
+      ['2021000002', 'Budi Santoso', 'Sistem Informasi', sistemInformasi.id, 'LEAVE']
+    ]);
+
+    const batches = await db.select().from(studentImportBatchesTable).execute();
+    expect(batches).toHaveLength(1);
+    expect(batches[0].id).toEqual(result.batch_id!);
+    expect(batches[0].file_name).toEqual('siakad.csv');
+    expect(batches[0].imported_by_user_id).toEqual(adminUser.id);
+    expect(batches[0].created_count).toEqual(2);
+    expect(batches[0].sha256).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('should update students by NIM and leave identical ones alone', async () => {
+    const [linkedUser] = await db.insert(usersTable)
+      .values({ email: 'siti@student.university.edu', name: 'Siti Rahma', role: 'STUDENT', prodi: 'Informatika' })
+      .returning()
+      .execute();
+    await db.insert(studentsTable)
+      .values([
+        { nim: '2021000001', name: 'Siti Rahma', prodi: 'Informatika', study_program_id: informatika.id, faculty_id: faculty.id, user_id: linkedUser.id },
+        { nim: '2021000002', name: 'Budi Santoso', prodi: 'Informatika', study_program_id: informatika.id, faculty_id: faculty.id }
+      ])
+      .execute();
+
+    const result = await importStudents({
+      file: csvFile([
+        'nim,name,prodi,status',
+        '2021000001,Siti Rahma,Informatika,LULUS',
+        '2021000002,Budi Santoso,Informatika,ACTIVE'
+      ]),
+      dry_run: false
+    }, adminUser.id);
+
+    expect(result.rows.map(row => row.action)).toEqual(['UPDATE', 'UNCHANGED']);
+    expect(result.updated_count).toEqual(1);
+    expect(result.unchanged_count).toEqual(1);
+
+    const updated = await db.select().from(studentsTable).where(eq(studentsTable.nim, '2021000001')).execute();
+    expect(updated[0].status).toEqual('GRADUATED');
+    // The account link survives the update
+    expect(updated[0].user_id).toEqual(linkedUser.id);
+  });
+
+  it('should accept study program codes and link students not yet mapped', async () => {
+    await db.insert(studentsTable)
+      .values({ nim: '2021000001', name: 'Siti Rahma', prodi: 'Teknik Informatika' })
+      .execute();
+
+    const result = await importStudents({
+      file: csvFile([
+        'nim,nama,prodi,status',
+        '2021000001,Siti Rahma,if,Aktif',
+        '2021000002,Budi Santoso,Teknik Mesin,Aktif'
+      ]),
+      dry_run: false
+    }, adminUser.id);
+
+    expect(result.rows.map(row => [row.action, row.message])).toEqual([
+      ['UPDATE', null],
+      // Deactivated programs take no new students
+      ['ERROR', 'Unknown prodi: Teknik Mesin']
+    ]);
+
+    const [student] = await db.select().from(studentsTable).where(eq(studentsTable.nim, '2021000001')).execute();
+    expect([student.prodi, student.study_program_id]).toEqual(['Informatika', informatika.id]);
+  });
+
+  it('should import the optional academic columns and keep them when a file leaves them out', async () => {
+    const first = await importStudents({
+      file: csvFile([
+        'NIM;Nama;Prodi;Status;Angkatan;Semester;Fakultas',
+        '2021000001;Siti Rahma;Informatika;AKTIF;2021;7;Fakultas  Teknik',
+        '2021000002;Budi Santoso;Informatika;AKTIF;21;0;Fakultas Teknik'
+      ]),
+      dry_run: false
+    }, adminUser.id);
+
+    expect(first.rows[1]).toEqual({
+      row: 3,
+      nim: '2021000002',
+      action: 'ERROR',
+      message: 'Invalid angkatan: 21 (expected a four-digit year); Invalid semester: 0 (expected a positive whole number)'
+    });
+
+    const [created] = await db.select().from(studentsTable).where(eq(studentsTable.nim, '2021000001')).execute();
+    expect([created.angkatan, created.semester, created.faculty_id]).toEqual([2021, 7, faculty.id]);
+
+    // A file without the optional columns leaves them alone; an empty cell clears them
+    const second = await importStudents({
+      file: csvFile(['NIM,Nama,Prodi,Status', '2021000001,Siti Rahma,Informatika,AKTIF']),
+      dry_run: false
+    }, adminUser.id);
+    expect(second.rows[0].action).toEqual('UNCHANGED');
+
+    const third = await importStudents({
+      file: csvFile(['NIM,Nama,Prodi,Status,Semester', '2021000001,Siti Rahma,Informatika,AKTIF,']),
+      dry_run: false
+    }, adminUser.id);
+    expect(third.rows[0].action).toEqual('UPDATE');
+
+    const [updated] = await db.select().from(studentsTable).where(eq(studentsTable.nim, '2021000001')).execute();
+    expect([updated.angkatan, updated.semester, updated.faculty_id]).toEqual([2021, null, faculty.id]);
+  });
+
+  it('should check the faculty column against the faculty master', async () => {
+    const [economics] = await db.insert(facultiesTable)
+      .values({ code: 'FE', name: 'Fakultas Ekonomi' })
+      .returning()
+      .execute();
+
+    const result = await importStudents({
+      file: csvFile([
+        'NIM,Nama,Prodi,Status,Fakultas',
+        '2021000001,Siti Rahma,Informatika,AKTIF,ft',
+        '2021000002,Budi Santoso,Informatika,AKTIF,Fakultas Teknk',
+        '2021000003,Dewi Lestari,Informatika,AKTIF,Fakultas Ekonomi',
+        '2021000004,Rudi Hartono,Sistem Informasi,AKTIF,'
+      ]),
+      dry_run: false
+    }, adminUser.id);
+
+    expect(result.rows.map(row => [row.action, row.message])).toEqual([
+      ['CREATE', null],
+      ['ERROR', 'Unknown faculty: Fakultas Teknk'],
+      ['ERROR', `Prodi Informatika is not part of ${economics.name}`],
+      ['CREATE', null]
+    ]);
+
+    // The faculty is taken from the study program, with or without the column
+    const students = await db.select().from(studentsTable).orderBy(asc(studentsTable.nim)).execute();
+    expect(students.map(student => [student.nim, student.faculty_id])).toEqual([
+      ['2021000001', faculty.id],
+      ['2021000004', faculty.id]
+    ]);
+  });
+
+  it('should skip and report invalid rows while applying the valid ones', async () => {
+    const result = await importStudents({
+      file: csvFile([
+        'nim;nama;program studi;status mahasiswa',
+        '2021000001;Siti Rahma;Informatika;Aktif',
+        'A123;Budi Santoso;Informatika;Aktif',
+        '2021000003;;Teknik Sipil;Alumni',
+        '2021000001;Siti R.;Informatika;Aktif'
+      ]),
+      dry_run: false
+    }, adminUser.id);
+
+    expect(result.created_count).toEqual(1);
+    expect(result.error_count).toEqual(3);
+    expect(result.rows.slice(1)).toEqual([
+      { row: 3, nim: 'A123', action: 'ERROR', message: 'Invalid NIM: A123 (expected 8 to 15 digits)' },
+      {
+        row: 4,
+        nim: '2021000003',
+        action: 'ERROR',
+        message: 'Name is required; Unknown prodi: Teknik Sipil; Unknown student status: Alumni'
+      },
+      { row: 5, nim: '2021000001', action: 'ERROR', message: 'Duplicate NIM 2021000001, first listed on row 2' }
+    ]);
+
+    const students = await db.select().from(studentsTable).execute();
+    expect(students).toHaveLength(1);
+    expect(students[0].name).toEqual('Siti Rahma');
+
+    const errors = await db.select()
+      .from(studentImportErrorsTable)
+      .orderBy(asc(studentImportErrorsTable.row_number))
+      .execute();
+    expect(errors.map(error => [error.batch_id, error.row_number, error.nim])).toEqual([
+      [result.batch_id, 3, 'A123'],
+      [result.batch_id, 4, '2021000003'],
+      [result.batch_id, 5, '2021000001']
+    ]);
+  });
+
+  it('should preview a dry run without writing anything', async () => {
+    await db.insert(studentsTable)
+      .values({ nim: '2021000001', name: 'Siti Rahma', prodi: 'Informatika' })
+      .execute();
+
+    const result = await importStudents({
+      file: csvFile([
+        'nim,nama,prodi,status',
+        '2021000001,Siti Rahma,Informatika,DO',
+        '2021000002,Budi Santoso,Informatika,Aktif'
+      ]),
+      dry_run: true
+    }, adminUser.id);
+
+    expect(result.dry_run).toBe(true);
+    expect(result.batch_id).toBeNull();
+    expect(result.rows.map(row => row.action)).toEqual(['UPDATE', 'CREATE']);
+
+    const students = await db.select().from(studentsTable).execute();
+    expect(students).toHaveLength(1);
+    expect(students[0].status).toEqual('ACTIVE');
+    expect(await db.select().from(studentImportBatchesTable).execute()).toHaveLength(0);
+  });
+
+  it('should import an XLSX workbook', async () => {
+    const workbook = buildXlsx([
+      ['NIM', 'Nama Mahasiswa', 'Prodi', 'Status'],
+      ['2021000001', 'Siti Rahma', 'Informatika', 'Aktif']
+    ]);
+
+    const result = await importStudents({
+      file: new File([workbook], 'mahasiswa.xlsx', { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+      dry_run: false
+    }, adminUser.id);
+
+    expect(result.created_count).toEqual(1);
+
+    const students = await db.select().from(studentsTable).execute();
+    expect(students[0].nim).toEqual('2021000001');
+    expect(students[0].name).toEqual('Siti Rahma');
+  });
+
+  it('should reject files without the required columns', async () => {
+    await expect(importStudents({
+      file: csvFile(['nim,nama', '2021000001,Siti Rahma']),
+      dry_run: true
+    }, adminUser.id)).rejects.toThrow('Missing required columns: prodi, status');
+  });
+});
@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, studentsTable, studentRegistrationCodesTable } from '../db/schema';
+import { issueRegistrationCode } from '../handlers/issue_registration_code';
+import { hashRegistrationCode } from '../lib/registration_codes';
+import { eq } from 'drizzle-orm';
+
+describe('issueRegistrationCode', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let staff: any;
+  let student: any;
+
+  beforeEach(async () => {
+    [staff] = await db.insert(usersTable)
+      .values({ email: 'staff@university.edu', name: 'Staff Prodi', role: 'STAFF_PRODI', prodi: 'Teknik Informatika' })
+      .returning()
+      .execute();
+
+    [student] = await db.insert(studentsTable)
+      .values({ nim: '2021001', name: 'Siti Rahma', prodi: 'Teknik Informatika' })
+      .returning()
+      .execute();
+  });
+
+  it('should return a code and store only its hash', async () => {
+    const result = await issueRegistrationCode({ student_id: student.id }, staff.id);
+
+    expect(result.student_id).toEqual(student.id);
+    expect(result.nim).toEqual('2021001');
+    expect(result.code).toMatch(/^[A-HJ-NP-Z2-9]{5}-[A-HJ-NP-Z2-9]{5}$/);
+    expect(result.expires_at.getTime()).toBeGreaterThan(Date.now());
+
+    const codes = await db.select().from(studentRegistrationCodesTable).execute();
+    expect(codes).toHaveLength(1);
+    expect(codes[0].code_hash).toEqual(hashRegistrationCode(result.code));
+    expect(codes[0].code_hash).not.toContain(result.code);
+    expect(codes[0].issued_by_user_id).toEqual(staff.id);
+  });
+
+  it('should replace an earlier code for the same record', async () => {
+    await issueRegistrationCode({ student_id: student.id }, staff.id);
+    const second = await issueRegistrationCode({ student_id: student.id }, staff.id);
+
+    const codes = await db.select().from(studentRegistrationCodesTable).execute();
+    expect(codes).toHaveLength(1);
+    expect(codes[0].code_hash).toEqual(hashRegistrationCode(second.code));
+  });
+
+  it('should refuse records that already have an account', async () => {
+    const [account] = await db.insert(usersTable)
+      .values({ email: 'siti@student.university.edu', name: 'Siti Rahma', role: 'STUDENT' })
+      .returning()
+      .execute();
+    await db.update(studentsTable).set({ user_id: account.id }).where(eq(studentsTable.id, student.id)).execute();
+
+    await expect(issueRegistrationCode({ student_id: student.id }, staff.id))
+      .rejects.toThrow('An account is already registered for NIM 2021001');
+  });
+
+  it('should not let prodi staff issue codes for students of another prodi', async () => {
+    const [other] = await db.insert(studentsTable)
+      .values({ nim: '2021002', name: 'Budi Santoso', prodi: 'Sistem Informasi' })
+      .returning()
+      .execute();
+
+    await expect(issueRegistrationCode({ student_id: other.id }, staff.id))
+      .rejects.toThrow('User does not have permission to issue registration codes for NIM 2021002');
+  });
+
+  it('should reject unknown students', async () => {
+    await expect(issueRegistrationCode({ student_id: 99999 }, staff.id))
+      .rejects.toThrow('Student with ID 99999 not found');
+  });
+});
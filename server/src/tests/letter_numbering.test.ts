@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'bun:test';
+import { counterPeriod, formatLetterNumber, validateLetterNumberPattern } from '../lib/letter_numbering';
+
+describe('letter numbering', () => {
+  const format = { pattern: '{seq}/{unit}/{code}/{month_roman}/{year}', unit_code: 'UN1.FT', classification_code: 'KM' };
+
+  it('should fill every token of the pattern', () => {
+    expect(formatLetterNumber(format, 123, new Date(2026, 2, 15))).toEqual('123/UN1.FT/KM/III/2026');
+    expect(formatLetterNumber({ ...format, pattern: '{code}.{seq}/{month}/{year}' }, 4, new Date(2026, 11, 1)))
+      .toEqual('KM.4/12/2026');
+  });
+
+  it('should restart yearly counters each year and monthly counters each month', () => {
+    expect(counterPeriod('YEARLY', new Date(2026, 0, 1))).toEqual('2026');
+    expect(counterPeriod('YEARLY', new Date(2026, 11, 31))).toEqual('2026');
+    expect(counterPeriod('MONTHLY', new Date(2026, 0, 31))).toEqual('2026-01');
+    expect(counterPeriod('MONTHLY', new Date(2026, 1, 1))).toEqual('2026-02');
+  });
+
+  it('should report unknown tokens and a missing sequence', () => {
+    expect(validateLetterNumberPattern('{seq}/{unit}/{code}/{year}')).toEqual([]);
+    expect(validateLetterNumberPattern('{unit}/{day}')).toEqual([
+      'unknown tokens: day',
+      'the pattern must contain {seq}'
+    ]);
+  });
+});
@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, sessionsTable } from '../db/schema';
+import { type LoginInput } from '../schema';
+import { login } from '../handlers/login';
+import { hashPassword } from '../lib/password';
+import { hashSessionToken } from '../lib/session';
+import { eq } from 'drizzle-orm';
+
+const testInput: LoginInput = {
+  email: 'dekan@university.edu',
+  password: 'rahasia-dekan'
+};
+
+describe('login', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let dekanUser: any;
+
+  beforeEach(async () => {
+    const result = await db.insert(usersTable)
+      .values({
+        email: 'dekan@university.edu',
+        name: 'Dekan User',
+        role: 'DEKAN',
+        prodi: null,
+        password_hash: await hashPassword('rahasia-dekan')
+      })
+      .returning()
+      .execute();
+    dekanUser = result[0];
+  });
+
+  it('should return a session token and the user', async () => {
+    const result = await login(testInput);
+
+    expect(result.token).toMatch(/^[0-9a-f]{64}$/);
+    expect(result.expires_at).toBeInstanceOf(Date);
+    expect(result.expires_at.getTime()).toBeGreaterThan(Date.now());
+    expect(result.user.id).toEqual(dekanUser.id);
+    expect(result.user.role).toEqual('DEKAN');
+    expect((result.user as any).password_hash).toBeUndefined();
+  });
+
+  it('should store only the hash of the session token', async () => {
+    const result = await login(testInput);
+
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(eq(sessionsTable.user_id, dekanUser.id))
+      .execute();
+
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].token_hash).toEqual(hashSessionToken(result.token));
+    expect(sessions[0].token_hash).not.toEqual(result.token);
+  });
+
+  it('should reject a wrong password', async () => {
+    await expect(login({ ...testInput, password: 'salah' }))
+      .rejects.toThrow(/invalid email or password/i);
+  });
+
+  it('should reject an unknown email', async () => {
+    await expect(login({ ...testInput, email: 'nobody@university.edu' }))
+      .rejects.toThrow(/invalid email or password/i);
+  });
+
+  it('should reject users without a password', async () => {
+    await db.insert(usersTable)
+      .values({
+        email: 'wd1@university.edu',
+        name: 'WD1 User',
+        role: 'WD1',
+        prodi: null
+      })
+      .execute();
+
+    await expect(login({ email: 'wd1@university.edu', password: 'anything' }))
+      .rejects.toThrow(/invalid email or password/i);
+  });
+});
@@ -0,0 +1,44 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, sessionsTable } from '../db/schema';
+import { logout } from '../handlers/logout';
+import { hashSessionToken } from '../lib/session';
+
+describe('logout', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should delete the session for the token', async () => {
+    const users = await db.insert(usersTable)
+      .values({
+        email: 'staff@prodi.com',
+        name: 'Staff Prodi',
+        role: 'STAFF_PRODI',
+        prodi: 'Teknik Informatika'
+      })
+      .returning()
+      .execute();
+
+    await db.insert(sessionsTable)
+      .values({
+        user_id: users[0].id,
+        token_hash: hashSessionToken('token-to-revoke'),
+        expires_at: new Date(Date.now() + 60 * 60 * 1000)
+      })
+      .execute();
+
+    const result = await logout('token-to-revoke');
+
+    expect(result.success).toBe(true);
+
+    const sessions = await db.select().from(sessionsTable).execute();
+    expect(sessions).toHaveLength(0);
+  });
+
+  it('should report unknown tokens', async () => {
+    const result = await logout('unknown-token');
+
+    expect(result.success).toBe(false);
+  });
+});
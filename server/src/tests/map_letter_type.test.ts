@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { letterRequestsTable, letterTypesTable, studentsTable, usersTable } from '../db/schema';
+import { mapLetterType } from '../handlers/map_letter_type';
+import { asc } from 'drizzle-orm';
+
+describe('mapLetterType', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let staff: any;
+  let student: any;
+
+  beforeEach(async () => {
+    [staff] = await db.insert(usersTable)
+      .values({ email: 'staff@university.edu', name: 'Staff IF', role: 'STAFF_PRODI', prodi: 'Informatika' })
+      .returning()
+      .execute();
+
+    [student] = await db.insert(studentsTable)
+      .values({ nim: '2021000001', name: 'Siti Rahma', prodi: 'Informatika' })
+      .returning()
+      .execute();
+
+    await db.insert(letterTypesTable)
+      .values([
+        { code: 'SKA', name: 'Surat Keterangan Aktif' },
+        { code: 'SPM', name: 'Surat Pindah', is_active: false }
+      ])
+      .execute();
+
+    // The same type spelled two ways, as before the catalog existed
+    await db.insert(letterRequestsTable)
+      .values(['Surat Keterangan Aktif', 'Surat Keterangan Aktif', 'Surat Aktif'].map(letterType => ({
+        student_id: student.id,
+        created_by_user_id: staff.id,
+        letter_type: letterType,
+        purpose: 'Beasiswa',
+        priority: 'NORMAL' as const,
+        status: 'DRAFT' as const
+      })))
+      .execute();
+  });
+
+  it('should move every request with the spelling to the code', async () => {
+    const result = await mapLetterType({ letter_type: 'Surat Keterangan Aktif', code: ' ska ' });
+
+    expect(result).toEqual({ letter_type: 'Surat Keterangan Aktif', code: 'SKA', requests_mapped: 2 });
+
+    // The other spelling is left for its own mapping; mapped rows count as an edit
+    const requests = await db.select().from(letterRequestsTable).orderBy(asc(letterRequestsTable.id)).execute();
+    expect(requests.map(row => [row.letter_type, row.version])).toEqual([
+      ['SKA', 2],
+      ['SKA', 2],
+      ['Surat Aktif', 1]
+    ]);
+  });
+
+  it('should reject spellings no request uses', async () => {
+    await expect(mapLetterType({ letter_type: 'Surat Cuti', code: 'SKA' }))
+      .rejects.toThrow('No requests have letter type: Surat Cuti');
+  });
+
+  it('should reject codes that are unknown or deactivated', async () => {
+    await expect(mapLetterType({ letter_type: 'Surat Aktif', code: 'SKX' }))
+      .rejects.toThrow(/unknown letter type: skx/i);
+    await expect(mapLetterType({ letter_type: 'Surat Aktif', code: 'SPM' }))
+      .rejects.toThrow(/unknown letter type: spm/i);
+  });
+});
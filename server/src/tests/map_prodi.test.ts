@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { facultiesTable, letterTypesTable, studentsTable, studyProgramsTable, usersTable } from '../db/schema';
+import { mapProdi } from '../handlers/map_prodi';
+import { createLetterRequest } from '../handlers/create_letter_request';
+import { asc } from 'drizzle-orm';
+
+describe('mapProdi', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let faculty: any;
+  let informatika: any;
+  let kaprodi: any;
+  let student: any;
+
+  beforeEach(async () => {
+    [faculty] = await db.insert(facultiesTable)
+      .values({ code: 'FT', name: 'Fakultas Teknik' })
+      .returning()
+      .execute();
+
+    [informatika] = await db.insert(studyProgramsTable)
+      .values({ code: 'IF', name: 'Informatika', faculty_id: faculty.id })
+      .returning()
+      .execute();
+
+    // The same prodi spelled two ways, as before the master existed
+    [kaprodi] = await db.insert(usersTable)
+      .values([
+        { email: 'kaprodi@university.edu', name: 'Kaprodi IF', role: 'KAPRODI', prodi: 'Informatika' },
+        { email: 'staff@university.edu', name: 'Staff IF', role: 'STAFF_PRODI', prodi: 'Teknik Informatika' }
+      ])
+      .returning()
+      .execute();
+
+    [student] = await db.insert(studentsTable)
+      .values([
+        { nim: '2021000001', name: 'Siti Rahma', prodi: 'Teknik Informatika' },
+        { nim: '2021000002', name: 'Budi Santoso', prodi: 'Teknik Informatika' }
+      ])
+      .returning()
+      .execute();
+  });
+
+  it('should link every unmapped record with the spelling and give it the program name', async () => {
+    const result = await mapProdi({ prodi: 'Teknik Informatika', study_program_id: informatika.id });
+
+    expect(result).toEqual({ prodi: 'Teknik Informatika', study_program_id: informatika.id, users_mapped: 1, students_mapped: 2 });
+
+    const students = await db.select().from(studentsTable).orderBy(asc(studentsTable.nim)).execute();
+    expect(students.map(row => [row.prodi, row.study_program_id, row.faculty_id])).toEqual([
+      ['Informatika', informatika.id, faculty.id],
+      ['Informatika', informatika.id, faculty.id]
+    ]);
+
+    // The other spelling is left for its own mapping
+    const users = await db.select().from(usersTable).orderBy(asc(usersTable.id)).execute();
+    expect(users.map(row => [row.prodi, row.study_program_id])).toEqual([
+      ['Informatika', null],
+      ['Informatika', informatika.id]
+    ]);
+  });
+
+  it('should route requests to the Kaprodi once both spellings are mapped', async () => {
+    await db.insert(letterTypesTable).values({ code: 'SKA', name: 'Surat Keterangan Aktif' }).execute();
+    // Faculty staff may file for any prodi, so only the routing decides the outcome
+    const [facultyStaff] = await db.insert(usersTable)
+      .values({ email: 'fakultas@university.edu', name: 'Staff Fakultas', role: 'STAFF_FAKULTAS' })
+      .returning()
+      .execute();
+
+    await expect(createLetterRequest({ student_id: student.id, letter_type: 'SKA', purpose: 'Beasiswa' }, facultyStaff.id))
+      .rejects.toThrow(/No Kaprodi found for prodi: Teknik Informatika/);
+
+    await mapProdi({ prodi: 'Teknik Informatika', study_program_id: informatika.id });
+    await mapProdi({ prodi: 'Informatika', study_program_id: informatika.id });
+
+    const request = await createLetterRequest({ student_id: student.id, letter_type: 'SKA', purpose: 'Beasiswa' }, facultyStaff.id);
+
+    expect(request.current_handler_user_id).toEqual(kaprodi.id);
+  });
+
+  it('should reject spellings nothing unmapped uses', async () => {
+    await expect(mapProdi({ prodi: 'Teknik Sipil', study_program_id: informatika.id }))
+      .rejects.toThrow('No unmapped users or students have prodi: Teknik Sipil');
+  });
+
+  it('should reject unknown study programs', async () => {
+    await expect(mapProdi({ prodi: 'Teknik Informatika', study_program_id: 99999 }))
+      .rejects.toThrow('Unknown study program: 99999');
+  });
+});
@@ -0,0 +1,163 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, studentsTable, letterRequestsTable, letterDeliveriesTable, trackingLogsTable } from '../db/schema';
+import { markDelivered } from '../handlers/mark_delivered';
+import { getStorage } from '../lib/storage';
+import { readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { eq } from 'drizzle-orm';
+
+const storageDir = join(tmpdir(), 'mark-delivered-test');
+const pngBytes = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.from('image data')]);
+
+describe('markDelivered', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(() => {
+    process.env['STORAGE_LOCAL_DIR'] = storageDir;
+  });
+  afterEach(() => rm(storageDir, { recursive: true, force: true }));
+
+  let staffProdi: any;
+  let dekanUser: any;
+  let letterRequest: any;
+
+  beforeEach(async () => {
+    [staffProdi, dekanUser] = await db.insert(usersTable)
+      .values([
+        { email: 'prodi@university.edu', name: 'Staff Prodi', role: 'STAFF_PRODI', prodi: 'Informatika' },
+        { email: 'dekan@university.edu', name: 'Dekan Faculty', role: 'DEKAN', prodi: null }
+      ])
+      .returning()
+      .execute();
+
+    const students = await db.insert(studentsTable)
+      .values({ nim: '123456789', name: 'Test Student', prodi: 'Informatika' })
+      .returning()
+      .execute();
+
+    const requests = await db.insert(letterRequestsTable)
+      .values({
+        student_id: students[0].id,
+        created_by_user_id: staffProdi.id,
+        letter_type: 'Surat Keterangan Aktif',
+        purpose: 'Keperluan beasiswa',
+        priority: 'NORMAL',
+        status: 'PRINTED',
+        current_handler_user_id: staffProdi.id
+      })
+      .returning()
+      .execute();
+    letterRequest = requests[0];
+  });
+
+  it('should record the delivery and log it', async () => {
+    const result = await markDelivered({
+      request_id: letterRequest.id,
+      expected_version: 1,
+      recipient_name: 'Test Student',
+      delivery_method: 'PICKUP',
+      notes: 'Picked up in person'
+    }, staffProdi.id);
+
+    expect(result.status).toEqual('DELIVERED');
+    expect(result.current_handler_user_id).toEqual(staffProdi.id);
+    expect(result.version).toEqual(2);
+
+    const deliveries = await db.select()
+      .from(letterDeliveriesTable)
+      .where(eq(letterDeliveriesTable.letter_request_id, letterRequest.id))
+      .execute();
+
+    expect(deliveries).toHaveLength(1);
+    expect(deliveries[0].recipient_name).toEqual('Test Student');
+    expect(deliveries[0].delivery_method).toEqual('PICKUP');
+    expect(deliveries[0].proof_storage_key).toBeNull();
+    expect(deliveries[0].delivered_by_user_id).toEqual(staffProdi.id);
+    expect(deliveries[0].delivered_at).toBeInstanceOf(Date);
+
+    const logs = await db.select()
+      .from(trackingLogsTable)
+      .where(eq(trackingLogsTable.letter_request_id, letterRequest.id))
+      .execute();
+
+    expect(logs).toHaveLength(1);
+    expect(logs[0].action_type).toEqual('DELIVERED');
+    expect(logs[0].previous_status).toEqual('PRINTED');
+    expect(logs[0].new_status).toEqual('DELIVERED');
+    expect(logs[0].description).toEqual('Letter delivered to Test Student by pickup');
+    expect(logs[0].notes).toEqual('Picked up in person');
+  });
+
+  it('should store a proof photo', async () => {
+    await markDelivered({
+      request_id: letterRequest.id,
+      expected_version: 1,
+      recipient_name: 'Courier Desk',
+      delivery_method: 'COURIER',
+      proof_photo: new File([pngBytes], 'receipt.png', { type: 'image/png' })
+    }, staffProdi.id);
+
+    const deliveries = await db.select()
+      .from(letterDeliveriesTable)
+      .where(eq(letterDeliveriesTable.letter_request_id, letterRequest.id))
+      .execute();
+
+    expect(deliveries[0].proof_storage_key).toStartWith(`requests/${letterRequest.id}/delivery-proofs/`);
+    expect(deliveries[0].proof_file_name).toEqual('receipt.png');
+    expect(deliveries[0].proof_mime_type).toEqual('image/png');
+    expect(await getStorage().get(deliveries[0].proof_storage_key!)).toEqual(pngBytes);
+  });
+
+  it('should refuse proof files that are not images', async () => {
+    await expect(markDelivered({
+      request_id: letterRequest.id,
+      expected_version: 1,
+      recipient_name: 'Test Student',
+      delivery_method: 'EMAIL',
+      proof_photo: new File(['%PDF-1.4 not a photo'], 'receipt.png', { type: 'image/png' })
+    }, staffProdi.id)).rejects.toThrow(/Proof of delivery must be a JPEG, PNG or WebP image/);
+
+    const deliveries = await db.select().from(letterDeliveriesTable).execute();
+    expect(deliveries).toHaveLength(0);
+  });
+
+  it('should discard the stored proof when the delivery is not recorded', async () => {
+    await expect(markDelivered({
+      request_id: letterRequest.id,
+      expected_version: 5,
+      recipient_name: 'Test Student',
+      delivery_method: 'PICKUP',
+      proof_photo: new File([pngBytes], 'receipt.png', { type: 'image/png' })
+    }, staffProdi.id)).rejects.toThrow(/version/i);
+
+    const stored = await readdir(storageDir, { recursive: true }).catch(() => []);
+    expect(stored.filter(entry => entry.endsWith('.png'))).toHaveLength(0);
+  });
+
+  it('should not deliver letters that are not printed', async () => {
+    await db.update(letterRequestsTable)
+      .set({ status: 'RETURNED_TO_PRODI' })
+      .where(eq(letterRequestsTable.id, letterRequest.id))
+      .execute();
+
+    await expect(markDelivered({
+      request_id: letterRequest.id,
+      expected_version: 1,
+      recipient_name: 'Test Student',
+      delivery_method: 'PICKUP'
+    }, staffProdi.id)).rejects.toThrow(/Cannot mark as delivered request in status: RETURNED_TO_PRODI/);
+  });
+
+  it('should only be taken by prodi or faculty staff', async () => {
+    await expect(markDelivered({
+      request_id: letterRequest.id,
+      expected_version: 1,
+      recipient_name: 'Test Student',
+      delivery_method: 'PICKUP'
+    }, dekanUser.id)).rejects.toThrow(/Role DEKAN cannot move a request from PRINTED to DELIVERED/);
+  });
+});
@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, studentsTable, letterRequestsTable, trackingLogsTable } from '../db/schema';
+import { markPrinted } from '../handlers/mark_printed';
+import { returnToProdi } from '../handlers/return_to_prodi';
+import { eq } from 'drizzle-orm';
+
+describe('markPrinted', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let staffFakultas: any;
+  let staffProdi: any;
+  let otherProdiStaff: any;
+  let letterRequest: any;
+
+  beforeEach(async () => {
+    [staffFakultas, staffProdi, otherProdiStaff] = await db.insert(usersTable)
+      .values([
+        { email: 'fakultas@university.edu', name: 'Staff Fakultas', role: 'STAFF_FAKULTAS', prodi: null },
+        { email: 'prodi@university.edu', name: 'Staff Prodi', role: 'STAFF_PRODI', prodi: 'Informatika' },
+        { email: 'si@university.edu', name: 'Staff SI', role: 'STAFF_PRODI', prodi: 'Sistem Informasi' }
+      ])
+      .returning()
+      .execute();
+
+    const students = await db.insert(studentsTable)
+      .values({ nim: '123456789', name: 'Test Student', prodi: 'Informatika' })
+      .returning()
+      .execute();
+
+    const requests = await db.insert(letterRequestsTable)
+      .values({
+        student_id: students[0].id,
+        created_by_user_id: staffProdi.id,
+        letter_type: 'Surat Keterangan Aktif',
+        purpose: 'Keperluan beasiswa',
+        priority: 'NORMAL',
+        status: 'TTD_DONE',
+        current_handler_user_id: staffFakultas.id,
+        final_letter_url: 'generated-letters/1',
+        letter_number: '1/UN1.FT/KM/2026'
+      })
+      .returning()
+      .execute();
+    letterRequest = requests[0];
+  });
+
+  it('should let faculty staff print a signed letter', async () => {
+    const result = await markPrinted({ request_id: letterRequest.id, expected_version: 1 }, staffFakultas.id);
+
+    expect(result.status).toEqual('PRINTED');
+    expect(result.current_handler_user_id).toEqual(staffFakultas.id);
+    expect(result.version).toEqual(2);
+
+    const logs = await db.select()
+      .from(trackingLogsTable)
+      .where(eq(trackingLogsTable.letter_request_id, letterRequest.id))
+      .execute();
+
+    expect(logs).toHaveLength(1);
+    expect(logs[0].action_type).toEqual('PRINTED');
+    expect(logs[0].previous_status).toEqual('TTD_DONE');
+    expect(logs[0].new_status).toEqual('PRINTED');
+    expect(logs[0].description).toEqual('Signed letter printed by Staff Fakultas');
+  });
+
+  it('should let prodi staff print a letter returned to the prodi', async () => {
+    await returnToProdi({ request_id: letterRequest.id, expected_version: 1 }, staffFakultas.id);
+
+    const result = await markPrinted({ request_id: letterRequest.id, expected_version: 2, notes: 'Two copies' }, staffProdi.id);
+
+    expect(result.status).toEqual('PRINTED');
+    expect(result.current_handler_user_id).toEqual(staffProdi.id);
+  });
+
+  it('should not let prodi staff print before the letter is returned to the prodi', async () => {
+    await expect(markPrinted({ request_id: letterRequest.id, expected_version: 1 }, staffProdi.id))
+      .rejects.toThrow(/Role STAFF_PRODI cannot move a request from TTD_DONE to PRINTED/);
+  });
+
+  it('should not let staff of another prodi print the letter', async () => {
+    await returnToProdi({ request_id: letterRequest.id, expected_version: 1 }, staffFakultas.id);
+
+    await expect(markPrinted({ request_id: letterRequest.id, expected_version: 2 }, otherProdiStaff.id))
+      .rejects.toThrow(/Only the Staff Prodi of Informatika can handle this request/);
+  });
+
+  it('should reject requests that are not signed', async () => {
+    await db.update(letterRequestsTable)
+      .set({ status: 'FORWARDED_TO_DEKAN' })
+      .where(eq(letterRequestsTable.id, letterRequest.id))
+      .execute();
+
+    await expect(markPrinted({ request_id: letterRequest.id, expected_version: 1 }, staffFakultas.id))
+      .rejects.toThrow(/Cannot mark as printed request in status: FORWARDED_TO_DEKAN/);
+  });
+
+  it('should not print a request without a numbered final letter', async () => {
+    await db.update(letterRequestsTable)
+      .set({ letter_number: null })
+      .where(eq(letterRequestsTable.id, letterRequest.id))
+      .execute();
+
+    await expect(markPrinted({ request_id: letterRequest.id, expected_version: 1 }, staffFakultas.id))
+      .rejects.toThrow('No numbered final letter has been issued for this request');
+  });
+});
@@ -0,0 +1,310 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { letterRequestsTable, studentsTable, usersTable } from '../db/schema';
+import { userRoleSchema, type User, type UserRole } from '../schema';
+import { can, procedurePolicies, procedureResources, requiresResource, type PolicyResource } from '../lib/policy';
+import { appRouter } from '../index';
+
+// Role x procedure matrix for the shared policy. Each row lists the roles allowed
+// when the user is not involved in the request, when they are its current handler
+// and disposition assignee, and when they are the handler of a request from another prodi.
+const ALL: UserRole[] = userRoleSchema.options;
+const STAFF = ALL.filter(role => role !== 'STUDENT');
+const OFFICERS: UserRole[] = ['WD1', 'WD2', 'WD3', 'KABAG_TU', 'KAUR_AKADEMIK', 'KAUR_KEMAHASISWAAN', 'KAUR_KEUANGAN'];
+const READERS: UserRole[] = ['STAFF_PRODI', 'KAPRODI', 'DEKAN', 'ADMIN'];
+const withoutProdiRoles = (roles: UserRole[]) => roles.filter(role => role !== 'STAFF_PRODI' && role !== 'KAPRODI');
+
+interface MatrixRow {
+  uninvolved: UserRole[];
+  handler: UserRole[];
+  otherProdiHandler: UserRole[];
+}
+
+const matrix: Record<string, MatrixRow> = {
+  logout: { uninvolved: ALL, handler: ALL, otherProdiHandler: ALL },
+  me: { uninvolved: ALL, handler: ALL, otherProdiHandler: ALL },
+  createUser: { uninvolved: ['ADMIN'], handler: ['ADMIN'], otherProdiHandler: ['ADMIN'] },
+  getUserById: { uninvolved: STAFF, handler: STAFF, otherProdiHandler: STAFF },
+  getUsersByRole: { uninvolved: STAFF, handler: STAFF, otherProdiHandler: STAFF },
+  createStudent: {
+    uninvolved: ['STAFF_PRODI', 'STAFF_FAKULTAS', 'ADMIN'],
+    handler: ['STAFF_PRODI', 'STAFF_FAKULTAS', 'ADMIN'],
+    otherProdiHandler: ['STAFF_FAKULTAS', 'ADMIN']
+  },
+  getStudents: { uninvolved: STAFF, handler: STAFF, otherProdiHandler: STAFF },
+  issueRegistrationCode: {
+    uninvolved: ['STAFF_PRODI', 'STAFF_FAKULTAS', 'ADMIN'],
+    handler: ['STAFF_PRODI', 'STAFF_FAKULTAS', 'ADMIN'],
+    otherProdiHandler: ['STAFF_FAKULTAS', 'ADMIN']
+  },
+  importStudents: {
+    uninvolved: ['STAFF_FAKULTAS', 'ADMIN'],
+    handler: ['STAFF_FAKULTAS', 'ADMIN'],
+    otherProdiHandler: ['STAFF_FAKULTAS', 'ADMIN']
+  },
+  getStudentImportBatches: {
+    uninvolved: ['STAFF_FAKULTAS', 'ADMIN'],
+    handler: ['STAFF_FAKULTAS', 'ADMIN'],
+    otherProdiHandler: ['STAFF_FAKULTAS', 'ADMIN']
+  },
+  createFaculty: { uninvolved: ['ADMIN'], handler: ['ADMIN'], otherProdiHandler: ['ADMIN'] },
+  updateFaculty: { uninvolved: ['ADMIN'], handler: ['ADMIN'], otherProdiHandler: ['ADMIN'] },
+  deleteFaculty: { uninvolved: ['ADMIN'], handler: ['ADMIN'], otherProdiHandler: ['ADMIN'] },
+  getFaculties: { uninvolved: ALL, handler: ALL, otherProdiHandler: ALL },
+  createStudyProgram: { uninvolved: ['ADMIN'], handler: ['ADMIN'], otherProdiHandler: ['ADMIN'] },
+  updateStudyProgram: { uninvolved: ['ADMIN'], handler: ['ADMIN'], otherProdiHandler: ['ADMIN'] },
+  deleteStudyProgram: { uninvolved: ['ADMIN'], handler: ['ADMIN'], otherProdiHandler: ['ADMIN'] },
+  getStudyPrograms: { uninvolved: ALL, handler: ALL, otherProdiHandler: ALL },
+  getUnmappedProdis: { uninvolved: ['ADMIN'], handler: ['ADMIN'], otherProdiHandler: ['ADMIN'] },
+  mapProdi: { uninvolved: ['ADMIN'], handler: ['ADMIN'], otherProdiHandler: ['ADMIN'] },
+  // Students only for their own record; see the dedicated test below
+  createLetterRequest: {
+    uninvolved: ['STAFF_PRODI', 'KAPRODI', 'STAFF_FAKULTAS', 'ADMIN'],
+    handler: ['STAFF_PRODI', 'KAPRODI', 'STAFF_FAKULTAS', 'ADMIN'],
+    otherProdiHandler: ['STAFF_FAKULTAS', 'ADMIN']
+  },
+  updateRequestStatus: { uninvolved: [], handler: ALL, otherProdiHandler: withoutProdiRoles(ALL) },
+  getRequests: { uninvolved: ALL, handler: ALL, otherProdiHandler: ALL },
+  getRequestById: { uninvolved: READERS, handler: ALL, otherProdiHandler: withoutProdiRoles(ALL) },
+  getAllowedTransitions: { uninvolved: READERS, handler: ALL, otherProdiHandler: withoutProdiRoles(ALL) },
+  approveByKaprodi: { uninvolved: ['KAPRODI'], handler: ['KAPRODI'], otherProdiHandler: [] },
+  forwardToDekan: { uninvolved: ['KAPRODI'], handler: ['KAPRODI'], otherProdiHandler: [] },
+  rejectRequest: {
+    uninvolved: ['DEKAN'],
+    handler: ['KAPRODI', 'DEKAN', ...OFFICERS],
+    otherProdiHandler: ['DEKAN', ...OFFICERS]
+  },
+  // Only the creator may resubmit; see the dedicated test below
+  resubmitRequest: { uninvolved: [], handler: [], otherProdiHandler: [] },
+  createDisposition: { uninvolved: ['DEKAN'], handler: ['DEKAN'], otherProdiHandler: ['DEKAN'] },
+  processDisposition: { uninvolved: [], handler: OFFICERS, otherProdiHandler: OFFICERS },
+  reassignDisposition: { uninvolved: ['DEKAN'], handler: ['DEKAN'], otherProdiHandler: ['DEKAN'] },
+  addDispositionStep: { uninvolved: ['DEKAN'], handler: ['DEKAN'], otherProdiHandler: ['DEKAN'] },
+  removeDispositionStep: { uninvolved: ['DEKAN'], handler: ['DEKAN'], otherProdiHandler: ['DEKAN'] },
+  withdrawDisposition: { uninvolved: ['DEKAN'], handler: ['DEKAN'], otherProdiHandler: ['DEKAN'] },
+  getOpenEscalations: { uninvolved: ['ADMIN'], handler: ['ADMIN'], otherProdiHandler: ['ADMIN'] },
+  resolveEscalation: { uninvolved: ['ADMIN'], handler: ['ADMIN'], otherProdiHandler: ['ADMIN'] },
+  getDispositionAssignments: { uninvolved: READERS, handler: ALL, otherProdiHandler: withoutProdiRoles(ALL) },
+  uploadFinalLetter: { uninvolved: [], handler: OFFICERS, otherProdiHandler: OFFICERS },
+  signLetter: { uninvolved: ['DEKAN'], handler: ['DEKAN'], otherProdiHandler: ['DEKAN'] },
+  requestRevision: { uninvolved: ['DEKAN'], handler: ['DEKAN'], otherProdiHandler: ['DEKAN'] },
+  verifySignature: { uninvolved: READERS, handler: ALL, otherProdiHandler: withoutProdiRoles(ALL) },
+  returnToProdi: { uninvolved: ['STAFF_PRODI', 'STAFF_FAKULTAS'], handler: ['STAFF_PRODI', 'STAFF_FAKULTAS'], otherProdiHandler: ['STAFF_FAKULTAS'] },
+  markPrinted: { uninvolved: ['STAFF_PRODI', 'STAFF_FAKULTAS'], handler: ['STAFF_PRODI', 'STAFF_FAKULTAS'], otherProdiHandler: ['STAFF_FAKULTAS'] },
+  markDelivered: { uninvolved: ['STAFF_PRODI', 'STAFF_FAKULTAS'], handler: ['STAFF_PRODI', 'STAFF_FAKULTAS'], otherProdiHandler: ['STAFF_FAKULTAS'] },
+  archiveRequest: {
+    uninvolved: ['STAFF_PRODI', 'STAFF_FAKULTAS', 'ADMIN'],
+    handler: ['STAFF_PRODI', 'STAFF_FAKULTAS', 'ADMIN'],
+    otherProdiHandler: ['STAFF_FAKULTAS', 'ADMIN']
+  },
+  getDelivery: { uninvolved: READERS, handler: ALL, otherProdiHandler: withoutProdiRoles(ALL) },
+  createLetterType: { uninvolved: ['ADMIN'], handler: ['ADMIN'], otherProdiHandler: ['ADMIN'] },
+  updateLetterType: { uninvolved: ['ADMIN'], handler: ['ADMIN'], otherProdiHandler: ['ADMIN'] },
+  deleteLetterType: { uninvolved: ['ADMIN'], handler: ['ADMIN'], otherProdiHandler: ['ADMIN'] },
+  getLetterTypes: { uninvolved: ALL, handler: ALL, otherProdiHandler: ALL },
+  getUnmappedLetterTypes: { uninvolved: ['ADMIN'], handler: ['ADMIN'], otherProdiHandler: ['ADMIN'] },
+  mapLetterType: { uninvolved: ['ADMIN'], handler: ['ADMIN'], otherProdiHandler: ['ADMIN'] },
+  createRejectionReason: { uninvolved: ['ADMIN'], handler: ['ADMIN'], otherProdiHandler: ['ADMIN'] },
+  updateRejectionReason: { uninvolved: ['ADMIN'], handler: ['ADMIN'], otherProdiHandler: ['ADMIN'] },
+  getRejectionReasons: { uninvolved: ALL, handler: ALL, otherProdiHandler: ALL },
+  createLetterTemplate: { uninvolved: ['ADMIN'], handler: ['ADMIN'], otherProdiHandler: ['ADMIN'] },
+  getLetterTemplates: { uninvolved: STAFF, handler: STAFF, otherProdiHandler: STAFF },
+  generateFinalLetter: { uninvolved: [], handler: OFFICERS, otherProdiHandler: OFFICERS },
+  getGeneratedLetter: { uninvolved: READERS, handler: ALL, otherProdiHandler: withoutProdiRoles(ALL) },
+  getLetterVersions: { uninvolved: READERS, handler: ALL, otherProdiHandler: withoutProdiRoles(ALL) },
+  restoreLetterVersion: { uninvolved: [], handler: [...OFFICERS, 'DEKAN'], otherProdiHandler: [...OFFICERS, 'DEKAN'] },
+  configureLetterNumberFormat: { uninvolved: ['ADMIN'], handler: ['ADMIN'], otherProdiHandler: ['ADMIN'] },
+  getLetterNumberFormats: { uninvolved: STAFF, handler: STAFF, otherProdiHandler: STAFF },
+  getRequestByLetterNumber: { uninvolved: ALL, handler: ALL, otherProdiHandler: ALL },
+  uploadSupportingDocument: {
+    uninvolved: ['STAFF_PRODI', 'KAPRODI', 'ADMIN'],
+    handler: ALL,
+    otherProdiHandler: withoutProdiRoles(ALL)
+  },
+  getSupportingDocuments: { uninvolved: READERS, handler: ALL, otherProdiHandler: withoutProdiRoles(ALL) },
+  createDownloadLink: { uninvolved: ALL, handler: ALL, otherProdiHandler: ALL },
+  getTrackingLogs: { uninvolved: READERS, handler: ALL, otherProdiHandler: withoutProdiRoles(ALL) },
+  addTrackingLog: { uninvolved: ['ADMIN'], handler: ALL, otherProdiHandler: withoutProdiRoles(ALL) }
+};
+
+const USER_ID = 10;
+
+const userWithRole = (role: UserRole) => ({
+  id: USER_ID,
+  role,
+  prodi: role === 'STAFF_PRODI' || role === 'KAPRODI' ? 'Informatika' : null
+});
+
+const scenarios: Record<keyof MatrixRow, PolicyResource> = {
+  uninvolved: {
+    student_prodi: 'Informatika',
+    created_by_user_id: 1,
+    current_handler_user_id: 2,
+    assignee_user_ids: [3]
+  },
+  handler: {
+    student_prodi: 'Informatika',
+    created_by_user_id: 1,
+    current_handler_user_id: USER_ID,
+    assignee_user_ids: [USER_ID]
+  },
+  otherProdiHandler: {
+    student_prodi: 'Sistem Informasi',
+    created_by_user_id: 1,
+    current_handler_user_id: USER_ID,
+    assignee_user_ids: [USER_ID]
+  }
+};
+
+describe('policy', () => {
+  it('should have a matrix row for every protected procedure', () => {
+    expect(Object.keys(matrix).sort()).toEqual(Object.keys(procedurePolicies).sort());
+  });
+
+  for (const [procedure, row] of Object.entries(matrix)) {
+    for (const scenario of Object.keys(scenarios) as (keyof MatrixRow)[]) {
+      it(`${procedure} (${scenario}) should allow exactly ${row[scenario].join(', ') || 'nobody'}`, () => {
+        const allowed = ALL.filter(role =>
+          can(userWithRole(role), procedurePolicies[procedure], scenarios[scenario])
+        );
+
+        expect(allowed.sort()).toEqual([...row[scenario]].sort());
+      });
+    }
+  }
+
+  it('should let students read only requests they created', () => {
+    const student = userWithRole('STUDENT');
+
+    expect(can(student, 'request:read', { ...scenarios.uninvolved, created_by_user_id: USER_ID })).toBe(true);
+    expect(can(student, 'request:read', scenarios.uninvolved)).toBe(false);
+  });
+
+  it('should let students read requests about them whoever created them', () => {
+    const student = userWithRole('STUDENT');
+
+    expect(can(student, 'request:read', { ...scenarios.uninvolved, student_user_id: USER_ID })).toBe(true);
+    expect(can(student, 'request:read', { ...scenarios.uninvolved, student_user_id: 11 })).toBe(false);
+    expect(can(student, 'request:update_status', { ...scenarios.uninvolved, student_user_id: USER_ID })).toBe(false);
+  });
+
+  it('should let students create requests only for their own student record', () => {
+    const student = userWithRole('STUDENT');
+
+    expect(can(student, 'request:create', { student_prodi: 'Sistem Informasi', student_user_id: USER_ID })).toBe(true);
+    expect(can(student, 'request:create', { student_prodi: 'Informatika', student_user_id: 11 })).toBe(false);
+    expect(can(student, 'request:create', { student_prodi: 'Informatika', student_user_id: null })).toBe(false);
+  });
+
+  it('should let creators resubmit their own requests', () => {
+    const creatorRoles = ALL.filter(role =>
+      can(userWithRole(role), 'request:resubmit', { ...scenarios.uninvolved, created_by_user_id: USER_ID })
+    );
+
+    expect(creatorRoles.sort()).toEqual(['ADMIN', 'KAPRODI', 'STAFF_FAKULTAS', 'STAFF_PRODI', 'STUDENT']);
+  });
+
+  it('should treat every member of a parallel disposition step as a handler', () => {
+    const parallelStep = { ...scenarios.uninvolved, current_handler_user_id: null, parallel_handler_user_ids: [USER_ID, 11] };
+
+    expect(can(userWithRole('WD2'), 'request:update_status', parallelStep)).toBe(true);
+    expect(can(userWithRole('WD2'), 'request:update_status', scenarios.uninvolved)).toBe(false);
+  });
+
+  it('should deny prodi roles without a prodi', () => {
+    const kaprodi = { id: USER_ID, role: 'KAPRODI' as const, prodi: null };
+
+    expect(can(kaprodi, 'request:read', scenarios.handler)).toBe(false);
+  });
+
+  it('should match linked prodi staff to students by study program rather than by name', () => {
+    const kaprodi = { id: USER_ID, role: 'KAPRODI' as const, prodi: 'Informatika', study_program_id: 1 };
+
+    expect(can(kaprodi, 'request:read', { ...scenarios.handler, student_prodi: 'Teknik Informatika', student_study_program_id: 1 })).toBe(true);
+    expect(can(kaprodi, 'request:read', { ...scenarios.handler, student_study_program_id: 2 })).toBe(false);
+    // Students not yet mapped fall back to the free-text prodi
+    expect(can(kaprodi, 'request:read', { ...scenarios.handler, student_study_program_id: null })).toBe(true);
+  });
+
+  it('should deny resource actions when the resource is unknown', () => {
+    expect(can(userWithRole('ADMIN'), 'request:read')).toBe(false);
+    expect(can(userWithRole('DEKAN'), 'letter:sign')).toBe(false);
+  });
+
+  it('should name the resource field of every procedure whose action needs one', () => {
+    const needingResource = Object.keys(procedurePolicies).filter(procedure => requiresResource(procedurePolicies[procedure]));
+
+    expect(Object.keys(procedureResources).sort()).toEqual(needingResource.sort());
+  });
+});
+
+// The same policy enforced through the router, with raw input crafted the way a client could send it
+describe('policy through the router', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let staffProdi: User;
+  let ownStudent: any;
+  let otherStudent: any;
+  let ownRequest: any;
+
+  const callerFor = (user: User) => appRouter.createCaller({ user, sessionToken: 'test-session' });
+
+  beforeEach(async () => {
+    [staffProdi] = await db.insert(usersTable)
+      .values({ email: 'staff@ti.ac.id', name: 'Staff TI', role: 'STAFF_PRODI', prodi: 'Teknik Informatika' })
+      .returning()
+      .execute() as User[];
+
+    [ownStudent, otherStudent] = await db.insert(studentsTable)
+      .values([
+        { nim: '2021001', name: 'Siti Rahma', prodi: 'Teknik Informatika' },
+        { nim: '2021002', name: 'Budi Santoso', prodi: 'Sistem Informasi' }
+      ])
+      .returning()
+      .execute();
+
+    [ownRequest] = await db.insert(letterRequestsTable)
+      .values({
+        student_id: ownStudent.id,
+        created_by_user_id: staffProdi.id,
+        letter_type: 'SKA',
+        purpose: 'Beasiswa',
+        priority: 'NORMAL' as const,
+        status: 'DRAFT' as const
+      })
+      .returning()
+      .execute();
+  });
+
+  it('should check the resource each procedure names', async () => {
+    const caller = callerFor(staffProdi);
+
+    const request = await caller.getRequestById({ requestId: ownRequest.id });
+    expect(request?.id).toEqual(ownRequest.id);
+
+    await expect(caller.issueRegistrationCode({ student_id: otherStudent.id }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should ignore extra keys pointing at a resource in the caller\'s own prodi', async () => {
+    const caller = callerFor(staffProdi);
+    // Not part of the input schemas; older checks read whichever id key came first
+    const forged = { requestId: ownRequest.id, request_id: ownRequest.id };
+
+    await expect(caller.issueRegistrationCode({ student_id: otherStudent.id, ...forged } as any))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.createLetterRequest({ student_id: otherStudent.id, letter_type: 'SKA', purpose: 'Beasiswa', ...forged } as any))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.createStudent({ nim: '2021003', name: 'Andi', study_program_id: 999, ...forged } as any))
+      .rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+
+  it('should not resolve a resource from another field than the one the procedure names', async () => {
+    const caller = callerFor(staffProdi);
+
+    await expect(caller.getRequestById({ request_id: ownRequest.id } as any))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST' });
+  });
+});
@@ -6,11 +6,12 @@ import {
   studentsTable, 
   letterRequestsTable, 
   dispositionAssignmentsTable,
+  escalationsTable,
   trackingLogsTable
 } from '../db/schema';
 import { type ProcessDispositionInput } from '../schema';
 import { processDisposition } from '../handlers/process_disposition';
-import { eq, and } from 'drizzle-orm';
+import { eq, and, isNull } from 'drizzle-orm';
 
 // Test data
 const testUser = {
@@ -102,6 +103,7 @@ describe('processDisposition', () => {
 
     const input: ProcessDispositionInput = {
       assignment_id: assignment.id,
+      expected_version: 1,
       notes: 'Processing completed successfully'
     };
 
@@ -129,8 +131,9 @@ describe('processDisposition', () => {
       .where(eq(letterRequestsTable.id, request.id))
       .execute();
 
-    expect(updatedRequest[0].status).toBe('TTD_READY');
-    expect(updatedRequest[0].current_handler_user_id).toBe(dekanUser.id);
+    // The last officer keeps the request to prepare the final letter
+    expect(updatedRequest[0].status).toBe('PROCESSED_BY_WD1');
+    expect(updatedRequest[0].current_handler_user_id).toBe(wd1User.id);
 
     // Verify tracking log
     const trackingLogs = await db.select()
@@ -141,9 +144,9 @@ describe('processDisposition', () => {
     expect(trackingLogs).toHaveLength(1);
     expect(trackingLogs[0].action_type).toBe('PROCESSED');
     expect(trackingLogs[0].user_id).toBe(wd1User.id);
-    expect(trackingLogs[0].description).toBe('All disposition assignments completed, ready for signing');
+    expect(trackingLogs[0].description).toBe('All disposition assignments completed, ready for the final letter');
     expect(trackingLogs[0].previous_status).toBe('DISPOSISI_TO_WD1');
-    expect(trackingLogs[0].new_status).toBe('TTD_READY');
+    expect(trackingLogs[0].new_status).toBe('PROCESSED_BY_WD1');
   });
 
   it('should handle escalation correctly', async () => {
@@ -197,6 +200,7 @@ describe('processDisposition', () => {
 
     const input: ProcessDispositionInput = {
       assignment_id: assignment.id,
+      expected_version: 1,
       notes: 'Complex case requiring escalation',
       escalate: true
     };
@@ -204,8 +208,10 @@ describe('processDisposition', () => {
     // Execute handler
     const result = await processDisposition(input, wd1User.id);
 
-    // Verify result
-    expect(result.is_completed).toBe(true);
+    // Verify result: the escalated assignment is closed without being completed
+    expect(result.is_completed).toBe(false);
+    expect(result.completed_at).toBeNull();
+    expect(result.escalated_at).toBeInstanceOf(Date);
     expect(result.notes).toBe('Complex case requiring escalation');
 
     // Verify letter request status changed to escalated
@@ -225,6 +231,75 @@ describe('processDisposition', () => {
 
     expect(trackingLogs[0].action_type).toBe('ESCALATED');
     expect(trackingLogs[0].description).toBe('Request escalated to admin');
+
+    // The escalation is recorded for the admin queue, with the notes as its reason
+    const escalations = await db.select()
+      .from(escalationsTable)
+      .where(eq(escalationsTable.letter_request_id, request.id))
+      .execute();
+
+    expect(escalations).toHaveLength(1);
+    expect(escalations[0].assignment_id).toBe(assignment.id);
+    expect(escalations[0].raised_by_user_id).toBe(wd1User.id);
+    expect(escalations[0].category).toBe('OTHER');
+    expect(escalations[0].reason).toBe('Complex case requiring escalation');
+    expect(escalations[0].raised_at).toBeInstanceOf(Date);
+    expect(escalations[0].resolved_at).toBeNull();
+  });
+
+  it('should require a reason to escalate', async () => {
+    const [wd1User, adminUser] = await db.insert(usersTable)
+      .values([testUser, testAdmin])
+      .returning()
+      .execute();
+
+    const students = await db.insert(studentsTable)
+      .values(testStudent)
+      .returning()
+      .execute();
+
+    const requests = await db.insert(letterRequestsTable)
+      .values({
+        student_id: students[0].id,
+        created_by_user_id: wd1User.id,
+        letter_type: 'Surat Keterangan Aktif',
+        purpose: 'Keperluan beasiswa',
+        priority: 'NORMAL',
+        status: 'DISPOSISI_TO_WD1',
+        current_handler_user_id: wd1User.id
+      })
+      .returning()
+      .execute();
+
+    const assignments = await db.insert(dispositionAssignmentsTable)
+      .values({
+        letter_request_id: requests[0].id,
+        assigned_to_user_id: wd1User.id,
+        assigned_by_user_id: adminUser.id,
+        instructions: 'Process this request',
+        order_sequence: 1
+      })
+      .returning()
+      .execute();
+
+    await expect(processDisposition({ assignment_id: assignments[0].id, expected_version: 1, escalate: true }, wd1User.id))
+      .rejects.toThrow(/Escalation reason is required/);
+
+    await processDisposition({
+      assignment_id: assignments[0].id,
+      expected_version: 1,
+      escalate: true,
+      escalation_reason: 'Student record is inconsistent',
+      escalation_category: 'MISSING_INFORMATION'
+    }, wd1User.id);
+
+    const escalations = await db.select()
+      .from(escalationsTable)
+      .where(eq(escalationsTable.letter_request_id, requests[0].id))
+      .execute();
+
+    expect(escalations[0].category).toBe('MISSING_INFORMATION');
+    expect(escalations[0].reason).toBe('Student record is inconsistent');
   });
 
   it('should handle coordination flag correctly', async () => {
@@ -278,6 +353,7 @@ describe('processDisposition', () => {
 
     const input: ProcessDispositionInput = {
       assignment_id: assignment.id,
+      expected_version: 1,
       notes: 'Requires dean coordination',
       flag_for_coordination: true
     };
@@ -378,6 +454,7 @@ describe('processDisposition', () => {
 
     const input: ProcessDispositionInput = {
       assignment_id: firstAssignment[0].id,
+      expected_version: 1,
       notes: 'First assignment completed'
     };
 
@@ -394,20 +471,29 @@ describe('processDisposition', () => {
       .where(eq(letterRequestsTable.id, request.id))
       .execute();
 
+    expect(updatedRequest[0].status).toBe('DISPOSISI_TO_WD2');
     expect(updatedRequest[0].current_handler_user_id).toBe(wd2User.id);
 
-    // Verify tracking log
+    // Completing the step and handing it on are logged separately
     const trackingLogs = await db.select()
       .from(trackingLogsTable)
       .where(eq(trackingLogsTable.letter_request_id, request.id))
+      .orderBy(trackingLogsTable.id)
       .execute();
 
+    expect(trackingLogs).toHaveLength(2);
     expect(trackingLogs[0].description).toBe('Disposition assignment completed');
+    expect(trackingLogs[0].previous_status).toBe('DISPOSISI_TO_WD1');
+    expect(trackingLogs[0].new_status).toBe('PROCESSED_BY_WD1');
+    expect(trackingLogs[1].description).toBe('Request handed to WD2 User for the next disposition step');
+    expect(trackingLogs[1].previous_status).toBe('PROCESSED_BY_WD1');
+    expect(trackingLogs[1].new_status).toBe('DISPOSISI_TO_WD2');
   });
 
   it('should throw error for invalid assignment', async () => {
     const input: ProcessDispositionInput = {
       assignment_id: 999, // Non-existent assignment
+      expected_version: 1,
       notes: 'Test notes'
     };
 
@@ -465,6 +551,7 @@ describe('processDisposition', () => {
 
     const input: ProcessDispositionInput = {
       assignment_id: assignment.id,
+      expected_version: 1,
       notes: 'Test notes'
     };
 
@@ -523,10 +610,273 @@ describe('processDisposition', () => {
 
     const input: ProcessDispositionInput = {
       assignment_id: assignment.id,
+      expected_version: 1,
       notes: 'Test notes'
     };
 
     // Try to process already completed assignment
     expect(processDisposition(input, wd1User.id)).rejects.toThrow(/Assignment not found/);
   });
-});
\ No newline at end of file
+
+  it('should let only one of two concurrent calls complete the same assignment', async () => {
+    const users = await db.insert(usersTable)
+      .values([testUser, testDekan])
+      .returning()
+      .execute();
+
+    const wd1User = users[0];
+    const dekanUser = users[1];
+
+    const students = await db.insert(studentsTable)
+      .values(testStudent)
+      .returning()
+      .execute();
+
+    const requests = await db.insert(letterRequestsTable)
+      .values({
+        student_id: students[0].id,
+        created_by_user_id: wd1User.id,
+        letter_type: 'Surat Keterangan Aktif',
+        purpose: 'Keperluan beasiswa',
+        priority: 'NORMAL',
+        status: 'DISPOSISI_TO_WD1',
+        current_handler_user_id: wd1User.id
+      })
+      .returning()
+      .execute();
+
+    const request = requests[0];
+
+    const assignments = await db.insert(dispositionAssignmentsTable)
+      .values({
+        letter_request_id: request.id,
+        assigned_to_user_id: wd1User.id,
+        assigned_by_user_id: dekanUser.id,
+        instructions: 'Process this request',
+        order_sequence: 1,
+        is_completed: false
+      })
+      .returning()
+      .execute();
+
+    const input: ProcessDispositionInput = {
+      assignment_id: assignments[0].id,
+      expected_version: 1,
+      notes: 'Processed'
+    };
+
+    const results = await Promise.allSettled([
+      processDisposition(input, wd1User.id),
+      processDisposition(input, wd1User.id)
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    expect(results.filter(result => result.status === 'rejected')).toHaveLength(1);
+
+    // The request advanced exactly once
+    const logs = await db.select()
+      .from(trackingLogsTable)
+      .where(eq(trackingLogsTable.letter_request_id, request.id))
+      .execute();
+
+    expect(logs).toHaveLength(1);
+    expect(logs[0].new_status).toBe('PROCESSED_BY_WD1');
+  });
+
+  describe('parallel steps', () => {
+    let wd1User: any;
+    let wd2User: any;
+    let dekanUser: any;
+    let request: any;
+
+    const addAssignment = async (assigneeId: number, orderSequence: number) => {
+      const assignments = await db.insert(dispositionAssignmentsTable)
+        .values({
+          letter_request_id: request.id,
+          assigned_to_user_id: assigneeId,
+          assigned_by_user_id: dekanUser.id,
+          instructions: 'Process this request',
+          order_sequence: orderSequence,
+          is_completed: false
+        })
+        .returning()
+        .execute();
+
+      return assignments[0];
+    };
+
+    const loadRequest = async () => {
+      const requests = await db.select()
+        .from(letterRequestsTable)
+        .where(eq(letterRequestsTable.id, request.id))
+        .execute();
+
+      return requests[0];
+    };
+
+    beforeEach(async () => {
+      [wd1User, wd2User, dekanUser] = await db.insert(usersTable)
+        .values([testUser, testWD2, testDekan])
+        .returning()
+        .execute();
+
+      const students = await db.insert(studentsTable)
+        .values(testStudent)
+        .returning()
+        .execute();
+
+      const requests = await db.insert(letterRequestsTable)
+        .values({
+          student_id: students[0].id,
+          created_by_user_id: wd1User.id,
+          letter_type: 'Surat Keterangan Aktif',
+          purpose: 'Keperluan beasiswa',
+          priority: 'NORMAL',
+          status: 'DISPOSISI_PARALLEL',
+          current_handler_user_id: null,
+          parallel_handler_user_ids: [wd1User.id, wd2User.id]
+        })
+        .returning()
+        .execute();
+
+      request = requests[0];
+    });
+
+    it('should keep the step open until every parallel officer has finished', async () => {
+      const wd1Assignment = await addAssignment(wd1User.id, 1);
+      const wd2Assignment = await addAssignment(wd2User.id, 1);
+
+      await processDisposition({ assignment_id: wd1Assignment.id, expected_version: 1 }, wd1User.id);
+
+      let updated = await loadRequest();
+      expect(updated.status).toBe('DISPOSISI_PARALLEL');
+      expect(updated.current_handler_user_id).toBeNull();
+      expect(updated.parallel_handler_user_ids).toEqual([wd2User.id]);
+
+      await processDisposition({ assignment_id: wd2Assignment.id, expected_version: 2 }, wd2User.id);
+
+      updated = await loadRequest();
+      expect(updated.status).toBe('PROCESSED_BY_WD2');
+      expect(updated.current_handler_user_id).toBe(wd2User.id);
+      expect(updated.parallel_handler_user_ids).toEqual([]);
+
+      const logs = await db.select()
+        .from(trackingLogsTable)
+        .where(eq(trackingLogsTable.letter_request_id, request.id))
+        .execute();
+
+      expect(logs).toHaveLength(2);
+      expect(logs.map(log => log.description)).toContain('Disposition assignment completed; waiting for WD2 User');
+    });
+
+    it('should move to the next step once the parallel step is done', async () => {
+      const wd1Assignment = await addAssignment(wd1User.id, 1);
+      await addAssignment(wd2User.id, 2);
+      await db.update(letterRequestsTable)
+        .set({ status: 'DISPOSISI_TO_WD1', current_handler_user_id: wd1User.id, parallel_handler_user_ids: [] })
+        .where(eq(letterRequestsTable.id, request.id))
+        .execute();
+
+      await processDisposition({ assignment_id: wd1Assignment.id, expected_version: 1 }, wd1User.id);
+
+      const updated = await loadRequest();
+      expect(updated.status).toBe('DISPOSISI_TO_WD2');
+      expect(updated.current_handler_user_id).toBe(wd2User.id);
+      expect(updated.parallel_handler_user_ids).toEqual([]);
+    });
+
+    it('should start every member of a parallel next step at once', async () => {
+      const kabagUsers = await db.insert(usersTable)
+        .values({ email: 'kabag@university.edu', name: 'Kabag TU', role: 'KABAG_TU', prodi: null })
+        .returning()
+        .execute();
+      const first = await addAssignment(kabagUsers[0].id, 1);
+      await addAssignment(wd1User.id, 2);
+      await addAssignment(wd2User.id, 2);
+      await db.update(letterRequestsTable)
+        .set({ status: 'DISPOSISI_TO_KABAG_TU', current_handler_user_id: kabagUsers[0].id, parallel_handler_user_ids: [] })
+        .where(eq(letterRequestsTable.id, request.id))
+        .execute();
+
+      await processDisposition({ assignment_id: first.id, expected_version: 1 }, kabagUsers[0].id);
+
+      const updated = await loadRequest();
+      expect(updated.status).toBe('DISPOSISI_PARALLEL');
+      expect(updated.current_handler_user_id).toBeNull();
+      expect(updated.parallel_handler_user_ids.sort()).toEqual([wd1User.id, wd2User.id].sort());
+    });
+
+    it('should reject assignments of a later step', async () => {
+      await addAssignment(wd1User.id, 1);
+      const later = await addAssignment(wd2User.id, 2);
+
+      await expect(processDisposition({ assignment_id: later.id, expected_version: 1 }, wd2User.id))
+        .rejects.toThrow(/waiting for an earlier disposition step/);
+    });
+
+    it('should not process assignments while the request is escalated', async () => {
+      const [adminUser] = await db.insert(usersTable).values(testAdmin).returning().execute();
+      const wd1Assignment = await addAssignment(wd1User.id, 1);
+      const wd2Assignment = await addAssignment(wd2User.id, 1);
+
+      await processDisposition({
+        assignment_id: wd1Assignment.id,
+        expected_version: 1,
+        escalate: true,
+        escalation_reason: 'Missing transcript'
+      }, wd1User.id);
+
+      await expect(processDisposition({ assignment_id: wd2Assignment.id, expected_version: 2 }, wd2User.id))
+        .rejects.toThrow(/not in disposition. Current status: ESCALATED/);
+
+      // The admin still holds the request, and the other officer's assignment waits for the resolution
+      const updated = await loadRequest();
+      expect(updated.status).toBe('ESCALATED');
+      expect(updated.current_handler_user_id).toBe(adminUser.id);
+
+      const pending = await db.select()
+        .from(dispositionAssignmentsTable)
+        .where(and(
+          eq(dispositionAssignmentsTable.letter_request_id, request.id),
+          eq(dispositionAssignmentsTable.is_completed, false),
+          isNull(dispositionAssignmentsTable.escalated_at)
+        ))
+        .execute();
+      expect(pending.map(assignment => assignment.id)).toEqual([wd2Assignment.id]);
+    });
+
+    it('should cancel the rest of the chain when flagged for coordination', async () => {
+      const wd1Assignment = await addAssignment(wd1User.id, 1);
+      const wd2Assignment = await addAssignment(wd2User.id, 1);
+      await addAssignment(wd2User.id, 2);
+
+      await processDisposition({ assignment_id: wd1Assignment.id, expected_version: 1, flag_for_coordination: true }, wd1User.id);
+
+      const updated = await loadRequest();
+      expect(updated.status).toBe('FORWARDED_TO_DEKAN');
+      expect(updated.current_handler_user_id).toBe(dekanUser.id);
+      expect(updated.parallel_handler_user_ids).toEqual([]);
+
+      const assignments = await db.select()
+        .from(dispositionAssignmentsTable)
+        .where(eq(dispositionAssignmentsTable.letter_request_id, request.id))
+        .execute();
+      expect(assignments.map(assignment => assignment.id)).toEqual([wd1Assignment.id]);
+
+      await expect(processDisposition({ assignment_id: wd2Assignment.id, expected_version: 2 }, wd2User.id))
+        .rejects.toThrow(/Assignment not found/);
+    });
+
+    it('should require a Dean to flag for coordination', async () => {
+      // The assigning Dean has since moved to another office
+      const wd1Assignment = await addAssignment(wd1User.id, 1);
+      await db.update(usersTable).set({ role: 'WD3' }).where(eq(usersTable.id, dekanUser.id)).execute();
+
+      await expect(processDisposition({ assignment_id: wd1Assignment.id, expected_version: 1, flag_for_coordination: true }, wd1User.id))
+        .rejects.toThrow(/No DEKAN user found/);
+
+      const updated = await loadRequest();
+      expect(updated.status).toBe('DISPOSISI_PARALLEL');
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, studentsTable, letterRequestsTable, dispositionAssignmentsTable, trackingLogsTable } from '../db/schema';
+import { createDisposition } from '../handlers/create_disposition';
+import { processDisposition } from '../handlers/process_disposition';
+import { reassignDisposition } from '../handlers/reassign_disposition';
+import { asc, eq } from 'drizzle-orm';
+
+describe('reassignDisposition', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let dekanUser: any;
+  let wd1User: any;
+  let kaurUser: any;
+  let substituteUser: any;
+  let staffUser: any;
+  let letterRequest: any;
+  let assignments: any[];
+
+  beforeEach(async () => {
+    [dekanUser, wd1User, kaurUser, substituteUser, staffUser] = await db.insert(usersTable)
+      .values([
+        { email: 'dekan@university.edu', name: 'Dekan Faculty', role: 'DEKAN', prodi: null },
+        { email: 'wd1@university.edu', name: 'WD1 Officer', role: 'WD1', prodi: null },
+        { email: 'kaur@university.edu', name: 'Kaur Akademik', role: 'KAUR_AKADEMIK', prodi: null },
+        { email: 'kaur2@university.edu', name: 'Kaur Pengganti', role: 'KAUR_AKADEMIK', prodi: null },
+        { email: 'staff@university.edu', name: 'Staff Prodi', role: 'STAFF_PRODI', prodi: 'Teknik Informatika' }
+      ])
+      .returning()
+      .execute();
+
+    const students = await db.insert(studentsTable)
+      .values({ nim: '123456789', name: 'Test Student', prodi: 'Teknik Informatika' })
+      .returning()
+      .execute();
+
+    const requests = await db.insert(letterRequestsTable)
+      .values({
+        student_id: students[0].id,
+        created_by_user_id: staffUser.id,
+        letter_type: 'Surat Keterangan Aktif',
+        purpose: 'Keperluan beasiswa',
+        priority: 'NORMAL',
+        status: 'FORWARDED_TO_DEKAN',
+        current_handler_user_id: dekanUser.id
+      })
+      .returning()
+      .execute();
+    letterRequest = requests[0];
+
+    assignments = await createDisposition({
+      request_id: letterRequest.id,
+      expected_version: 1,
+      instructions: 'Please check the academic record',
+      assignments: [
+        { user_id: kaurUser.id, order_sequence: 1 },
+        { user_id: wd1User.id, order_sequence: 2 }
+      ]
+    }, dekanUser.id);
+  });
+
+  const loadRequest = async () => {
+    const requests = await db.select()
+      .from(letterRequestsTable)
+      .where(eq(letterRequestsTable.id, letterRequest.id))
+      .execute();
+    return requests[0];
+  };
+
+  it('should hand the step in progress to the new officer', async () => {
+    const result = await reassignDisposition({
+      assignment_id: assignments[0].id,
+      expected_version: 2,
+      user_id: substituteUser.id,
+      notes: 'Kaur Akademik is on leave'
+    }, dekanUser.id);
+
+    expect(result.assigned_to_user_id).toEqual(substituteUser.id);
+    expect(result.is_completed).toBe(false);
+
+    const request = await loadRequest();
+    expect(request.status).toEqual('DISPOSISI_TO_KAUR_AKADEMIK');
+    expect(request.current_handler_user_id).toEqual(substituteUser.id);
+    expect(request.version).toEqual(3);
+
+    const logs = await db.select()
+      .from(trackingLogsTable)
+      .where(eq(trackingLogsTable.letter_request_id, letterRequest.id))
+      .orderBy(asc(trackingLogsTable.id))
+      .execute();
+
+    const log = logs[logs.length - 1];
+    expect(log.action_type).toEqual('DISPOSISI_AMENDED');
+    expect(log.user_id).toEqual(dekanUser.id);
+    expect(log.description).toEqual('Disposition step 1 reassigned from Kaur Akademik to Kaur Pengganti');
+    expect(log.notes).toEqual('Kaur Akademik is on leave');
+  });
+
+  it('should change the status when the new officer has another role', async () => {
+    await reassignDisposition({
+      assignment_id: assignments[0].id,
+      expected_version: 2,
+      user_id: wd1User.id
+    }, dekanUser.id);
+
+    const request = await loadRequest();
+    expect(request.status).toEqual('DISPOSISI_TO_WD1');
+    expect(request.current_handler_user_id).toEqual(wd1User.id);
+  });
+
+  it('should leave the handler alone when reassigning a later step', async () => {
+    await reassignDisposition({
+      assignment_id: assignments[1].id,
+      expected_version: 2,
+      user_id: substituteUser.id
+    }, dekanUser.id);
+
+    const request = await loadRequest();
+    expect(request.status).toEqual('DISPOSISI_TO_KAUR_AKADEMIK');
+    expect(request.current_handler_user_id).toEqual(kaurUser.id);
+
+    const saved = await db.select()
+      .from(dispositionAssignmentsTable)
+      .where(eq(dispositionAssignmentsTable.id, assignments[1].id))
+      .execute();
+    expect(saved[0].assigned_to_user_id).toEqual(substituteUser.id);
+  });
+
+  it('should reject completed assignments', async () => {
+    await processDisposition({ assignment_id: assignments[0].id, expected_version: 2 }, kaurUser.id);
+
+    await expect(reassignDisposition({
+      assignment_id: assignments[0].id,
+      expected_version: 3,
+      user_id: substituteUser.id
+    }, dekanUser.id)).rejects.toThrow(/Disposition assignment is already completed/);
+  });
+
+  it('should reject users without a disposition role', async () => {
+    await expect(reassignDisposition({
+      assignment_id: assignments[0].id,
+      expected_version: 2,
+      user_id: staffUser.id
+    }, dekanUser.id)).rejects.toThrow(/Invalid role for disposition assignment: STAFF_PRODI/);
+  });
+
+  it('should reject anyone but the Dean', async () => {
+    await expect(reassignDisposition({
+      assignment_id: assignments[0].id,
+      expected_version: 2,
+      user_id: substituteUser.id
+    }, wd1User.id)).rejects.toThrow(/Only Dekan can change disposition assignments/);
+  });
+
+  it('should reject unknown assignments', async () => {
+    await expect(reassignDisposition({
+      assignment_id: 99999,
+      expected_version: 2,
+      user_id: substituteUser.id
+    }, dekanUser.id)).rejects.toThrow(/Disposition assignment with ID 99999 not found/);
+  });
+});
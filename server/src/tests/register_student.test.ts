@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, studentsTable, studentRegistrationCodesTable } from '../db/schema';
+import { type RegisterStudentInput } from '../schema';
+import { registerStudent } from '../handlers/register_student';
+import { issueRegistrationCode } from '../handlers/issue_registration_code';
+import { login } from '../handlers/login';
+import { eq } from 'drizzle-orm';
+
+describe('registerStudent', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let staff: any;
+  let student: any;
+  let testInput: RegisterStudentInput;
+
+  beforeEach(async () => {
+    [staff] = await db.insert(usersTable)
+      .values({ email: 'staff@university.edu', name: 'Staff Prodi', role: 'STAFF_PRODI', prodi: 'Teknik Informatika' })
+      .returning()
+      .execute();
+
+    [student] = await db.insert(studentsTable)
+      .values({ nim: '2021001', name: 'Siti Rahma', prodi: 'Teknik Informatika' })
+      .returning()
+      .execute();
+
+    const { code } = await issueRegistrationCode({ student_id: student.id }, staff.id);
+    testInput = {
+      nim: '2021001',
+      name: 'Siti Rahma',
+      registration_code: code,
+      email: 'siti@student.university.edu',
+      password: 'correct horse battery'
+    };
+  });
+
+  it('should create a STUDENT account linked to the student record', async () => {
+    const result = await registerStudent(testInput);
+
+    expect(result.email).toEqual('siti@student.university.edu');
+    expect(result.name).toEqual('Siti Rahma');
+    expect(result.role).toEqual('STUDENT');
+    expect(result.prodi).toEqual('Teknik Informatika');
+    expect((result as any).password_hash).toBeUndefined();
+
+    const students = await db.select()
+      .from(studentsTable)
+      .where(eq(studentsTable.id, student.id))
+      .execute();
+    expect(students[0].user_id).toEqual(result.id);
+  });
+
+  it('should let the student log in with the chosen password', async () => {
+    await registerStudent(testInput);
+
+    const session = await login({ email: testInput.email, password: testInput.password });
+
+    expect(session.user.role).toEqual('STUDENT');
+  });
+
+  it('should ignore case and spacing in the name', async () => {
+    const result = await registerStudent({ ...testInput, name: '  siti   RAHMA ' });
+
+    // The account takes the name from the student master
+    expect(result.name).toEqual('Siti Rahma');
+  });
+
+  it('should reject an unknown NIM and a wrong name with the same message', async () => {
+    await expect(registerStudent({ ...testInput, nim: '2021999' }))
+      .rejects.toThrow('No student record matches this NIM and name');
+    await expect(registerStudent({ ...testInput, name: 'Someone Else' }))
+      .rejects.toThrow('No student record matches this NIM and name');
+
+    const users = await db.select().from(usersTable).where(eq(usersTable.role, 'STUDENT')).execute();
+    expect(users).toHaveLength(0);
+  });
+
+  it('should reject a wrong registration code', async () => {
+    await expect(registerStudent({ ...testInput, registration_code: 'AAAAA-AAAAA' }))
+      .rejects.toThrow('Registration code is invalid or has expired; ask the prodi or faculty staff for a new one');
+
+    const students = await db.select().from(studentsTable).where(eq(studentsTable.id, student.id)).execute();
+    expect(students[0].user_id).toBeNull();
+  });
+
+  it('should reject an expired registration code', async () => {
+    await db.update(studentRegistrationCodesTable)
+      .set({ expires_at: new Date(Date.now() - 1000) })
+      .where(eq(studentRegistrationCodesTable.student_id, student.id))
+      .execute();
+
+    await expect(registerStudent(testInput))
+      .rejects.toThrow('Registration code is invalid or has expired; ask the prodi or faculty staff for a new one');
+  });
+
+  it('should accept the code regardless of case and dashes, and only once', async () => {
+    await registerStudent({ ...testInput, registration_code: ` ${testInput.registration_code.replace('-', '').toLowerCase()} ` });
+
+    const codes = await db.select().from(studentRegistrationCodesTable).execute();
+    expect(codes).toHaveLength(0);
+  });
+
+  it('should only accept the latest code issued for the record', async () => {
+    const { code } = await issueRegistrationCode({ student_id: student.id }, staff.id);
+
+    await expect(registerStudent(testInput))
+      .rejects.toThrow(/Registration code is invalid/);
+
+    const result = await registerStudent({ ...testInput, registration_code: code });
+    expect(result.role).toEqual('STUDENT');
+  });
+
+  it('should reject a second account for the same NIM', async () => {
+    await registerStudent(testInput);
+
+    await expect(registerStudent({ ...testInput, email: 'another@student.university.edu' }))
+      .rejects.toThrow('An account is already registered for this NIM');
+  });
+
+  it('should reject an email that is already registered', async () => {
+    await db.insert(usersTable)
+      .values({ email: testInput.email, name: 'Staff', role: 'STAFF_PRODI', prodi: 'Teknik Informatika' })
+      .execute();
+
+    await expect(registerStudent(testInput)).rejects.toThrow('Email is already registered');
+
+    const students = await db.select()
+      .from(studentsTable)
+      .where(eq(studentsTable.id, student.id))
+      .execute();
+    expect(students[0].user_id).toBeNull();
+  });
+});
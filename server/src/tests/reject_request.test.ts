@@ -0,0 +1,224 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, studentsTable, letterRequestsTable, rejectionReasonsTable, trackingLogsTable, dispositionAssignmentsTable } from '../db/schema';
+import { rejectRequestInputSchema } from '../schema';
+import { rejectRequest } from '../handlers/reject_request';
+import { eq } from 'drizzle-orm';
+
+describe('rejectRequest', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let staffUser: any;
+  let kaprodiUser: any;
+  let dekanUser: any;
+  let kaurUser: any;
+  let letterRequest: any;
+
+  beforeEach(async () => {
+    [staffUser, kaprodiUser, dekanUser, kaurUser] = await db.insert(usersTable)
+      .values([
+        { email: 'staff@university.edu', name: 'Staff Prodi', role: 'STAFF_PRODI', prodi: 'Informatika' },
+        { email: 'kaprodi@university.edu', name: 'Kaprodi IF', role: 'KAPRODI', prodi: 'Informatika' },
+        { email: 'dekan@university.edu', name: 'Prof. Dr. Dekan', role: 'DEKAN' },
+        { email: 'kaur@university.edu', name: 'Kaur Akademik', role: 'KAUR_AKADEMIK' }
+      ])
+      .returning()
+      .execute();
+
+    const [student] = await db.insert(studentsTable)
+      .values({ nim: '2021001', name: 'Siti Rahma', prodi: 'Informatika' })
+      .returning()
+      .execute();
+
+    [letterRequest] = await db.insert(letterRequestsTable)
+      .values({
+        student_id: student.id,
+        created_by_user_id: staffUser.id,
+        letter_type: 'SKAK',
+        purpose: 'Beasiswa',
+        priority: 'NORMAL',
+        status: 'DRAFT',
+        current_handler_user_id: kaprodiUser.id
+      })
+      .returning()
+      .execute();
+
+    await db.insert(rejectionReasonsTable)
+      .values([
+        { code: 'INCOMPLETE_DOCUMENTS', label: 'Dokumen tidak lengkap' },
+        { code: 'DUPLICATE', label: 'Permohonan ganda', is_active: false }
+      ])
+      .execute();
+  });
+
+  const setStatus = async (status: 'FORWARDED_TO_DEKAN' | 'PROCESSED_BY_KAUR_AKADEMIK' | 'TTD_DONE', handlerId: number) => {
+    const [updated] = await db.update(letterRequestsTable)
+      .set({ status, current_handler_user_id: handlerId })
+      .where(eq(letterRequestsTable.id, letterRequest.id))
+      .returning()
+      .execute();
+    return updated;
+  };
+
+  it('should record the reason and hand the request back to its creator', async () => {
+    const result = await rejectRequest({
+      request_id: letterRequest.id,
+      expected_version: letterRequest.version,
+      reason_code: 'incomplete_documents',
+      notes: 'KTM scan is unreadable'
+    }, kaprodiUser.id);
+
+    expect(result.status).toEqual('REJECTED');
+    expect(result.rejection_reason_code).toEqual('INCOMPLETE_DOCUMENTS');
+    expect(result.rejection_notes).toEqual('KTM scan is unreadable');
+    expect(result.current_handler_user_id).toEqual(staffUser.id);
+    expect(result.version).toEqual(letterRequest.version + 1);
+  });
+
+  it('should log the rejection', async () => {
+    await rejectRequest({
+      request_id: letterRequest.id,
+      expected_version: letterRequest.version,
+      reason_code: 'INCOMPLETE_DOCUMENTS',
+      notes: 'KTM scan is unreadable'
+    }, kaprodiUser.id);
+
+    const logs = await db.select()
+      .from(trackingLogsTable)
+      .where(eq(trackingLogsTable.letter_request_id, letterRequest.id))
+      .execute();
+
+    expect(logs).toHaveLength(1);
+    expect(logs[0].action_type).toEqual('REJECTED');
+    expect(logs[0].user_id).toEqual(kaprodiUser.id);
+    expect(logs[0].description).toEqual('Request rejected: Dokumen tidak lengkap (INCOMPLETE_DOCUMENTS)');
+    expect(logs[0].notes).toEqual('KTM scan is unreadable');
+    expect(logs[0].previous_status).toEqual('DRAFT');
+    expect(logs[0].new_status).toEqual('REJECTED');
+  });
+
+  it('should let the Dean reject a forwarded request', async () => {
+    const forwarded = await setStatus('FORWARDED_TO_DEKAN', kaprodiUser.id);
+
+    const result = await rejectRequest({
+      request_id: letterRequest.id,
+      expected_version: forwarded.version,
+      reason_code: 'INCOMPLETE_DOCUMENTS',
+      notes: 'Missing transcript'
+    }, dekanUser.id);
+
+    expect(result.status).toEqual('REJECTED');
+  });
+
+  it('should let the handling officer reject during disposition', async () => {
+    const processing = await setStatus('PROCESSED_BY_KAUR_AKADEMIK', kaurUser.id);
+
+    const result = await rejectRequest({
+      request_id: letterRequest.id,
+      expected_version: processing.version,
+      reason_code: 'INCOMPLETE_DOCUMENTS',
+      notes: 'Student record does not match'
+    }, kaurUser.id);
+
+    expect(result.status).toEqual('REJECTED');
+  });
+
+  it('should end a parallel disposition step it rejects', async () => {
+    const [wd1User] = await db.insert(usersTable)
+      .values({ email: 'wd1@university.edu', name: 'Wakil Dekan 1', role: 'WD1' })
+      .returning()
+      .execute();
+
+    const [parallel] = await db.update(letterRequestsTable)
+      .set({ status: 'DISPOSISI_PARALLEL', current_handler_user_id: null, parallel_handler_user_ids: [kaurUser.id, wd1User.id] })
+      .where(eq(letterRequestsTable.id, letterRequest.id))
+      .returning()
+      .execute();
+
+    await db.insert(dispositionAssignmentsTable)
+      .values([kaurUser, wd1User].map(officer => ({
+        letter_request_id: letterRequest.id,
+        assigned_to_user_id: officer.id,
+        assigned_by_user_id: dekanUser.id,
+        instructions: 'Periksa berkas',
+        order_sequence: 1
+      })))
+      .execute();
+
+    const result = await rejectRequest({
+      request_id: letterRequest.id,
+      expected_version: parallel.version,
+      reason_code: 'INCOMPLETE_DOCUMENTS',
+      notes: 'Not eligible'
+    }, kaurUser.id);
+
+    expect(result.status).toEqual('REJECTED');
+    expect(result.current_handler_user_id).toEqual(staffUser.id);
+    expect(result.parallel_handler_user_ids).toEqual([]);
+
+    // The other officer has nothing left to process
+    const assignments = await db.select()
+      .from(dispositionAssignmentsTable)
+      .where(eq(dispositionAssignmentsTable.letter_request_id, letterRequest.id))
+      .execute();
+    expect(assignments).toEqual([]);
+  });
+
+  it('should reject users who do not hold the request', async () => {
+    await expect(rejectRequest({
+      request_id: letterRequest.id,
+      expected_version: letterRequest.version,
+      reason_code: 'INCOMPLETE_DOCUMENTS',
+      notes: 'No'
+    }, kaurUser.id)).rejects.toThrow(/not authorized to reject this request/);
+  });
+
+  it('should reject statuses the role may not reject from', async () => {
+    const signed = await setStatus('TTD_DONE', dekanUser.id);
+
+    await expect(rejectRequest({
+      request_id: letterRequest.id,
+      expected_version: signed.version,
+      reason_code: 'INCOMPLETE_DOCUMENTS',
+      notes: 'Too late'
+    }, dekanUser.id)).rejects.toThrow(/Cannot reject request in status: TTD_DONE/);
+  });
+
+  it('should reject unknown and deactivated reasons', async () => {
+    await expect(rejectRequest({
+      request_id: letterRequest.id,
+      expected_version: letterRequest.version,
+      reason_code: 'NOT_A_REASON',
+      notes: 'x'
+    }, kaprodiUser.id)).rejects.toThrow(/Unknown rejection reason: NOT_A_REASON/);
+
+    await expect(rejectRequest({
+      request_id: letterRequest.id,
+      expected_version: letterRequest.version,
+      reason_code: 'DUPLICATE',
+      notes: 'x'
+    }, kaprodiUser.id)).rejects.toThrow(/Unknown rejection reason: DUPLICATE/);
+  });
+
+  it('should fail with a conflict on a stale version', async () => {
+    await expect(rejectRequest({
+      request_id: letterRequest.id,
+      expected_version: letterRequest.version + 1,
+      reason_code: 'INCOMPLETE_DOCUMENTS',
+      notes: 'x'
+    }, kaprodiUser.id)).rejects.toThrow(/version/i);
+  });
+
+  it('should require notes', () => {
+    const result = rejectRequestInputSchema.safeParse({
+      request_id: 1,
+      expected_version: 1,
+      reason_code: 'INCOMPLETE_DOCUMENTS',
+      notes: ' '
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, studentsTable, letterRequestsTable, dispositionAssignmentsTable, trackingLogsTable } from '../db/schema';
+import { createDisposition } from '../handlers/create_disposition';
+import { processDisposition } from '../handlers/process_disposition';
+import { removeDispositionStep } from '../handlers/remove_disposition_step';
+import { asc, eq } from 'drizzle-orm';
+
+describe('removeDispositionStep', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let dekanUser: any;
+  let wd1User: any;
+  let kaurUser: any;
+  let letterRequest: any;
+
+  beforeEach(async () => {
+    let staffUser: any;
+    [dekanUser, wd1User, kaurUser, staffUser] = await db.insert(usersTable)
+      .values([
+        { email: 'dekan@university.edu', name: 'Dekan Faculty', role: 'DEKAN', prodi: null },
+        { email: 'wd1@university.edu', name: 'WD1 Officer', role: 'WD1', prodi: null },
+        { email: 'kaur@university.edu', name: 'Kaur Akademik', role: 'KAUR_AKADEMIK', prodi: null },
+        { email: 'staff@university.edu', name: 'Staff Prodi', role: 'STAFF_PRODI', prodi: 'Teknik Informatika' }
+      ])
+      .returning()
+      .execute();
+
+    const students = await db.insert(studentsTable)
+      .values({ nim: '123456789', name: 'Test Student', prodi: 'Teknik Informatika' })
+      .returning()
+      .execute();
+
+    const requests = await db.insert(letterRequestsTable)
+      .values({
+        student_id: students[0].id,
+        created_by_user_id: staffUser.id,
+        letter_type: 'Surat Keterangan Aktif',
+        purpose: 'Keperluan beasiswa',
+        priority: 'NORMAL',
+        status: 'FORWARDED_TO_DEKAN',
+        current_handler_user_id: dekanUser.id
+      })
+      .returning()
+      .execute();
+    letterRequest = requests[0];
+  });
+
+  const dispose = (assignments: { user_id: number; order_sequence: number }[]) => createDisposition({
+    request_id: letterRequest.id,
+    expected_version: 1,
+    instructions: 'Please check the academic record',
+    assignments
+  }, dekanUser.id);
+
+  it('should move on to the next step when the step in progress is removed', async () => {
+    const assignments = await dispose([
+      { user_id: kaurUser.id, order_sequence: 1 },
+      { user_id: wd1User.id, order_sequence: 2 }
+    ]);
+
+    const result = await removeDispositionStep({
+      assignment_id: assignments[0].id,
+      expected_version: 2,
+      notes: 'Not needed for this letter type'
+    }, dekanUser.id);
+
+    expect(result.status).toEqual('DISPOSISI_TO_WD1');
+    expect(result.current_handler_user_id).toEqual(wd1User.id);
+    expect(result.version).toEqual(3);
+
+    const remaining = await db.select()
+      .from(dispositionAssignmentsTable)
+      .where(eq(dispositionAssignmentsTable.letter_request_id, letterRequest.id))
+      .execute();
+    expect(remaining).toHaveLength(1);
+    expect(remaining[0].assigned_to_user_id).toEqual(wd1User.id);
+
+    const logs = await db.select()
+      .from(trackingLogsTable)
+      .where(eq(trackingLogsTable.letter_request_id, letterRequest.id))
+      .orderBy(asc(trackingLogsTable.id))
+      .execute();
+
+    const log = logs[logs.length - 1];
+    expect(log.action_type).toEqual('DISPOSISI_AMENDED');
+    expect(log.description).toEqual('Disposition step 1 for Kaur Akademik removed');
+    expect(log.notes).toEqual('Not needed for this letter type');
+    expect(log.previous_status).toEqual('DISPOSISI_TO_KAUR_AKADEMIK');
+    expect(log.new_status).toEqual('DISPOSISI_TO_WD1');
+  });
+
+  it('should leave a single officer when a parallel member is removed', async () => {
+    const assignments = await dispose([
+      { user_id: kaurUser.id, order_sequence: 1 },
+      { user_id: wd1User.id, order_sequence: 1 }
+    ]);
+
+    const result = await removeDispositionStep({ assignment_id: assignments[1].id, expected_version: 2 }, dekanUser.id);
+
+    expect(result.status).toEqual('DISPOSISI_TO_KAUR_AKADEMIK');
+    expect(result.current_handler_user_id).toEqual(kaurUser.id);
+    expect(result.parallel_handler_user_ids).toEqual([]);
+  });
+
+  it('should hand the request to the last officer when no step is left', async () => {
+    const assignments = await dispose([
+      { user_id: kaurUser.id, order_sequence: 1 },
+      { user_id: wd1User.id, order_sequence: 2 }
+    ]);
+    await processDisposition({ assignment_id: assignments[0].id, expected_version: 2 }, kaurUser.id);
+
+    const result = await removeDispositionStep({ assignment_id: assignments[1].id, expected_version: 3 }, dekanUser.id);
+
+    expect(result.status).toEqual('PROCESSED_BY_KAUR_AKADEMIK');
+    expect(result.current_handler_user_id).toEqual(kaurUser.id);
+  });
+
+  it('should refuse to remove the only assignment', async () => {
+    const assignments = await dispose([{ user_id: kaurUser.id, order_sequence: 1 }]);
+
+    await expect(removeDispositionStep({ assignment_id: assignments[0].id, expected_version: 2 }, dekanUser.id))
+      .rejects.toThrow(/Cannot remove the only disposition assignment; withdraw the disposition instead/);
+  });
+
+  it('should refuse to remove completed assignments', async () => {
+    const assignments = await dispose([
+      { user_id: kaurUser.id, order_sequence: 1 },
+      { user_id: wd1User.id, order_sequence: 2 }
+    ]);
+    await processDisposition({ assignment_id: assignments[0].id, expected_version: 2 }, kaurUser.id);
+
+    await expect(removeDispositionStep({ assignment_id: assignments[0].id, expected_version: 3 }, dekanUser.id))
+      .rejects.toThrow(/Disposition assignment is already completed/);
+  });
+});
@@ -0,0 +1,196 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, studentsTable, letterRequestsTable, trackingLogsTable } from '../db/schema';
+import { requestRevisionInputSchema } from '../schema';
+import { requestRevision } from '../handlers/request_revision';
+import { uploadFinalLetter } from '../handlers/upload_final_letter';
+import { PDFDocument } from 'pdf-lib';
+import { rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { eq } from 'drizzle-orm';
+
+const storageDir = join(tmpdir(), 'request-revision-test');
+const pdfBytes = Buffer.from(await (await PDFDocument.create()).save());
+
+describe('requestRevision', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(() => {
+    process.env['STORAGE_LOCAL_DIR'] = storageDir;
+  });
+  afterEach(() => rm(storageDir, { recursive: true, force: true }));
+
+  let kaurUser: any;
+  let dekanUser: any;
+  let letterRequest: any;
+
+  beforeEach(async () => {
+    [kaurUser, dekanUser] = await db.insert(usersTable)
+      .values([
+        { email: 'kaur@university.edu', name: 'Kaur Akademik', role: 'KAUR_AKADEMIK' },
+        { email: 'dekan@university.edu', name: 'Prof. Dr. Dekan', role: 'DEKAN' }
+      ])
+      .returning()
+      .execute();
+
+    const [student] = await db.insert(studentsTable)
+      .values({ nim: '2021001', name: 'Siti Rahma', prodi: 'Teknik Informatika' })
+      .returning()
+      .execute();
+
+    const [created] = await db.insert(letterRequestsTable)
+      .values({
+        student_id: student.id,
+        created_by_user_id: kaurUser.id,
+        letter_type: 'SKAK',
+        purpose: 'Beasiswa',
+        priority: 'NORMAL',
+        status: 'PROCESSED_BY_KAUR_AKADEMIK',
+        current_handler_user_id: kaurUser.id
+      })
+      .returning()
+      .execute();
+
+    letterRequest = await uploadFinalLetter({
+      request_id: created.id,
+      expected_version: created.version,
+      file: new File([pdfBytes], 'draft-1.pdf', { type: 'application/pdf' })
+    }, kaurUser.id);
+  });
+
+  it('should send the letter back to the officer who uploaded it', async () => {
+    const result = await requestRevision({
+      request_id: letterRequest.id,
+      expected_version: letterRequest.version,
+      comments: 'Student name is misspelled'
+    }, dekanUser.id);
+
+    expect(result.status).toEqual('REVISION_REQUESTED');
+    expect(result.current_handler_user_id).toEqual(kaurUser.id);
+    expect(result.revision_count).toEqual(1);
+    expect(result.version).toEqual(letterRequest.version + 1);
+    expect(result.letter_number).toBeNull();
+  });
+
+  it('should log the comments', async () => {
+    await requestRevision({
+      request_id: letterRequest.id,
+      expected_version: letterRequest.version,
+      comments: 'Student name is misspelled'
+    }, dekanUser.id);
+
+    const logs = await db.select()
+      .from(trackingLogsTable)
+      .where(eq(trackingLogsTable.action_type, 'REVISION_REQUESTED'))
+      .execute();
+
+    expect(logs).toHaveLength(1);
+    expect(logs[0].user_id).toEqual(dekanUser.id);
+    expect(logs[0].description).toEqual('Final letter returned to Kaur Akademik for revision');
+    expect(logs[0].notes).toEqual('Student name is misspelled');
+    expect(logs[0].previous_status).toEqual('TTD_READY');
+    expect(logs[0].new_status).toEqual('REVISION_REQUESTED');
+  });
+
+  it('should count every round trip', async () => {
+    const first = await requestRevision({
+      request_id: letterRequest.id,
+      expected_version: letterRequest.version,
+      comments: 'Wrong semester'
+    }, dekanUser.id);
+
+    // The officer's corrected upload goes back to the Dean
+    const resubmitted = await uploadFinalLetter({
+      request_id: first.id,
+      expected_version: first.version,
+      file: new File([pdfBytes], 'draft-2.pdf', { type: 'application/pdf' }),
+      change_note: 'Semester corrected'
+    }, kaurUser.id);
+
+    expect(resubmitted.status).toEqual('TTD_READY');
+    expect(resubmitted.current_handler_user_id).toEqual(dekanUser.id);
+    expect(resubmitted.revision_count).toEqual(1);
+
+    const second = await requestRevision({
+      request_id: resubmitted.id,
+      expected_version: resubmitted.version,
+      comments: 'Signature block is missing'
+    }, dekanUser.id);
+
+    expect(second.revision_count).toEqual(2);
+    expect(second.current_handler_user_id).toEqual(kaurUser.id);
+  });
+
+  it('should fall back to the upload log for letters without versions', async () => {
+    const [legacy] = await db.insert(letterRequestsTable)
+      .values({
+        student_id: letterRequest.student_id,
+        created_by_user_id: kaurUser.id,
+        letter_type: 'SKAK',
+        purpose: 'Beasiswa',
+        priority: 'NORMAL',
+        status: 'TTD_READY',
+        current_handler_user_id: dekanUser.id,
+        final_letter_url: 'https://storage.example.com/letter.pdf'
+      })
+      .returning()
+      .execute();
+
+    await db.insert(trackingLogsTable)
+      .values({
+        letter_request_id: legacy.id,
+        user_id: kaurUser.id,
+        action_type: 'DOCUMENT_UPLOADED',
+        description: 'Final letter document uploaded and ready for signature',
+        previous_status: 'PROCESSED_BY_KAUR_AKADEMIK',
+        new_status: 'TTD_READY'
+      })
+      .execute();
+
+    const result = await requestRevision({
+      request_id: legacy.id,
+      expected_version: legacy.version,
+      comments: 'Wrong letter type'
+    }, dekanUser.id);
+
+    expect(result.current_handler_user_id).toEqual(kaurUser.id);
+  });
+
+  it('should only allow the Dean', async () => {
+    await expect(requestRevision({
+      request_id: letterRequest.id,
+      expected_version: letterRequest.version,
+      comments: 'Typo'
+    }, kaurUser.id)).rejects.toThrow(/Only Dean \(DEKAN\) can request letter revisions/);
+  });
+
+  it('should reject requests that are not awaiting signature', async () => {
+    await db.update(letterRequestsTable)
+      .set({ status: 'TTD_DONE' })
+      .where(eq(letterRequestsTable.id, letterRequest.id))
+      .execute();
+
+    await expect(requestRevision({
+      request_id: letterRequest.id,
+      expected_version: letterRequest.version,
+      comments: 'Typo'
+    }, dekanUser.id)).rejects.toThrow(/not awaiting signature. Current status: TTD_DONE/);
+  });
+
+  it('should fail with a conflict on a stale version', async () => {
+    await expect(requestRevision({
+      request_id: letterRequest.id,
+      expected_version: letterRequest.version - 1,
+      comments: 'Typo'
+    }, dekanUser.id)).rejects.toThrow(/version/i);
+  });
+
+  it('should require comments', () => {
+    const result = requestRevisionInputSchema.safeParse({ request_id: 1, expected_version: 1, comments: '   ' });
+
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,258 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  studentsTable,
+  letterRequestsTable,
+  dispositionAssignmentsTable,
+  escalationsTable,
+  rejectionReasonsTable,
+  trackingLogsTable
+} from '../db/schema';
+import { createDisposition } from '../handlers/create_disposition';
+import { processDisposition } from '../handlers/process_disposition';
+import { resolveEscalation } from '../handlers/resolve_escalation';
+import { updateRequestStatus } from '../handlers/update_request_status';
+import { and, asc, eq, isNull } from 'drizzle-orm';
+
+describe('resolveEscalation', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let adminUser: any;
+  let dekanUser: any;
+  let kaurUser: any;
+  let substituteUser: any;
+  let wd1User: any;
+  let staffUser: any;
+  let letterRequest: any;
+  let escalation: any;
+
+  beforeEach(async () => {
+    [adminUser, dekanUser, kaurUser, substituteUser, wd1User, staffUser] = await db.insert(usersTable)
+      .values([
+        { email: 'admin@university.edu', name: 'Admin User', role: 'ADMIN', prodi: null },
+        { email: 'dekan@university.edu', name: 'Dekan Faculty', role: 'DEKAN', prodi: null },
+        { email: 'kaur@university.edu', name: 'Kaur Akademik', role: 'KAUR_AKADEMIK', prodi: null },
+        { email: 'kaur2@university.edu', name: 'Kaur Pengganti', role: 'KAUR_AKADEMIK', prodi: null },
+        { email: 'wd1@university.edu', name: 'WD1 Officer', role: 'WD1', prodi: null },
+        { email: 'staff@university.edu', name: 'Staff Prodi', role: 'STAFF_PRODI', prodi: 'Teknik Informatika' }
+      ])
+      .returning()
+      .execute();
+
+    const students = await db.insert(studentsTable)
+      .values({ nim: '123456789', name: 'Test Student', prodi: 'Teknik Informatika' })
+      .returning()
+      .execute();
+
+    const requests = await db.insert(letterRequestsTable)
+      .values({
+        student_id: students[0].id,
+        created_by_user_id: staffUser.id,
+        letter_type: 'Surat Keterangan Aktif',
+        purpose: 'Keperluan beasiswa',
+        priority: 'NORMAL',
+        status: 'FORWARDED_TO_DEKAN',
+        current_handler_user_id: dekanUser.id
+      })
+      .returning()
+      .execute();
+    letterRequest = requests[0];
+
+    const assignments = await createDisposition({
+      request_id: letterRequest.id,
+      expected_version: 1,
+      instructions: 'Please check the academic record',
+      assignments: [
+        { user_id: kaurUser.id, order_sequence: 1 },
+        { user_id: wd1User.id, order_sequence: 2 }
+      ]
+    }, dekanUser.id);
+
+    await processDisposition({
+      assignment_id: assignments[0].id,
+      expected_version: 2,
+      escalate: true,
+      escalation_reason: 'Grades are missing for last semester',
+      escalation_category: 'MISSING_INFORMATION'
+    }, kaurUser.id);
+
+    const escalations = await db.select()
+      .from(escalationsTable)
+      .where(eq(escalationsTable.letter_request_id, letterRequest.id))
+      .execute();
+    escalation = escalations[0];
+  });
+
+  const loadRequest = async () => {
+    const requests = await db.select()
+      .from(letterRequestsTable)
+      .where(eq(letterRequestsTable.id, letterRequest.id))
+      .execute();
+    return requests[0];
+  };
+
+  const pendingAssignments = () => db.select()
+    .from(dispositionAssignmentsTable)
+    .where(and(
+      eq(dispositionAssignmentsTable.letter_request_id, letterRequest.id),
+      eq(dispositionAssignmentsTable.is_completed, false),
+      isNull(dispositionAssignmentsTable.escalated_at)
+    ))
+    .orderBy(asc(dispositionAssignmentsTable.order_sequence))
+    .execute();
+
+  it('should return the step to the escalating officer', async () => {
+    const result = await resolveEscalation({
+      escalation_id: escalation.id,
+      expected_version: 3,
+      resolution: 'RETURNED_TO_OFFICER',
+      notes: 'Grades were uploaded by the prodi'
+    }, adminUser.id);
+
+    expect(result.resolution).toEqual('RETURNED_TO_OFFICER');
+    expect(result.resolution_notes).toEqual('Grades were uploaded by the prodi');
+    expect(result.resolved_by_user_id).toEqual(adminUser.id);
+    expect(result.resolved_at).toBeInstanceOf(Date);
+    expect(result.time_to_resolve_seconds).toBeGreaterThanOrEqual(0);
+
+    const request = await loadRequest();
+    expect(request.status).toEqual('DISPOSISI_TO_KAUR_AKADEMIK');
+    expect(request.current_handler_user_id).toEqual(kaurUser.id);
+    expect(request.version).toEqual(4);
+
+    const pending = await pendingAssignments();
+    expect(pending.map(assignment => assignment.assigned_to_user_id)).toEqual([kaurUser.id, wd1User.id]);
+    expect(pending[0].instructions).toEqual('Please check the academic record');
+
+    // The escalated assignment stays as history, never marked as completed
+    const [escalated] = await db.select()
+      .from(dispositionAssignmentsTable)
+      .where(eq(dispositionAssignmentsTable.id, escalation.assignment_id))
+      .execute();
+    expect(escalated.is_completed).toBe(false);
+    expect(escalated.escalated_at).toBeInstanceOf(Date);
+    expect(pending[0].id).not.toEqual(escalated.id);
+
+    const logs = await db.select()
+      .from(trackingLogsTable)
+      .where(eq(trackingLogsTable.letter_request_id, letterRequest.id))
+      .orderBy(asc(trackingLogsTable.id))
+      .execute();
+
+    const log = logs[logs.length - 1];
+    expect(log.action_type).toEqual('ESCALATION_RESOLVED');
+    expect(log.user_id).toEqual(adminUser.id);
+    expect(log.description).toEqual('Escalation resolved: returned to Kaur Akademik');
+    expect(log.previous_status).toEqual('ESCALATED');
+    expect(log.new_status).toEqual('DISPOSISI_TO_KAUR_AKADEMIK');
+  });
+
+  it('should reroute the step to another officer', async () => {
+    await resolveEscalation({
+      escalation_id: escalation.id,
+      expected_version: 3,
+      resolution: 'REROUTED',
+      user_id: substituteUser.id
+    }, adminUser.id);
+
+    const request = await loadRequest();
+    expect(request.status).toEqual('DISPOSISI_TO_KAUR_AKADEMIK');
+    expect(request.current_handler_user_id).toEqual(substituteUser.id);
+
+    const pending = await pendingAssignments();
+    expect(pending[0].assigned_to_user_id).toEqual(substituteUser.id);
+  });
+
+  it('should require the officer to reroute to', async () => {
+    await expect(resolveEscalation({
+      escalation_id: escalation.id,
+      expected_version: 3,
+      resolution: 'REROUTED'
+    }, adminUser.id)).rejects.toThrow(/Rerouting an escalation requires the officer who takes over/);
+  });
+
+  it('should send the request back to the Dean', async () => {
+    await resolveEscalation({
+      escalation_id: escalation.id,
+      expected_version: 3,
+      resolution: 'SENT_TO_DEKAN'
+    }, adminUser.id);
+
+    const request = await loadRequest();
+    expect(request.status).toEqual('FORWARDED_TO_DEKAN');
+    expect(request.current_handler_user_id).toEqual(dekanUser.id);
+
+    // The rest of the old chain does not leak into the next disposition
+    expect(await pendingAssignments()).toHaveLength(0);
+  });
+
+  it('should reject the request with a reason', async () => {
+    await db.insert(rejectionReasonsTable)
+      .values({ code: 'NOT_ELIGIBLE', label: 'Not eligible' })
+      .execute();
+
+    await resolveEscalation({
+      escalation_id: escalation.id,
+      expected_version: 3,
+      resolution: 'REJECTED',
+      reason_code: 'not_eligible',
+      notes: 'Student is on leave this semester'
+    }, adminUser.id);
+
+    const request = await loadRequest();
+    expect(request.status).toEqual('REJECTED');
+    expect(request.current_handler_user_id).toEqual(staffUser.id);
+    expect(request.rejection_reason_code).toEqual('NOT_ELIGIBLE');
+    expect(request.rejection_notes).toEqual('Student is on leave this semester');
+    expect(await pendingAssignments()).toHaveLength(0);
+  });
+
+  it('should require a rejection reason to reject', async () => {
+    await expect(resolveEscalation({
+      escalation_id: escalation.id,
+      expected_version: 3,
+      resolution: 'REJECTED'
+    }, adminUser.id)).rejects.toThrow(/Rejecting an escalated request requires a rejection reason/);
+  });
+
+  it('should not resolve an escalation twice', async () => {
+    await resolveEscalation({ escalation_id: escalation.id, expected_version: 3, resolution: 'SENT_TO_DEKAN' }, adminUser.id);
+
+    await expect(resolveEscalation({
+      escalation_id: escalation.id,
+      expected_version: 4,
+      resolution: 'SENT_TO_DEKAN'
+    }, adminUser.id)).rejects.toThrow(/Escalation is already resolved/);
+  });
+
+  it('should reject anyone but an admin', async () => {
+    await expect(resolveEscalation({
+      escalation_id: escalation.id,
+      expected_version: 3,
+      resolution: 'SENT_TO_DEKAN'
+    }, dekanUser.id)).rejects.toThrow(/Only an admin can resolve escalations/);
+  });
+
+  it('should leave moving an escalated request on to resolveEscalation', async () => {
+    await expect(updateRequestStatus({
+      request_id: letterRequest.id,
+      expected_version: 3,
+      new_status: 'FORWARDED_TO_DEKAN'
+    }, adminUser.id)).rejects.toThrow(/from ESCALATED to FORWARDED_TO_DEKAN goes through resolveEscalation/);
+
+    const request = await loadRequest();
+    expect(request.status).toEqual('ESCALATED');
+    expect(escalation.resolved_at).toBeNull();
+  });
+
+  it('should reject unknown escalations', async () => {
+    await expect(resolveEscalation({
+      escalation_id: 99999,
+      expected_version: 3,
+      resolution: 'SENT_TO_DEKAN'
+    }, adminUser.id)).rejects.toThrow(/Escalation with ID 99999 not found/);
+  });
+});
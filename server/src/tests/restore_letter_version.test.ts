@@ -0,0 +1,167 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, studentsTable, letterRequestsTable, letterVersionsTable, trackingLogsTable } from '../db/schema';
+import { restoreLetterVersion } from '../handlers/restore_letter_version';
+import { uploadFinalLetter } from '../handlers/upload_final_letter';
+import { PDFDocument } from 'pdf-lib';
+import { rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { asc, eq } from 'drizzle-orm';
+
+const storageDir = join(tmpdir(), 'restore-letter-version-test');
+const pdfBytes = Buffer.from(await (await PDFDocument.create()).save());
+
+describe('restoreLetterVersion', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(() => {
+    process.env['STORAGE_LOCAL_DIR'] = storageDir;
+  });
+  afterEach(() => rm(storageDir, { recursive: true, force: true }));
+
+  let kaurUser: any;
+  let dekanUser: any;
+  let letterRequest: any;
+  let versions: any[];
+
+  // Uploads a new draft as if the Dean had sent the previous one back to the officer
+  const uploadDraft = async (fileName: string) => {
+    const [current] = await db.update(letterRequestsTable)
+      .set({ status: 'PROCESSED_BY_KAUR_AKADEMIK', current_handler_user_id: kaurUser.id })
+      .where(eq(letterRequestsTable.id, letterRequest.id))
+      .returning()
+      .execute();
+
+    return uploadFinalLetter({
+      request_id: letterRequest.id,
+      expected_version: current.version,
+      file: new File([pdfBytes], fileName, { type: 'application/pdf' })
+    }, kaurUser.id);
+  };
+
+  beforeEach(async () => {
+    [kaurUser, dekanUser] = await db.insert(usersTable)
+      .values([
+        { email: 'kaur@university.edu', name: 'Kaur Akademik', role: 'KAUR_AKADEMIK' },
+        { email: 'dekan@university.edu', name: 'Prof. Dr. Dekan', role: 'DEKAN' }
+      ])
+      .returning()
+      .execute();
+
+    const [student] = await db.insert(studentsTable)
+      .values({ nim: '2021001', name: 'Siti Rahma', prodi: 'Teknik Informatika' })
+      .returning()
+      .execute();
+
+    [letterRequest] = await db.insert(letterRequestsTable)
+      .values({
+        student_id: student.id,
+        created_by_user_id: kaurUser.id,
+        letter_type: 'SKAK',
+        purpose: 'Beasiswa',
+        priority: 'NORMAL',
+        status: 'PROCESSED_BY_KAUR_AKADEMIK',
+        current_handler_user_id: kaurUser.id
+      })
+      .returning()
+      .execute();
+
+    await uploadDraft('draft-1.pdf');
+    letterRequest = await uploadDraft('draft-2.pdf');
+
+    versions = await db.select()
+      .from(letterVersionsTable)
+      .where(eq(letterVersionsTable.letter_request_id, letterRequest.id))
+      .orderBy(asc(letterVersionsTable.version_number))
+      .execute();
+  });
+
+  it('should make an earlier version current again without changing the status', async () => {
+    const result = await restoreLetterVersion({
+      request_id: letterRequest.id,
+      expected_version: letterRequest.version,
+      letter_version_id: versions[0].id,
+      change_note: 'Second draft dropped the signature block'
+    }, dekanUser.id);
+
+    expect(result.current_letter_version_id).toEqual(versions[0].id);
+    expect(result.final_letter_url).toEqual(versions[0].file_url);
+    expect(result.status).toEqual('TTD_READY');
+    expect(result.current_handler_user_id).toEqual(dekanUser.id);
+    expect(result.version).toEqual(letterRequest.version + 1);
+
+    // The history keeps both versions
+    const remaining = await db.select()
+      .from(letterVersionsTable)
+      .where(eq(letterVersionsTable.letter_request_id, letterRequest.id))
+      .execute();
+    expect(remaining).toHaveLength(2);
+  });
+
+  it('should log the restore', async () => {
+    await restoreLetterVersion({
+      request_id: letterRequest.id,
+      expected_version: letterRequest.version,
+      letter_version_id: versions[0].id,
+      change_note: 'Back to the first draft'
+    }, dekanUser.id);
+
+    const logs = await db.select()
+      .from(trackingLogsTable)
+      .where(eq(trackingLogsTable.action_type, 'VERSION_RESTORED'))
+      .execute();
+
+    expect(logs).toHaveLength(1);
+    expect(logs[0].user_id).toEqual(dekanUser.id);
+    expect(logs[0].description).toEqual('Final letter version 1 restored');
+    expect(logs[0].notes).toEqual('Back to the first draft');
+  });
+
+  it('should reject the version that is already current', async () => {
+    await expect(restoreLetterVersion({
+      request_id: letterRequest.id,
+      expected_version: letterRequest.version,
+      letter_version_id: versions[1].id
+    }, dekanUser.id)).rejects.toThrow(/Letter version 2 is already the current version/);
+  });
+
+  it('should reject versions of another request', async () => {
+    await expect(restoreLetterVersion({
+      request_id: letterRequest.id,
+      expected_version: letterRequest.version,
+      letter_version_id: 99999
+    }, dekanUser.id)).rejects.toThrow(/Letter version 99999 not found for this request/);
+  });
+
+  it('should only let the current handler restore', async () => {
+    await expect(restoreLetterVersion({
+      request_id: letterRequest.id,
+      expected_version: letterRequest.version,
+      letter_version_id: versions[0].id
+    }, kaurUser.id)).rejects.toThrow(/not authorized to restore letter versions/);
+  });
+
+  it('should refuse once the letter is signed', async () => {
+    await db.update(letterRequestsTable)
+      .set({ status: 'TTD_DONE' })
+      .where(eq(letterRequestsTable.id, letterRequest.id))
+      .execute();
+
+    await expect(restoreLetterVersion({
+      request_id: letterRequest.id,
+      expected_version: letterRequest.version,
+      letter_version_id: versions[0].id
+    }, dekanUser.id)).rejects.toThrow(/Cannot restore a letter version after the letter is signed/);
+  });
+
+  it('should fail with a conflict on a stale version', async () => {
+    await expect(restoreLetterVersion({
+      request_id: letterRequest.id,
+      expected_version: letterRequest.version - 1,
+      letter_version_id: versions[0].id
+    }, dekanUser.id)).rejects.toThrow(/version/i);
+  });
+});
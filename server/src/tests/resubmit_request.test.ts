@@ -0,0 +1,196 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, studentsTable, letterTypesTable, letterRequestsTable, rejectionReasonsTable, supportingDocumentsTable, trackingLogsTable } from '../db/schema';
+import { rejectRequest } from '../handlers/reject_request';
+import { resubmitRequest } from '../handlers/resubmit_request';
+import { asc, eq } from 'drizzle-orm';
+
+describe('resubmitRequest', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let staffUser: any;
+  let kaprodiUser: any;
+  let letterRequest: any;
+  let ktm: any;
+  let rejected: any;
+
+  beforeEach(async () => {
+    [staffUser, kaprodiUser] = await db.insert(usersTable)
+      .values([
+        { email: 'staff@university.edu', name: 'Staff Prodi', role: 'STAFF_PRODI', prodi: 'Informatika' },
+        { email: 'kaprodi@university.edu', name: 'Kaprodi IF', role: 'KAPRODI', prodi: 'Informatika' }
+      ])
+      .returning()
+      .execute();
+
+    const [student] = await db.insert(studentsTable)
+      .values({ nim: '2021001', name: 'Siti Rahma', prodi: 'Informatika' })
+      .returning()
+      .execute();
+
+    await db.insert(letterTypesTable)
+      .values({ code: 'SKAK', name: 'Surat Keterangan Aktif Kuliah', required_documents: ['KTM'] })
+      .execute();
+
+    await db.insert(rejectionReasonsTable)
+      .values({ code: 'INCOMPLETE_DOCUMENTS', label: 'Dokumen tidak lengkap' })
+      .execute();
+
+    [letterRequest] = await db.insert(letterRequestsTable)
+      .values({
+        student_id: student.id,
+        created_by_user_id: staffUser.id,
+        letter_type: 'SKAK',
+        purpose: 'Beasiswa',
+        priority: 'NORMAL',
+        status: 'DRAFT',
+        current_handler_user_id: kaprodiUser.id
+      })
+      .returning()
+      .execute();
+
+    [ktm] = await db.insert(supportingDocumentsTable)
+      .values({
+        letter_request_id: letterRequest.id,
+        file_name: 'ktm-blurry.jpg',
+        file_url: 'https://storage.example.com/ktm-blurry.jpg',
+        document_type: 'KTM',
+        uploaded_by_user_id: staffUser.id
+      })
+      .returning()
+      .execute();
+
+    rejected = await rejectRequest({
+      request_id: letterRequest.id,
+      expected_version: letterRequest.version,
+      reason_code: 'INCOMPLETE_DOCUMENTS',
+      notes: 'KTM scan is unreadable'
+    }, kaprodiUser.id);
+  });
+
+  const addDocument = (fileName: string) => db.insert(supportingDocumentsTable)
+    .values({
+      letter_request_id: letterRequest.id,
+      file_name: fileName,
+      file_url: `https://storage.example.com/${fileName}`,
+      document_type: 'KTM',
+      uploaded_by_user_id: staffUser.id
+    })
+    .returning()
+    .execute();
+
+  it('should send the fixed request back to the Kaprodi as a draft', async () => {
+    await addDocument('ktm.pdf');
+
+    const result = await resubmitRequest({
+      request_id: letterRequest.id,
+      expected_version: rejected.version,
+      purpose: 'Beasiswa Bank Indonesia',
+      remove_document_ids: [ktm.id]
+    }, staffUser.id);
+
+    expect(result.id).toEqual(letterRequest.id);
+    expect(result.status).toEqual('DRAFT');
+    expect(result.purpose).toEqual('Beasiswa Bank Indonesia');
+    expect(result.current_handler_user_id).toEqual(kaprodiUser.id);
+    expect(result.rejection_reason_code).toBeNull();
+    expect(result.rejection_notes).toBeNull();
+    expect(result.version).toEqual(rejected.version + 1);
+
+    const documents = await db.select()
+      .from(supportingDocumentsTable)
+      .where(eq(supportingDocumentsTable.letter_request_id, letterRequest.id))
+      .execute();
+    expect(documents.map(document => document.file_name)).toEqual(['ktm.pdf']);
+  });
+
+  it('should keep the whole history on the request', async () => {
+    await addDocument('ktm.pdf');
+
+    await resubmitRequest({
+      request_id: letterRequest.id,
+      expected_version: rejected.version,
+      purpose: 'Beasiswa Bank Indonesia',
+      remove_document_ids: [ktm.id],
+      notes: 'Uploaded a clear scan'
+    }, staffUser.id);
+
+    const logs = await db.select()
+      .from(trackingLogsTable)
+      .where(eq(trackingLogsTable.letter_request_id, letterRequest.id))
+      .orderBy(asc(trackingLogsTable.id))
+      .execute();
+
+    expect(logs.map(log => log.action_type)).toEqual(['REJECTED', 'RESUBMITTED']);
+    expect(logs[1].user_id).toEqual(staffUser.id);
+    expect(logs[1].description).toEqual('Letter request resubmitted after rejection');
+    expect(logs[1].notes).toEqual('Uploaded a clear scan. Purpose: Beasiswa Bank Indonesia. Removed documents: ktm-blurry.jpg');
+    expect(logs[1].previous_status).toEqual('REJECTED');
+    expect(logs[1].new_status).toEqual('DRAFT');
+  });
+
+  it('should still require the letter type documents', async () => {
+    await expect(resubmitRequest({
+      request_id: letterRequest.id,
+      expected_version: rejected.version,
+      remove_document_ids: [ktm.id]
+    }, staffUser.id)).rejects.toThrow(/Missing required supporting documents for SKAK: KTM/);
+
+    // Nothing was removed
+    const documents = await db.select()
+      .from(supportingDocumentsTable)
+      .where(eq(supportingDocumentsTable.letter_request_id, letterRequest.id))
+      .execute();
+    expect(documents).toHaveLength(1);
+  });
+
+  it('should not count quarantined documents', async () => {
+    const [replacement] = await addDocument('ktm.exe');
+    await db.update(supportingDocumentsTable)
+      .set({ status: 'QUARANTINED', quarantine_reason: 'File content is not a recognised document type' })
+      .where(eq(supportingDocumentsTable.id, replacement.id))
+      .execute();
+
+    await expect(resubmitRequest({
+      request_id: letterRequest.id,
+      expected_version: rejected.version,
+      remove_document_ids: [ktm.id]
+    }, staffUser.id)).rejects.toThrow(/Missing required supporting documents/);
+  });
+
+  it('should reject documents of other requests', async () => {
+    await expect(resubmitRequest({
+      request_id: letterRequest.id,
+      expected_version: rejected.version,
+      remove_document_ids: [99999]
+    }, staffUser.id)).rejects.toThrow(/Supporting documents not found for this request: 99999/);
+  });
+
+  it('should only let the creator resubmit', async () => {
+    await expect(resubmitRequest({
+      request_id: letterRequest.id,
+      expected_version: rejected.version
+    }, kaprodiUser.id)).rejects.toThrow(/Only the creator of a request can resubmit it/);
+  });
+
+  it('should only resubmit rejected requests', async () => {
+    const resubmitted = await resubmitRequest({
+      request_id: letterRequest.id,
+      expected_version: rejected.version
+    }, staffUser.id);
+
+    await expect(resubmitRequest({
+      request_id: letterRequest.id,
+      expected_version: resubmitted.version
+    }, staffUser.id)).rejects.toThrow(/Only rejected requests can be resubmitted. Current status: DRAFT/);
+  });
+
+  it('should fail with a conflict on a stale version', async () => {
+    await expect(resubmitRequest({
+      request_id: letterRequest.id,
+      expected_version: letterRequest.version
+    }, staffUser.id)).rejects.toThrow(/version/i);
+  });
+});
@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, studentsTable, letterRequestsTable, trackingLogsTable } from '../db/schema';
+import { returnToProdi } from '../handlers/return_to_prodi';
+import { eq } from 'drizzle-orm';
+
+describe('returnToProdi', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let staffFakultas: any;
+  let staffProdi: any;
+  let creatorStaff: any;
+  let dekanUser: any;
+  let letterRequest: any;
+
+  beforeEach(async () => {
+    [staffFakultas, staffProdi, creatorStaff, dekanUser] = await db.insert(usersTable)
+      .values([
+        { email: 'fakultas@university.edu', name: 'Staff Fakultas', role: 'STAFF_FAKULTAS', prodi: null },
+        { email: 'prodi1@university.edu', name: 'First Staff Prodi', role: 'STAFF_PRODI', prodi: 'Informatika' },
+        { email: 'prodi2@university.edu', name: 'Creator Staff Prodi', role: 'STAFF_PRODI', prodi: 'Informatika' },
+        { email: 'dekan@university.edu', name: 'Dekan Faculty', role: 'DEKAN', prodi: null }
+      ])
+      .returning()
+      .execute();
+
+    const students = await db.insert(studentsTable)
+      .values({ nim: '123456789', name: 'Test Student', prodi: 'Informatika' })
+      .returning()
+      .execute();
+
+    const requests = await db.insert(letterRequestsTable)
+      .values({
+        student_id: students[0].id,
+        created_by_user_id: creatorStaff.id,
+        letter_type: 'Surat Keterangan Aktif',
+        purpose: 'Keperluan beasiswa',
+        priority: 'NORMAL',
+        status: 'TTD_DONE',
+        current_handler_user_id: staffFakultas.id
+      })
+      .returning()
+      .execute();
+    letterRequest = requests[0];
+  });
+
+  it('should hand the signed letter to the prodi staff who created the request', async () => {
+    const result = await returnToProdi({
+      request_id: letterRequest.id,
+      expected_version: 1,
+      notes: 'Collect at the prodi office'
+    }, staffFakultas.id);
+
+    expect(result.status).toEqual('RETURNED_TO_PRODI');
+    expect(result.current_handler_user_id).toEqual(creatorStaff.id);
+    expect(result.version).toEqual(2);
+
+    const logs = await db.select()
+      .from(trackingLogsTable)
+      .where(eq(trackingLogsTable.letter_request_id, letterRequest.id))
+      .execute();
+
+    expect(logs).toHaveLength(1);
+    expect(logs[0].action_type).toEqual('RETURNED');
+    expect(logs[0].user_id).toEqual(staffFakultas.id);
+    expect(logs[0].previous_status).toEqual('TTD_DONE');
+    expect(logs[0].new_status).toEqual('RETURNED_TO_PRODI');
+    expect(logs[0].description).toEqual('Signed letter returned to Creator Staff Prodi at prodi Informatika');
+    expect(logs[0].notes).toEqual('Collect at the prodi office');
+  });
+
+  it('should fall back to any staff of the prodi when the creator is not prodi staff', async () => {
+    await db.update(letterRequestsTable)
+      .set({ created_by_user_id: dekanUser.id })
+      .where(eq(letterRequestsTable.id, letterRequest.id))
+      .execute();
+
+    const result = await returnToProdi({ request_id: letterRequest.id, expected_version: 1 }, staffFakultas.id);
+
+    expect(result.current_handler_user_id).toEqual(staffProdi.id);
+  });
+
+  it('should fail when the prodi has no staff', async () => {
+    await db.update(studentsTable)
+      .set({ prodi: 'Sistem Informasi' })
+      .where(eq(studentsTable.id, letterRequest.student_id))
+      .execute();
+
+    await expect(returnToProdi({ request_id: letterRequest.id, expected_version: 1 }, staffFakultas.id))
+      .rejects.toThrow(/No Staff Prodi found for prodi: Sistem Informasi/);
+  });
+
+  it('should only be taken by faculty staff', async () => {
+    await expect(returnToProdi({ request_id: letterRequest.id, expected_version: 1 }, creatorStaff.id))
+      .rejects.toThrow(/Role STAFF_PRODI cannot move a request from TTD_DONE to RETURNED_TO_PRODI/);
+  });
+
+  it('should reject requests that are not signed', async () => {
+    await db.update(letterRequestsTable)
+      .set({ status: 'TTD_READY' })
+      .where(eq(letterRequestsTable.id, letterRequest.id))
+      .execute();
+
+    await expect(returnToProdi({ request_id: letterRequest.id, expected_version: 1 }, staffFakultas.id))
+      .rejects.toThrow(/Cannot return to prodi request in status: TTD_READY \(attempted RETURNED_TO_PRODI\)/);
+  });
+
+  it('should reject a stale version', async () => {
+    await expect(returnToProdi({ request_id: letterRequest.id, expected_version: 7 }, staffFakultas.id))
+      .rejects.toThrow(/version/i);
+  });
+});
@@ -1,15 +1,54 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, studentsTable, letterRequestsTable, trackingLogsTable } from '../db/schema';
+import { usersTable, studentsTable, letterRequestsTable, trackingLogsTable, letterNumberFormatsTable, letterNumberCountersTable, letterSignaturesTable, signerKeysTable } from '../db/schema';
 import { type SignLetterInput } from '../schema';
 import { signLetter } from '../handlers/sign_letter';
 import { eq } from 'drizzle-orm';
 
+process.env['SIGNING_KEY_SECRET'] = 'test-signing-key-secret';
+
 describe('signLetter', () => {
   beforeEach(createDB);
   afterEach(resetDB);
 
+  beforeEach(async () => {
+    await db.insert(letterNumberFormatsTable)
+      .values({ letter_type: null, unit_code: 'UN1.FT', classification_code: 'KM', pattern: '{seq}/{unit}/{code}/{year}' })
+      .execute();
+  });
+
+  const createSignableRequests = async (count: number) => {
+    const [student] = await db.insert(studentsTable)
+      .values({ nim: '123456789', name: 'Test Student', prodi: 'Computer Science' })
+      .returning()
+      .execute();
+
+    const [dekan, staffFakultas] = await db.insert(usersTable)
+      .values([
+        { email: 'dekan@university.edu', name: 'Dean User', role: 'DEKAN' },
+        { email: 'staff@fakultas.edu', name: 'Staff Fakultas', role: 'STAFF_FAKULTAS' }
+      ])
+      .returning()
+      .execute();
+
+    const requests = await db.insert(letterRequestsTable)
+      .values(Array.from({ length: count }, () => ({
+        student_id: student.id,
+        created_by_user_id: staffFakultas.id,
+        letter_type: 'Academic Transcript',
+        purpose: 'Job Application',
+        priority: 'NORMAL' as const,
+        status: 'TTD_READY' as const,
+        current_handler_user_id: dekan.id,
+        final_letter_url: 'https://storage.example.com/letter.pdf'
+      })))
+      .returning()
+      .execute();
+
+    return { dekan, requests };
+  };
+
   it('should successfully sign a letter when user is DEKAN and request is TTD_READY', async () => {
     // Create test data
     const student = await db.insert(studentsTable)
@@ -67,7 +106,7 @@ describe('signLetter', () => {
 
     const input: SignLetterInput = {
       request_id: letterRequest[0].id,
-      signature_data: 'digital_signature_hash_example_12345'
+      expected_version: 1
     };
 
     // Execute the handler
@@ -146,7 +185,7 @@ describe('signLetter', () => {
 
     const input: SignLetterInput = {
       request_id: letterRequest[0].id,
-      signature_data: 'digital_signature_hash_example_12345'
+      expected_version: 1
     };
 
     // Execute the handler
@@ -167,7 +206,7 @@ describe('signLetter', () => {
     expect(signingLog!.description).toBe('Letter digitally signed by Dean');
     expect(signingLog!.previous_status).toBe('TTD_READY');
     expect(signingLog!.new_status).toBe('TTD_DONE');
-    expect(signingLog!.notes).toContain('Digital signature applied using signature data: digital_signature_ha');
+    expect(signingLog!.notes).toMatch(/Signed with Ed25519 key [0-9a-f]{16} over SHA-256 [0-9a-f]{64}/);
 
     // Check forwarding log entry
     const forwardingLog = trackingLogs.find(log => log.action_type === 'FORWARDED');
@@ -224,7 +263,7 @@ describe('signLetter', () => {
 
     const input: SignLetterInput = {
       request_id: letterRequest[0].id,
-      signature_data: 'digital_signature_hash_example_12345'
+      expected_version: 1
     };
 
     // Should reject non-DEKAN user
@@ -245,7 +284,7 @@ describe('signLetter', () => {
 
     const input: SignLetterInput = {
       request_id: 99999, // Non-existent ID
-      signature_data: 'digital_signature_hash_example_12345'
+      expected_version: 1
     };
 
     await expect(signLetter(input, dekan[0].id)).rejects.toThrow(/letter request not found/i);
@@ -297,7 +336,7 @@ describe('signLetter', () => {
 
     const input: SignLetterInput = {
       request_id: letterRequest[0].id,
-      signature_data: 'digital_signature_hash_example_12345'
+      expected_version: 1
     };
 
     await expect(signLetter(input, dekan[0].id)).rejects.toThrow(/not ready for signing.*current status: draft/i);
@@ -349,7 +388,7 @@ describe('signLetter', () => {
 
     const input: SignLetterInput = {
       request_id: letterRequest[0].id,
-      signature_data: 'digital_signature_hash_example_12345'
+      expected_version: 1
     };
 
     await expect(signLetter(input, dekan[0].id)).rejects.toThrow(/final letter document not found/i);
@@ -402,10 +441,115 @@ describe('signLetter', () => {
 
     const input: SignLetterInput = {
       request_id: letterRequest[0].id,
-      signature_data: 'digital_signature_hash_example_12345'
+      expected_version: 1
     };
 
     // No Staff Fakultas created, should fail
     await expect(signLetter(input, dekan[0].id)).rejects.toThrow(/no staff fakultas available/i);
   });
-});
\ No newline at end of file
+
+  it('should assign the next letter number in sequence when signing', async () => {
+    const { dekan, requests } = await createSignableRequests(2);
+    const year = new Date().getFullYear();
+
+    const first = await signLetter({ request_id: requests[0].id, expected_version: 1 }, dekan.id);
+    const second = await signLetter({ request_id: requests[1].id, expected_version: 1 }, dekan.id);
+
+    expect(first.letter_number).toBe(`1/UN1.FT/KM/${year}`);
+    expect(second.letter_number).toBe(`2/UN1.FT/KM/${year}`);
+
+    const logs = await db.select()
+      .from(trackingLogsTable)
+      .where(eq(trackingLogsTable.letter_request_id, requests[0].id))
+      .execute();
+    expect(logs.find(log => log.action_type === 'SIGNED')!.notes).toContain(`Letter number 1/UN1.FT/KM/${year}`);
+  });
+
+  it('should keep the existing letter number when a letter is signed again', async () => {
+    const { dekan, requests } = await createSignableRequests(1);
+    await db.update(letterRequestsTable)
+      .set({ letter_number: '7/UN1.FT/KM/2025' })
+      .where(eq(letterRequestsTable.id, requests[0].id))
+      .execute();
+
+    const result = await signLetter({ request_id: requests[0].id, expected_version: 1 }, dekan.id);
+
+    expect(result.letter_number).toBe('7/UN1.FT/KM/2025');
+    const counters = await db.select().from(letterNumberCountersTable).execute();
+    expect(counters).toHaveLength(0);
+  });
+
+  it('should not consume a number when signing fails', async () => {
+    const { dekan, requests } = await createSignableRequests(2);
+    await db.delete(letterNumberFormatsTable).execute();
+
+    await expect(signLetter({ request_id: requests[0].id, expected_version: 1 }, dekan.id))
+      .rejects.toThrow(/no letter number format configured for letter type: academic transcript/i);
+
+    const unsigned = await db.select()
+      .from(letterRequestsTable)
+      .where(eq(letterRequestsTable.id, requests[0].id))
+      .execute();
+    expect(unsigned[0].status).toBe('TTD_READY');
+    expect(unsigned[0].letter_number).toBeNull();
+  });
+
+  it('should hand out distinct numbers to concurrent signings', async () => {
+    const { dekan, requests } = await createSignableRequests(3);
+
+    const results = await Promise.all(requests.map(request =>
+      signLetter({ request_id: request.id, expected_version: 1 }, dekan.id)
+    ));
+
+    const sequences = results.map(result => Number(result.letter_number!.split('/')[0])).sort();
+    expect(sequences).toEqual([1, 2, 3]);
+  });
+
+  it('should store a signature over the hash of the final letter', async () => {
+    const { dekan, requests } = await createSignableRequests(1);
+
+    const result = await signLetter({ request_id: requests[0].id, expected_version: 1 }, dekan.id);
+
+    const signatures = await db.select()
+      .from(letterSignaturesTable)
+      .where(eq(letterSignaturesTable.letter_request_id, requests[0].id))
+      .execute();
+
+    expect(signatures).toHaveLength(1);
+    expect(signatures[0].signer_user_id).toBe(dekan.id);
+    expect(signatures[0].letter_number).toBe(result.letter_number!);
+    expect(signatures[0].final_letter_url).toBe('https://storage.example.com/letter.pdf');
+    expect(signatures[0].document_hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(signatures[0].algorithm).toBe('Ed25519');
+    expect(signatures[0].signed_at).toBeInstanceOf(Date);
+
+    const certificate = JSON.parse(signatures[0].certificate);
+    expect(certificate.subject).toMatchObject({ user_id: dekan.id, name: 'Dean User', role: 'DEKAN' });
+  });
+
+  it('should issue one key per signer and keep the private key encrypted', async () => {
+    const { dekan, requests } = await createSignableRequests(3);
+
+    await Promise.all(requests.map(request =>
+      signLetter({ request_id: request.id, expected_version: 1 }, dekan.id)
+    ));
+
+    const keys = await db.select().from(signerKeysTable).execute();
+    expect(keys).toHaveLength(1);
+    expect(keys[0].user_id).toBe(dekan.id);
+    expect(keys[0].encrypted_private_key).toContain('BEGIN ENCRYPTED PRIVATE KEY');
+
+    const signatures = await db.select().from(letterSignaturesTable).execute();
+    expect(signatures.every(signature => signature.signer_key_id === keys[0].id)).toBe(true);
+  });
+
+  it('should give uploaded letters a verification token when signing', async () => {
+    const { dekan, requests } = await createSignableRequests(2);
+
+    const first = await signLetter({ request_id: requests[0].id, expected_version: 1 }, dekan.id);
+    const second = await signLetter({ request_id: requests[1].id, expected_version: 1 }, dekan.id);
+
+    expect(first.verification_token).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(second.verification_token).not.toEqual(first.verification_token);
+  });
+});
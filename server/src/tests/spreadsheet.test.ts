@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'bun:test';
+import { readCsv, readSpreadsheet } from '../lib/spreadsheet';
+import { buildXlsx } from '../helpers/xlsx';
+
+describe('readCsv', () => {
+  it('should read comma separated values with quotes', () => {
+    const rows = readCsv('nim,nama\n2021000001,"Rahma, Siti"\r\n2021000002,"Budi ""BS"" Santoso"\n');
+
+    expect(rows).toEqual([
+      ['nim', 'nama'],
+      ['2021000001', 'Rahma, Siti'],
+      ['2021000002', 'Budi "BS" Santoso']
+    ]);
+  });
+
+  it('should detect semicolon separators', () => {
+    expect(readCsv('nim;nama;prodi\n2021000001;Siti Rahma;Informatika')).toEqual([
+      ['nim', 'nama', 'prodi'],
+      ['2021000001', 'Siti Rahma', 'Informatika']
+    ]);
+  });
+
+  it('should keep line breaks inside quoted values', () => {
+    expect(readCsv('a,b\n"line one\nline two",x\n')).toEqual([['a', 'b'], ['line one\nline two', 'x']]);
+  });
+
+  it('should reject an unterminated quoted value', () => {
+    expect(() => readCsv('a,b\n"open,x\n')).toThrow('CSV file ends inside a quoted value');
+  });
+});
+
+describe('readSpreadsheet', () => {
+  it('should read CSV content and drop empty rows and the byte order mark', () => {
+    const rows = readSpreadsheet(Buffer.from('\uFEFFnim,nama\n\n2021000001,Siti\n,\n'));
+
+    expect(rows).toEqual([['nim', 'nama'], ['2021000001', 'Siti']]);
+  });
+
+  it('should read the first worksheet of an XLSX workbook', () => {
+    const workbook = buildXlsx([
+      ['NIM', 'Nama', 'Prodi'],
+      ['2021000001', 'Siti & Rahma', 'Informatika'],
+      ['2021000002', '', 'Sistem Informasi']
+    ]);
+
+    expect(readSpreadsheet(workbook)).toEqual([
+      ['NIM', 'Nama', 'Prodi'],
+      ['2021000001', 'Siti & Rahma', 'Informatika'],
+      ['2021000002', '', 'Sistem Informasi']
+    ]);
+  });
+
+  it('should refuse legacy .xls workbooks', () => {
+    const xls = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1, 0, 0]);
+
+    expect(() => readSpreadsheet(xls)).toThrow(/Legacy .xls workbooks are not supported/);
+  });
+
+  it('should refuse broken workbooks', () => {
+    const broken = Buffer.concat([Buffer.from([0x50, 0x4b, 0x03, 0x04]), Buffer.alloc(40)]);
+
+    expect(() => readSpreadsheet(broken)).toThrow('Workbook is not a valid XLSX file');
+  });
+
+  it('should stop inflating a workbook that unpacks past the limit', () => {
+    // A single repeated cell deflates to a few hundred bytes
+    const bomb = buildXlsx([['NIM', 'x'.repeat(200_000)]]);
+
+    expect(bomb.length).toBeLessThan(10_000);
+    expect(() => readSpreadsheet(bomb, 100_000)).toThrow('Workbook unpacks to more than 100000 bytes');
+    expect(readSpreadsheet(bomb, 1_000_000)[0][1]).toHaveLength(200_000);
+  });
+});
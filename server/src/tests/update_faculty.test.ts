@@ -0,0 +1,38 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { facultiesTable } from '../db/schema';
+import { updateFaculty } from '../handlers/update_faculty';
+
+describe('updateFaculty', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let faculty: any;
+
+  beforeEach(async () => {
+    [faculty] = await db.insert(facultiesTable)
+      .values({ code: 'FT', name: 'Fakultas Teknik' })
+      .returning()
+      .execute();
+  });
+
+  it('should update only the given fields', async () => {
+    const result = await updateFaculty({ id: faculty.id, code: 'fti' });
+
+    expect(result.code).toEqual('FTI');
+    expect(result.name).toEqual('Fakultas Teknik');
+    expect(result.is_active).toBe(true);
+    expect(result.updated_at.getTime()).toBeGreaterThanOrEqual(faculty.updated_at.getTime());
+  });
+
+  it('should deactivate a faculty', async () => {
+    const result = await updateFaculty({ id: faculty.id, is_active: false });
+
+    expect(result.is_active).toBe(false);
+  });
+
+  it('should throw when the faculty does not exist', async () => {
+    await expect(updateFaculty({ id: 99999, name: 'Nope' })).rejects.toThrow('Faculty not found');
+  });
+});
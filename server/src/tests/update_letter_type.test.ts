@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { letterTypesTable } from '../db/schema';
+import { updateLetterType } from '../handlers/update_letter_type';
+
+describe('updateLetterType', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let letterType: any;
+
+  beforeEach(async () => {
+    [letterType] = await db.insert(letterTypesTable)
+      .values({ code: 'SR', name: 'Surat Rekomendasi', required_documents: ['KTM'], sla_days: 5 })
+      .returning()
+      .execute();
+  });
+
+  it('should update only the given fields', async () => {
+    const result = await updateLetterType({
+      id: letterType.id,
+      required_documents: ['ktm', 'transkrip'],
+      default_disposition_chain: ['WD3']
+    });
+
+    expect(result.code).toEqual('SR');
+    expect(result.name).toEqual('Surat Rekomendasi');
+    expect(result.sla_days).toEqual(5);
+    expect(result.required_documents).toEqual(['KTM', 'TRANSKRIP']);
+    expect(result.default_disposition_chain).toEqual(['WD3']);
+    expect(result.updated_at.getTime()).toBeGreaterThanOrEqual(letterType.updated_at.getTime());
+  });
+
+  it('should update the upload rules', async () => {
+    const result = await updateLetterType({ id: letterType.id, allowed_mime_types: ['image/jpeg'], max_upload_bytes: 1024 });
+
+    expect(result.allowed_mime_types).toEqual(['image/jpeg']);
+    expect(result.max_upload_bytes).toEqual(1024);
+  });
+
+  it('should update the eligibility rules', async () => {
+    const result = await updateLetterType({ id: letterType.id, eligible_statuses: ['ACTIVE'], min_semester: 5 });
+
+    expect(result.eligible_statuses).toEqual(['ACTIVE']);
+    expect(result.min_semester).toEqual(5);
+
+    const cleared = await updateLetterType({ id: letterType.id, eligible_statuses: [], min_semester: null });
+    expect(cleared.eligible_statuses).toEqual([]);
+    expect(cleared.min_semester).toBeNull();
+  });
+
+  it('should deactivate and clear optional fields', async () => {
+    const result = await updateLetterType({ id: letterType.id, is_active: false, sla_days: null });
+
+    expect(result.is_active).toBe(false);
+    expect(result.sla_days).toBeNull();
+  });
+
+  it('should reject disposition chains with non-disposition roles', async () => {
+    await expect(updateLetterType({ id: letterType.id, default_disposition_chain: ['DEKAN'] }))
+      .rejects.toThrow(/only contain disposition roles, got: DEKAN/);
+  });
+
+  it('should throw when the letter type does not exist', async () => {
+    await expect(updateLetterType({ id: 99999, name: 'Nope' }))
+      .rejects.toThrow(/letter type not found/i);
+  });
+});
@@ -0,0 +1,38 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { rejectionReasonsTable } from '../db/schema';
+import { updateRejectionReason } from '../handlers/update_rejection_reason';
+
+describe('updateRejectionReason', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let reason: any;
+
+  beforeEach(async () => {
+    [reason] = await db.insert(rejectionReasonsTable)
+      .values({ code: 'NOT_ELIGIBLE', label: 'Tidak memenuhi syarat', description: 'Old description' })
+      .returning()
+      .execute();
+  });
+
+  it('should update only the given fields', async () => {
+    const result = await updateRejectionReason({ id: reason.id, label: 'Mahasiswa tidak memenuhi syarat' });
+
+    expect(result.code).toEqual('NOT_ELIGIBLE');
+    expect(result.label).toEqual('Mahasiswa tidak memenuhi syarat');
+    expect(result.description).toEqual('Old description');
+    expect(result.updated_at.getTime()).toBeGreaterThanOrEqual(reason.updated_at.getTime());
+  });
+
+  it('should deactivate a reason', async () => {
+    const result = await updateRejectionReason({ id: reason.id, is_active: false });
+
+    expect(result.is_active).toBe(false);
+  });
+
+  it('should fail for unknown reasons', async () => {
+    await expect(updateRejectionReason({ id: 99999, label: 'x' })).rejects.toThrow(/Rejection reason not found/);
+  });
+});
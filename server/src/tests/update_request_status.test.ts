@@ -4,6 +4,7 @@ import { db } from '../db';
 import { usersTable, studentsTable, letterRequestsTable, trackingLogsTable } from '../db/schema';
 import { type UpdateRequestStatusInput } from '../schema';
 import { updateRequestStatus } from '../handlers/update_request_status';
+import { InvalidStatusTransitionError, TransitionNotAllowedError, VersionConflictError } from '../lib/errors';
 import { eq } from 'drizzle-orm';
 
 describe('updateRequestStatus', () => {
@@ -59,7 +60,7 @@ describe('updateRequestStatus', () => {
         letter_type: 'Surat Keterangan Aktif Kuliah',
         purpose: 'Keperluan beasiswa',
         priority: 'NORMAL',
-        status: 'DRAFT',
+        status: 'APPROVED_KAPRODI',
         current_handler_user_id: testUser.id
       })
       .returning()
@@ -67,99 +68,78 @@ describe('updateRequestStatus', () => {
     testRequest = requestResult[0];
   };
 
-  it('should update request status successfully', async () => {
+  it('should leave forwarding an approved request to forwardToDekan', async () => {
     await setupTestData();
 
-    const input: UpdateRequestStatusInput = {
+    const error = await updateRequestStatus({
       request_id: testRequest.id,
-      new_status: 'APPROVED_KAPRODI',
-      notes: 'Request approved by Kaprodi'
-    };
-
-    const result = await updateRequestStatus(input, testUser.id);
+      expected_version: 1,
+      new_status: 'FORWARDED_TO_DEKAN',
+      notes: 'Forwarded by Kaprodi'
+    }, testUser.id).catch(e => e);
 
-    expect(result.id).toBe(testRequest.id);
-    expect(result.status).toBe('APPROVED_KAPRODI');
-    expect(result.updated_at).toBeInstanceOf(Date);
+    expect(error).toBeInstanceOf(InvalidStatusTransitionError);
+    expect(error.message).toMatch(/from APPROVED_KAPRODI to FORWARDED_TO_DEKAN goes through forwardToDekan/);
 
-    // Verify the request was updated in database
-    const updatedRequest = await db.select()
+    // Status, handler, version and log are untouched
+    const requests = await db.select()
       .from(letterRequestsTable)
       .where(eq(letterRequestsTable.id, testRequest.id))
       .execute();
+    expect(requests[0].status).toBe('APPROVED_KAPRODI');
+    expect(requests[0].current_handler_user_id).toBe(testUser.id);
+    expect(requests[0].version).toBe(1);
 
-    expect(updatedRequest[0].status).toBe('APPROVED_KAPRODI');
-    expect(updatedRequest[0].updated_at).toBeInstanceOf(Date);
+    const trackingLogs = await db.select()
+      .from(trackingLogsTable)
+      .where(eq(trackingLogsTable.letter_request_id, testRequest.id))
+      .execute();
+    expect(trackingLogs).toHaveLength(0);
   });
 
-  it('should update current handler when next_handler_user_id is provided', async () => {
+  it('should reject next handlers that do not exist', async () => {
     await setupTestData();
 
-    const input: UpdateRequestStatusInput = {
+    await expect(updateRequestStatus({
       request_id: testRequest.id,
+      expected_version: 1,
       new_status: 'FORWARDED_TO_DEKAN',
-      next_handler_user_id: otherUser.id,
-      notes: 'Forwarded to Dean'
-    };
-
-    const result = await updateRequestStatus(input, testUser.id);
-
-    expect(result.current_handler_user_id).toBe(otherUser.id);
-
-    // Verify in database
-    const updatedRequest = await db.select()
-      .from(letterRequestsTable)
-      .where(eq(letterRequestsTable.id, testRequest.id))
-      .execute();
-
-    expect(updatedRequest[0].current_handler_user_id).toBe(otherUser.id);
+      next_handler_user_id: 99999
+    }, testUser.id)).rejects.toThrow('Next handler with ID 99999 not found');
   });
 
-  it('should create tracking log entry', async () => {
+  it('should reject next handlers whose role cannot act on the new status', async () => {
     await setupTestData();
 
-    const input: UpdateRequestStatusInput = {
+    await expect(updateRequestStatus({
       request_id: testRequest.id,
-      new_status: 'APPROVED_KAPRODI',
-      notes: 'Request approved'
-    };
-
-    await updateRequestStatus(input, testUser.id);
+      expected_version: 1,
+      new_status: 'FORWARDED_TO_DEKAN',
+      next_handler_user_id: otherUser.id
+    }, testUser.id)).rejects.toThrow('Next handler with role STAFF_PRODI cannot handle a request in status FORWARDED_TO_DEKAN');
 
-    // Check tracking log was created
-    const trackingLogs = await db.select()
-      .from(trackingLogsTable)
-      .where(eq(trackingLogsTable.letter_request_id, testRequest.id))
+    const requests = await db.select()
+      .from(letterRequestsTable)
+      .where(eq(letterRequestsTable.id, testRequest.id))
       .execute();
-
-    expect(trackingLogs).toHaveLength(1);
-    expect(trackingLogs[0].user_id).toBe(testUser.id);
-    expect(trackingLogs[0].action_type).toBe('APPROVED');
-    expect(trackingLogs[0].description).toBe('Status updated from DRAFT to APPROVED_KAPRODI');
-    expect(trackingLogs[0].notes).toBe('Request approved');
-    expect(trackingLogs[0].previous_status).toBe('DRAFT');
-    expect(trackingLogs[0].new_status).toBe('APPROVED_KAPRODI');
-    expect(trackingLogs[0].created_at).toBeInstanceOf(Date);
+    expect(requests[0].status).toBe('APPROVED_KAPRODI');
+    expect(requests[0].current_handler_user_id).toBe(testUser.id);
   });
 
-  it('should allow creator to update request when not current handler', async () => {
+  it('should reject prodi next handlers from another prodi', async () => {
     await setupTestData();
 
-    // Update request to have different current handler
-    await db.update(letterRequestsTable)
-      .set({ current_handler_user_id: otherUser.id })
-      .where(eq(letterRequestsTable.id, testRequest.id))
+    const kaprodiSI = await db.insert(usersTable)
+      .values({ email: 'kaprodi.si@example.com', name: 'Kaprodi SI', role: 'KAPRODI', prodi: 'Sistem Informasi' })
+      .returning()
       .execute();
 
-    const input: UpdateRequestStatusInput = {
+    await expect(updateRequestStatus({
       request_id: testRequest.id,
+      expected_version: 1,
       new_status: 'APPROVED_KAPRODI',
-      notes: 'Updated by creator'
-    };
-
-    // Creator should still be able to update
-    const result = await updateRequestStatus(input, testUser.id);
-    expect(result.status).toBe('APPROVED_KAPRODI');
+      next_handler_user_id: kaprodiSI[0].id
+    }, testUser.id)).rejects.toThrow('Next handler Kaprodi SI is outside the prodi of this request');
   });
 
   it('should throw error when request not found', async () => {
@@ -167,7 +147,8 @@ describe('updateRequestStatus', () => {
 
     const input: UpdateRequestStatusInput = {
       request_id: 999999, // Non-existent ID
-      new_status: 'APPROVED_KAPRODI'
+      expected_version: 1,
+      new_status: 'FORWARDED_TO_DEKAN'
     };
 
     expect(updateRequestStatus(input, testUser.id))
@@ -179,7 +160,8 @@ describe('updateRequestStatus', () => {
 
     const input: UpdateRequestStatusInput = {
       request_id: testRequest.id,
-      new_status: 'APPROVED_KAPRODI'
+      expected_version: 1,
+      new_status: 'FORWARDED_TO_DEKAN'
     };
 
     // Try to update with unauthorized user
@@ -187,63 +169,180 @@ describe('updateRequestStatus', () => {
       .rejects.toThrow(/User does not have permission to update this request/);
   });
 
-  it('should handle update without notes', async () => {
+  it('should leave rejections to rejectRequest', async () => {
     await setupTestData();
 
-    const input: UpdateRequestStatusInput = {
+    // A rejection needs the reason code rejectRequest records
+    const error = await updateRequestStatus({
       request_id: testRequest.id,
-      new_status: 'APPROVED_KAPRODI'
-    };
+      expected_version: 1,
+      new_status: 'REJECTED',
+      notes: 'Incomplete documentation'
+    }, testUser.id).catch(e => e);
 
-    const result = await updateRequestStatus(input, testUser.id);
-    expect(result.status).toBe('APPROVED_KAPRODI');
+    expect(error).toBeInstanceOf(InvalidStatusTransitionError);
+    expect(error.message).toMatch(/from APPROVED_KAPRODI to REJECTED goes through rejectRequest/);
 
-    // Check tracking log has no notes
     const trackingLogs = await db.select()
       .from(trackingLogsTable)
       .where(eq(trackingLogsTable.letter_request_id, testRequest.id))
       .execute();
-
-    expect(trackingLogs[0].notes).toBeNull();
+    expect(trackingLogs).toHaveLength(0);
   });
 
-  it('should handle status change to rejected', async () => {
+  it('should reject transitions that are not in the status table', async () => {
     await setupTestData();
 
     const input: UpdateRequestStatusInput = {
       request_id: testRequest.id,
-      new_status: 'REJECTED',
-      notes: 'Incomplete documentation'
+      expected_version: 1,
+      new_status: 'ARCHIVED'
     };
 
-    const result = await updateRequestStatus(input, testUser.id);
-    expect(result.status).toBe('REJECTED');
+    const error = await updateRequestStatus(input, testUser.id).catch(e => e);
+
+    expect(error).toBeInstanceOf(InvalidStatusTransitionError);
+    expect(error.currentStatus).toBe('APPROVED_KAPRODI');
+    expect(error.attemptedStatus).toBe('ARCHIVED');
+    expect(error.message).toMatch(/from APPROVED_KAPRODI to ARCHIVED/);
+
+    // Status must be unchanged and nothing logged
+    const requests = await db.select()
+      .from(letterRequestsTable)
+      .where(eq(letterRequestsTable.id, testRequest.id))
+      .execute();
+    expect(requests[0].status).toBe('APPROVED_KAPRODI');
 
-    // Verify tracking log
     const trackingLogs = await db.select()
       .from(trackingLogsTable)
       .where(eq(trackingLogsTable.letter_request_id, testRequest.id))
       .execute();
-
-    expect(trackingLogs[0].new_status).toBe('REJECTED');
-    expect(trackingLogs[0].notes).toBe('Incomplete documentation');
+    expect(trackingLogs).toHaveLength(0);
   });
 
-  it('should update timestamp correctly', async () => {
+  it('should reject transitions the acting role may not take', async () => {
     await setupTestData();
 
-    const originalTimestamp = testRequest.updated_at;
-    
-    // Wait a bit to ensure timestamp difference
-    await new Promise(resolve => setTimeout(resolve, 10));
+    // The Staff Prodi creator of a forwarded request cannot dispose it on behalf of the Dean
+    const staffResult = await db.insert(usersTable)
+      .values({
+        email: 'staff.ti@example.com',
+        name: 'Staff TI',
+        role: 'STAFF_PRODI',
+        prodi: 'Teknik Informatika'
+      })
+      .returning()
+      .execute();
+
+    await db.update(letterRequestsTable)
+      .set({ status: 'FORWARDED_TO_DEKAN', created_by_user_id: staffResult[0].id })
+      .where(eq(letterRequestsTable.id, testRequest.id))
+      .execute();
 
     const input: UpdateRequestStatusInput = {
       request_id: testRequest.id,
-      new_status: 'APPROVED_KAPRODI'
+      expected_version: 1,
+      new_status: 'DISPOSISI_TO_WD1'
     };
 
-    const result = await updateRequestStatus(input, testUser.id);
+    const error = await updateRequestStatus(input, staffResult[0].id).catch(e => e);
+
+    expect(error).toBeInstanceOf(TransitionNotAllowedError);
+    expect(error.code).toBe('FORBIDDEN');
+    expect(error.message).toMatch(/STAFF_PRODI cannot move a request from FORWARDED_TO_DEKAN to DISPOSISI_TO_WD1/);
+  });
+
+  it('should leave transitions with a dedicated procedure to that procedure', async () => {
+    await setupTestData();
+
+    // A Dean handling a letter ready for signing must sign it through signLetter
+    const dekanResult = await db.insert(usersTable)
+      .values({ email: 'dekan@example.com', name: 'Dekan', role: 'DEKAN', prodi: null })
+      .returning()
+      .execute();
+
+    await db.update(letterRequestsTable)
+      .set({ status: 'TTD_READY', current_handler_user_id: dekanResult[0].id })
+      .where(eq(letterRequestsTable.id, testRequest.id))
+      .execute();
+
+    const error = await updateRequestStatus({
+      request_id: testRequest.id,
+      expected_version: 1,
+      new_status: 'TTD_DONE'
+    }, dekanResult[0].id).catch(e => e);
+
+    expect(error).toBeInstanceOf(InvalidStatusTransitionError);
+    expect(error.message).toMatch(/from TTD_READY to TTD_DONE goes through signLetter/);
+
+    const requests = await db.select()
+      .from(letterRequestsTable)
+      .where(eq(letterRequestsTable.id, testRequest.id))
+      .execute();
+    expect(requests[0].status).toBe('TTD_READY');
+    expect(requests[0].letter_number).toBeNull();
+  });
+
+  it('should leave the Kaprodi review of drafts to its procedures', async () => {
+    await setupTestData();
+
+    await db.update(letterRequestsTable)
+      .set({ status: 'DRAFT' })
+      .where(eq(letterRequestsTable.id, testRequest.id))
+      .execute();
+
+    // approveByKaprodi checks the supporting documents and whether the letter type is issued at prodi level
+    const approval = await updateRequestStatus({
+      request_id: testRequest.id,
+      expected_version: 1,
+      new_status: 'APPROVED_KAPRODI'
+    }, testUser.id).catch(e => e);
+
+    expect(approval).toBeInstanceOf(InvalidStatusTransitionError);
+    expect(approval.message).toMatch(/from DRAFT to APPROVED_KAPRODI goes through approveByKaprodi/);
+
+    const error = await updateRequestStatus({
+      request_id: testRequest.id,
+      expected_version: 1,
+      new_status: 'RETURNED_TO_PRODI'
+    }, testUser.id).catch(e => e);
+
+    expect(error).toBeInstanceOf(InvalidStatusTransitionError);
+    expect(error.message).toMatch(/from DRAFT to RETURNED_TO_PRODI goes through approveByKaprodi/);
+  });
+
+  it('should reject creators outside their prodi scope', async () => {
+    await setupTestData();
+
+    // otherUser belongs to Sistem Informasi while the student is in Teknik Informatika
+    await db.update(letterRequestsTable)
+      .set({ created_by_user_id: otherUser.id })
+      .where(eq(letterRequestsTable.id, testRequest.id))
+      .execute();
+
+    await expect(updateRequestStatus({
+      request_id: testRequest.id,
+      expected_version: 1,
+      new_status: 'FORWARDED_TO_DEKAN'
+    }, otherUser.id)).rejects.toThrow(/User does not have permission to update this request/);
+  });
+
+  it('should reject updates based on a stale version with CONFLICT', async () => {
+    await setupTestData();
+
+    // A colleague changed the request after it was read
+    await db.update(letterRequestsTable)
+      .set({ version: 2 })
+      .where(eq(letterRequestsTable.id, testRequest.id))
+      .execute();
+
+    const staleUpdate = updateRequestStatus({
+      request_id: testRequest.id,
+      expected_version: 1,
+      new_status: 'FORWARDED_TO_DEKAN'
+    }, testUser.id);
 
-    expect(result.updated_at.getTime()).toBeGreaterThan(originalTimestamp.getTime());
+    await expect(staleUpdate).rejects.toBeInstanceOf(VersionConflictError);
+    await expect(staleUpdate).rejects.toMatchObject({ code: 'CONFLICT', expectedVersion: 1, currentVersion: 2 });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { facultiesTable, studentsTable, studyProgramsTable, usersTable } from '../db/schema';
+import { updateStudyProgram } from '../handlers/update_study_program';
+import { eq } from 'drizzle-orm';
+
+describe('updateStudyProgram', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let faculty: any;
+  let program: any;
+
+  beforeEach(async () => {
+    [faculty] = await db.insert(facultiesTable)
+      .values({ code: 'FT', name: 'Fakultas Teknik' })
+      .returning()
+      .execute();
+
+    [program] = await db.insert(studyProgramsTable)
+      .values({ code: 'IF', name: 'Informatika', faculty_id: faculty.id })
+      .returning()
+      .execute();
+
+    await db.insert(usersTable)
+      .values([
+        { email: 'kaprodi@university.edu', name: 'Kaprodi IF', role: 'KAPRODI', prodi: 'Informatika', study_program_id: program.id },
+        // Not linked yet, so a rename leaves it alone
+        { email: 'staff@university.edu', name: 'Staff IF', role: 'STAFF_PRODI', prodi: 'Informatika' }
+      ])
+      .execute();
+
+    await db.insert(studentsTable)
+      .values({ nim: '2021000001', name: 'Siti Rahma', prodi: 'Informatika', study_program_id: program.id })
+      .execute();
+  });
+
+  it('should update only the given fields', async () => {
+    const [otherFaculty] = await db.insert(facultiesTable)
+      .values({ code: 'FMIPA', name: 'Fakultas MIPA' })
+      .returning()
+      .execute();
+
+    const result = await updateStudyProgram({ id: program.id, code: 'tif', faculty_id: otherFaculty.id });
+
+    expect(result.code).toEqual('TIF');
+    expect(result.name).toEqual('Informatika');
+    expect(result.faculty_id).toEqual(otherFaculty.id);
+
+    // Its students move to the new faculty with it
+    const students = await db.select().from(studentsTable).execute();
+    expect(students[0].faculty_id).toEqual(otherFaculty.id);
+  });
+
+  it('should rename the prodi of linked users and students', async () => {
+    const result = await updateStudyProgram({ id: program.id, name: 'Teknik Informatika' });
+
+    expect(result.name).toEqual('Teknik Informatika');
+
+    const users = await db.select().from(usersTable).execute();
+    expect(users.map(user => [user.email, user.prodi]).sort()).toEqual([
+      ['kaprodi@university.edu', 'Teknik Informatika'],
+      ['staff@university.edu', 'Informatika']
+    ]);
+
+    const students = await db.select().from(studentsTable).where(eq(studentsTable.study_program_id, program.id)).execute();
+    expect(students[0].prodi).toEqual('Teknik Informatika');
+  });
+
+  it('should deactivate a study program and keep its links', async () => {
+    const result = await updateStudyProgram({ id: program.id, is_active: false });
+
+    expect(result.is_active).toBe(false);
+    const students = await db.select().from(studentsTable).execute();
+    expect(students[0].study_program_id).toEqual(program.id);
+  });
+
+  it('should reject unknown faculties', async () => {
+    await expect(updateStudyProgram({ id: program.id, faculty_id: 99999 }))
+      .rejects.toThrow('Unknown faculty: 99999');
+  });
+
+  it('should throw when the study program does not exist', async () => {
+    await expect(updateStudyProgram({ id: 99999, name: 'Nope' })).rejects.toThrow('Study program not found');
+  });
+});
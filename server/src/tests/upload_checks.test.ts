@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'bun:test';
+import { PDFDocument } from 'pdf-lib';
+import { countPdfPages, inspectSupportingDocument, sniffMimeType, type UploadRules } from '../lib/upload_checks';
+import { type ReceivedUpload } from '../lib/storage';
+
+const threePagePdf = await PDFDocument.create();
+threePagePdf.addPage();
+threePagePdf.addPage();
+threePagePdf.addPage();
+const pdfBytes = Buffer.from(await threePagePdf.save());
+const pngBytes = Buffer.from('89504e470d0a1a0a0000000d49484452', 'hex');
+const jpegBytes = Buffer.from('ffd8ffe000104a464946', 'hex');
+const webpBytes = Buffer.concat([Buffer.from('RIFF'), Buffer.from([0x24, 0, 0, 0]), Buffer.from('WEBPVP8 ')]);
+
+const rules: UploadRules = { code: 'SKA', allowed_mime_types: ['application/pdf', 'image/jpeg', 'image/png'], max_upload_bytes: null };
+
+const upload = (content: Buffer, declaredMimeType: string): ReceivedUpload => ({
+  file_name: 'document',
+  declared_mime_type: declaredMimeType,
+  size_bytes: content.length,
+  sha256: 'unused',
+  content
+});
+
+describe('sniffMimeType', () => {
+  it('should recognise supported types by their leading bytes', () => {
+    expect(sniffMimeType(pdfBytes)).toEqual('application/pdf');
+    expect(sniffMimeType(pngBytes)).toEqual('image/png');
+    expect(sniffMimeType(jpegBytes)).toEqual('image/jpeg');
+    expect(sniffMimeType(webpBytes)).toEqual('image/webp');
+  });
+
+  it('should return null for anything else', () => {
+    expect(sniffMimeType(Buffer.from('MZ\x90\x00'))).toBeNull();
+    expect(sniffMimeType(Buffer.from('<html></html>'))).toBeNull();
+    expect(sniffMimeType(Buffer.alloc(0))).toBeNull();
+  });
+});
+
+describe('countPdfPages', () => {
+  it('should count the pages of a PDF', async () => {
+    expect(await countPdfPages(pdfBytes)).toEqual(3);
+  });
+
+  it('should return null for unreadable PDFs', async () => {
+    expect(await countPdfPages(Buffer.from('%PDF-1.7 garbage'))).toBeNull();
+  });
+});
+
+describe('inspectSupportingDocument', () => {
+  it('should pass a PDF that meets the rules', async () => {
+    const result = await inspectSupportingDocument(upload(pdfBytes, 'application/pdf'), rules);
+
+    expect(result).toEqual({ mime_type: 'application/pdf', page_count: 3, quarantine_reason: null });
+  });
+
+  it('should judge files without a declared type by their content', async () => {
+    const result = await inspectSupportingDocument(upload(pngBytes, 'application/octet-stream'), rules);
+
+    expect(result.mime_type).toEqual('image/png');
+    expect(result.quarantine_reason).toBeNull();
+  });
+
+  it('should list every failed check', async () => {
+    const result = await inspectSupportingDocument(
+      upload(webpBytes, 'image/jpeg'),
+      { ...rules, max_upload_bytes: 4 }
+    );
+
+    expect(result.mime_type).toEqual('image/webp');
+    expect(result.quarantine_reason).toEqual([
+      'Declared type image/jpeg does not match the file content (image/webp)',
+      'image/webp files are not accepted for letter type SKA',
+      `File is ${webpBytes.length} bytes; letter type SKA accepts at most 4`
+    ].join('; '));
+  });
+
+  it('should keep the declared type of unrecognised content', async () => {
+    const result = await inspectSupportingDocument(upload(Buffer.from('plain text'), 'application/pdf'), rules);
+
+    expect(result.mime_type).toEqual('application/pdf');
+    expect(result.page_count).toBeNull();
+    expect(result.quarantine_reason).toMatch(/not a recognised document type \(declared as application\/pdf\)/);
+  });
+});
@@ -1,15 +1,30 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, studentsTable, letterRequestsTable, trackingLogsTable } from '../db/schema';
-import { type UploadFinalLetterInput } from '../schema';
+import { usersTable, studentsTable, letterRequestsTable, letterVersionsTable, trackingLogsTable, dispositionAssignmentsTable } from '../db/schema';
+import { type UploadFinalLetterInput, type LetterRequest } from '../schema';
 import { uploadFinalLetter } from '../handlers/upload_final_letter';
+import { processDisposition } from '../handlers/process_disposition';
+import { getStorage, storageKeyFromUrl } from '../lib/storage';
+import { createHash } from 'node:crypto';
+import { readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { eq } from 'drizzle-orm';
 
+const storageDir = join(tmpdir(), 'upload-final-letter-test');
+
+const pdfBytes = Buffer.from('%PDF-1.4\nfinal letter\n%%EOF\n');
+
 describe('uploadFinalLetter', () => {
   beforeEach(createDB);
   afterEach(resetDB);
 
+  beforeEach(() => {
+    process.env['STORAGE_LOCAL_DIR'] = storageDir;
+  });
+  afterEach(() => rm(storageDir, { recursive: true, force: true }));
+
   let dekanUser: any;
   let kaurUser: any;
   let student: any;
@@ -66,7 +81,8 @@ describe('uploadFinalLetter', () => {
 
   const testInput: UploadFinalLetterInput = {
     request_id: 1, // Will be updated in tests
-    file_url: 'https://example.com/final-letter.pdf'
+    expected_version: 1,
+    file: new File([pdfBytes], 'final-letter.pdf', { type: 'application/pdf' })
   };
 
   it('should successfully upload final letter and update status to TTD_READY', async () => {
@@ -76,7 +92,7 @@ describe('uploadFinalLetter', () => {
 
     // Verify returned data
     expect(result.id).toEqual(letterRequest.id);
-    expect(result.final_letter_url).toEqual(input.file_url);
+    expect(result.final_letter_url).toMatch(new RegExp(`^files/requests/${letterRequest.id}/final-letters/[0-9a-f-]+/final-letter\\.pdf$`));
     expect(result.status).toEqual('TTD_READY');
     expect(result.current_handler_user_id).toEqual(dekanUser.id);
     expect(result.updated_at).toBeInstanceOf(Date);
@@ -95,7 +111,7 @@ describe('uploadFinalLetter', () => {
 
     expect(updatedRequests).toHaveLength(1);
     const updatedRequest = updatedRequests[0];
-    expect(updatedRequest.final_letter_url).toEqual(input.file_url);
+    expect(updatedRequest.final_letter_url).toStartWith('files/');
     expect(updatedRequest.status).toEqual('TTD_READY');
     expect(updatedRequest.current_handler_user_id).toEqual(dekanUser.id);
   });
@@ -116,11 +132,89 @@ describe('uploadFinalLetter', () => {
     expect(log.user_id).toEqual(kaurUser.id);
     expect(log.action_type).toEqual('DOCUMENT_UPLOADED');
     expect(log.description).toEqual('Final letter document uploaded and ready for signature');
-    expect(log.notes).toContain(input.file_url);
+    expect(log.notes).toContain('final-letter.pdf');
+    expect(log.notes).toContain(createHash('sha256').update(pdfBytes).digest('hex'));
     expect(log.previous_status).toEqual('PROCESSED_BY_KAUR_AKADEMIK');
     expect(log.new_status).toEqual('TTD_READY');
   });
 
+  it('should store the uploaded file in the storage backend', async () => {
+    const input = { ...testInput, request_id: letterRequest.id };
+
+    const result = await uploadFinalLetter(input, kaurUser.id);
+
+    const storageKey = storageKeyFromUrl(result.final_letter_url!);
+    expect(storageKey).not.toBeNull();
+    expect(await getStorage().get(storageKey!)).toEqual(pdfBytes);
+  });
+
+  it('should record the upload as a new current letter version with its change note', async () => {
+    const input = { ...testInput, request_id: letterRequest.id, change_note: 'Corrected the purpose' };
+
+    const result = await uploadFinalLetter(input, kaurUser.id);
+
+    const versions = await db.select()
+      .from(letterVersionsTable)
+      .where(eq(letterVersionsTable.letter_request_id, letterRequest.id))
+      .execute();
+
+    expect(versions).toHaveLength(1);
+    expect(versions[0]).toMatchObject({
+      version_number: 1,
+      source: 'UPLOADED',
+      file_url: result.final_letter_url!,
+      file_name: 'final-letter.pdf',
+      size_bytes: pdfBytes.length,
+      sha256: createHash('sha256').update(pdfBytes).digest('hex'),
+      change_note: 'Corrected the purpose',
+      created_by_user_id: kaurUser.id
+    });
+    expect(result.current_letter_version_id).toEqual(versions[0].id);
+
+    const logs = await db.select()
+      .from(trackingLogsTable)
+      .where(eq(trackingLogsTable.letter_request_id, letterRequest.id))
+      .execute();
+    expect(logs[0].notes).toContain('version 1: Corrected the purpose');
+  });
+
+  it('should reject files that are not PDFs', async () => {
+    const input = {
+      ...testInput,
+      request_id: letterRequest.id,
+      file: new File(['plain text'], 'final-letter.txt', { type: 'text/plain' })
+    };
+
+    await expect(uploadFinalLetter(input, kaurUser.id)).rejects.toThrow(/Final letter must be a PDF file/i);
+
+    const requests = await db.select()
+      .from(letterRequestsTable)
+      .where(eq(letterRequestsTable.id, letterRequest.id))
+      .execute();
+    expect(requests[0].status).toEqual('PROCESSED_BY_KAUR_AKADEMIK');
+    expect(requests[0].final_letter_url).toBeNull();
+  });
+
+  it('should reject files that only claim to be PDFs', async () => {
+    const input = {
+      ...testInput,
+      request_id: letterRequest.id,
+      file: new File(['<html>not a letter</html>'], 'final-letter.pdf', { type: 'application/pdf' })
+    };
+
+    await expect(uploadFinalLetter(input, kaurUser.id)).rejects.toThrow(/Final letter must be a PDF file/i);
+  });
+
+  it('should not keep a stored file when the upload is rejected', async () => {
+    const input = { ...testInput, request_id: letterRequest.id, expected_version: 5 };
+
+    await expect(uploadFinalLetter(input, kaurUser.id)).rejects.toThrow();
+
+    const directory = join(storageDir, 'requests', String(letterRequest.id), 'final-letters');
+    const entries = await readdir(directory).catch(() => []);
+    expect(entries).toHaveLength(0);
+  });
+
   it('should work with different valid statuses', async () => {
     const validStatuses = [
       'PROCESSED_BY_KAUR_KEMAHASISWAAN',
@@ -130,6 +224,7 @@ describe('uploadFinalLetter', () => {
       'PROCESSED_BY_WD3',
       'PROCESSED_BY_KABAG_TU'
     ];
+    let result: LetterRequest | undefined;
 
     for (const status of validStatuses) {
       // Update request status and maintain current handler as authorized user
@@ -141,9 +236,9 @@ describe('uploadFinalLetter', () => {
         .where(eq(letterRequestsTable.id, letterRequest.id))
         .execute();
 
-      const input = { ...testInput, request_id: letterRequest.id };
+      const input = { ...testInput, request_id: letterRequest.id, expected_version: result?.version ?? 1 };
       
-      const result = await uploadFinalLetter(input, kaurUser.id);
+      result = await uploadFinalLetter(input, kaurUser.id);
       expect(result.status).toEqual('TTD_READY');
 
       // Reset status for next iteration
@@ -254,4 +349,42 @@ describe('uploadFinalLetter', () => {
     expect(result.status).toEqual('TTD_READY');
     expect(result.current_handler_user_id).toEqual(dekanUser.id); // Should still be the first DEKAN
   });
-});
\ No newline at end of file
+
+  it('should refuse the final letter while the disposition step is still open', async () => {
+    await db.update(letterRequestsTable)
+      .set({ status: 'DISPOSISI_TO_KAUR_AKADEMIK' })
+      .where(eq(letterRequestsTable.id, letterRequest.id))
+      .execute();
+
+    const input = { ...testInput, request_id: letterRequest.id };
+
+    await expect(uploadFinalLetter(input, kaurUser.id)).rejects.toThrow(
+      /Cannot upload final letter for request in status: DISPOSISI_TO_KAUR_AKADEMIK/
+    );
+  });
+
+  it('should accept the final letter from the officer who completed the last disposition step', async () => {
+    await db.update(letterRequestsTable)
+      .set({ status: 'DISPOSISI_TO_KAUR_AKADEMIK' })
+      .where(eq(letterRequestsTable.id, letterRequest.id))
+      .execute();
+
+    const assignments = await db.insert(dispositionAssignmentsTable)
+      .values({
+        letter_request_id: letterRequest.id,
+        assigned_to_user_id: kaurUser.id,
+        assigned_by_user_id: dekanUser.id,
+        instructions: 'Prepare the letter',
+        order_sequence: 1
+      })
+      .returning()
+      .execute();
+
+    await processDisposition({ assignment_id: assignments[0].id, expected_version: 1 }, kaurUser.id);
+
+    const result = await uploadFinalLetter({ ...testInput, request_id: letterRequest.id, expected_version: 2 }, kaurUser.id);
+
+    expect(result.status).toEqual('TTD_READY');
+    expect(result.current_handler_user_id).toEqual(dekanUser.id);
+  });
+});
@@ -1,14 +1,35 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, studentsTable, letterRequestsTable, supportingDocumentsTable, trackingLogsTable } from '../db/schema';
+import { usersTable, studentsTable, letterRequestsTable, letterTypesTable, supportingDocumentsTable, trackingLogsTable } from '../db/schema';
 import { uploadSupportingDocument } from '../handlers/upload_supporting_document';
+import { getSupportingDocuments } from '../handlers/get_supporting_documents';
+import { getStorage } from '../lib/storage';
+import { PDFDocument } from 'pdf-lib';
+import { createHash } from 'node:crypto';
+import { readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { eq } from 'drizzle-orm';
 
+const storageDir = join(tmpdir(), 'upload-supporting-document-test');
+const twoPagePdf = await PDFDocument.create();
+twoPagePdf.addPage();
+twoPagePdf.addPage();
+const pdfBytes = Buffer.from(await twoPagePdf.save());
+const pngBytes = Buffer.from('89504e470d0a1a0a0000000d49484452', 'hex');
+const pdfSha256 = createHash('sha256').update(pdfBytes).digest('hex');
+const pdfFile = (name: string) => new File([pdfBytes], name, { type: 'application/pdf' });
+
 describe('uploadSupportingDocument', () => {
   beforeEach(createDB);
   afterEach(resetDB);
 
+  beforeEach(() => {
+    process.env['STORAGE_LOCAL_DIR'] = storageDir;
+  });
+  afterEach(() => rm(storageDir, { recursive: true, force: true }));
+
   let testUser: any;
   let testStudent: any;
   let testLetterRequest: any;
@@ -67,12 +88,9 @@ describe('uploadSupportingDocument', () => {
 
   it('should upload supporting document successfully', async () => {
     const fileName = 'test-document.pdf';
-    const fileUrl = 'https://storage.example.com/test-document.pdf';
 
     const result = await uploadSupportingDocument(
-      testLetterRequest.id,
-      fileName,
-      fileUrl,
+      { request_id: testLetterRequest.id, file: pdfFile(fileName) },
       testUser.id
     );
 
@@ -80,19 +98,20 @@ describe('uploadSupportingDocument', () => {
     expect(result.id).toBeDefined();
     expect(result.letter_request_id).toEqual(testLetterRequest.id);
     expect(result.file_name).toEqual(fileName);
-    expect(result.file_url).toEqual(fileUrl);
+    expect(result.file_url).toEqual(`files/${result.storage_key}`);
+    expect(result.storage_key).toMatch(new RegExp(`^requests/${testLetterRequest.id}/documents/[0-9a-f-]+/test-document\\.pdf$`));
+    expect(result.mime_type).toEqual('application/pdf');
+    expect(result.size_bytes).toEqual(pdfBytes.length);
+    expect(result.sha256).toEqual(pdfSha256);
     expect(result.uploaded_by_user_id).toEqual(testUser.id);
     expect(result.created_at).toBeInstanceOf(Date);
   });
 
   it('should save document to database', async () => {
     const fileName = 'test-document.pdf';
-    const fileUrl = 'https://storage.example.com/test-document.pdf';
 
     const result = await uploadSupportingDocument(
-      testLetterRequest.id,
-      fileName,
-      fileUrl,
+      { request_id: testLetterRequest.id, file: pdfFile(fileName) },
       testUser.id
     );
 
@@ -104,19 +123,142 @@ describe('uploadSupportingDocument', () => {
 
     expect(documents).toHaveLength(1);
     expect(documents[0].file_name).toEqual(fileName);
-    expect(documents[0].file_url).toEqual(fileUrl);
+    expect(documents[0].file_url).toEqual(`files/${documents[0].storage_key}`);
+    expect(documents[0].mime_type).toEqual('application/pdf');
+    expect(documents[0].size_bytes).toEqual(pdfBytes.length);
+    expect(documents[0].sha256).toEqual(pdfSha256);
     expect(documents[0].uploaded_by_user_id).toEqual(testUser.id);
     expect(documents[0].created_at).toBeInstanceOf(Date);
   });
 
+  it('should store the file in the storage backend', async () => {
+    const result = await uploadSupportingDocument(
+      { request_id: testLetterRequest.id, file: pdfFile('test-document.pdf') },
+      testUser.id
+    );
+
+    expect(await getStorage().get(result.storage_key!)).toEqual(pdfBytes);
+  });
+
+  it('should record the normalized document type', async () => {
+    const result = await uploadSupportingDocument(
+      { request_id: testLetterRequest.id, document_type: ' ktm ', file: pdfFile('ktm.pdf') },
+      testUser.id
+    );
+
+    expect(result.document_type).toEqual('KTM');
+  });
+
+  it('should reject empty files', async () => {
+    await expect(uploadSupportingDocument(
+      { request_id: testLetterRequest.id, file: new File([], 'empty.pdf', { type: 'application/pdf' }) },
+      testUser.id
+    )).rejects.toThrow(/empty/i);
+  });
+
+  it('should reject files over the configured size limit', async () => {
+    process.env['UPLOAD_MAX_BYTES'] = '8';
+    try {
+      await expect(uploadSupportingDocument(
+        { request_id: testLetterRequest.id, file: pdfFile('large.pdf') },
+        testUser.id
+      )).rejects.toThrow(/exceeds the maximum size of 8 bytes/i);
+    } finally {
+      delete process.env['UPLOAD_MAX_BYTES'];
+    }
+  });
+
+  it('should accept a valid PDF and record its page count', async () => {
+    const result = await uploadSupportingDocument(
+      { request_id: testLetterRequest.id, file: pdfFile('transcript.pdf') },
+      testUser.id
+    );
+
+    expect(result.status).toEqual('ACCEPTED');
+    expect(result.quarantine_reason).toBeNull();
+    expect(result.page_count).toEqual(2);
+  });
+
+  it('should quarantine a file renamed to .pdf', async () => {
+    const result = await uploadSupportingDocument(
+      { request_id: testLetterRequest.id, file: new File(['just some text'], 'notes.pdf', { type: 'application/pdf' }) },
+      testUser.id
+    );
+
+    expect(result.status).toEqual('QUARANTINED');
+    expect(result.quarantine_reason).toMatch(/not a recognised document type/i);
+    expect(result.page_count).toBeNull();
+  });
+
+  it('should quarantine a file whose declared type does not match its content', async () => {
+    const result = await uploadSupportingDocument(
+      { request_id: testLetterRequest.id, file: new File([pngBytes], 'photo.pdf', { type: 'application/pdf' }) },
+      testUser.id
+    );
+
+    expect(result.status).toEqual('QUARANTINED');
+    expect(result.mime_type).toEqual('image/png');
+    expect(result.quarantine_reason).toMatch(/Declared type application\/pdf does not match the file content \(image\/png\)/);
+  });
+
+  it('should quarantine a PDF that cannot be read', async () => {
+    const result = await uploadSupportingDocument(
+      { request_id: testLetterRequest.id, file: new File(['%PDF-1.4 truncated'], 'broken.pdf', { type: 'application/pdf' }) },
+      testUser.id
+    );
+
+    expect(result.status).toEqual('QUARANTINED');
+    expect(result.quarantine_reason).toMatch(/PDF could not be read/);
+  });
+
+  it('should apply the MIME type and size rules of the letter type', async () => {
+    await db.insert(letterTypesTable)
+      .values({ code: 'SKA', name: 'Surat Keterangan Aktif', allowed_mime_types: ['application/pdf'], max_upload_bytes: 100 })
+      .execute();
+    await db.update(letterRequestsTable)
+      .set({ letter_type: 'SKA' })
+      .where(eq(letterRequestsTable.id, testLetterRequest.id))
+      .execute();
+
+    const image = await uploadSupportingDocument(
+      { request_id: testLetterRequest.id, file: new File([pngBytes], 'ktm.png', { type: 'image/png' }) },
+      testUser.id
+    );
+    expect(image.status).toEqual('QUARANTINED');
+    expect(image.quarantine_reason).toMatch(/image\/png files are not accepted for letter type SKA/);
+
+    const large = await uploadSupportingDocument(
+      { request_id: testLetterRequest.id, file: pdfFile('transcript.pdf') },
+      testUser.id
+    );
+    expect(large.status).toEqual('QUARANTINED');
+    expect(large.quarantine_reason).toMatch(new RegExp(`File is ${pdfBytes.length} bytes; letter type SKA accepts at most 100`));
+  });
+
+  it('should show quarantined documents with their reason and log the quarantine', async () => {
+    await uploadSupportingDocument(
+      { request_id: testLetterRequest.id, file: new File(['MZ executable'], 'scan.pdf', { type: 'application/pdf' }) },
+      testUser.id
+    );
+
+    const documents = await getSupportingDocuments(testLetterRequest.id, testUser.id);
+    expect(documents).toHaveLength(1);
+    expect(documents[0].status).toEqual('QUARANTINED');
+    expect(documents[0].quarantine_reason).toMatch(/not a recognised document type/i);
+
+    const logs = await db.select()
+      .from(trackingLogsTable)
+      .where(eq(trackingLogsTable.letter_request_id, testLetterRequest.id))
+      .execute();
+    expect(logs[0].description).toEqual('Supporting document quarantined: scan.pdf');
+    expect(logs[0].notes).toEqual(documents[0].quarantine_reason);
+  });
+
   it('should create tracking log entry', async () => {
     const fileName = 'test-document.pdf';
-    const fileUrl = 'https://storage.example.com/test-document.pdf';
 
     await uploadSupportingDocument(
-      testLetterRequest.id,
-      fileName,
-      fileUrl,
+      { request_id: testLetterRequest.id, file: pdfFile(fileName) },
       testUser.id
     );
 
@@ -130,18 +272,15 @@ describe('uploadSupportingDocument', () => {
     expect(trackingLogs[0].user_id).toEqual(testUser.id);
     expect(trackingLogs[0].action_type).toEqual('DOCUMENT_UPLOADED');
     expect(trackingLogs[0].description).toEqual('Supporting document uploaded: test-document.pdf');
-    expect(trackingLogs[0].notes).toEqual('File URL: https://storage.example.com/test-document.pdf');
+    expect(trackingLogs[0].notes).toEqual(`application/pdf, ${pdfBytes.length} bytes, SHA-256 ${pdfSha256}`);
     expect(trackingLogs[0].created_at).toBeInstanceOf(Date);
   });
 
   it('should allow admin to upload documents', async () => {
     const fileName = 'admin-document.pdf';
-    const fileUrl = 'https://storage.example.com/admin-document.pdf';
 
     const result = await uploadSupportingDocument(
-      testLetterRequest.id,
-      fileName,
-      fileUrl,
+      { request_id: testLetterRequest.id, file: pdfFile(fileName) },
       adminUser.id
     );
 
@@ -169,12 +308,9 @@ describe('uploadSupportingDocument', () => {
       .execute();
 
     const fileName = 'handler-document.pdf';
-    const fileUrl = 'https://storage.example.com/handler-document.pdf';
 
     const result = await uploadSupportingDocument(
-      testLetterRequest.id,
-      fileName,
-      fileUrl,
+      { request_id: testLetterRequest.id, file: pdfFile(fileName) },
       handlerUser.id
     );
 
@@ -182,7 +318,7 @@ describe('uploadSupportingDocument', () => {
     expect(result.file_name).toEqual(fileName);
   });
 
-  it('should allow various staff roles to upload documents', async () => {
+  it('should allow officers involved in the request to upload documents', async () => {
     const roles = ['DEKAN', 'WD1', 'WD2', 'WD3', 'KABAG_TU', 'KAUR_AKADEMIK', 'STAFF_FAKULTAS'];
     
     for (const role of roles) {
@@ -196,13 +332,16 @@ describe('uploadSupportingDocument', () => {
         .execute();
       const staffUser = staffResult[0];
 
+      // Faculty roles need to be involved in the request, e.g. as current handler
+      await db.update(letterRequestsTable)
+        .set({ current_handler_user_id: staffUser.id })
+        .where(eq(letterRequestsTable.id, testLetterRequest.id))
+        .execute();
+
       const fileName = `${role.toLowerCase()}-document.pdf`;
-      const fileUrl = `https://storage.example.com/${role.toLowerCase()}-document.pdf`;
 
       const result = await uploadSupportingDocument(
-        testLetterRequest.id,
-        fileName,
-        fileUrl,
+        { request_id: testLetterRequest.id, file: pdfFile(fileName) },
         staffUser.id
       );
 
@@ -211,13 +350,48 @@ describe('uploadSupportingDocument', () => {
     }
   });
 
+  it('should reject faculty roles not involved in the request', async () => {
+    const roles = ['DEKAN', 'WD1', 'KAUR_AKADEMIK', 'STAFF_FAKULTAS'];
+
+    for (const role of roles) {
+      const staffResult = await db.insert(usersTable)
+        .values({
+          email: `${role.toLowerCase()}@test.com`,
+          name: `Test ${role}`,
+          role: role as any
+        })
+        .returning()
+        .execute();
+
+      await expect(uploadSupportingDocument(
+        { request_id: testLetterRequest.id, file: pdfFile('test.pdf') },
+        staffResult[0].id
+      )).rejects.toThrow(/does not have permission/i);
+    }
+  });
+
+  it('should reject prodi staff from another prodi', async () => {
+    const otherProdiResult = await db.insert(usersTable)
+      .values({
+        email: 'kaprodi.si@test.com',
+        name: 'Kaprodi SI',
+        role: 'KAPRODI',
+        prodi: 'Sistem Informasi'
+      })
+      .returning()
+      .execute();
+
+    await expect(uploadSupportingDocument(
+      { request_id: testLetterRequest.id, file: pdfFile('test.pdf') },
+      otherProdiResult[0].id
+    )).rejects.toThrow(/does not have permission/i);
+  });
+
   it('should reject upload for non-existent letter request', async () => {
     const nonExistentRequestId = 99999;
 
     await expect(uploadSupportingDocument(
-      nonExistentRequestId,
-      'test.pdf',
-      'https://example.com/test.pdf',
+      { request_id: nonExistentRequestId, file: pdfFile('test.pdf') },
       testUser.id
     )).rejects.toThrow(/letter request not found/i);
   });
@@ -226,9 +400,7 @@ describe('uploadSupportingDocument', () => {
     const nonExistentUserId = 99999;
 
     await expect(uploadSupportingDocument(
-      testLetterRequest.id,
-      'test.pdf',
-      'https://example.com/test.pdf',
+      { request_id: testLetterRequest.id, file: pdfFile('test.pdf') },
       nonExistentUserId
     )).rejects.toThrow(/user not found/i);
   });
@@ -246,26 +418,33 @@ describe('uploadSupportingDocument', () => {
     const unauthorizedUser = unauthorizedResult[0];
 
     await expect(uploadSupportingDocument(
-      testLetterRequest.id,
-      'test.pdf',
-      'https://example.com/test.pdf',
+      { request_id: testLetterRequest.id, file: pdfFile('test.pdf') },
       unauthorizedUser.id
     )).rejects.toThrow(/does not have permission/i);
   });
 
+  it('should not store files for rejected uploads', async () => {
+    const studentUser = await db.insert(usersTable)
+      .values({ email: 'student@test.com', name: 'Student', role: 'STUDENT' })
+      .returning()
+      .execute();
+
+    await expect(uploadSupportingDocument(
+      { request_id: testLetterRequest.id, file: pdfFile('test.pdf') },
+      studentUser[0].id
+    )).rejects.toThrow(/does not have permission/i);
+
+    const entries = await readdir(storageDir).catch(() => []);
+    expect(entries).toHaveLength(0);
+  });
+
   it('should handle multiple document uploads for same request', async () => {
-    const documents = [
-      { name: 'document1.pdf', url: 'https://example.com/doc1.pdf' },
-      { name: 'document2.pdf', url: 'https://example.com/doc2.pdf' },
-      { name: 'document3.pdf', url: 'https://example.com/doc3.pdf' }
-    ];
+    const documents = ['document1.pdf', 'document2.pdf', 'document3.pdf'];
 
     const results = [];
     for (const doc of documents) {
       const result = await uploadSupportingDocument(
-        testLetterRequest.id,
-        doc.name,
-        doc.url,
+        { request_id: testLetterRequest.id, file: pdfFile(doc) },
         testUser.id
       );
       results.push(result);
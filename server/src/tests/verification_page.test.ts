@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'bun:test';
+import { renderVerificationPage, verificationPagePattern } from '../lib/verification_page';
+
+describe('verification page', () => {
+  const verification = {
+    letter_number: '12/UN1.FT/KM/2026',
+    student_name: '<script>alert(1)</script>',
+    letter_type: 'Surat Keterangan Aktif Kuliah',
+    signed_at: new Date(2026, 2, 15),
+    signer_name: 'Prof. Dr. Dekan',
+    signer_role: 'DEKAN',
+    valid: true
+  };
+
+  it('should show the public fields with HTML escaped', () => {
+    const html = renderVerificationPage(verification);
+
+    expect(html).toContain('Genuine letter');
+    expect(html).toContain('12/UN1.FT/KM/2026');
+    expect(html).toContain('Prof. Dr. Dekan (DEKAN)');
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).not.toContain('<script>');
+  });
+
+  it('should warn about letters changed after signing', () => {
+    expect(renderVerificationPage({ ...verification, valid: false })).toContain('Letter could not be verified');
+  });
+
+  it('should render a not found page without details', () => {
+    const html = renderVerificationPage(null);
+
+    expect(html).toContain('Letter not found');
+    expect(html).not.toContain('<table>');
+  });
+
+  it('should match only the verification route', () => {
+    expect(verificationPagePattern.exec('/verify/abc_DEF-123')?.[1]).toEqual('abc_DEF-123');
+    expect(verificationPagePattern.exec('/verify/abc?utm=qr')?.[1]).toEqual('abc');
+    expect(verificationPagePattern.exec('/getLetterVerification')).toBeNull();
+    expect(verificationPagePattern.exec('/verify/abc/extra')).toBeNull();
+  });
+});
@@ -0,0 +1,235 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  studentsTable,
+  letterRequestsTable,
+  letterTemplatesTable,
+  generatedLettersTable,
+  letterNumberFormatsTable,
+  letterSignaturesTable,
+  signerKeysTable
+} from '../db/schema';
+import { signLetter } from '../handlers/sign_letter';
+import { verifySignature } from '../handlers/verify_signature';
+import { parseSignerCertificate, signaturePayload } from '../lib/letter_signing';
+import { getStorage, storedFileUrl } from '../lib/storage';
+import { generateKeyPairSync, sign as signPayload } from 'node:crypto';
+import { rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { eq } from 'drizzle-orm';
+
+process.env['SIGNING_KEY_SECRET'] = 'test-signing-key-secret';
+
+const storageDir = join(tmpdir(), 'verify-signature-test');
+
+describe('verifySignature', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(() => {
+    process.env['STORAGE_LOCAL_DIR'] = storageDir;
+  });
+  afterEach(() => rm(storageDir, { recursive: true, force: true }));
+
+  let dekanUser: any;
+  let otherStudentUser: any;
+  let letterRequest: any;
+  let generatedLetter: any;
+
+  beforeEach(async () => {
+    [dekanUser, , otherStudentUser] = await db.insert(usersTable)
+      .values([
+        { email: 'dekan@university.edu', name: 'Prof. Dr. Dekan', role: 'DEKAN' },
+        { email: 'staff@fakultas.edu', name: 'Staff Fakultas', role: 'STAFF_FAKULTAS' },
+        { email: 'student@university.edu', name: 'Other Student', role: 'STUDENT' }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(letterNumberFormatsTable)
+      .values({ letter_type: null, unit_code: 'UN1.FT', classification_code: 'KM', pattern: '{seq}/{unit}/{code}/{year}' })
+      .execute();
+
+    const [student] = await db.insert(studentsTable)
+      .values({ nim: '2021001', name: 'Siti Rahma', prodi: 'Teknik Informatika' })
+      .returning()
+      .execute();
+
+    [letterRequest] = await db.insert(letterRequestsTable)
+      .values({
+        student_id: student.id,
+        created_by_user_id: dekanUser.id,
+        letter_type: 'SKAK',
+        purpose: 'Beasiswa',
+        priority: 'NORMAL',
+        status: 'TTD_READY',
+        current_handler_user_id: dekanUser.id
+      })
+      .returning()
+      .execute();
+
+    const [template] = await db.insert(letterTemplatesTable)
+      .values({ letter_type: 'SKAK', version: 1, title: 'AKTIF', body: 'Isi surat', created_by_user_id: dekanUser.id })
+      .returning()
+      .execute();
+
+    [generatedLetter] = await db.insert(generatedLettersTable)
+      .values({
+        letter_request_id: letterRequest.id,
+        template_id: template.id,
+        file_name: 'skak-2021001.pdf',
+        content: Buffer.from('%PDF-original'),
+        generated_by_user_id: dekanUser.id
+      })
+      .returning()
+      .execute();
+
+    await db.update(letterRequestsTable)
+      .set({ final_letter_url: `generated-letters/${generatedLetter.id}` })
+      .where(eq(letterRequestsTable.id, letterRequest.id))
+      .execute();
+  });
+
+  const sign = () => signLetter({ request_id: letterRequest.id, expected_version: 1 }, dekanUser.id);
+
+  it('should confirm an untouched signed letter', async () => {
+    const signed = await sign();
+
+    const result = await verifySignature(letterRequest.id, dekanUser.id);
+
+    expect(result).not.toBeNull();
+    expect(result!.signed).toBe(true);
+    expect(result!.valid).toBe(true);
+    expect(result!.signature_valid).toBe(true);
+    expect(result!.document_intact).toBe(true);
+    expect(result!.letter_number).toEqual(signed.letter_number);
+    expect(result!.algorithm).toEqual('Ed25519');
+    expect(result!.current_document_hash).toEqual(result!.signed_document_hash);
+    expect(result!.signer).toMatchObject({ user_id: dekanUser.id, name: 'Prof. Dr. Dekan', role: 'DEKAN' });
+  });
+
+  it('should detect a letter modified after signing', async () => {
+    await sign();
+    await db.update(generatedLettersTable)
+      .set({ content: Buffer.from('%PDF-tampered') })
+      .where(eq(generatedLettersTable.id, generatedLetter.id))
+      .execute();
+
+    const result = await verifySignature(letterRequest.id, dekanUser.id);
+
+    expect(result!.valid).toBe(false);
+    expect(result!.signature_valid).toBe(true);
+    expect(result!.document_intact).toBe(false);
+    expect(result!.current_document_hash).not.toEqual(result!.signed_document_hash);
+  });
+
+  it('should detect an uploaded letter whose stored file was modified after signing', async () => {
+    const key = `requests/${letterRequest.id}/final-letters/abc/final-letter.pdf`;
+    await getStorage().put(key, Buffer.from('%PDF-uploaded'), 'application/pdf');
+    await db.update(letterRequestsTable)
+      .set({ final_letter_url: storedFileUrl(key) })
+      .where(eq(letterRequestsTable.id, letterRequest.id))
+      .execute();
+
+    await sign();
+    expect((await verifySignature(letterRequest.id, dekanUser.id))!.valid).toBe(true);
+
+    await getStorage().put(key, Buffer.from('%PDF-tampered'), 'application/pdf');
+    const result = await verifySignature(letterRequest.id, dekanUser.id);
+
+    expect(result!.signature_valid).toBe(true);
+    expect(result!.document_intact).toBe(false);
+  });
+
+  it('should detect a replaced final letter', async () => {
+    await sign();
+    await db.update(letterRequestsTable)
+      .set({ final_letter_url: 'https://storage.example.com/other.pdf' })
+      .where(eq(letterRequestsTable.id, letterRequest.id))
+      .execute();
+
+    const result = await verifySignature(letterRequest.id, dekanUser.id);
+
+    expect(result!.valid).toBe(false);
+    expect(result!.document_intact).toBe(false);
+  });
+
+  it('should detect a forged signature record', async () => {
+    await sign();
+    await db.update(letterSignaturesTable)
+      .set({ document_hash: '0'.repeat(64) })
+      .where(eq(letterSignaturesTable.letter_request_id, letterRequest.id))
+      .execute();
+
+    const result = await verifySignature(letterRequest.id, dekanUser.id);
+
+    expect(result!.valid).toBe(false);
+    expect(result!.signature_valid).toBe(false);
+  });
+
+  it('should verify against the stored signer key rather than the certificate copied into the signature', async () => {
+    await sign();
+    const [signature] = await db.select()
+      .from(letterSignaturesTable)
+      .where(eq(letterSignaturesTable.letter_request_id, letterRequest.id))
+      .execute();
+
+    // A signature re-made with another key, its public key swapped into the copied certificate
+    const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+    const forgedCertificate = {
+      ...parseSignerCertificate(signature.certificate),
+      public_key: publicKey.export({ type: 'spki', format: 'pem' }).toString()
+    };
+    const forgedSignature = signPayload(null, signaturePayload({
+      requestId: letterRequest.id,
+      letterNumber: signature.letter_number,
+      finalLetterUrl: signature.final_letter_url,
+      documentHash: signature.document_hash,
+      signedAt: signature.signed_at
+    }), privateKey).toString('base64');
+
+    await db.update(letterSignaturesTable)
+      .set({ certificate: JSON.stringify(forgedCertificate), signature: forgedSignature })
+      .where(eq(letterSignaturesTable.id, signature.id))
+      .execute();
+
+    const result = await verifySignature(letterRequest.id, dekanUser.id);
+
+    expect(result!.valid).toBe(false);
+    expect(result!.signature_valid).toBe(false);
+  });
+
+  it('should reject signatures made with a revoked key', async () => {
+    await sign();
+    await db.update(signerKeysTable)
+      .set({ revoked_at: new Date() })
+      .where(eq(signerKeysTable.user_id, dekanUser.id))
+      .execute();
+
+    const result = await verifySignature(letterRequest.id, dekanUser.id);
+
+    expect(result!.valid).toBe(false);
+    expect(result!.signature_valid).toBe(false);
+    expect(result!.document_intact).toBe(true);
+  });
+
+  it('should report unsigned letters', async () => {
+    const result = await verifySignature(letterRequest.id, dekanUser.id);
+
+    expect(result!.signed).toBe(false);
+    expect(result!.valid).toBe(false);
+    expect(result!.signer).toBeNull();
+    expect(result!.current_document_hash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('should return null for users who cannot read the request', async () => {
+    await sign();
+
+    const result = await verifySignature(letterRequest.id, otherStudentUser.id);
+
+    expect(result).toBeNull();
+  });
+});
@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, studentsTable, letterRequestsTable, dispositionAssignmentsTable, trackingLogsTable } from '../db/schema';
+import { createDisposition } from '../handlers/create_disposition';
+import { processDisposition } from '../handlers/process_disposition';
+import { withdrawDisposition } from '../handlers/withdraw_disposition';
+import { findTransition } from '../lib/request_transitions';
+import { asc, eq } from 'drizzle-orm';
+
+describe('withdrawDisposition', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let dekanUser: any;
+  let wd1User: any;
+  let kaurUser: any;
+  let letterRequest: any;
+  let assignments: any[];
+
+  beforeEach(async () => {
+    let staffUser: any;
+    [dekanUser, wd1User, kaurUser, staffUser] = await db.insert(usersTable)
+      .values([
+        { email: 'dekan@university.edu', name: 'Dekan Faculty', role: 'DEKAN', prodi: null },
+        { email: 'wd1@university.edu', name: 'WD1 Officer', role: 'WD1', prodi: null },
+        { email: 'kaur@university.edu', name: 'Kaur Akademik', role: 'KAUR_AKADEMIK', prodi: null },
+        { email: 'staff@university.edu', name: 'Staff Prodi', role: 'STAFF_PRODI', prodi: 'Teknik Informatika' }
+      ])
+      .returning()
+      .execute();
+
+    const students = await db.insert(studentsTable)
+      .values({ nim: '123456789', name: 'Test Student', prodi: 'Teknik Informatika' })
+      .returning()
+      .execute();
+
+    const requests = await db.insert(letterRequestsTable)
+      .values({
+        student_id: students[0].id,
+        created_by_user_id: staffUser.id,
+        letter_type: 'Surat Keterangan Aktif',
+        purpose: 'Keperluan beasiswa',
+        priority: 'NORMAL',
+        status: 'FORWARDED_TO_DEKAN',
+        current_handler_user_id: dekanUser.id
+      })
+      .returning()
+      .execute();
+    letterRequest = requests[0];
+
+    assignments = await createDisposition({
+      request_id: letterRequest.id,
+      expected_version: 1,
+      instructions: 'Please check the academic record',
+      assignments: [
+        { user_id: wd1User.id, order_sequence: 1 },
+        { user_id: kaurUser.id, order_sequence: 2 }
+      ]
+    }, dekanUser.id);
+  });
+
+  it('should return the request to the Dean and cancel pending assignments', async () => {
+    await processDisposition({ assignment_id: assignments[0].id, expected_version: 2 }, wd1User.id);
+
+    const result = await withdrawDisposition({
+      request_id: letterRequest.id,
+      expected_version: 3,
+      notes: 'Wrong officers'
+    }, dekanUser.id);
+
+    expect(result.status).toEqual('FORWARDED_TO_DEKAN');
+    expect(result.current_handler_user_id).toEqual(dekanUser.id);
+    expect(result.parallel_handler_user_ids).toEqual([]);
+    expect(result.version).toEqual(4);
+
+    // Completed work stays on record
+    const remaining = await db.select()
+      .from(dispositionAssignmentsTable)
+      .where(eq(dispositionAssignmentsTable.letter_request_id, letterRequest.id))
+      .execute();
+    expect(remaining).toHaveLength(1);
+    expect(remaining[0].id).toEqual(assignments[0].id);
+    expect(remaining[0].is_completed).toBe(true);
+
+    const logs = await db.select()
+      .from(trackingLogsTable)
+      .where(eq(trackingLogsTable.letter_request_id, letterRequest.id))
+      .orderBy(asc(trackingLogsTable.id))
+      .execute();
+
+    const log = logs[logs.length - 1];
+    expect(log.action_type).toEqual('DISPOSISI_WITHDRAWN');
+    expect(log.description).toEqual('Disposition withdrawn by Dekan; pending assignments cancelled: 1');
+    expect(log.notes).toEqual('Wrong officers');
+    expect(log.previous_status).toEqual('DISPOSISI_TO_KAUR_AKADEMIK');
+    expect(log.new_status).toEqual('FORWARDED_TO_DEKAN');
+  });
+
+  it('should let the Dean dispose the request again', async () => {
+    await withdrawDisposition({ request_id: letterRequest.id, expected_version: 2 }, dekanUser.id);
+
+    await createDisposition({
+      request_id: letterRequest.id,
+      expected_version: 3,
+      instructions: 'Second attempt',
+      assignments: [{ user_id: kaurUser.id, order_sequence: 1 }]
+    }, dekanUser.id);
+
+    const requests = await db.select()
+      .from(letterRequestsTable)
+      .where(eq(letterRequestsTable.id, letterRequest.id))
+      .execute();
+    expect(requests[0].status).toEqual('DISPOSISI_TO_KAUR_AKADEMIK');
+    expect(requests[0].current_handler_user_id).toEqual(kaurUser.id);
+  });
+
+  it('should keep the Dean\'s withdrawals and amendments out of updateRequestStatus', () => {
+    expect(findTransition('DISPOSISI_TO_WD1', 'FORWARDED_TO_DEKAN', 'DEKAN')?.procedure).toEqual('withdrawDisposition');
+    expect(findTransition('DISPOSISI_TO_WD1', 'DISPOSISI_TO_KAUR_AKADEMIK', 'DEKAN')?.procedure)
+      .toEqual('reassignDisposition, addDispositionStep or removeDispositionStep');
+  });
+
+  it('should reject anyone but the Dean', async () => {
+    await expect(withdrawDisposition({ request_id: letterRequest.id, expected_version: 2 }, wd1User.id))
+      .rejects.toThrow(/Only Dekan can change disposition assignments/);
+  });
+
+  it('should reject requests that are not in disposition', async () => {
+    await withdrawDisposition({ request_id: letterRequest.id, expected_version: 2 }, dekanUser.id);
+
+    await expect(withdrawDisposition({ request_id: letterRequest.id, expected_version: 3 }, dekanUser.id))
+      .rejects.toThrow(/Letter request is not in disposition. Current status: FORWARDED_TO_DEKAN/);
+  });
+});